@@ -0,0 +1,24 @@
+/**
+ * Analytics Page
+ *
+ * Utilization, appointment type mix, no-show and cancellation rates and
+ * peak hours per doctor. The date range and specialty live in the URL
+ * (e.g. /analytics?from=2024-01-01&to=2024-01-31&specialty=cardiology).
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { AppShell } from '@/components/AppShell';
+import { AnalyticsDashboard } from '@/components/AnalyticsDashboard';
+
+export default function AnalyticsPage() {
+  return (
+    <AppShell icon={BarChart3} title="Analytics" subtitle="How busy each doctor is and how bookings turn out" signOutHref="/analytics">
+      <Suspense>
+        <AnalyticsDashboard />
+      </Suspense>
+    </AppShell>
+  );
+}
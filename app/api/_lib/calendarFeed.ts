@@ -0,0 +1,73 @@
+/**
+ * Calendar feed tokens
+ *
+ * Calendar clients poll the .ics feed without session headers, so the feed
+ * URL carries a token instead: an HMAC of the doctor and the role of the
+ * user who created it. The token never expires, which keeps the URL stable;
+ * changing CALENDAR_FEED_SECRET revokes every feed at once. Without the
+ * secret, feeds only work in development (503 otherwise).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Session, UserRole } from '@/types';
+import { ROLE_LABELS } from '@/services/session';
+import { ServiceUnavailableError } from './http';
+
+/**
+ * Secret used when CALENDAR_FEED_SECRET isn't set, in development only
+ */
+const DEVELOPMENT_FEED_SECRET = 'development-calendar-feed-secret';
+
+const USER_ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+/**
+ * Signing secret from CALENDAR_FEED_SECRET
+ *
+ * Anyone who knows the secret can sign a feed for any doctor, so outside
+ * development a missing secret disables feeds rather than falling back to
+ * a well-known one.
+ * @throws ServiceUnavailableError if the secret isn't set outside development
+ */
+function getFeedSecret(): string {
+  const secret = process.env.CALENDAR_FEED_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') return DEVELOPMENT_FEED_SECRET;
+  throw new ServiceUnavailableError('Calendar feeds are disabled until CALENDAR_FEED_SECRET is set');
+}
+
+/**
+ * Sign a doctor's feed for a role
+ * @throws ServiceUnavailableError if no signing secret is configured
+ */
+function signFeed(doctorId: string, role: UserRole): string {
+  return createHmac('sha256', getFeedSecret()).update(`${doctorId}:${role}`).digest('base64url');
+}
+
+/**
+ * Build the feed URL for a doctor, signed for the session's role
+ * @param origin - Origin the API is served from (e.g. https://clinic.example)
+ * @throws ServiceUnavailableError if no signing secret is configured
+ */
+export function getCalendarFeedUrl(origin: string, doctorId: string, session: Session): string {
+  const params = new URLSearchParams({ role: session.role, token: signFeed(doctorId, session.role) });
+  return `${origin}/api/doctors/${encodeURIComponent(doctorId)}/calendar.ics?${params}`;
+}
+
+/**
+ * Recover the session a feed URL was created for
+ * @returns The session, or null if the role or token is invalid
+ * @throws ServiceUnavailableError if no signing secret is configured
+ */
+export function sessionFromFeedParams(doctorId: string, params: URLSearchParams): Session | null {
+  const role = params.get('role') as UserRole | null;
+  const token = params.get('token');
+  if (!role || !USER_ROLES.includes(role) || !token) return null;
+
+  const expected = Buffer.from(signFeed(doctorId, role));
+  const actual = Buffer.from(token);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return role === 'doctor'
+    ? { name: 'Calendar feed', role, doctorId }
+    : { name: 'Calendar feed', role };
+}
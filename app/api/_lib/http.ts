@@ -0,0 +1,597 @@
+/**
+ * API helpers
+ *
+ * Shared by the route handlers under app/api: the per-request service
+ * (scoped to the caller's session), request parsing/validation and
+ * structured JSON error responses.
+ */
+
+import { NextResponse } from 'next/server';
+import type {
+  Appointment,
+  AppointmentFilters,
+  AppointmentSeries,
+  AppointmentStatus,
+  AppointmentType,
+  DayOfWeek,
+  OutboxFilters,
+  OutboxMessageStatus,
+  ScheduleExceptionKind,
+  SeriesEditScope,
+  Session,
+  Specialty,
+  WaitlistEntry,
+  WaitlistEntryStatus,
+  WaitlistPriority,
+} from '@/types';
+import {
+  APPOINTMENT_STATUS_CONFIG,
+  APPOINTMENT_TYPE_CONFIG,
+  OUTBOX_STATUS_LABELS,
+  SPECIALTY_LABELS,
+  WAITLIST_PRIORITY_LABELS,
+} from '@/types';
+import { AppointmentService } from '@/services/appointmentService';
+import {
+  AccessDeniedError,
+  AppointmentNotFoundError,
+  AppointmentValidationError,
+  AuthenticationRequiredError,
+  FreedSlotNotFoundError,
+  OutboxMessageNotFoundError,
+  ScheduleExceptionNotFoundError,
+  SeriesNotFoundError,
+  WaitlistEntryNotFoundError,
+} from '@/services/errors';
+import type { AppointmentSearchOptions, CreateScheduleExceptionInput } from '@/services/appointmentService';
+import { SCHEDULE_EXCEPTION_KIND_LABELS } from '@/services/scheduleExceptions';
+import { WEEKDAY_CODES, parseRecurrenceRule } from '@/services/recurrence';
+import { InMemoryAppointmentRepository, type ApiErrorBody } from '@/services/repositories';
+import { sessionFromHeaders } from '@/services/session';
+
+/**
+ * Storage backing the API
+ *
+ * Always server-side; the HTTP adapter would call itself.
+ */
+const apiRepository = new InMemoryAppointmentRepository();
+
+/**
+ * Service for one request, applying the role rules of the caller's session
+ *
+ * `allowAnonymous` is for the few public reads (the doctor list shown on
+ * the sign-in screen); everything else requires a session.
+ * @throws AuthenticationRequiredError if the request carries no valid session headers
+ */
+export function getRequestService(
+  request: Request,
+  { allowAnonymous = false }: { allowAnonymous?: boolean } = {}
+): AppointmentService {
+  const session = sessionFromHeaders(request.headers);
+  if (!session && !allowAnonymous) {
+    throw new AuthenticationRequiredError();
+  }
+  return getSessionService(session);
+}
+
+/**
+ * Service applying the role rules of a session that didn't come from
+ * request headers (e.g. one recovered from a calendar feed token)
+ */
+export function getSessionService(session: Session | null): AppointmentService {
+  return new AppointmentService(apiRepository, session);
+}
+
+/**
+ * Error for malformed requests (bad query params or body fields)
+ */
+export class BadRequestError extends Error {
+  readonly fields: Record<string, string>;
+
+  constructor(fields: Record<string, string>) {
+    super('Invalid request');
+    this.name = 'BadRequestError';
+    this.fields = fields;
+  }
+}
+
+/**
+ * Error for features the server isn't configured for (e.g. a missing secret)
+ */
+export class ServiceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Build a structured JSON error response
+ */
+export function errorResponse(status: number, error: ApiErrorBody['error']): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Map a thrown error to the matching HTTP response
+ */
+export function handleError(err: unknown): NextResponse<ApiErrorBody> {
+  if (err instanceof BadRequestError) {
+    return errorResponse(400, { code: 'invalid-request', message: err.message, fields: err.fields });
+  }
+  if (err instanceof AppointmentValidationError) {
+    return errorResponse(422, { code: err.code, message: err.message, conflicts: err.conflicts });
+  }
+  if (
+    err instanceof AppointmentNotFoundError ||
+    err instanceof SeriesNotFoundError ||
+    err instanceof ScheduleExceptionNotFoundError ||
+    err instanceof WaitlistEntryNotFoundError ||
+    err instanceof FreedSlotNotFoundError ||
+    err instanceof OutboxMessageNotFoundError
+  ) {
+    return errorResponse(404, { code: err.code, message: err.message });
+  }
+  if (err instanceof AuthenticationRequiredError) {
+    return errorResponse(401, { code: err.code, message: err.message });
+  }
+  if (err instanceof AccessDeniedError) {
+    return errorResponse(403, { code: err.code, message: err.message });
+  }
+  if (err instanceof ServiceUnavailableError) {
+    return errorResponse(503, { code: 'service-unavailable', message: err.message });
+  }
+
+  console.error(err);
+  return errorResponse(500, { code: 'internal-error', message: 'Something went wrong' });
+}
+
+/**
+ * 404 response for a missing resource
+ */
+export function notFound(resource: string, id: string): NextResponse<ApiErrorBody> {
+  return errorResponse(404, { code: 'not-found', message: `${resource} ${id} not found` });
+}
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+const APPOINTMENT_STATUSES = Object.keys(APPOINTMENT_STATUS_CONFIG) as AppointmentStatus[];
+
+/**
+ * Parse every AppointmentFilters field from query params
+ * @throws BadRequestError listing each invalid param
+ */
+export function parseAppointmentFilters(params: URLSearchParams): AppointmentFilters {
+  const filters: AppointmentFilters = {};
+  const fields: Record<string, string> = {};
+
+  const doctorId = params.get('doctorId');
+  if (doctorId) filters.doctorId = doctorId;
+
+  const patientId = params.get('patientId');
+  if (patientId) filters.patientId = patientId;
+
+  const seriesId = params.get('seriesId');
+  if (seriesId) filters.seriesId = seriesId;
+
+  (['date', 'startDate', 'endDate'] as const).forEach((key) => {
+    const value = params.get(key);
+    if (!value) return;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) fields[key] = 'Must be an ISO date';
+    else filters[key] = date;
+  });
+
+  // Types and statuses may list several values, comma-separated
+  const types = params.get('type')?.split(',').filter(Boolean) ?? [];
+  if (types.length > 0) {
+    if (types.every((type) => APPOINTMENT_TYPES.includes(type as AppointmentType))) {
+      filters.type = types as AppointmentType[];
+    } else {
+      fields.type = `Must be one or more of: ${APPOINTMENT_TYPES.join(', ')}`;
+    }
+  }
+
+  const statuses = params.get('status')?.split(',').filter(Boolean) ?? [];
+  if (statuses.length > 0) {
+    if (statuses.every((status) => APPOINTMENT_STATUSES.includes(status as AppointmentStatus))) {
+      filters.status = statuses as AppointmentStatus[];
+    } else {
+      fields.status = `Must be one or more of: ${APPOINTMENT_STATUSES.join(', ')}`;
+    }
+  }
+
+  (['minDuration', 'maxDuration'] as const).forEach((key) => {
+    const value = params.get(key);
+    if (!value) return;
+
+    const minutes = Number(value);
+    if (!Number.isInteger(minutes) || minutes < 0) fields[key] = 'Must be a whole number of minutes';
+    else filters[key] = minutes;
+  });
+
+  if (
+    filters.minDuration !== undefined &&
+    filters.maxDuration !== undefined &&
+    filters.minDuration > filters.maxDuration
+  ) {
+    fields.maxDuration = 'Must not be less than minDuration';
+  }
+
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    fields.endDate = 'Must not be before startDate';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return filters;
+}
+
+/**
+ * Read a JSON object body
+ * @throws BadRequestError if the body isn't a JSON object
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body: unknown = await request.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestError({ body: 'Must be a JSON object' });
+}
+
+/**
+ * Validate appointment fields in a request body
+ *
+ * With `partial`, only the fields present are checked (for updates);
+ * otherwise everything needed to book an appointment is required.
+ * @throws BadRequestError listing each invalid field
+ */
+export function parseAppointmentBody(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): Partial<Omit<Appointment, 'id'>> {
+  const result: Partial<Omit<Appointment, 'id'>> = {};
+  const fields: Record<string, string> = {};
+
+  const requireString = (key: 'patientId' | 'doctorId') => {
+    const value = body[key];
+    if (value === undefined && partial) return;
+    if (typeof value !== 'string' || !value) fields[key] = 'Required';
+    else result[key] = value;
+  };
+
+  const requireDate = (key: 'startTime' | 'endTime') => {
+    const value = body[key];
+    if (value === undefined && partial) return;
+    if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+      fields[key] = 'Must be an ISO datetime';
+    } else {
+      result[key] = new Date(value).toISOString();
+    }
+  };
+
+  requireString('patientId');
+  requireString('doctorId');
+  requireDate('startTime');
+  requireDate('endTime');
+
+  if (body.type !== undefined || !partial) {
+    if (APPOINTMENT_TYPES.includes(body.type as AppointmentType)) result.type = body.type as AppointmentType;
+    else fields.type = `Must be one of: ${APPOINTMENT_TYPES.join(', ')}`;
+  }
+
+  if (body.status !== undefined) {
+    if (APPOINTMENT_STATUSES.includes(body.status as AppointmentStatus)) result.status = body.status as AppointmentStatus;
+    else fields.status = `Must be one of: ${APPOINTMENT_STATUSES.join(', ')}`;
+  }
+
+  if (body.notes !== undefined && body.notes !== null) {
+    if (typeof body.notes === 'string') result.notes = body.notes;
+    else fields.notes = 'Must be a string';
+  }
+
+  // Set for edited occurrences of a recurring series
+  if (body.seriesId !== undefined) {
+    if (typeof body.seriesId === 'string' && body.seriesId) result.seriesId = body.seriesId;
+    else fields.seriesId = 'Must be a series ID';
+  }
+  if (body.occurrenceDate !== undefined) {
+    if (typeof body.occurrenceDate === 'string' && OCCURRENCE_DATE_PATTERN.test(body.occurrenceDate)) {
+      result.occurrenceDate = body.occurrenceDate;
+    } else {
+      fields.occurrenceDate = 'Must be a YYYY-MM-DD date';
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return result;
+}
+
+const OCCURRENCE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const SERIES_EDIT_SCOPES: SeriesEditScope[] = ['this', 'following', 'all'];
+
+/**
+ * Parse the `q` and `limit` query params of an appointment search
+ * @throws BadRequestError listing each invalid param
+ */
+export function parseAppointmentSearchParams(params: URLSearchParams): AppointmentSearchOptions {
+  const fields: Record<string, string> = {};
+
+  const query = params.get('q')?.trim() ?? '';
+  if (!query) fields.q = 'Required';
+
+  const options: AppointmentSearchOptions = { query };
+  const limit = params.get('limit');
+  if (limit) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1) fields.limit = 'Must be a positive whole number';
+    else options.limit = value;
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return options;
+}
+
+/**
+ * Parse the `scope` query param of changes to a series occurrence
+ * (defaults to 'this': only the given occurrence)
+ * @throws BadRequestError for an unknown scope
+ */
+export function parseEditScope(params: URLSearchParams): SeriesEditScope {
+  const scope = params.get('scope');
+  if (!scope) return 'this';
+  if (SERIES_EDIT_SCOPES.includes(scope as SeriesEditScope)) return scope as SeriesEditScope;
+  throw new BadRequestError({ scope: `Must be one of: ${SERIES_EDIT_SCOPES.join(', ')}` });
+}
+
+/**
+ * Validate recurring series fields in a request body
+ *
+ * Takes the appointment fields of the first occurrence plus `rule`, either
+ * as an object or an RRULE string (e.g. "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10"),
+ * and optional `exceptionDates`. With `partial`, only the fields present are checked.
+ * @throws BadRequestError listing each invalid field
+ */
+export function parseSeriesBody(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): Partial<Omit<AppointmentSeries, 'id'>> {
+  const fields: Record<string, string> = {};
+  let appointmentFields: Partial<Omit<Appointment, 'id'>> = {};
+  try {
+    appointmentFields = parseAppointmentBody(body, { partial });
+  } catch (err) {
+    if (!(err instanceof BadRequestError)) throw err;
+    Object.assign(fields, err.fields);
+  }
+
+  // Series have no status or occurrence of their own
+  const result: Partial<Omit<AppointmentSeries, 'id'>> = {};
+  if (appointmentFields.patientId !== undefined) result.patientId = appointmentFields.patientId;
+  if (appointmentFields.doctorId !== undefined) result.doctorId = appointmentFields.doctorId;
+  if (appointmentFields.type !== undefined) result.type = appointmentFields.type;
+  if (appointmentFields.startTime !== undefined) result.startTime = appointmentFields.startTime;
+  if (appointmentFields.endTime !== undefined) result.endTime = appointmentFields.endTime;
+  if (appointmentFields.notes !== undefined) result.notes = appointmentFields.notes;
+
+  if (body.rule !== undefined || !partial) {
+    const rule = typeof body.rule === 'string'
+      ? parseRecurrenceRule(body.rule)
+      : body.rule && typeof body.rule === 'object'
+        ? parseRecurrenceRule(toRecurrenceRuleString(body.rule as Record<string, unknown>))
+        : null;
+    if (rule) result.rule = rule;
+    else fields.rule = 'Must be a supported recurrence rule (daily or weekly)';
+  }
+
+  if (body.exceptionDates !== undefined) {
+    if (Array.isArray(body.exceptionDates) && body.exceptionDates.every((date) => typeof date === 'string' && OCCURRENCE_DATE_PATTERN.test(date))) {
+      result.exceptionDates = body.exceptionDates as string[];
+    } else {
+      fields.exceptionDates = 'Must be a list of YYYY-MM-DD dates';
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return result;
+}
+
+/**
+ * RRULE string for a rule given as a JSON object, so both forms go through
+ * the same parser and checks
+ */
+function toRecurrenceRuleString(rule: Record<string, unknown>): string {
+  const parts = [`FREQ=${String(rule.frequency)}`];
+  if (rule.interval !== undefined) parts.push(`INTERVAL=${String(rule.interval)}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${String(rule.count)}`);
+  if (rule.until !== undefined) {
+    const until = new Date(String(rule.until));
+    parts.push(`UNTIL=${isNaN(until.getTime()) ? 'invalid' : until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  if (Array.isArray(rule.byDay)) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAY_CODES[day as DayOfWeek] ?? 'invalid').join(',')}`);
+  }
+  return parts.join(';');
+}
+
+const SCHEDULE_EXCEPTION_KINDS = Object.keys(SCHEDULE_EXCEPTION_KIND_LABELS) as ScheduleExceptionKind[];
+
+/**
+ * Validate schedule exception fields in a request body
+ *
+ * Checks the shape of each field; whether the dates and times make sense
+ * together is left to the service.
+ * @throws BadRequestError listing each invalid field
+ */
+export function parseScheduleExceptionBody(body: Record<string, unknown>): CreateScheduleExceptionInput {
+  const fields: Record<string, string> = {};
+
+  if (typeof body.doctorId !== 'string' || !body.doctorId) fields.doctorId = 'Required';
+  if (!SCHEDULE_EXCEPTION_KINDS.includes(body.kind as ScheduleExceptionKind)) {
+    fields.kind = `Must be one of: ${SCHEDULE_EXCEPTION_KINDS.join(', ')}`;
+  }
+
+  (['startDate', 'endDate'] as const).forEach((key) => {
+    if (typeof body[key] !== 'string' || !OCCURRENCE_DATE_PATTERN.test(body[key] as string)) {
+      fields[key] = 'Must be a YYYY-MM-DD date';
+    }
+  });
+
+  (['start', 'end'] as const).forEach((key) => {
+    if (body[key] !== undefined && typeof body[key] !== 'string') fields[key] = 'Must be an HH:MM time';
+  });
+
+  if (body.reason !== undefined && body.reason !== null && typeof body.reason !== 'string') {
+    fields.reason = 'Must be a string';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return {
+    doctorId: body.doctorId as string,
+    kind: body.kind as ScheduleExceptionKind,
+    startDate: body.startDate as string,
+    endDate: body.endDate as string,
+    ...(body.start !== undefined && { start: body.start as string }),
+    ...(body.end !== undefined && { end: body.end as string }),
+    ...(typeof body.reason === 'string' && { reason: body.reason }),
+  };
+}
+
+const SPECIALTIES = Object.keys(SPECIALTY_LABELS) as Specialty[];
+const WAITLIST_PRIORITIES = Object.keys(WAITLIST_PRIORITY_LABELS) as WaitlistPriority[];
+const WAITLIST_STATUSES: WaitlistEntryStatus[] = ['waiting', 'booked'];
+
+/**
+ * Validate waitlist entry fields in a request body
+ *
+ * With `partial`, only the fields present are checked (for updates);
+ * otherwise everything needed to add an entry is required. Whether the
+ * dates make sense together is left to the service.
+ * @throws BadRequestError listing each invalid field
+ */
+export function parseWaitlistEntryBody(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): Partial<Omit<WaitlistEntry, 'id' | 'createdAt'>> {
+  const result: Partial<Omit<WaitlistEntry, 'id' | 'createdAt'>> = {};
+  const fields: Record<string, string> = {};
+
+  if (body.patientId !== undefined || !partial) {
+    if (typeof body.patientId === 'string' && body.patientId) result.patientId = body.patientId;
+    else fields.patientId = 'Required';
+  }
+
+  // Optional: no doctor or specialty means any doctor
+  if (body.doctorId !== undefined && body.doctorId !== null) {
+    if (typeof body.doctorId === 'string') result.doctorId = body.doctorId || undefined;
+    else fields.doctorId = 'Must be a doctor ID';
+  }
+  if (body.specialty !== undefined && body.specialty !== null) {
+    if (SPECIALTIES.includes(body.specialty as Specialty)) result.specialty = body.specialty as Specialty;
+    else fields.specialty = `Must be one of: ${SPECIALTIES.join(', ')}`;
+  }
+
+  if (body.type !== undefined || !partial) {
+    if (APPOINTMENT_TYPES.includes(body.type as AppointmentType)) result.type = body.type as AppointmentType;
+    else fields.type = `Must be one of: ${APPOINTMENT_TYPES.join(', ')}`;
+  }
+
+  (['earliestDate', 'latestDate'] as const).forEach((key) => {
+    if (body[key] === undefined && partial) return;
+    if (typeof body[key] === 'string' && OCCURRENCE_DATE_PATTERN.test(body[key] as string)) {
+      result[key] = body[key] as string;
+    } else {
+      fields[key] = 'Must be a YYYY-MM-DD date';
+    }
+  });
+
+  if (body.priority !== undefined || !partial) {
+    if (WAITLIST_PRIORITIES.includes(body.priority as WaitlistPriority)) result.priority = body.priority as WaitlistPriority;
+    else fields.priority = `Must be one of: ${WAITLIST_PRIORITIES.join(', ')}`;
+  }
+
+  if (body.status !== undefined) {
+    if (WAITLIST_STATUSES.includes(body.status as WaitlistEntryStatus)) result.status = body.status as WaitlistEntryStatus;
+    else fields.status = `Must be one of: ${WAITLIST_STATUSES.join(', ')}`;
+  }
+
+  if (body.appointmentId !== undefined && body.appointmentId !== null) {
+    if (typeof body.appointmentId === 'string' && body.appointmentId) result.appointmentId = body.appointmentId;
+    else fields.appointmentId = 'Must be an appointment ID';
+  }
+
+  if (body.notes !== undefined && body.notes !== null) {
+    if (typeof body.notes === 'string') result.notes = body.notes;
+    else fields.notes = 'Must be a string';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return result;
+}
+
+/**
+ * Parse the doctor and start time of a slot to book or offer
+ * (`startTime`, and `endTime` when `withEnd` is set, as ISO datetimes)
+ * @throws BadRequestError listing each invalid field
+ */
+export function parseWaitlistSlot(
+  source: Record<string, unknown>,
+  { withEnd }: { withEnd: boolean }
+): { doctorId: string; startTime: string; endTime?: string } {
+  const fields: Record<string, string> = {};
+
+  if (typeof source.doctorId !== 'string' || !source.doctorId) fields.doctorId = 'Required';
+
+  const keys = withEnd ? (['startTime', 'endTime'] as const) : (['startTime'] as const);
+  keys.forEach((key) => {
+    if (typeof source[key] !== 'string' || isNaN(new Date(source[key] as string).getTime())) {
+      fields[key] = 'Must be an ISO datetime';
+    }
+  });
+
+  if (Object.keys(fields).length > 0) {
+    throw new BadRequestError(fields);
+  }
+  return {
+    doctorId: source.doctorId as string,
+    startTime: new Date(source.startTime as string).toISOString(),
+    ...(withEnd && { endTime: new Date(source.endTime as string).toISOString() }),
+  };
+}
+
+const OUTBOX_STATUSES = Object.keys(OUTBOX_STATUS_LABELS) as OutboxMessageStatus[];
+
+/**
+ * Parse outbox filters (`appointmentId`, `status`) from query params
+ * @throws BadRequestError listing each invalid param
+ */
+export function parseOutboxFilters(params: URLSearchParams): OutboxFilters {
+  const filters: OutboxFilters = {};
+  const appointmentId = params.get('appointmentId');
+  const status = params.get('status');
+
+  if (appointmentId) filters.appointmentId = appointmentId;
+  if (status) {
+    if (!OUTBOX_STATUSES.includes(status as OutboxMessageStatus)) {
+      throw new BadRequestError({ status: `Must be one of: ${OUTBOX_STATUSES.join(', ')}` });
+    }
+    filters.status = status as OutboxMessageStatus;
+  }
+  return filters;
+}
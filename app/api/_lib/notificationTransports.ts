@@ -0,0 +1,90 @@
+/**
+ * Notification transports
+ *
+ * Where the API delivers outbox messages, chosen per channel by
+ * environment variables:
+ * - NOTIFICATION_EMAIL_TRANSPORT: 'file' (default), 'console' or 'smtp'
+ * - NOTIFICATION_SMS_TRANSPORT: 'file' (default) or 'console'
+ * - NOTIFICATION_OUTBOX_FILE: JSON lines file the 'file' transport appends
+ *   to (default .outbox/messages.jsonl)
+ * - SMTP_HOST, SMTP_PORT, SMTP_FROM: relay for 'smtp' (default
+ *   localhost:1025, where fake SMTP servers usually listen)
+ *
+ * No SMS gateway is wired up yet, so text messages only go to the file or
+ * the console.
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import type { OutboxMessage } from '@/types';
+import type { NotificationTransport, NotificationTransports } from '@/services/notifications';
+import { sendMail, type SmtpOptions } from './smtp';
+
+const DEFAULT_OUTBOX_FILE = '.outbox/messages.jsonl';
+
+/**
+ * Transport that logs each message to the server console
+ */
+export function createConsoleTransport(): NotificationTransport {
+  return {
+    name: 'console',
+    async send(message: OutboxMessage) {
+      const heading = `[${message.channel}] to ${message.to}${message.subject ? `: ${message.subject}` : ''}`;
+      console.info(`${heading}\n${message.body}\n`);
+    },
+  };
+}
+
+/**
+ * Transport that appends each message, with its delivery time, to a JSON lines file
+ */
+export function createFileTransport(path: string): NotificationTransport {
+  const file = resolve(path);
+  return {
+    name: 'file',
+    async send(message: OutboxMessage) {
+      await mkdir(dirname(file), { recursive: true });
+      await appendFile(file, `${JSON.stringify({ deliveredAt: new Date().toISOString(), ...message })}\n`, 'utf8');
+    },
+  };
+}
+
+/**
+ * Transport that emails messages through an SMTP server
+ */
+export function createSmtpTransport(options: SmtpOptions): NotificationTransport {
+  return {
+    name: 'smtp',
+    async send(message: OutboxMessage) {
+      if (message.channel !== 'email') {
+        throw new Error(`SMTP can't send ${message.channel} messages`);
+      }
+      await sendMail(options, { to: message.to, subject: message.subject ?? '', text: message.body });
+    },
+  };
+}
+
+/**
+ * Transports for each channel, as configured by the environment
+ */
+export function getNotificationTransports(): NotificationTransports {
+  const fileTransport = createFileTransport(process.env.NOTIFICATION_OUTBOX_FILE || DEFAULT_OUTBOX_FILE);
+  const consoleTransport = createConsoleTransport();
+
+  const emailKind = process.env.NOTIFICATION_EMAIL_TRANSPORT || 'file';
+  const email =
+    emailKind === 'smtp'
+      ? createSmtpTransport({
+          host: process.env.SMTP_HOST || 'localhost',
+          port: Number(process.env.SMTP_PORT) || 1025,
+          from: process.env.SMTP_FROM || 'appointments@clinic.example',
+        })
+      : emailKind === 'console'
+        ? consoleTransport
+        : fileTransport;
+
+  return {
+    email,
+    sms: process.env.NOTIFICATION_SMS_TRANSPORT === 'console' ? consoleTransport : fileTransport,
+  };
+}
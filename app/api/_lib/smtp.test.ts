@@ -0,0 +1,154 @@
+/**
+ * SMTP client against a local fake server that records the session
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SmtpError, sendMail, type SmtpOptions } from './smtp';
+
+interface FakeSession {
+  commands: string[];
+  data: string[];
+}
+
+/**
+ * Start a fake SMTP server on a free port
+ * @param reply - Reply to a command, or undefined for the usual success reply
+ * @param greet - Whether to send the 220 greeting (false to test timeouts)
+ */
+async function startFakeServer(
+  reply: (command: string) => string | undefined = () => undefined,
+  greet = true
+): Promise<{ server: Server; port: number; sessions: FakeSession[] }> {
+  const sessions: FakeSession[] = [];
+
+  const server = createServer((socket: Socket) => {
+    const session: FakeSession = { commands: [], data: [] };
+    sessions.push(session);
+    socket.setEncoding('utf8');
+    if (greet) socket.write('220 fake.example ESMTP\r\n');
+
+    let buffer = '';
+    let inData = false;
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end = buffer.indexOf('\r\n');
+      while (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf('\r\n');
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 2.0.0 Queued\r\n');
+          } else {
+            session.data.push(line);
+          }
+          continue;
+        }
+
+        session.commands.push(line);
+        const custom = reply(line);
+        if (custom) socket.write(`${custom}\r\n`);
+        else if (line.startsWith('EHLO')) socket.write('250-fake.example\r\n250 8BITMIME\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, sessions };
+}
+
+let running: Server | null = null;
+
+afterEach(async () => {
+  const server = running;
+  running = null;
+  if (server) await new Promise((resolve) => server.close(resolve));
+});
+
+const options = (port: number): SmtpOptions => ({
+  host: '127.0.0.1',
+  port,
+  from: 'appointments@clinic.example',
+  heloName: 'clinic.example',
+  timeoutMs: 2000,
+});
+
+describe('sendMail', () => {
+  it('sends one message through EHLO, MAIL, RCPT, DATA and QUIT', async () => {
+    const fake = await startFakeServer();
+    running = fake.server;
+
+    await sendMail(options(fake.port), {
+      to: 'jane@patient.example',
+      subject: 'Appointment booked',
+      text: 'Dear Jane,\nSee you soon.',
+    });
+
+    const [session] = fake.sessions;
+    expect(session.commands).toEqual([
+      'EHLO clinic.example',
+      'MAIL FROM:<appointments@clinic.example>',
+      'RCPT TO:<jane@patient.example>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(session.data).toContain('To: <jane@patient.example>');
+    expect(session.data).toContain('Subject: Appointment booked');
+    expect(session.data).toContain('Content-Transfer-Encoding: base64');
+
+    const body = session.data.slice(session.data.indexOf('') + 1).join('');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Dear Jane,\r\nSee you soon.');
+  });
+
+  it('encodes a non-ASCII subject as RFC 2047 UTF-8', async () => {
+    const fake = await startFakeServer();
+    running = fake.server;
+
+    await sendMail(options(fake.port), { to: 'jose@patient.example', subject: 'Cita con el Dr. Muñoz', text: 'Hola' });
+
+    const subject = fake.sessions[0].data.find((line) => line.startsWith('Subject: '));
+    expect(subject).toBe(`Subject: =?UTF-8?B?${Buffer.from('Cita con el Dr. Muñoz', 'utf8').toString('base64')}?=`);
+  });
+
+  it('rejects with the reply code when the server refuses the recipient', async () => {
+    const fake = await startFakeServer((command) =>
+      command.startsWith('RCPT TO:') ? '550 5.1.1 No such user' : undefined
+    );
+    running = fake.server;
+
+    const error = await sendMail(options(fake.port), { to: 'nobody@patient.example', subject: 'Hi', text: 'Hi' }).catch(
+      (err: unknown) => err
+    );
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect((error as SmtpError).replyCode).toBe(550);
+    expect(fake.sessions[0].commands).not.toContain('DATA');
+  });
+
+  it('gives up when the server goes quiet', async () => {
+    const fake = await startFakeServer(undefined, false);
+    running = fake.server;
+
+    await expect(
+      sendMail({ ...options(fake.port), timeoutMs: 100 }, { to: 'jane@patient.example', subject: 'Hi', text: 'Hi' })
+    ).rejects.toThrow('SMTP server timed out');
+  });
+
+  it('refuses malformed addresses without connecting', async () => {
+    const fake = await startFakeServer();
+    running = fake.server;
+
+    await expect(
+      sendMail(options(fake.port), { to: 'jane@patient.example\r\nRCPT TO:<x@y.example>', subject: 'Hi', text: 'Hi' })
+    ).rejects.toBeInstanceOf(SmtpError);
+    expect(fake.sessions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * SMTP client
+ *
+ * Just enough SMTP to hand one plain-text email per connection to a relay,
+ * or to a local fake server (MailHog, Mailpit, smtp4dev) in development.
+ * There's no TLS or authentication, so only point it at a relay on a
+ * network you trust.
+ */
+
+import { randomUUID } from 'crypto';
+import { connect, type Socket } from 'net';
+import { hostname } from 'os';
+
+/**
+ * Where and as whom to send
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  from: string;        // Envelope and header sender address
+  heloName?: string;   // Name announced in EHLO (default: this machine's host name)
+  timeoutMs?: number;  // Idle time before giving up (default 10 seconds)
+}
+
+/**
+ * Plain-text email
+ */
+export interface SmtpMail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Error thrown when the server refuses a command or the connection fails
+ */
+export class SmtpError extends Error {
+  readonly replyCode?: number;
+
+  constructor(message: string, replyCode?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.replyCode = replyCode;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const ADDRESS_PATTERN = /^[^\s<>@]+@[^\s<>@]+$/;
+
+/**
+ * Server reply: the code and the text of all its lines
+ */
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Collect the server's replies as they arrive
+ * @returns Function resolving with the next reply
+ */
+function createReplyReader(socket: Socket): () => Promise<SmtpReply> {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }> = [];
+
+  const flush = () => {
+    while (replies.length > 0 && waiting.length > 0) waiting.shift()!.resolve(replies.shift()!);
+    while (failure && waiting.length > 0) waiting.shift()!.reject(failure);
+  };
+  const fail = (err: Error) => {
+    failure = failure ?? err;
+    flush();
+  };
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let end = buffer.indexOf('\n');
+    while (end !== -1) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      lines.push(line);
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.map((part) => part.slice(4)).join('\n') });
+        lines = [];
+      }
+      end = buffer.indexOf('\n');
+    }
+    flush();
+  });
+  socket.on('error', (err) => fail(new SmtpError(`SMTP connection failed: ${err.message}`)));
+  socket.on('timeout', () => {
+    fail(new SmtpError('SMTP server timed out'));
+    socket.destroy();
+  });
+  socket.on('close', () => fail(new SmtpError('SMTP server closed the connection')));
+
+  return () =>
+    new Promise((resolve, reject) => {
+      waiting.push({ resolve, reject });
+      flush();
+    });
+}
+
+/**
+ * Remove line breaks from a header value, so it can't add headers of its own
+ */
+function toHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Encode a header value as RFC 2047 UTF-8 when it isn't plain ASCII
+ */
+function encodeHeaderValue(value: string): string {
+  const clean = toHeaderValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Build the DATA section: headers and a base64 body, ending with the lone "."
+ *
+ * Base64 lines never start with ".", so no dot-stuffing is needed.
+ */
+function formatMessage(options: SmtpOptions, mail: SmtpMail, heloName: string): string {
+  const body = Buffer.from(mail.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  const headers = [
+    `From: <${options.from}>`,
+    `To: <${mail.to}>`,
+    `Subject: ${encodeHeaderValue(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${heloName}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  return [...headers, '', ...(body.match(/.{1,76}/g) ?? []), '.'].join('\r\n');
+}
+
+/**
+ * Send one email
+ * @throws SmtpError if an address is malformed, the server refuses the mail or the connection fails
+ */
+export async function sendMail(options: SmtpOptions, mail: SmtpMail): Promise<void> {
+  if (!ADDRESS_PATTERN.test(options.from)) throw new SmtpError(`Invalid sender address ${options.from}`);
+  if (!ADDRESS_PATTERN.test(mail.to)) throw new SmtpError(`Invalid recipient address ${mail.to}`);
+
+  const heloName = options.heloName ?? hostname();
+  const socket = connect({ host: options.host, port: options.port });
+  socket.setEncoding('utf8');
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const nextReply = createReplyReader(socket);
+
+  const expect = async (...codes: number[]) => {
+    const reply = await nextReply();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.code} ${reply.text}`, reply.code);
+    }
+  };
+  const command = async (line: string, ...codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    await expect(...codes);
+  };
+
+  try {
+    await expect(220);
+    await command(`EHLO ${heloName}`, 250);
+    await command(`MAIL FROM:<${options.from}>`, 250);
+    await command(`RCPT TO:<${mail.to}>`, 250, 251);
+    await command('DATA', 354);
+    await command(formatMessage(options, mail, heloName), 250);
+    await command('QUIT', 221);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * /api/appointments/:id
+ *
+ * GET          - Fetch a single appointment.
+ * PUT / PATCH  - Update fields of an appointment (time, doctor, patient,
+ *                type, notes, status). Status changes must follow the
+ *                lifecycle; returns 422 when validation rejects the change.
+ * DELETE       - Remove an appointment. Returns 204.
+ *
+ * IDs of recurring series occurrences are accepted too. For those,
+ * ?scope=following or ?scope=all applies a PUT or DELETE to the following
+ * occurrences or the whole series; such a PUT returns the changed series.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  getRequestService,
+  handleError,
+  notFound,
+  parseAppointmentBody,
+  parseEditScope,
+  readJsonBody,
+} from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const appointment = await service.getAppointmentById(params.id);
+    return appointment ? NextResponse.json(appointment) : notFound('Appointment', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const scope = parseEditScope(request.nextUrl.searchParams);
+    const changes = parseAppointmentBody(await readJsonBody(request), { partial: true });
+
+    if (scope !== 'this') {
+      const { series } = await service.updateSeriesOccurrences(params.id, changes, scope);
+      return NextResponse.json(series);
+    }
+    return NextResponse.json(await service.updateAppointment(params.id, changes));
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export const PATCH = PUT;
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const scope = parseEditScope(request.nextUrl.searchParams);
+
+    if (scope !== 'this') {
+      await service.deleteSeriesOccurrences(params.id, scope);
+    } else {
+      await service.deleteAppointment(params.id);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
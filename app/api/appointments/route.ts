@@ -0,0 +1,52 @@
+/**
+ * /api/appointments
+ *
+ * GET  - List appointments, filtered by any AppointmentFilters field
+ *        (doctorId, patientId, date, startDate, endDate, type, status,
+ *        minDuration, maxDuration, seriesId) as query params; type and
+ *        status take comma-separated lists. Recurring series occurrences
+ *        are included when a date or full date range is given.
+ * POST - Book a new appointment. Returns 201 with the created appointment,
+ *        400 for malformed input or 422 when validation rejects it. With
+ *        ?notify=false the patient gets no confirmation or reminders.
+ *
+ * Both need session headers (401 without); doctor sessions get 403 for
+ * another doctor's schedule.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import type { CreateAppointmentInput } from '@/services/appointmentService';
+import {
+  getRequestService,
+  handleError,
+  parseAppointmentBody,
+  parseAppointmentFilters,
+  readJsonBody,
+} from '../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const filters = parseAppointmentFilters(request.nextUrl.searchParams);
+    const appointments = await service.getAppointments(filters);
+    return NextResponse.json(service.sortAppointmentsByTime(appointments));
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const body = parseAppointmentBody(await readJsonBody(request), { partial: false });
+    const created = await service.createAppointment({
+      ...(body as CreateAppointmentInput),
+      notifyPatient: request.nextUrl.searchParams.get('notify') !== 'false',
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/appointments/search?q=...&limit=...
+ *
+ * Search appointments across all doctors and dates by patient name, email
+ * or phone, notes or appointment ID, tolerating small typos. Returns the
+ * hits best match first, each with its populated appointment, score and
+ * the matched character ranges of each field. Doctor sessions only search
+ * their own appointments.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError, parseAppointmentSearchParams } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const service = getRequestService(request);
+    const options = parseAppointmentSearchParams(new URL(request.url).searchParams);
+    return NextResponse.json(await service.searchAppointments(options));
+  } catch (err) {
+    return handleError(err);
+  }
+}
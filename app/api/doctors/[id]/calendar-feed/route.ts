@@ -0,0 +1,30 @@
+/**
+ * GET /api/doctors/:id/calendar-feed
+ *
+ * Get the subscribable .ics feed URL for a doctor, as `{ url }`.
+ * The URL is signed for the caller's role and stays the same across calls.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, notFound } from '../../../_lib/http';
+import { getCalendarFeedUrl } from '../../../_lib/calendarFeed';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const doctor = await service.getDoctorById(params.id);
+    if (!doctor) return notFound('Doctor', params.id);
+
+    // getRequestService has already required a session
+    const url = getCalendarFeedUrl(request.nextUrl.origin, doctor.id, service.getSession()!);
+    return NextResponse.json({ url });
+  } catch (err) {
+    return handleError(err);
+  }
+}
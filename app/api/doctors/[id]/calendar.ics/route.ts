@@ -0,0 +1,52 @@
+/**
+ * GET /api/doctors/:id/calendar.ics?role=…&token=…
+ *
+ * Subscribable iCalendar feed of a doctor's appointments, from
+ * FEED_WINDOW.pastDays ago to FEED_WINDOW.futureDays ahead. Authenticated
+ * by the signed token from /api/doctors/:id/calendar-feed rather than
+ * session headers, since calendar clients poll it on their own.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { AuthenticationRequiredError } from '@/services/errors';
+import { FEED_WINDOW, ICALENDAR_CONTENT_TYPE, exportDoctorCalendar } from '@/services/calendarExport';
+import { addClinicDays, endOfClinicDay, startOfClinicDay } from '@/services/clinicTime';
+import { getSessionService, handleError, notFound } from '../../../_lib/http';
+import { sessionFromFeedParams } from '../../../_lib/calendarFeed';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = sessionFromFeedParams(params.id, request.nextUrl.searchParams);
+    if (!session) {
+      throw new AuthenticationRequiredError('Invalid calendar feed token');
+    }
+
+    const service = getSessionService(session);
+    const doctor = await service.getDoctorById(params.id);
+    if (!doctor) return notFound('Doctor', params.id);
+
+    const today = new Date();
+    const calendar = await exportDoctorCalendar(
+      doctor,
+      startOfClinicDay(addClinicDays(today, -FEED_WINDOW.pastDays)),
+      endOfClinicDay(addClinicDays(today, FEED_WINDOW.futureDays)),
+      service
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': ICALENDAR_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="schedule.ics"',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+}
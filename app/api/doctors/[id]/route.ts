@@ -0,0 +1,24 @@
+/**
+ * GET /api/doctors/:id
+ *
+ * Fetch a single doctor.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError, notFound } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const doctor = await service.getDoctorById(params.id);
+    return doctor ? NextResponse.json(doctor) : notFound('Doctor', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * GET /api/doctors
+ *
+ * List all doctors. Public, so the sign-in screen can offer them;
+ * a doctor session only sees itself.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError } from '../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const service = getRequestService(request, { allowAnonymous: true });
+    return NextResponse.json(await service.getAllDoctors());
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * /api/notifications/:id
+ *
+ * GET - Fetch an outbox message with its delivery log. Messages are
+ *       read-only here; only delivery (/api/notifications/deliver)
+ *       updates them.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, notFound } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const message = await service.getNotificationById(params.id);
+    return message ? NextResponse.json(message) : notFound('Outbox message', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
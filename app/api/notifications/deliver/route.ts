@@ -0,0 +1,23 @@
+/**
+ * POST /api/notifications/deliver
+ *
+ * Send the outbox messages that are due through the configured transports
+ * (see app/api/_lib/notificationTransports.ts) and return
+ * `{ sent, failed, expired }`. Meant to be called every minute or so by a
+ * scheduler, with front desk session headers; doctor sessions get 403.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError } from '../../_lib/http';
+import { getNotificationTransports } from '../../_lib/notificationTransports';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    return NextResponse.json(await service.deliverDueNotifications(getNotificationTransports()));
+  } catch (err) {
+    return handleError(err);
+  }
+}
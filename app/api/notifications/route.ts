@@ -0,0 +1,28 @@
+/**
+ * /api/notifications
+ *
+ * GET - Inspect the notification outbox, by send time (?appointmentId=,
+ *       ?status=pending|sent|failed|cancelled). Doctor sessions get the
+ *       messages about their own appointments, with addresses masked.
+ *
+ * Needs session headers (401 without). There's no way to queue a message
+ * directly: the appointment routes queue them on the server as bookings
+ * change, from the stored patient's contact details, so callers can't
+ * choose recipients or text. See /api/notifications/deliver for sending
+ * them.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, parseOutboxFilters } from '../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const filters = parseOutboxFilters(request.nextUrl.searchParams);
+    return NextResponse.json(await service.getNotifications(filters));
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * GET /api/patients/:id/appointments
+ *
+ * List a patient's appointments across doctors in start order, including
+ * occurrences of their recurring series up to a year ahead. Doctor sessions
+ * only get their own appointments with the patient.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError, notFound } from '../../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const patient = await service.getPatientById(params.id);
+    if (!patient) return notFound('Patient', params.id);
+
+    return NextResponse.json(await service.getPatientAppointments(params.id));
+  } catch (err) {
+    return handleError(err);
+  }
+}
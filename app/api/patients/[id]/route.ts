@@ -0,0 +1,24 @@
+/**
+ * GET /api/patients/:id
+ *
+ * Fetch a single patient.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError, notFound } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const patient = await service.getPatientById(params.id);
+    return patient ? NextResponse.json(patient) : notFound('Patient', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * GET /api/patients
+ *
+ * List all patients.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError } from '../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const service = getRequestService(request);
+    return NextResponse.json(await service.getAllPatients());
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * /api/schedule-exceptions/:id
+ *
+ * GET    - Fetch a schedule exception.
+ * DELETE - Remove it, restoring the weekly hours on its days. Returns 204.
+ *
+ * Exceptions aren't edited in place; replace one by deleting it and adding another.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, notFound } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const exception = await service.getScheduleExceptionById(params.id);
+    return exception ? NextResponse.json(exception) : notFound('Schedule exception', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    await service.deleteScheduleException(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * /api/schedule-exceptions
+ *
+ * GET  - List dated exceptions to doctors' working hours, optionally of one
+ *        doctor (?doctorId=) and overlapping a date range (?startDate= and
+ *        ?endDate=, ISO dates).
+ * POST - Add an absence, block or extra session. Returns 201 with the
+ *        created exception. Appointments in the time it takes away are kept;
+ *        with ?dryRun=true nothing is saved and the response lists those
+ *        clashing appointments instead.
+ *
+ * Both need session headers (401 without); doctor sessions get 403 for
+ * another doctor's schedule.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  getRequestService,
+  handleError,
+  parseAppointmentFilters,
+  parseScheduleExceptionBody,
+  readJsonBody,
+} from '../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const { doctorId, startDate, endDate } = parseAppointmentFilters(request.nextUrl.searchParams);
+    return NextResponse.json(await service.getScheduleExceptions(doctorId, startDate, endDate));
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const input = parseScheduleExceptionBody(await readJsonBody(request));
+
+    if (request.nextUrl.searchParams.get('dryRun') === 'true') {
+      return NextResponse.json({ clashes: await service.previewScheduleException(input) });
+    }
+
+    const { exception } = await service.addScheduleException(input);
+    return NextResponse.json(exception, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * /api/series/:id
+ *
+ * GET          - Fetch a recurring series.
+ * PUT / PATCH  - Change every occurrence (time, doctor, patient, type,
+ *                notes, rule, exception dates). Upcoming occurrences that
+ *                then conflict are added to `exceptionDates`.
+ * DELETE       - Remove the series and its edited occurrences. Returns 204.
+ *
+ * Single occurrences are changed through /api/appointments/:id, with
+ * ?scope=following or ?scope=all to change the rest of the series too.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, notFound, parseSeriesBody, readJsonBody } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const series = await service.getSeriesById(params.id);
+    return series ? NextResponse.json(series) : notFound('Appointment series', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const changes = parseSeriesBody(await readJsonBody(request), { partial: true });
+    const { series } = await service.updateSeries(params.id, changes);
+    return NextResponse.json(series);
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export const PATCH = PUT;
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    await service.deleteSeries(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
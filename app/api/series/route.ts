@@ -0,0 +1,46 @@
+/**
+ * /api/series
+ *
+ * GET  - List recurring series, optionally of one doctor (?doctorId=).
+ * POST - Book a recurring series. The body holds the first occurrence's
+ *        appointment fields plus `rule` (object or RRULE string). Returns
+ *        201 with the created series; occurrences that conflict with other
+ *        bookings or working hours are left out as `exceptionDates`.
+ *        With ?dryRun=true nothing is booked and the response lists the
+ *        occurrences and their conflicts instead.
+ *
+ * Both need session headers (401 without); doctor sessions get 403 for
+ * another doctor's schedule.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import type { CreateSeriesInput } from '@/services/appointmentService';
+import { getRequestService, handleError, parseSeriesBody, readJsonBody } from '../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const doctorId = request.nextUrl.searchParams.get('doctorId') ?? undefined;
+    return NextResponse.json(await service.getSeries(doctorId));
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const input = parseSeriesBody(await readJsonBody(request), { partial: false }) as CreateSeriesInput;
+
+    if (request.nextUrl.searchParams.get('dryRun') === 'true') {
+      return NextResponse.json(await service.previewSeries(input));
+    }
+
+    const { series } = await service.createSeries(input);
+    return NextResponse.json(series, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * POST /api/waitlist/:id/book
+ *
+ * Accept an offer: book the waitlisted patient with `doctorId` at
+ * `startTime` (ISO datetime) for their appointment type's default length,
+ * and mark the entry booked. The booking is validated like any other (422
+ * for conflicts or time outside working hours). Returns 201 with the
+ * created appointment.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, parseWaitlistSlot, readJsonBody } from '../../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const { doctorId, startTime } = parseWaitlistSlot(await readJsonBody(request), { withEnd: false });
+    const appointment = await service.acceptWaitlistOffer(params.id, doctorId, startTime);
+    return NextResponse.json(appointment, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
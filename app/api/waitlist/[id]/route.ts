@@ -0,0 +1,51 @@
+/**
+ * /api/waitlist/:id
+ *
+ * GET          - Fetch a waitlist entry.
+ * PUT / PATCH  - Change it (patient, doctor or specialty, type, dates,
+ *                priority, notes, or mark it booked).
+ * DELETE       - Take the patient off the waitlist. Returns 204.
+ *
+ * Book a patient from the waitlist through /api/waitlist/:id/book.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, notFound, parseWaitlistEntryBody, readJsonBody } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const entry = await service.getWaitlistEntryById(params.id);
+    return entry ? NextResponse.json(entry) : notFound('Waitlist entry', params.id);
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    const changes = parseWaitlistEntryBody(await readJsonBody(request), { partial: true });
+    return NextResponse.json(await service.updateWaitlistEntry(params.id, changes));
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export const PATCH = PUT;
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    await service.removeWaitlistEntry(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
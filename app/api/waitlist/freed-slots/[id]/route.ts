@@ -0,0 +1,25 @@
+/**
+ * DELETE /api/waitlist/freed-slots/:id
+ *
+ * Stop offering a freed slot to the waitlist. Returns 204; doctor sessions
+ * get 403 for another doctor's slot.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError } from '../../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const service = getRequestService(request);
+    await service.dismissFreedSlot(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
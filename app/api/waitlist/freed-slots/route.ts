@@ -0,0 +1,23 @@
+/**
+ * GET /api/waitlist/freed-slots
+ *
+ * List the upcoming slots freed by cancelling, moving or deleting
+ * appointments, in start order. They're recorded on the server as
+ * appointments change, so every session sees the same slots; doctor
+ * sessions get their own. Rank candidates for a slot through
+ * /api/waitlist/offers.
+ */
+
+import { NextResponse } from 'next/server';
+import { getRequestService, handleError } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const service = getRequestService(request);
+    return NextResponse.json(await service.getFreedSlots());
+  } catch (err) {
+    return handleError(err);
+  }
+}
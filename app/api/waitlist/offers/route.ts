@@ -0,0 +1,27 @@
+/**
+ * GET /api/waitlist/offers?doctorId=...&startTime=...&endTime=...
+ *
+ * Rank the waitlisted patients who could take a free slot with a doctor,
+ * best first. Each offer books the start of the slot for the patient's
+ * appointment type; patients whose booking wouldn't be valid are left out.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, parseWaitlistSlot } from '../../_lib/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const { doctorId, startTime, endTime } = parseWaitlistSlot(
+      Object.fromEntries(request.nextUrl.searchParams),
+      { withEnd: true }
+    );
+    return NextResponse.json(
+      await service.getWaitlistOffersForSlot(doctorId, new Date(startTime), new Date(endTime!))
+    );
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * /api/waitlist
+ *
+ * GET  - List waiting entries, most urgent first (?status=all to include
+ *        entries already booked from an offer). Doctor sessions get the
+ *        entries that would take a slot with them.
+ * POST - Put a patient on the waitlist. Returns 201 with the created entry.
+ *
+ * Both need session headers (401 without).
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestService, handleError, parseWaitlistEntryBody, readJsonBody } from '../_lib/http';
+import type { CreateWaitlistEntryInput } from '@/services/appointmentService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const includeBooked = request.nextUrl.searchParams.get('status') === 'all';
+    return NextResponse.json(await service.getWaitlist(includeBooked));
+  } catch (err) {
+    return handleError(err);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const service = getRequestService(request);
+    const input = parseWaitlistEntryBody(await readJsonBody(request), { partial: false }) as CreateWaitlistEntryInput;
+    const entry = await service.addWaitlistEntry(input);
+    return NextResponse.json(entry, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+}
@@ -27,6 +27,13 @@ export default function HomePage() {
             Go to Schedule
           </Link>
 
+          <Link
+            href="/patients"
+            className="block w-full bg-white hover:bg-gray-50 text-blue-600 font-semibold py-3 px-6 rounded-lg text-center border border-blue-600 transition-colors"
+          >
+            Browse Patients
+          </Link>
+
           <div className="border-t border-gray-200 pt-4">
             <h2 className="text-sm font-semibold text-gray-700 mb-2">Available Doctors:</h2>
             <ul className="text-sm text-gray-600 space-y-1">
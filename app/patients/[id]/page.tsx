@@ -0,0 +1,24 @@
+/**
+ * Patient Page
+ *
+ * A single patient's contact details, age and appointment history
+ * across doctors, with an entry point for booking them in.
+ */
+
+'use client';
+
+import { Users } from 'lucide-react';
+import { AppShell } from '@/components/AppShell';
+import { PatientProfile } from '@/components/PatientProfile';
+
+interface PatientPageProps {
+  params: { id: string };
+}
+
+export default function PatientPage({ params }: PatientPageProps) {
+  return (
+    <AppShell icon={Users} title="Patients" subtitle="Find patients and their appointments" signOutHref="/patients">
+      <PatientProfile patientId={decodeURIComponent(params.id)} />
+    </AppShell>
+  );
+}
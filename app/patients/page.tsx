@@ -0,0 +1,23 @@
+/**
+ * Patients Page
+ *
+ * Searchable, paginated patient directory. The search and page live in
+ * the URL (e.g. /patients?q=smith&page=2).
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { Users } from 'lucide-react';
+import { AppShell } from '@/components/AppShell';
+import { PatientDirectory } from '@/components/PatientDirectory';
+
+export default function PatientsPage() {
+  return (
+    <AppShell icon={Users} title="Patients" subtitle="Find patients and their appointments" signOutHref="/patients">
+      <Suspense>
+        <PatientDirectory />
+      </Suspense>
+    </AppShell>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * Appointment Page
+ *
+ * Deep link to a single appointment: shows the schedule on that
+ * appointment's day with its details open. Closing the details
+ * returns to /schedule with the same doctor, date and view.
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { ScheduleScreen } from '@/components/ScheduleScreen';
+
+interface AppointmentPageProps {
+  params: { id: string };
+}
+
+export default function AppointmentPage({ params }: AppointmentPageProps) {
+  return (
+    <Suspense>
+      <ScheduleScreen appointmentId={decodeURIComponent(params.id)} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,366 @@
+/**
+ * AnalyticsDashboard Component
+ *
+ * How busy each doctor is and how bookings turn out over a range of clinic
+ * days: booked versus available time per doctor, the appointment type mix,
+ * status counts with no-show and cancellation rates, and booked time by
+ * hour of day. The range and specialty live in the URL (e.g.
+ * /analytics?from=2024-01-01&to=2024-01-31&specialty=cardiology).
+ *
+ * The figures come from the pure analytics module; charts are plain
+ * HTML and CSS.
+ */
+
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { AlertCircle, BarChart3 } from 'lucide-react';
+import type { AppointmentStatus, Specialty } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG, SPECIALTY_LABELS } from '@/types';
+import { useClinicAnalytics } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { validateAnalyticsRange, type ClinicAnalytics } from '@/services/analytics';
+import {
+  addClinicDays,
+  formatClinicTime,
+  getClinicDateKey,
+  parseClinicDateKey,
+  setClinicTime,
+} from '@/services/clinicTime';
+
+/**
+ * Days covered when the URL doesn't give a range, ending today
+ */
+const DEFAULT_RANGE_DAYS = 28;
+
+/**
+ * Read the specialty param, ignoring unknown values
+ */
+function parseSpecialtyParam(value: string | null): Specialty | '' {
+  return value && value in SPECIALTY_LABELS ? (value as Specialty) : '';
+}
+
+/**
+ * Rate as a whole percentage, or a dash when there's nothing to rate
+ */
+function formatPercent(rate: number | null): string {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Minutes as hours to one decimal place
+ */
+function formatHours(minutes: number): string {
+  return `${Math.round(minutes / 6) / 10} h`;
+}
+
+/**
+ * Headline figures above the charts
+ */
+function AnalyticsSummary({ analytics, hourPattern }: { analytics: ClinicAnalytics; hourPattern: string }) {
+  const peak =
+    analytics.peakHour === null ? '-' : formatClinicTime(setClinicTime(new Date(), analytics.peakHour), hourPattern);
+
+  const figures = [
+    { label: 'Utilization', value: formatPercent(analytics.utilization) },
+    {
+      label: 'Booked of available',
+      value: `${formatHours(analytics.bookedMinutes)} / ${formatHours(analytics.availableMinutes)}`,
+    },
+    { label: 'No-show rate', value: formatPercent(analytics.statuses.noShowRate) },
+    { label: 'Cancellation rate', value: formatPercent(analytics.statuses.cancellationRate) },
+    { label: 'Peak hour', value: peak },
+  ];
+
+  return (
+    <dl className="analytics-summary">
+      {figures.map(({ label, value }) => (
+        <div key={label} className="analytics-figure">
+          <dt>{label}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * Booked versus available time per doctor, with their status rates
+ */
+function UtilizationTable({ analytics }: { analytics: ClinicAnalytics }) {
+  return (
+    <section className="analytics-section" aria-labelledby="analytics-utilization-title">
+      <h2 id="analytics-utilization-title" className="analytics-section-title">Utilization by doctor</h2>
+      <table className="patient-table analytics-table">
+        <thead>
+          <tr>
+            <th scope="col">Doctor</th>
+            <th scope="col">Booked</th>
+            <th scope="col">Available</th>
+            <th scope="col" className="analytics-bar-column">Utilization</th>
+            <th scope="col">No-shows</th>
+            <th scope="col">Cancelled</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analytics.doctors.map(({ doctor, bookedMinutes, availableMinutes, utilization, statuses }) => (
+            <tr key={doctor.id}>
+              <td>
+                <div className="analytics-doctor">Dr. {doctor.name}</div>
+                <div className="analytics-muted">{SPECIALTY_LABELS[doctor.specialty]}</div>
+              </td>
+              <td>{formatHours(bookedMinutes)}</td>
+              <td>{formatHours(availableMinutes)}</td>
+              <td className="analytics-bar-column">
+                <div className="analytics-meter">
+                  <div className="analytics-meter-track" aria-hidden="true">
+                    <div
+                      className={`analytics-meter-fill ${utilization !== null && utilization > 1 ? 'over' : ''}`}
+                      style={{ width: `${Math.min(utilization ?? 0, 1) * 100}%` }}
+                    />
+                  </div>
+                  <span>{formatPercent(utilization)}</span>
+                </div>
+              </td>
+              <td>{formatPercent(statuses.noShowRate)}</td>
+              <td>{formatPercent(statuses.cancellationRate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+/**
+ * Horizontal bar split into coloured segments, with a legend
+ */
+function StackedBar({ label, segments }: { label: string; segments: { key: string; label: string; color: string; value: number }[] }) {
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+  const shown = segments.filter((segment) => segment.value > 0);
+
+  return (
+    <>
+      <div
+        className="analytics-stacked-bar"
+        role="img"
+        aria-label={`${label}: ${shown.map((segment) => `${segment.label} ${segment.value}`).join(', ') || 'none'}`}
+      >
+        {shown.map((segment) => (
+          <div
+            key={segment.key}
+            className="analytics-stacked-segment"
+            style={{ width: `${(segment.value / total) * 100}%`, backgroundColor: segment.color }}
+          />
+        ))}
+      </div>
+      <ul className="analytics-legend">
+        {segments.map((segment) => (
+          <li key={segment.key}>
+            <span className="filter-swatch" style={{ backgroundColor: segment.color }} aria-hidden="true" />
+            {segment.label}
+            <span className="analytics-muted">
+              {segment.value} ({formatPercent(total > 0 ? segment.value / total : null)})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+/**
+ * Booked time per hour of the day, from the first busy hour to the last
+ */
+function PeakHoursChart({ analytics, hourPattern }: { analytics: ClinicAnalytics; hourPattern: string }) {
+  const busy = analytics.hours.filter((load) => load.minutes > 0);
+  if (busy.length === 0) return <p className="analytics-muted">Nothing booked in this range.</p>;
+
+  const first = busy[0].hour;
+  const last = busy[busy.length - 1].hour;
+  const hours = analytics.hours.slice(first, last + 1);
+  const most = Math.max(...hours.map((load) => load.minutes));
+
+  return (
+    <ol className="analytics-hours">
+      {hours.map((load) => {
+        const label = formatClinicTime(setClinicTime(new Date(), load.hour), hourPattern);
+        return (
+          <li key={load.hour} className="analytics-hour" title={`${label}: ${formatHours(load.minutes)} booked`}>
+            <div className="analytics-hour-track">
+              <div
+                className={`analytics-hour-fill ${load.hour === analytics.peakHour ? 'peak' : ''}`}
+                style={{ height: `${(load.minutes / most) * 100}%` }}
+              />
+            </div>
+            <span className="analytics-hour-label">{label}</span>
+            <span className="sr-only">{formatHours(load.minutes)} booked</span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * AnalyticsDashboard Component
+ */
+export function AnalyticsDashboard() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { settings } = useCalendarSettings();
+  const hourPattern = settings.timeFormat === '12h' ? 'h a' : 'HH:mm';
+
+  const today = getClinicDateKey(new Date());
+  const from = searchParams.get('from') ?? getClinicDateKey(addClinicDays(parseClinicDateKey(today), 1 - DEFAULT_RANGE_DAYS));
+  const to = searchParams.get('to') ?? today;
+  const specialty = parseSpecialtyParam(searchParams.get('specialty'));
+  const rangeProblem = validateAnalyticsRange(from, to);
+
+  // Dates only change with the URL, keeping the hook's dependencies stable
+  const startDate = useMemo(() => (rangeProblem ? null : parseClinicDateKey(from)), [from, rangeProblem]);
+  const endDate = useMemo(() => (rangeProblem ? null : parseClinicDateKey(to)), [to, rangeProblem]);
+
+  const navigate = useCallback(
+    (changes: Record<string, string>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      Object.entries(changes).forEach(([key, value]) => (value ? params.set(key, value) : params.delete(key)));
+      const search = params.toString();
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false });
+    },
+    [pathname, router, searchParams]
+  );
+
+  return (
+    <div className="card">
+      <div className="header-section">
+        <div className="analytics-filters">
+          <label className="form-field">
+            <span className="form-label">From</span>
+            <input
+              type="date"
+              className="form-input"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && navigate({ from: e.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            <span className="form-label">To</span>
+            <input
+              type="date"
+              className="form-input"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && navigate({ to: e.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            <span className="form-label">Specialty</span>
+            <select
+              className="form-input"
+              value={specialty}
+              onChange={(e) => navigate({ specialty: e.target.value })}
+            >
+              <option value="">All specialties</option>
+              {(Object.keys(SPECIALTY_LABELS) as Specialty[]).map((value) => (
+                <option key={value} value={value}>
+                  {SPECIALTY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="p-8">
+        {startDate && endDate ? (
+          <AnalyticsResults startDate={startDate} endDate={endDate} specialty={specialty} hourPattern={hourPattern} />
+        ) : (
+          <div className="form-error" role="alert">
+            <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+            <span>{rangeProblem}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface AnalyticsResultsProps {
+  startDate: Date;
+  endDate: Date;
+  specialty: Specialty | '';
+  hourPattern: string;
+}
+
+/**
+ * Figures and charts for a valid range
+ */
+function AnalyticsResults({ startDate, endDate, specialty, hourPattern }: AnalyticsResultsProps) {
+  const { analytics, loading, error } = useClinicAnalytics(startDate, endDate, specialty);
+
+  if (error) {
+    return (
+      <div className="form-error" role="alert">
+        <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+        <span>{error.message}</span>
+      </div>
+    );
+  }
+  if (!analytics || loading) return <p className="text-gray-600">Computing analytics...</p>;
+  if (analytics.doctors.length === 0) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">
+          <BarChart3 style={{ width: '2rem', height: '2rem', color: '#9ca3af' }} />
+        </div>
+        <p className="text-gray-600">No doctors match these filters</p>
+      </div>
+    );
+  }
+
+  const statuses = Object.keys(APPOINTMENT_STATUS_CONFIG) as AppointmentStatus[];
+
+  return (
+    <div className="analytics">
+      <AnalyticsSummary analytics={analytics} hourPattern={hourPattern} />
+      <UtilizationTable analytics={analytics} />
+
+      <div className="analytics-columns">
+        <section className="analytics-section" aria-labelledby="analytics-types-title">
+          <h2 id="analytics-types-title" className="analytics-section-title">Appointment types</h2>
+          <StackedBar
+            label="Bookings by type"
+            segments={analytics.typeMix.map(({ type, count }) => ({
+              key: type,
+              label: APPOINTMENT_TYPE_CONFIG[type].label,
+              color: APPOINTMENT_TYPE_CONFIG[type].color,
+              value: count,
+            }))}
+          />
+        </section>
+
+        <section className="analytics-section" aria-labelledby="analytics-statuses-title">
+          <h2 id="analytics-statuses-title" className="analytics-section-title">Outcomes</h2>
+          <StackedBar
+            label="Appointments by status"
+            segments={statuses.map((status) => ({
+              key: status,
+              label: APPOINTMENT_STATUS_CONFIG[status].label,
+              color: APPOINTMENT_STATUS_CONFIG[status].color,
+              value: analytics.statuses.counts[status],
+            }))}
+          />
+        </section>
+      </div>
+
+      <section className="analytics-section" aria-labelledby="analytics-hours-title">
+        <h2 id="analytics-hours-title" className="analytics-section-title">Booked time by hour of day</h2>
+        <PeakHoursChart analytics={analytics} hourPattern={hourPattern} />
+      </section>
+    </div>
+  );
+}
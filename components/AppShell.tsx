@@ -0,0 +1,102 @@
+/**
+ * AppShell Component
+ *
+ * Page frame shared by the schedule, patient and analytics pages: header
+ * with the section links and signed-in user, and the sign-in stand-in
+ * until someone signs in. Signed-in content gets the user's calendar
+ * settings.
+ */
+
+'use client';
+
+import type { ReactNode } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { LogOut, type LucideIcon } from 'lucide-react';
+import { SignInPanel } from './SignInPanel';
+import { useSession } from '@/hooks/useSession';
+import { CalendarSettingsProvider } from '@/hooks/useCalendarSettings';
+import { ROLE_LABELS } from '@/services/session';
+
+interface AppShellProps {
+  icon: LucideIcon;
+  title: string;
+  subtitle: string;
+  signOutHref: string; // Where signing out leaves the user, dropping any per-user URL state
+  children: ReactNode;
+}
+
+/**
+ * Top-level sections, linked from the header
+ */
+const SECTIONS = [
+  { href: '/schedule', label: 'Schedule' },
+  { href: '/patients', label: 'Patients' },
+  { href: '/analytics', label: 'Analytics' },
+] as const;
+
+/**
+ * AppShell Component
+ */
+export function AppShell({ icon: Icon, title, subtitle, signOutHref, children }: AppShellProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { session, loading: sessionLoading, signIn, signOut } = useSession();
+
+  const handleSignOut = () => {
+    signOut();
+    router.push(signOutHref);
+  };
+
+  return (
+    <main className="main-container">
+      <div className="max-width-container">
+        <header className="header">
+          <div className="header-content">
+            <div className="icon-container">
+              <Icon className="icon-white" />
+            </div>
+            <div>
+              <h1 className="title">
+                {title}
+              </h1>
+              <p className="subtitle">
+                {subtitle}
+              </p>
+            </div>
+            {session && (
+              <div className="session-bar">
+                <nav className="section-nav" aria-label="Sections">
+                  {SECTIONS.map(({ href, label }) => (
+                    <Link
+                      key={href}
+                      href={href}
+                      className={`section-link ${pathname.startsWith(href) ? 'active' : ''}`}
+                      aria-current={pathname.startsWith(href) ? 'page' : undefined}
+                    >
+                      {label}
+                    </Link>
+                  ))}
+                </nav>
+                <span>{session.name}</span>
+                <span className="session-role">{ROLE_LABELS[session.role]}</span>
+                <button type="button" className="secondary-button" onClick={handleSignOut}>
+                  <LogOut style={{ width: '1rem', height: '1rem' }} />
+                  Sign out
+                </button>
+              </div>
+            )}
+          </div>
+        </header>
+
+        {sessionLoading ? null : session ? (
+          <CalendarSettingsProvider session={session}>
+            {children}
+          </CalendarSettingsProvider>
+        ) : (
+          <SignInPanel onSignIn={signIn} />
+        )}
+      </div>
+    </main>
+  );
+}
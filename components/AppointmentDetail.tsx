@@ -0,0 +1,380 @@
+/**
+ * AppointmentDetail Component
+ *
+ * Side drawer with the full details of one appointment: patient, doctor,
+ * type, time, status, repeat rule and notes, plus inline actions to edit
+ * the notes, change the status, reschedule or cancel it, and the log of
+ * messages sent to the patient about it. Opened by clicking a card in the
+ * schedule, or from the /schedule/appointments/[id] deep link on top of
+ * the schedule showing that appointment's day.
+ *
+ * Actions go straight to the service, which validates them; refused
+ * changes are shown inline and the grid refreshes on success.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { differenceInMinutes } from 'date-fns';
+import { AlertCircle, CalendarClock, CheckCircle, Mail, Phone, X } from 'lucide-react';
+import type { AppointmentStatus, AppointmentType, PopulatedAppointment } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG, SPECIALTY_LABELS } from '@/types';
+import { appointmentService } from '@/services/appointmentService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime, parseClinicDateKey } from '@/services/clinicTime';
+import { describeRecurrenceRule } from '@/services/recurrence';
+import { useAppointmentSeries } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { NotificationLog } from './NotificationLog';
+import { ViewerTime } from './ViewerTime';
+
+interface AppointmentDetailProps {
+  appointment: PopulatedAppointment | undefined;
+  loading: boolean;
+  error: Error | null;
+  onClose: () => void;
+}
+
+/**
+ * Outcome of the last action, shown above the actions
+ */
+type ActionFeedback = { type: 'success' | 'error'; message: string };
+
+interface AppointmentActionsProps {
+  appointment: PopulatedAppointment;
+  onFeedback: (feedback: ActionFeedback) => void;
+}
+
+/**
+ * Notes, status, reschedule and cancel controls for one appointment
+ *
+ * Rendered with a key that changes whenever the appointment does, so the
+ * inputs start again from the saved values after every change.
+ */
+function AppointmentActions({ appointment, onFeedback }: AppointmentActionsProps) {
+  const start = new Date(appointment.startTime);
+  const end = new Date(appointment.endTime);
+
+  const [notes, setNotes] = useState(appointment.notes ?? '');
+  const [date, setDate] = useState(() => formatClinicTime(start, 'yyyy-MM-dd'));
+  const [time, setTime] = useState(() => formatClinicTime(start, 'HH:mm'));
+  const [duration, setDuration] = useState(() => differenceInMinutes(end, start));
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const transitions = appointmentService.getAllowedStatusTransitions(appointment);
+  const canCancel = transitions.includes('cancelled');
+  const statusTransitions = transitions.filter((status) => status !== 'cancelled');
+  const canReschedule = appointmentService.canRescheduleAppointment(appointment);
+  const occurrenceNote = appointment.seriesId ? 'Only this occurrence of the series changes.' : null;
+
+  // Run a change, reporting the outcome
+  const run = async (change: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    try {
+      await change();
+      onFeedback({ type: 'success', message: success });
+    } catch (err) {
+      onFeedback({ type: 'error', message: err instanceof Error ? err.message : 'The change was refused' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveNotes = () =>
+    run(() => appointmentService.updateAppointment(appointment.id, { notes: notes.trim() || undefined }), 'Notes saved');
+
+  const handleStatusChange = (status: AppointmentStatus) =>
+    run(
+      () => appointmentService.updateAppointmentStatus(appointment.id, status),
+      `Marked as ${APPOINTMENT_STATUS_CONFIG[status].label.toLowerCase()}`
+    );
+
+  const handleReschedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const [hour, minute] = time.split(':').map(Number);
+    if (!date || isNaN(hour) || isNaN(minute) || !(duration > 0)) {
+      onFeedback({ type: 'error', message: 'Choose a date, start time and duration' });
+      return;
+    }
+
+    const newStart = parseClinicDateKey(date, hour, minute);
+    const newEnd = new Date(newStart.getTime() + duration * 60 * 1000);
+    run(
+      () => appointmentService.rescheduleAppointment(appointment.id, newStart.toISOString(), newEnd.toISOString()),
+      `Moved to ${formatClinicTime(newStart, 'EEE, MMM d')} at ${time}`
+    );
+  };
+
+  const handleCancel = () => {
+    setConfirmingCancel(false);
+    run(() => appointmentService.updateAppointmentStatus(appointment.id, 'cancelled'), 'Appointment cancelled');
+  };
+
+  return (
+    <div className="drawer-actions">
+      <section className="drawer-section" aria-labelledby="drawer-notes-title">
+        <label id="drawer-notes-title" htmlFor="drawer-notes" className="form-label">Notes</label>
+        <textarea
+          id="drawer-notes"
+          className="form-input"
+          rows={3}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Add notes for this appointment"
+        />
+        <div className="drawer-section-actions">
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={handleSaveNotes}
+            disabled={saving || notes.trim() === (appointment.notes ?? '')}
+          >
+            Save notes
+          </button>
+        </div>
+      </section>
+
+      {statusTransitions.length > 0 && (
+        <section className="drawer-section" aria-labelledby="drawer-status-title">
+          <h3 id="drawer-status-title" className="form-label">Change status</h3>
+          <div className="drawer-status-options">
+            {statusTransitions.map((status) => (
+              <button
+                key={status}
+                type="button"
+                className="secondary-button drawer-status-button"
+                onClick={() => handleStatusChange(status)}
+                disabled={saving}
+              >
+                <span
+                  className="status-swatch"
+                  style={{ backgroundColor: APPOINTMENT_STATUS_CONFIG[status].color }}
+                  aria-hidden="true"
+                />
+                {APPOINTMENT_STATUS_CONFIG[status].label}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {canReschedule && (
+        <form className="drawer-section" aria-labelledby="drawer-reschedule-title" onSubmit={handleReschedule}>
+          <h3 id="drawer-reschedule-title" className="form-label">Reschedule</h3>
+          <div className="form-row drawer-reschedule-row">
+            <div className="form-field">
+              <label htmlFor="drawer-date" className="form-label">Date</label>
+              <input
+                id="drawer-date"
+                type="date"
+                className="form-input"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="form-field">
+              <label htmlFor="drawer-time" className="form-label">Start</label>
+              <input
+                id="drawer-time"
+                type="time"
+                className="form-input"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+              />
+            </div>
+            <div className="form-field">
+              <label htmlFor="drawer-duration" className="form-label">Minutes</label>
+              <input
+                id="drawer-duration"
+                type="number"
+                className="form-input"
+                min={5}
+                step={5}
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+              />
+            </div>
+          </div>
+          {occurrenceNote && <p className="drawer-hint">{occurrenceNote}</p>}
+          <div className="drawer-section-actions">
+            <button type="submit" className="primary-button" disabled={saving}>
+              Move appointment
+            </button>
+          </div>
+        </form>
+      )}
+
+      {canCancel && (
+        <section className="drawer-section drawer-danger" aria-label="Cancel appointment">
+          {confirmingCancel ? (
+            <div className="drawer-confirm" role="group" aria-label="Confirm cancellation">
+              <span>Cancel this appointment? {occurrenceNote}</span>
+              <div className="drawer-section-actions">
+                <button type="button" className="secondary-button" onClick={() => setConfirmingCancel(false)}>
+                  Keep it
+                </button>
+                <button type="button" className="danger-button" onClick={handleCancel} disabled={saving}>
+                  Cancel appointment
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button type="button" className="danger-button" onClick={() => setConfirmingCancel(true)} disabled={saving}>
+              Cancel appointment
+            </button>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
+
+/**
+ * AppointmentDetail Component
+ *
+ * Shows a not-found message when loading finished without an appointment.
+ * Render it with a key per appointment so feedback from one doesn't carry
+ * over to the next.
+ */
+export function AppointmentDetail({ appointment, loading, error, onClose }: AppointmentDetailProps) {
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+  const series = useAppointmentSeries(appointment?.seriesId);
+  const [feedback, setFeedback] = useState<ActionFeedback | null>(null);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const start = appointment && new Date(appointment.startTime);
+  const end = appointment && new Date(appointment.endTime);
+  const typeConfig = appointment && APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType];
+  const statusConfig = appointment && APPOINTMENT_STATUS_CONFIG[appointment.status];
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <aside
+        className="drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="appointment-detail-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div
+              className="day-icon"
+              aria-hidden="true"
+              style={typeConfig ? { background: typeConfig.color } : undefined}
+            >
+              <CalendarClock style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="appointment-detail-title" className="modal-title">
+                {appointment ? appointment.patient.name : 'Appointment'}
+              </h2>
+              {start && end && (
+                <p className="modal-subtitle">
+                  {formatClinicTime(start, 'EEE, MMM d, yyyy')} • {formatClinicTime(start, timePattern)} - {formatClinicTime(end, timePattern)}
+                  <ViewerTime date={start} />
+                </p>
+              )}
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <div className="modal-body drawer-body">
+          {loading ? (
+            <p className="text-gray-600">Loading appointment...</p>
+          ) : error || !appointment || !start || !end || !typeConfig || !statusConfig ? (
+            <div className="form-error" role="alert">
+              <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+              <span>{error ? error.message : 'Appointment not found'}</span>
+            </div>
+          ) : (
+            <>
+              <dl className="detail-list">
+                <div className="detail-row">
+                  <dt>Patient</dt>
+                  <dd>
+                    <Link href={`/patients/${encodeURIComponent(appointment.patientId)}`} className="patient-link">
+                      {appointment.patient.name}
+                    </Link>
+                    <div className="detail-contact">
+                      <Mail style={{ width: '0.75rem', height: '0.75rem' }} aria-hidden="true" />
+                      {appointment.patient.email}
+                    </div>
+                    <div className="detail-contact">
+                      <Phone style={{ width: '0.75rem', height: '0.75rem' }} aria-hidden="true" />
+                      {appointment.patient.phone}
+                    </div>
+                  </dd>
+                </div>
+                <div className="detail-row">
+                  <dt>Doctor</dt>
+                  <dd>Dr. {appointment.doctor.name} - {SPECIALTY_LABELS[appointment.doctor.specialty]}</dd>
+                </div>
+                <div className="detail-row">
+                  <dt>Type</dt>
+                  <dd>{typeConfig.label} ({differenceInMinutes(end, start)} min)</dd>
+                </div>
+                <div className="detail-row">
+                  <dt>Status</dt>
+                  <dd>
+                    <span className="appointment-status-badge" style={{ backgroundColor: statusConfig.color }}>
+                      {statusConfig.label}
+                    </span>
+                  </dd>
+                </div>
+                {series && (
+                  <div className="detail-row">
+                    <dt>Repeats</dt>
+                    <dd>{describeRecurrenceRule(series.rule)}</dd>
+                  </div>
+                )}
+                {appointment.notes && (
+                  <div className="detail-row">
+                    <dt>Notes</dt>
+                    <dd>{appointment.notes}</dd>
+                  </div>
+                )}
+              </dl>
+
+              {feedback && (
+                <div
+                  className={`schedule-feedback ${feedback.type}`}
+                  role={feedback.type === 'error' ? 'alert' : 'status'}
+                >
+                  {feedback.type === 'error' ? (
+                    <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+                  ) : (
+                    <CheckCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+                  )}
+                  <span>{feedback.message}</span>
+                </div>
+              )}
+
+              <AppointmentActions
+                key={`${appointment.id}:${appointment.startTime}:${appointment.endTime}:${appointment.status}:${appointment.notes ?? ''}`}
+                appointment={appointment}
+                onFeedback={setFeedback}
+              />
+
+              <NotificationLog appointmentId={appointment.id} />
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * AppointmentFilterBar Component
+ *
+ * Filters for the schedule: appointment type chips (which double as the
+ * colour legend), status chips and a duration range. Shows how many
+ * filters are active and resets them all in one click. The selection is
+ * applied when appointments are fetched, not by this component.
+ */
+
+'use client';
+
+import { Filter, RotateCcw } from 'lucide-react';
+import type { AppointmentStatus, AppointmentType } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import {
+  DURATION_RANGES,
+  EMPTY_FILTER_SELECTION,
+  countActiveFilters,
+  toggleFilterValue,
+  type AppointmentFilterSelection,
+  type DurationRange,
+} from '@/services/appointmentFilters';
+
+interface AppointmentFilterBarProps {
+  filters: AppointmentFilterSelection;
+  onChange: (filters: AppointmentFilterSelection) => void;
+}
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+const APPOINTMENT_STATUSES = Object.keys(APPOINTMENT_STATUS_CONFIG) as AppointmentStatus[];
+
+/**
+ * AppointmentFilterBar Component
+ */
+export function AppointmentFilterBar({ filters, onChange }: AppointmentFilterBarProps) {
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="filter-bar" role="group" aria-label="Appointment filters">
+      <span className="filter-bar-title">
+        <Filter style={{ width: '0.875rem', height: '0.875rem' }} aria-hidden="true" />
+        Filters
+        {activeCount > 0 && (
+          <span className="filter-count" aria-label={`${activeCount} active`}>
+            {activeCount}
+          </span>
+        )}
+      </span>
+
+      <div className="filter-group">
+        <span className="filter-group-label">Type</span>
+        {APPOINTMENT_TYPES.map((type) => {
+          const config = APPOINTMENT_TYPE_CONFIG[type];
+          const selected = filters.types.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              className={`filter-chip ${selected ? 'selected' : ''}`}
+              style={selected ? { borderColor: config.color, backgroundColor: `${config.color}1a` } : undefined}
+              onClick={() => onChange({ ...filters, types: toggleFilterValue(filters.types, type) })}
+              aria-pressed={selected}
+            >
+              <span className="filter-swatch" style={{ backgroundColor: config.color }} aria-hidden="true" />
+              {config.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="filter-group">
+        <span className="filter-group-label">Status</span>
+        {APPOINTMENT_STATUSES.map((status) => {
+          const config = APPOINTMENT_STATUS_CONFIG[status];
+          const selected = filters.statuses.includes(status);
+          return (
+            <button
+              key={status}
+              type="button"
+              className={`filter-chip ${selected ? 'selected' : ''}`}
+              style={selected ? { borderColor: config.color, backgroundColor: `${config.color}1a` } : undefined}
+              onClick={() => onChange({ ...filters, statuses: toggleFilterValue(filters.statuses, status) })}
+              aria-pressed={selected}
+            >
+              <span className="filter-swatch" style={{ backgroundColor: config.color }} aria-hidden="true" />
+              {config.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <label className="filter-group">
+        <span className="filter-group-label">Duration</span>
+        <select
+          className="filter-select"
+          value={filters.duration}
+          onChange={(e) => onChange({ ...filters, duration: e.target.value as DurationRange | '' })}
+        >
+          <option value="">Any length</option>
+          {(Object.keys(DURATION_RANGES) as DurationRange[]).map((range) => (
+            <option key={range} value={range}>
+              {DURATION_RANGES[range].label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {activeCount > 0 && (
+        <button type="button" className="filter-reset" onClick={() => onChange(EMPTY_FILTER_SELECTION)}>
+          <RotateCcw style={{ width: '0.875rem', height: '0.875rem' }} />
+          Reset filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * AppointmentLayer Component
+ *
+ * Absolutely positioned overlay that places appointments over a calendar
+ * column by time, with overlapping appointments packed side by side.
+ * Used for the DayView timeline and each WeekView day column.
+ */
+
+'use client';
+
+import { useMemo, type ReactNode } from 'react';
+import type { Appointment } from '@/types';
+import { layoutAppointments, type AppointmentLayout } from '@/services/appointmentLayout';
+
+interface AppointmentLayerProps<T extends Appointment> {
+  appointments: T[];
+  rangeStart: Date;        // Time at the top edge of the column
+  rangeEnd: Date;          // Time at the bottom edge of the column
+  pixelsPerMinute: number;
+  className?: string;
+  renderAppointment: (appointment: T, layout: AppointmentLayout<T>) => ReactNode;
+}
+
+const MIN_APPOINTMENT_HEIGHT = 20; // Keep very short appointments readable
+
+/**
+ * AppointmentLayer Component
+ */
+export function AppointmentLayer<T extends Appointment>({
+  appointments,
+  rangeStart,
+  rangeEnd,
+  pixelsPerMinute,
+  className = '',
+  renderAppointment,
+}: AppointmentLayerProps<T>) {
+  const layouts = useMemo(() => {
+    // Only appointments that are at least partly visible
+    const visible = appointments.filter(
+      (appointment) =>
+        new Date(appointment.endTime) > rangeStart && new Date(appointment.startTime) < rangeEnd
+    );
+    return layoutAppointments(visible);
+  }, [appointments, rangeStart, rangeEnd]);
+
+  const totalMinutes = (rangeEnd.getTime() - rangeStart.getTime()) / (1000 * 60);
+
+  return (
+    <div className={`appointment-layer ${className}`} style={{ height: `${totalMinutes * pixelsPerMinute}px` }}>
+      {layouts.map((layout) => {
+        const { appointment, column, columns, span } = layout;
+
+        // Clamp to the visible range
+        const startMinutes = Math.max(
+          0,
+          (new Date(appointment.startTime).getTime() - rangeStart.getTime()) / (1000 * 60)
+        );
+        const endMinutes = Math.min(
+          totalMinutes,
+          (new Date(appointment.endTime).getTime() - rangeStart.getTime()) / (1000 * 60)
+        );
+
+        return (
+          <div
+            key={appointment.id}
+            className="appointment-positioned"
+            style={{
+              top: `${startMinutes * pixelsPerMinute}px`,
+              height: `${Math.max(MIN_APPOINTMENT_HEIGHT, (endMinutes - startMinutes) * pixelsPerMinute)}px`,
+              left: `${(column / columns) * 100}%`,
+              width: `${(span / columns) * 100}%`,
+            }}
+          >
+            {renderAppointment(appointment, layout)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
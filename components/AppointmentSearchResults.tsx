@@ -0,0 +1,154 @@
+/**
+ * AppointmentSearchResults Component
+ *
+ * Results of the schedule's global search: appointments across every
+ * doctor and date matching the search box, grouped by day with the matched
+ * text highlighted. Days are listed in order of their best match. Picking
+ * a result jumps the calendar to it.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Search, AlertCircle } from 'lucide-react';
+import type { AppointmentType, PopulatedAppointment } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { useAppointmentSearch } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import {
+  APPOINTMENT_SEARCH_FIELD_LABELS,
+  getHighlightParts,
+  type AppointmentSearchHit,
+  type MatchRange,
+} from '@/services/appointmentSearch';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime, getClinicDateKey } from '@/services/clinicTime';
+
+interface AppointmentSearchResultsProps {
+  query: string;
+  onSelect: (appointment: PopulatedAppointment) => void;
+}
+
+/**
+ * Milliseconds of typing pause before searching
+ */
+const SEARCH_DELAY = 300;
+
+/**
+ * Text with the matched ranges marked
+ */
+function Highlighted({ value, ranges }: { value: string; ranges: MatchRange[] }) {
+  return (
+    <>
+      {getHighlightParts(value, ranges).map((part, index) =>
+        part.highlighted ? <mark key={index}>{part.text}</mark> : <span key={index}>{part.text}</span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Group hits by clinic day, days in order of their best hit and hits in start order
+ */
+function groupHitsByDay(hits: AppointmentSearchHit[]): Array<{ day: string; hits: AppointmentSearchHit[] }> {
+  const groups = new Map<string, AppointmentSearchHit[]>();
+  for (const hit of hits) {
+    const day = getClinicDateKey(new Date(hit.appointment.startTime));
+    groups.set(day, [...(groups.get(day) ?? []), hit]);
+  }
+  return Array.from(groups, ([day, dayHits]) => ({
+    day,
+    hits: [...dayHits].sort(
+      (a, b) => new Date(a.appointment.startTime).getTime() - new Date(b.appointment.startTime).getTime()
+    ),
+  }));
+}
+
+/**
+ * AppointmentSearchResults Component
+ */
+export function AppointmentSearchResults({ query, onSelect }: AppointmentSearchResultsProps) {
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+
+  // Search once typing pauses rather than on every keystroke
+  const [searchedQuery, setSearchedQuery] = useState(query);
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchedQuery(query), SEARCH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { hits, loading, error } = useAppointmentSearch(searchedQuery);
+  const groups = groupHitsByDay(hits);
+
+  return (
+    <section className="search-panel" aria-label="Search results across all dates" aria-busy={loading}>
+      <div className="search-panel-header">
+        <Search style={{ width: '1rem', height: '1rem' }} aria-hidden="true" />
+        <span>
+          {loading
+            ? 'Searching all dates...'
+            : `${hits.length} match${hits.length !== 1 ? 'es' : ''} for "${searchedQuery.trim()}" across all dates`}
+        </span>
+      </div>
+
+      {error ? (
+        <div className="form-error" role="alert">
+          <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+          <span>{error.message}</span>
+        </div>
+      ) : !loading && hits.length === 0 ? (
+        <p className="search-panel-empty">No appointments match. Try a patient name, phone number or appointment ID.</p>
+      ) : (
+        <div className="search-panel-groups">
+          {groups.map(({ day, hits: dayHits }) => (
+            <div key={day} className="search-group">
+              <h3 className="search-group-title">
+                {formatClinicTime(new Date(dayHits[0].appointment.startTime), 'EEEE, MMM d, yyyy')}
+              </h3>
+              <ul className="search-hit-list">
+                {dayHits.map(({ appointment, matches }) => {
+                  const start = new Date(appointment.startTime);
+                  const typeConfig = APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType];
+                  const statusConfig = APPOINTMENT_STATUS_CONFIG[appointment.status];
+                  const nameMatch = matches.find((match) => match.field === 'patientName');
+                  const otherMatches = matches.filter((match) => match.field !== 'patientName');
+
+                  return (
+                    <li key={appointment.id}>
+                      <button
+                        type="button"
+                        className={`search-hit status-${appointment.status}`}
+                        style={{ borderLeftColor: typeConfig.color }}
+                        onClick={() => onSelect(appointment)}
+                      >
+                        <span className="search-hit-time">{formatClinicTime(start, timePattern)}</span>
+                        <span className="search-hit-body">
+                          <span className="search-hit-name">
+                            <Highlighted value={appointment.patient.name} ranges={nameMatch?.ranges ?? []} />
+                          </span>
+                          <span className="search-hit-meta">
+                            {typeConfig.label} with Dr. {appointment.doctor.name}
+                          </span>
+                          {otherMatches.map((match) => (
+                            <span key={match.field} className="search-hit-match">
+                              {APPOINTMENT_SEARCH_FIELD_LABELS[match.field]}:{' '}
+                              <Highlighted value={match.value} ranges={match.ranges} />
+                            </span>
+                          ))}
+                        </span>
+                        <span className="appointment-status-badge" style={{ backgroundColor: statusConfig.color }}>
+                          {statusConfig.label}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * AvailabilityPanel Component
+ *
+ * "Find next available slot" search for front desk staff. Collects the
+ * appointment type and constraints, lists the earliest free slots across
+ * doctors, and hands the chosen slot back to the parent to jump to it.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Search, X, AlertCircle, Clock } from 'lucide-react';
+import type { AppointmentType, Specialty } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG, SPECIALTY_LABELS } from '@/types';
+import { useDoctors } from '@/hooks/useAppointments';
+import { useAvailableSlots } from '@/hooks/useAvailableSlots';
+import { AVAILABILITY_WINDOW_DAYS, type AvailabilityQuery, type AvailableSlot, type TimeOfDay } from '@/services/availabilityService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime } from '@/services/clinicTime';
+import { formatDateParam, parseDateParam } from '@/services/scheduleUrl';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+
+interface AvailabilityPanelProps {
+  onSelectSlot: (slot: AvailableSlot, type: AppointmentType) => void;
+  onClose: () => void;
+}
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+const SPECIALTIES = Object.keys(SPECIALTY_LABELS) as Specialty[];
+
+const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  any: 'Any time',
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+};
+
+const RESULT_LIMIT = 8;
+
+/**
+ * AvailabilityPanel Component
+ */
+export function AvailabilityPanel({ onSelectSlot, onClose }: AvailabilityPanelProps) {
+  const { doctors } = useDoctors();
+
+  const [type, setType] = useState<AppointmentType>('checkup');
+  const [doctorId, setDoctorId] = useState('');
+  const [specialty, setSpecialty] = useState<Specialty | ''>('');
+  const [earliestDay, setEarliestDay] = useState(() => formatDateParam(new Date()));
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('any');
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+
+  // Last submitted search; null until the user searches
+  const [query, setQuery] = useState<AvailabilityQuery | null>(null);
+  const { slots, loading, error } = useAvailableSlots(query);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Never offer slots in the past
+    const now = new Date();
+    const day = parseDateParam(earliestDay);
+    const earliestDate = !day || day < now ? now : day;
+
+    setQuery({
+      type,
+      doctorId: doctorId || undefined,
+      specialty: specialty || undefined,
+      earliestDate,
+      timeOfDay,
+      limit: RESULT_LIMIT,
+    });
+  };
+
+  // Only offer doctors of the chosen specialty
+  const visibleDoctors = specialty ? doctors.filter((doctor) => doctor.specialty === specialty) : doctors;
+
+  return (
+    <section className="availability-panel" aria-labelledby="availability-title">
+      <div className="availability-header">
+        <h3 id="availability-title" className="availability-title">
+          <Search style={{ width: '1rem', height: '1rem' }} />
+          Find next available slot
+        </h3>
+        <button type="button" className="icon-button" onClick={onClose} aria-label="Close availability search">
+          <X style={{ width: '1rem', height: '1rem' }} />
+        </button>
+      </div>
+
+      <form className="availability-form" onSubmit={handleSubmit}>
+        <div className="form-field">
+          <label htmlFor="availability-type" className="form-label">Type</label>
+          <select
+            id="availability-type"
+            className="form-input"
+            value={type}
+            onChange={(e) => setType(e.target.value as AppointmentType)}
+          >
+            {APPOINTMENT_TYPES.map((appointmentType) => (
+              <option key={appointmentType} value={appointmentType}>
+                {APPOINTMENT_TYPE_CONFIG[appointmentType].label} ({APPOINTMENT_TYPE_CONFIG[appointmentType].defaultDuration} min)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-field">
+          <label htmlFor="availability-specialty" className="form-label">Specialty</label>
+          <select
+            id="availability-specialty"
+            className="form-input"
+            value={specialty}
+            onChange={(e) => {
+              setSpecialty(e.target.value as Specialty | '');
+              setDoctorId('');
+            }}
+          >
+            <option value="">Any specialty</option>
+            {SPECIALTIES.map((value) => (
+              <option key={value} value={value}>{SPECIALTY_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-field">
+          <label htmlFor="availability-doctor" className="form-label">Doctor</label>
+          <select
+            id="availability-doctor"
+            className="form-input"
+            value={doctorId}
+            onChange={(e) => setDoctorId(e.target.value)}
+          >
+            <option value="">Any doctor</option>
+            {visibleDoctors.map((doctor) => (
+              <option key={doctor.id} value={doctor.id}>Dr. {doctor.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-field">
+          <label htmlFor="availability-date" className="form-label">Earliest date</label>
+          <input
+            id="availability-date"
+            type="date"
+            className="form-input"
+            value={earliestDay}
+            onChange={(e) => setEarliestDay(e.target.value)}
+          />
+        </div>
+
+        <div className="form-field">
+          <label htmlFor="availability-time" className="form-label">Time of day</label>
+          <select
+            id="availability-time"
+            className="form-input"
+            value={timeOfDay}
+            onChange={(e) => setTimeOfDay(e.target.value as TimeOfDay)}
+          >
+            {(Object.keys(TIME_OF_DAY_LABELS) as TimeOfDay[]).map((value) => (
+              <option key={value} value={value}>{TIME_OF_DAY_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="availability-submit">
+          <button type="submit" className="primary-button" disabled={loading}>
+            {loading ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="form-error" role="alert">
+          <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+          <span>{error.message}</span>
+        </div>
+      )}
+
+      {query && !loading && !error && (
+        slots.length === 0 ? (
+          <p className="availability-empty">No free slots found in the next {AVAILABILITY_WINDOW_DAYS} days.</p>
+        ) : (
+          <ul className="availability-results" aria-label="Available slots">
+            {slots.map((slot) => (
+              <li key={`${slot.doctor.id}-${slot.start.toISOString()}`}>
+                <button
+                  type="button"
+                  className="availability-result"
+                  onClick={() => onSelectSlot(slot, query.type)}
+                >
+                  <span className="availability-result-time">
+                    <Clock style={{ width: '0.875rem', height: '0.875rem' }} />
+                    {formatClinicTime(slot.start, 'EEE, MMM d')} • {formatClinicTime(slot.start, timePattern)} - {formatClinicTime(slot.end, timePattern)}
+                  </span>
+                  <span className="availability-result-doctor">
+                    Dr. {slot.doctor.name} • {SPECIALTY_LABELS[slot.doctor.specialty]}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,434 @@
+/**
+ * BookingForm Component
+ *
+ * Modal form for booking a new appointment in an empty calendar slot,
+ * optionally repeating daily or weekly. Validation (overlaps, working
+ * hours) happens in the service layer; this form only collects input,
+ * previews which repeats conflict and displays any rejection.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addMinutes } from 'date-fns';
+import { CalendarPlus, X, AlertCircle, Repeat } from 'lucide-react';
+import type { AppointmentType, DayOfWeek, Doctor, RecurrenceFrequency, RecurrenceRule } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG, DEFAULT_CALENDAR_CONFIG } from '@/types';
+import { usePatients } from '@/hooks/useAppointments';
+import { useSeriesPreview } from '@/hooks/useSeriesPreview';
+import type { CreateAppointmentInput, CreateSeriesInput } from '@/services/appointmentService';
+import { SERIES_CHECK_HORIZON_DAYS } from '@/services/appointmentService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { addClinicDays, endOfClinicDay, formatClinicTime, parseClinicDateKey } from '@/services/clinicTime';
+import {
+  RECURRENCE_LIMITS,
+  WEEKDAY_CODES,
+  describeRecurrenceRule,
+  getClinicWeekday,
+  getOccurrenceDate,
+} from '@/services/recurrence';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+
+interface BookingFormProps {
+  doctor: Doctor;
+  startTime: Date;
+  initialType?: AppointmentType;
+  initialPatientId?: string;
+  onSubmit: (input: CreateAppointmentInput) => Promise<unknown>;
+  onSubmitSeries?: (input: CreateSeriesInput) => Promise<unknown>;
+  onClose: () => void;
+}
+
+/**
+ * How a repeating booking ends
+ */
+type RepeatEnd = 'count' | 'until' | 'never';
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+
+const WEEKDAYS = Object.keys(WEEKDAY_CODES) as DayOfWeek[];
+
+const DEFAULT_REPEAT_COUNT = 10;
+
+/**
+ * Build the rule for the repeat options, or null while they're incomplete
+ */
+function buildRule(
+  frequency: RecurrenceFrequency,
+  interval: number,
+  byDay: DayOfWeek[],
+  end: RepeatEnd,
+  count: number,
+  untilDate: string
+): RecurrenceRule | null {
+  const rule: RecurrenceRule = { frequency, interval };
+  if (frequency === 'weekly') {
+    if (byDay.length === 0) return null;
+    rule.byDay = WEEKDAYS.filter((day) => byDay.includes(day));
+  }
+
+  if (end === 'count') {
+    rule.count = count;
+  } else if (end === 'until') {
+    if (!untilDate) return null;
+    rule.until = endOfClinicDay(parseClinicDateKey(untilDate)).toISOString();
+  }
+  return rule;
+}
+
+/**
+ * BookingForm Component
+ *
+ * `onSubmit` is expected to reject if the booking is refused;
+ * the error message is shown inline and the form stays open.
+ */
+export function BookingForm({
+  doctor,
+  startTime,
+  initialType = 'checkup',
+  initialPatientId = '',
+  onSubmit,
+  onSubmitSeries,
+  onClose,
+}: BookingFormProps) {
+  const { patients, loading: patientsLoading } = usePatients();
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+
+  const [patientId, setPatientId] = useState(initialPatientId);
+  const [type, setType] = useState<AppointmentType>(initialType);
+  const [duration, setDuration] = useState(APPOINTMENT_TYPE_CONFIG[initialType].defaultDuration);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [repeats, setRepeats] = useState(false);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [byDay, setByDay] = useState<DayOfWeek[]>(() => [getClinicWeekday(startTime)]);
+  const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>('count');
+  const [count, setCount] = useState(DEFAULT_REPEAT_COUNT);
+  const [untilDate, setUntilDate] = useState(() => getOccurrenceDate(addClinicDays(startTime, 90)));
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleTypeChange = (newType: AppointmentType) => {
+    setType(newType);
+    setDuration(APPOINTMENT_TYPE_CONFIG[newType].defaultDuration);
+  };
+
+  const toggleDay = (day: DayOfWeek) => {
+    setByDay((current) => (current.includes(day) ? current.filter((d) => d !== day) : [...current, day]));
+  };
+
+  const rule = repeats ? buildRule(frequency, repeatInterval, byDay, repeatEnd, count, untilDate) : null;
+  const ruleKey = rule ? JSON.stringify(rule) : '';
+
+  // Memoized so the preview only re-runs when the booking actually changes
+  const seriesInput = useMemo<CreateSeriesInput | null>(() => {
+    if (!ruleKey || !patientId) return null;
+    return {
+      patientId,
+      doctorId: doctor.id,
+      type,
+      startTime: startTime.toISOString(),
+      endTime: addMinutes(startTime, duration).toISOString(),
+      notes,
+      rule: JSON.parse(ruleKey) as RecurrenceRule,
+    };
+  }, [ruleKey, patientId, doctor.id, type, startTime, duration, notes]);
+
+  const { preview, loading: previewLoading, error: previewError } = useSeriesPreview(seriesInput);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!patientId) {
+      setError('Please select a patient');
+      return;
+    }
+
+    if (repeats && !rule) {
+      setError(frequency === 'weekly' && byDay.length === 0 ? 'Please choose the days to repeat on' : 'Please choose when the repeats end');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (seriesInput && onSubmitSeries) {
+        await onSubmitSeries(seriesInput);
+        onClose();
+        return;
+      }
+
+      await onSubmit({
+        patientId,
+        doctorId: doctor.id,
+        type,
+        startTime: startTime.toISOString(),
+        endTime: addMinutes(startTime, duration).toISOString(),
+        notes,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to book appointment');
+      setSubmitting(false);
+    }
+  };
+
+  const endTime = addMinutes(startTime, duration);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="booking-form-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div className="day-icon" aria-hidden="true">
+              <CalendarPlus style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="booking-form-title" className="modal-title">New Appointment</h2>
+              <p className="modal-subtitle">
+                Dr. {doctor.name} • {formatClinicTime(startTime, 'EEE, MMM d')} • {formatClinicTime(startTime, timePattern)} - {formatClinicTime(endTime, timePattern)}
+              </p>
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <form className="modal-body" onSubmit={handleSubmit}>
+          <div className="form-field">
+            <label htmlFor="booking-patient" className="form-label">Patient</label>
+            <select
+              id="booking-patient"
+              className="form-input"
+              value={patientId}
+              onChange={(e) => setPatientId(e.target.value)}
+              disabled={patientsLoading}
+              autoFocus
+            >
+              <option value="">Select a patient...</option>
+              {patients.map((patient) => (
+                <option key={patient.id} value={patient.id}>
+                  {patient.name} ({patient.email})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-row">
+            <div className="form-field">
+              <label htmlFor="booking-type" className="form-label">Type</label>
+              <select
+                id="booking-type"
+                className="form-input"
+                value={type}
+                onChange={(e) => handleTypeChange(e.target.value as AppointmentType)}
+              >
+                {APPOINTMENT_TYPES.map((appointmentType) => (
+                  <option key={appointmentType} value={appointmentType}>
+                    {APPOINTMENT_TYPE_CONFIG[appointmentType].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-field">
+              <label htmlFor="booking-duration" className="form-label">Duration (min)</label>
+              <input
+                id="booking-duration"
+                type="number"
+                className="form-input"
+                min={DEFAULT_CALENDAR_CONFIG.slotDuration}
+                step={DEFAULT_CALENDAR_CONFIG.slotDuration}
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+              />
+            </div>
+          </div>
+
+          {onSubmitSeries && (
+            <label className="toggle-label">
+              <input type="checkbox" checked={repeats} onChange={(e) => setRepeats(e.target.checked)} />
+              <Repeat style={{ width: '0.875rem', height: '0.875rem' }} aria-hidden="true" />
+              Repeat
+            </label>
+          )}
+
+          {repeats && (
+            <fieldset className="repeat-options">
+              <legend className="sr-only">Repeat options</legend>
+
+              <div className="form-row">
+                <div className="form-field">
+                  <label htmlFor="booking-frequency" className="form-label">Repeats</label>
+                  <select
+                    id="booking-frequency"
+                    className="form-input"
+                    value={frequency}
+                    onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                  </select>
+                </div>
+
+                <div className="form-field">
+                  <label htmlFor="booking-interval" className="form-label">
+                    Every ({frequency === 'daily' ? 'days' : 'weeks'})
+                  </label>
+                  <input
+                    id="booking-interval"
+                    type="number"
+                    className="form-input"
+                    min={1}
+                    max={RECURRENCE_LIMITS.maxInterval}
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(Number(e.target.value))}
+                  />
+                </div>
+              </div>
+
+              {frequency === 'weekly' && (
+                <div className="form-field">
+                  <span className="form-label" id="booking-days-label">On</span>
+                  <div className="repeat-days" role="group" aria-labelledby="booking-days-label">
+                    {WEEKDAYS.map((day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        className={`repeat-day${byDay.includes(day) ? ' selected' : ''}`}
+                        aria-pressed={byDay.includes(day)}
+                        aria-label={day}
+                        onClick={() => toggleDay(day)}
+                      >
+                        {WEEKDAY_CODES[day]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="form-row">
+                <div className="form-field">
+                  <label htmlFor="booking-repeat-end" className="form-label">Ends</label>
+                  <select
+                    id="booking-repeat-end"
+                    className="form-input"
+                    value={repeatEnd}
+                    onChange={(e) => setRepeatEnd(e.target.value as RepeatEnd)}
+                  >
+                    <option value="count">After a number of times</option>
+                    <option value="until">On a date</option>
+                    <option value="never">Never</option>
+                  </select>
+                </div>
+
+                {repeatEnd === 'count' && (
+                  <div className="form-field">
+                    <label htmlFor="booking-count" className="form-label">Times</label>
+                    <input
+                      id="booking-count"
+                      type="number"
+                      className="form-input"
+                      min={1}
+                      max={RECURRENCE_LIMITS.maxCount}
+                      value={count}
+                      onChange={(e) => setCount(Number(e.target.value))}
+                    />
+                  </div>
+                )}
+
+                {repeatEnd === 'until' && (
+                  <div className="form-field">
+                    <label htmlFor="booking-until" className="form-label">Last date</label>
+                    <input
+                      id="booking-until"
+                      type="date"
+                      className="form-input"
+                      min={getOccurrenceDate(startTime)}
+                      value={untilDate}
+                      onChange={(e) => setUntilDate(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="repeat-preview" aria-live="polite">
+                {rule && <p className="repeat-summary">{describeRecurrenceRule(rule)}</p>}
+                {!patientId ? (
+                  <p>Select a patient to check the dates.</p>
+                ) : previewError ? (
+                  <p className="repeat-preview-error">{previewError.message}</p>
+                ) : previewLoading || !preview ? (
+                  <p>Checking dates...</p>
+                ) : preview.conflicts.length === 0 ? (
+                  <p>
+                    All {preview.occurrences.length} dates
+                    {repeatEnd === 'never' ? ` in the next ${SERIES_CHECK_HORIZON_DAYS} days` : ''} are free.
+                  </p>
+                ) : (
+                  <>
+                    <p>
+                      {preview.conflicts.length} of {preview.occurrences.length} dates can&apos;t be booked and will
+                      be skipped:
+                    </p>
+                    <ul className="repeat-conflicts">
+                      {preview.conflicts.map(({ occurrence, message }) => (
+                        <li key={occurrence.id}>
+                          <strong>{formatClinicTime(new Date(occurrence.startTime), 'EEE, MMM d')}</strong> {message}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            </fieldset>
+          )}
+
+          <div className="form-field">
+            <label htmlFor="booking-notes" className="form-label">Notes</label>
+            <textarea
+              id="booking-notes"
+              className="form-input"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          {error && (
+            <div className="form-error" role="alert">
+              <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button type="button" className="secondary-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="primary-button" disabled={submitting}>
+              {submitting ? 'Booking...' : repeats ? 'Book Series' : 'Book Appointment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * CalendarExport Component
+ *
+ * Buttons to download a doctor's appointments in the visible range as an
+ * .ics file, and to get the subscribable feed URL for calendar apps.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Download, Rss, Copy, X, AlertCircle } from 'lucide-react';
+import type { Doctor } from '@/types';
+import {
+  FEED_WINDOW,
+  downloadICalendar,
+  exportDoctorCalendar,
+  fetchCalendarFeedUrl,
+  getICalendarFileName,
+} from '@/services/calendarExport';
+
+interface CalendarExportProps {
+  doctor: Doctor;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * CalendarExport Component
+ */
+export function CalendarExport({ doctor, startDate, endDate }: CalendarExportProps) {
+  const [exporting, setExporting] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const calendar = await exportDoctorCalendar(doctor, startDate, endDate);
+      downloadICalendar(getICalendarFileName(doctor, startDate, endDate), calendar);
+    } catch (err) {
+      setError(`Can't export calendar: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSubscribe = async () => {
+    setError(null);
+    setCopied(false);
+    try {
+      setFeedUrl(await fetchCalendarFeedUrl(doctor.id));
+    } catch (err) {
+      setError(`Can't get feed URL: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be refused; the URL stays selectable
+    }
+  };
+
+  return (
+    <div className="calendar-export">
+      <div className="calendar-export-buttons">
+        <button
+          type="button"
+          className="view-button inactive"
+          onClick={handleDownload}
+          disabled={exporting}
+          title="Download the visible range as an .ics file"
+        >
+          <Download style={{ width: '1rem', height: '1rem' }} />
+          {exporting ? 'Exporting...' : 'Export .ics'}
+        </button>
+        <button
+          type="button"
+          className={`view-button ${feedUrl ? 'active' : 'inactive'}`}
+          onClick={handleSubscribe}
+          title="Subscribe from a calendar app"
+        >
+          <Rss style={{ width: '1rem', height: '1rem' }} />
+          Subscribe
+        </button>
+      </div>
+
+      {feedUrl && (
+        <div className="calendar-feed" role="region" aria-label="Calendar feed URL">
+          <input
+            type="text"
+            className="form-input"
+            value={feedUrl}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            aria-describedby="calendar-feed-hint"
+          />
+          <button type="button" className="icon-button" onClick={handleCopy} aria-label="Copy feed URL">
+            <Copy style={{ width: '0.875rem', height: '0.875rem' }} />
+          </button>
+          <button type="button" className="icon-button" onClick={() => setFeedUrl(null)} aria-label="Close">
+            <X style={{ width: '0.875rem', height: '0.875rem' }} />
+          </button>
+          <p id="calendar-feed-hint" className="calendar-feed-hint">
+            {copied ? 'Copied. ' : ''}
+            Add this URL to your calendar app. It covers the past {FEED_WINDOW.pastDays} and
+            next {FEED_WINDOW.futureDays} days.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="form-error" role="alert">
+          <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
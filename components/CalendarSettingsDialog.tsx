@@ -0,0 +1,241 @@
+/**
+ * CalendarSettingsDialog Component
+ *
+ * Modal for the signed-in user's calendar display settings: visible hours,
+ * slot length and height, first day of the week, 12/24-hour clock and
+ * whether to also show times on the viewer's own clock.
+ * Changes apply to every view once saved.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Settings, X, AlertCircle } from 'lucide-react';
+import type { CalendarSettings, TimeFormat, WeekStartDay } from '@/types';
+import { SLOT_DURATION_OPTIONS } from '@/types';
+import { SLOT_HEIGHT_LIMITS, WEEK_START_LABELS, validateCalendarSettings } from '@/services/calendarSettings';
+import { CLINIC_TIME_ZONE, getViewerTimeZone } from '@/services/clinicTime';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+
+interface CalendarSettingsDialogProps {
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+
+const WEEK_START_DAYS = Object.keys(WEEK_START_LABELS).map(Number) as WeekStartDay[];
+
+/**
+ * Field names used in validation messages
+ */
+const FIELD_LABELS: Partial<Record<keyof CalendarSettings, string>> = {
+  startHour: 'Day start',
+  endHour: 'Day end',
+  slotDuration: 'Slot length',
+  slotHeight: 'Slot height',
+};
+
+/**
+ * Label for an hour option, in the clock being edited
+ */
+function formatHour(hour: number, timeFormat: TimeFormat): string {
+  if (timeFormat === '24h') return `${String(hour).padStart(2, '0')}:00`;
+  const period = hour < 12 || hour === 24 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${period}`;
+}
+
+/**
+ * CalendarSettingsDialog Component
+ */
+export function CalendarSettingsDialog({ onClose }: CalendarSettingsDialogProps) {
+  const { settings, updateSettings, resetSettings } = useCalendarSettings();
+  const [draft, setDraft] = useState<CalendarSettings>(settings);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const errors = validateCalendarSettings(draft);
+  const errorMessages = (Object.keys(errors) as (keyof CalendarSettings)[]).map(
+    (field) => `${FIELD_LABELS[field] ?? field}: ${errors[field]}`
+  );
+
+  const update = <K extends keyof CalendarSettings>(key: K, value: CalendarSettings[K]) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (errorMessages.length > 0) return;
+
+    updateSettings(draft);
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetSettings();
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="calendar-settings-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div className="day-icon" aria-hidden="true">
+              <Settings style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="calendar-settings-title" className="modal-title">Calendar Settings</h2>
+              <p className="modal-subtitle">Saved for your sign-in on this browser</p>
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <form className="modal-body" onSubmit={handleSubmit}>
+          <label className="toggle-label">
+            <input
+              type="checkbox"
+              checked={draft.fitToWorkingHours}
+              onChange={(e) => update('fitToWorkingHours', e.target.checked)}
+            />
+            Fit visible hours to the doctor&apos;s working hours
+          </label>
+
+          <div className="form-row">
+            <div className="form-field">
+              <label htmlFor="settings-start-hour" className="form-label">Day starts at</label>
+              <select
+                id="settings-start-hour"
+                className="form-input"
+                value={draft.startHour}
+                onChange={(e) => update('startHour', Number(e.target.value))}
+                disabled={draft.fitToWorkingHours}
+              >
+                {HOURS.slice(0, 24).map((hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour, draft.timeFormat)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-field">
+              <label htmlFor="settings-end-hour" className="form-label">Day ends at</label>
+              <select
+                id="settings-end-hour"
+                className="form-input"
+                value={draft.endHour}
+                onChange={(e) => update('endHour', Number(e.target.value))}
+                disabled={draft.fitToWorkingHours}
+              >
+                {HOURS.slice(1).map((hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour, draft.timeFormat)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-field">
+              <label htmlFor="settings-slot-duration" className="form-label">Slot length</label>
+              <select
+                id="settings-slot-duration"
+                className="form-input"
+                value={draft.slotDuration}
+                onChange={(e) => update('slotDuration', Number(e.target.value))}
+              >
+                {SLOT_DURATION_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-field">
+              <label htmlFor="settings-slot-height" className="form-label">Slot height (px)</label>
+              <input
+                id="settings-slot-height"
+                type="number"
+                className="form-input"
+                min={SLOT_HEIGHT_LIMITS.min}
+                max={SLOT_HEIGHT_LIMITS.max}
+                step={5}
+                value={draft.slotHeight}
+                onChange={(e) => update('slotHeight', Number(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-field">
+              <label htmlFor="settings-week-start" className="form-label">Week starts on</label>
+              <select
+                id="settings-week-start"
+                className="form-input"
+                value={draft.weekStartsOn}
+                onChange={(e) => update('weekStartsOn', Number(e.target.value) as WeekStartDay)}
+              >
+                {WEEK_START_DAYS.map((day) => (
+                  <option key={day} value={day}>{WEEK_START_LABELS[day]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-field">
+              <label htmlFor="settings-time-format" className="form-label">Time format</label>
+              <select
+                id="settings-time-format"
+                className="form-input"
+                value={draft.timeFormat}
+                onChange={(e) => update('timeFormat', e.target.value as TimeFormat)}
+              >
+                <option value="12h">12-hour (2:30 PM)</option>
+                <option value="24h">24-hour (14:30)</option>
+              </select>
+            </div>
+          </div>
+
+          <label className="toggle-label">
+            <input
+              type="checkbox"
+              checked={draft.showViewerTime}
+              onChange={(e) => update('showViewerTime', e.target.checked)}
+            />
+            Also show times in my time zone ({getViewerTimeZone()}); schedule times are {CLINIC_TIME_ZONE}
+          </label>
+
+          {errorMessages.length > 0 && (
+            <div className="form-error" role="alert">
+              <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+              <span>{errorMessages.join('. ')}</span>
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button type="button" className="secondary-button" onClick={handleReset}>
+              Reset to defaults
+            </button>
+            <button type="button" className="secondary-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="primary-button" disabled={errorMessages.length > 0}>
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -15,16 +15,29 @@
 'use client';
 
 import { useMemo } from 'react';
-import { format } from 'date-fns';
-import { Calendar, Clock, CalendarX } from 'lucide-react';
-import type { Appointment, Doctor, TimeSlot, PopulatedAppointment, AppointmentType } from '@/types';
-import { APPOINTMENT_TYPE_CONFIG, DEFAULT_CALENDAR_CONFIG } from '@/types';
-import { appointmentService } from '@/services/appointmentService';
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import { Calendar, Clock, CalendarX, Plus, Repeat } from 'lucide-react';
+import type { Appointment, Doctor, TimeSlot, PopulatedAppointment, AppointmentType, ScheduleException } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { appointmentService, isActiveAppointment } from '@/services/appointmentService';
+import { TIME_FORMATS, getVisibleCalendarConfig } from '@/services/calendarSettings';
+import { formatClinicTime, getZonedDateParts, setClinicTime } from '@/services/clinicTime';
+import { SCHEDULE_EXCEPTION_KIND_LABELS, getExceptionsOnDate } from '@/services/scheduleExceptions';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { useAppointmentDrag, KEYBOARD_RESCHEDULE_HINT } from '@/hooks/useAppointmentDrag';
+import { AppointmentLayer } from './AppointmentLayer';
+import { ViewerTime } from './ViewerTime';
+import { WaitlistDemandBadge } from './WaitlistDemandBadge';
 
 interface DayViewProps {
-  appointments: Appointment[];
+  appointments: PopulatedAppointment[];
   doctor: Doctor | undefined;
   date: Date;
+  exceptions?: ScheduleException[]; // The doctor's time off, breaks and extra sessions
+  waitlistDemand?: Record<string, number>; // Waitlisted patients per clinic date ("YYYY-MM-DD")
+  onSlotClick?: (start: Date) => void;
+  onAppointmentReschedule?: (appointment: Appointment, start: Date, end: Date) => void | Promise<void>;
+  onAppointmentSelect?: (appointment: PopulatedAppointment) => void; // Card clicked or activated with Enter/Space
 }
 
 /**
@@ -35,13 +48,15 @@ interface AppointmentCardProps {
   duration: number; // in minutes
 }
 
-function AppointmentCard({ appointment, duration }: AppointmentCardProps) {
+export function AppointmentCard({ appointment, duration }: AppointmentCardProps) {
   const typeConfig = APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType];
-  const startTime = format(new Date(appointment.startTime), 'h:mm a');
+  const statusConfig = APPOINTMENT_STATUS_CONFIG[appointment.status];
+  const { settings } = useCalendarSettings();
+  const startTime = formatClinicTime(new Date(appointment.startTime), TIME_FORMATS[settings.timeFormat].time);
   
   return (
     <div
-      className="appointment-card"
+      className={`appointment-card status-${appointment.status}`}
       style={{
         backgroundColor: `${typeConfig.color}f0`,
         borderLeftColor: typeConfig.color,
@@ -53,6 +68,9 @@ function AppointmentCard({ appointment, duration }: AppointmentCardProps) {
           {appointment.patient.name}
         </div>
         <div className="appointment-duration">
+          {appointment.seriesId && (
+            <Repeat style={{ width: '0.75rem', height: '0.75rem' }} aria-label="Repeating" />
+          )}
           {duration}m
         </div>
       </div>
@@ -65,6 +83,9 @@ function AppointmentCard({ appointment, duration }: AppointmentCardProps) {
       <div className="appointment-time">
         <Clock style={{ width: '0.75rem', height: '0.75rem' }} />
         <span>{startTime}</span>
+        <span className="appointment-status-badge" style={{ backgroundColor: statusConfig.color }}>
+          {statusConfig.label}
+        </span>
       </div>
     </div>
   );
@@ -75,90 +96,110 @@ function AppointmentCard({ appointment, duration }: AppointmentCardProps) {
  *
  * Renders a daily timeline view with appointments.
  */
-export function DayView({ appointments, doctor, date }: DayViewProps) {
+export function DayView({
+  appointments,
+  doctor,
+  date,
+  exceptions = [],
+  waitlistDemand = {},
+  onSlotClick,
+  onAppointmentReschedule,
+  onAppointmentSelect,
+}: DayViewProps) {
+  const { settings } = useCalendarSettings();
+  const { slotHeight } = settings;
+  const timeFormat = TIME_FORMATS[settings.timeFormat];
+
   /**
-   * Generate time slots from 8 AM to 6 PM with 30-minute intervals
+   * Visible hours from the settings, fitted to the doctor's working hours across the week
    */
-  const timeSlots = useMemo((): TimeSlot[] => {
-    const slots: TimeSlot[] = [];
-    const { startHour, endHour, slotDuration } = DEFAULT_CALENDAR_CONFIG;
-    
-    for (let hour = startHour; hour < endHour; hour++) {
-      for (let minute = 0; minute < 60; minute += slotDuration) {
-        const start = new Date(date);
-        start.setHours(hour, minute, 0, 0);
-        
-        const end = new Date(start);
-        end.setMinutes(end.getMinutes() + slotDuration);
-        
-        const label = format(start, 'h:mm a');
-        
-        slots.push({ start, end, label });
-      }
-    }
-    
-    return slots;
-  }, [date]);
+  const calendarConfig = useMemo(
+    () => getVisibleCalendarConfig(settings, doctor ? [doctor] : [], exceptions),
+    [settings, doctor, exceptions]
+  );
+
+  const {
+    draggingId,
+    resizingId,
+    getDragSourceProps,
+    getDropTargetProps,
+    getDropTargetState,
+    getResizeHandleProps,
+    getDisplayDuration,
+    handleRescheduleKeyDown,
+  } = useAppointmentDrag({
+    slotDuration: calendarConfig.slotDuration,
+    slotHeight,
+    onReschedule: (appointment, start, end) => onAppointmentReschedule?.(appointment, start, end),
+  });
 
   /**
-   * Get populated appointments with patient and doctor data
+   * Working periods for this date (none on the doctor's day off or time off)
    */
-  const populatedAppointments = useMemo(() => {
-    return appointmentService.getPopulatedAppointments(appointments);
-  }, [appointments]);
+  const workingPeriods = doctor ? appointmentService.getWorkingPeriodsForDate(doctor, date, exceptions) : [];
+  const isDayOff = Boolean(doctor) && workingPeriods.length === 0;
+  const absence = doctor
+    ? getExceptionsOnDate(exceptions, doctor.id, date).find((exception) => exception.kind === 'absence')
+    : undefined;
+
 
   /**
-   * Find appointments that start in a specific time slot
+   * Find appointments that overlap a specific time slot
    */
   function getAppointmentsForSlot(slot: TimeSlot): PopulatedAppointment[] {
-    return populatedAppointments.filter((appointment) => {
+    return appointments.filter((appointment) => {
       const appointmentStart = new Date(appointment.startTime);
-      return appointmentStart >= slot.start && appointmentStart < slot.end;
+      const appointmentEnd = new Date(appointment.endTime);
+      return appointmentStart < slot.end && appointmentEnd > slot.start;
     });
   }
 
   /**
-   * Calculate appointment duration in minutes
+   * Time range covered by the timeline in clinic time, used to position the appointment layer
    */
-  function getAppointmentDuration(appointment: Appointment): number {
-    const start = new Date(appointment.startTime);
-    const end = new Date(appointment.endTime);
-    return Math.round((end.getTime() - start.getTime()) / (1000 * 60));
-  }
+  const timelineRange = useMemo(() => ({
+    start: setClinicTime(date, calendarConfig.startHour),
+    end: setClinicTime(date, calendarConfig.endHour),
+  }), [date, calendarConfig]);
 
   /**
-   * Calculate how many slots an appointment spans
+   * Generate time slots for the visible hours
+   *
+   * Stepping through real time keeps slots and the appointment layer in
+   * line on days when DST adds or skips an hour.
    */
-  function getAppointmentSlotSpan(appointment: Appointment): number {
-    const duration = getAppointmentDuration(appointment);
-    return Math.ceil(duration / DEFAULT_CALENDAR_CONFIG.slotDuration);
-  }
+  const timeSlots = useMemo((): TimeSlot[] => {
+    const slots: TimeSlot[] = [];
+    const { slotDuration } = calendarConfig;
+    
+    for (let start = timelineRange.start; start < timelineRange.end; start = addMinutes(start, slotDuration)) {
+      const end = addMinutes(start, slotDuration);
+      const label = formatClinicTime(start, timeFormat.time);
+      
+      slots.push({ start, end, label });
+    }
+    
+    return slots;
+  }, [timelineRange, calendarConfig, timeFormat]);
 
   /**
-   * Calculate the exact position within a time slot for an appointment
+   * Whether the doctor is working for the whole of a slot
    */
-  function getAppointmentPosition(appointment: Appointment, slot: TimeSlot): { top: number; height: number } {
-    const appointmentStart = new Date(appointment.startTime);
-    const appointmentEnd = new Date(appointment.endTime);
-    const slotDurationMs = DEFAULT_CALENDAR_CONFIG.slotDuration * 60 * 1000;
-    const slotHeight = 70; // Height of each slot in pixels
-    
-    // Calculate minutes from slot start
-    const minutesFromSlotStart = (appointmentStart.getTime() - slot.start.getTime()) / (1000 * 60);
-    const appointmentDurationMinutes = (appointmentEnd.getTime() - appointmentStart.getTime()) / (1000 * 60);
-    
-    // Calculate position within the slot
-    const top = (minutesFromSlotStart / DEFAULT_CALENDAR_CONFIG.slotDuration) * slotHeight;
-    const height = Math.min(
-      (appointmentDurationMinutes / DEFAULT_CALENDAR_CONFIG.slotDuration) * slotHeight,
-      slotHeight - top - 4 // Leave some margin and prevent overflow
-    );
-    
-    return { top: Math.max(0, top), height: Math.max(20, height) }; // Minimum height for readability
+  function isWorkingSlot(slot: TimeSlot): boolean {
+    return !doctor || appointmentService.isWithinWorkingHours(doctor, slot.start, slot.end, exceptions);
   }
 
+  // Stretch the card being resized so its new length is visible while dragging
+  const layerAppointments = resizingId
+    ? appointments.map((appointment) =>
+        appointment.id === resizingId
+          ? { ...appointment, endTime: addMinutes(new Date(appointment.startTime), getDisplayDuration(appointment)).toISOString() }
+          : appointment
+      )
+    : appointments;
+
   return (
-    <div className="day-view" role="main" aria-label={`Daily schedule for ${format(date, 'EEEE, MMMM d, yyyy')}`}>
+    <div className="day-view" role="main" aria-label={`Daily schedule for ${formatClinicTime(date, 'EEEE, MMMM d, yyyy')}`}>
       {/* Day header */}
       <header className="day-header">
         <div className="day-header-content">
@@ -166,8 +207,9 @@ export function DayView({ appointments, doctor, date }: DayViewProps) {
             <Calendar style={{ width: '1rem', height: '1rem', color: 'white' }} />
           </div>
           <h1 className="day-title">
-            {format(date, 'EEEE, MMMM d, yyyy')}
+            {formatClinicTime(date, 'EEEE, MMMM d, yyyy')}
           </h1>
+          <WaitlistDemandBadge count={waitlistDemand[formatClinicTime(date, 'yyyy-MM-dd')]} />
         </div>
         {doctor && (
           <div className="day-doctor-info" role="banner" aria-label="Doctor information">
@@ -175,58 +217,82 @@ export function DayView({ appointments, doctor, date }: DayViewProps) {
             <span style={{ fontWeight: '500' }}>Dr. {doctor.name}</span>
             <span aria-hidden="true">•</span>
             <span>{doctor.specialty}</span>
+            {isDayOff && (
+              <>
+                <span aria-hidden="true">•</span>
+                <span className="day-off-label">
+                  {absence ? `Away: ${absence.reason ?? SCHEDULE_EXCEPTION_KIND_LABELS.absence}` : 'Not working today'}
+                </span>
+              </>
+            )}
           </div>
         )}
       </header>
 
+      {onAppointmentReschedule && (
+        <p id="day-view-reschedule-hint" className="sr-only">{KEYBOARD_RESCHEDULE_HINT}</p>
+      )}
+
       {/* Timeline grid */}
-      <div className="timeline-grid" role="grid" aria-label="Daily appointment schedule">
+      <div
+        className={`timeline-grid ${draggingId ? 'dragging-active' : ''}`}
+        role="grid"
+        aria-label="Daily appointment schedule"
+      >
         {timeSlots.map((slot, index) => {
           const slotAppointments = getAppointmentsForSlot(slot);
-          const isCurrentHour = new Date().getHours() === slot.start.getHours();
+          const now = new Date();
+          const isCurrentHour = getZonedDateParts(now).hour === getZonedDateParts(slot.start).hour;
+          const isCurrentSlot = slot.start <= now && now < slot.end;
+          const dropState = getDropTargetState(slot.start);
+          const isWorking = isWorkingSlot(slot);
           
           return (
-            <div key={index} className={`timeline-row ${isCurrentHour ? 'current-hour' : ''}`} role="row" aria-label={`Time slot ${slot.label}`}>
+            <div
+              key={index}
+              className={`timeline-row ${isCurrentHour ? 'current-hour' : ''}`}
+              style={{ height: `${slotHeight}px` }}
+              role="row"
+              aria-label={`Time slot ${slot.label}`}
+            >
               <div className={`time-slot ${isCurrentHour ? 'current-hour' : ''}`} role="rowheader" aria-label={`Time ${slot.label}`}>
                 <div className="time-content">
                   <div className={`time-hour ${isCurrentHour ? 'current' : ''}`}>
-                    {format(slot.start, 'h:mm')}
-                  </div>
-                  <div className={`time-period ${isCurrentHour ? 'current' : ''}`}>
-                    {format(slot.start, 'a')}
+                    {formatClinicTime(slot.start, timeFormat.clock)}
                   </div>
+                  {timeFormat.period && (
+                    <div className={`time-period ${isCurrentHour ? 'current' : ''}`}>
+                      {formatClinicTime(slot.start, timeFormat.period)}
+                    </div>
+                  )}
+                  <ViewerTime date={slot.start} />
                 </div>
               </div>
-              <div className="appointment-slot" role="gridcell" aria-label={`${slotAppointments.length} appointment${slotAppointments.length !== 1 ? 's' : ''} at ${slot.label}`}>
-                {slotAppointments.map((appointment, appointmentIndex) => {
-                  const duration = getAppointmentDuration(appointment);
-                  
-                  return (
-                    <div
-                      key={appointment.id}
-                      role="button"
-                      tabIndex={0}
-                      aria-label={`Appointment: ${appointment.patient.name}, ${APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label}, ${duration} minutes, ${format(new Date(appointment.startTime), 'h:mm a')}`}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' || e.key === ' ') {
-                          // Handle appointment selection
-                          e.preventDefault();
-                        }
-                      }}
-                    >
-                      <AppointmentCard 
-                        appointment={appointment} 
-                        duration={duration}
-                      />
-                    </div>
-                  );
-                })}
+              <div
+                className={`appointment-slot ${isWorking ? '' : 'outside-hours'} ${dropState ? (dropState.valid ? 'drop-valid' : 'drop-invalid') : ''}`}
+                role="gridcell"
+                aria-label={`${slotAppointments.length} appointment${slotAppointments.length !== 1 ? 's' : ''} at ${slot.label}${isWorking ? '' : ', outside working hours'}`}
+                title={dropState?.message ?? undefined}
+                {...(onAppointmentReschedule ? getDropTargetProps(slot.start) : {})}
+              >
+                {/* Book into an empty slot */}
+                {isWorking && !slotAppointments.some(isActiveAppointment) && onSlotClick && (
+                  <button
+                    type="button"
+                    className="slot-book-button"
+                    onClick={() => onSlotClick(slot.start)}
+                    aria-label={`Book appointment at ${slot.label}`}
+                  >
+                    <Plus style={{ width: '0.875rem', height: '0.875rem' }} />
+                    Book
+                  </button>
+                )}
                 
                 {/* Current time indicator */}
-                {isCurrentHour && (
+                {isCurrentSlot && (
                   <div 
                     className="current-time-line" 
-                    style={{ top: `${(new Date().getMinutes() / 60) * 70}px` }}
+                    style={{ top: `${(differenceInMinutes(now, slot.start) / calendarConfig.slotDuration) * slotHeight}px` }}
                   >
                     <div className="current-time-dot"></div>
                   </div>
@@ -235,6 +301,45 @@ export function DayView({ appointments, doctor, date }: DayViewProps) {
             </div>
           );
         })}
+
+        {/* Appointments, positioned by time with overlaps side by side */}
+        <AppointmentLayer
+          className="day-appointment-layer"
+          appointments={layerAppointments}
+          rangeStart={timelineRange.start}
+          rangeEnd={timelineRange.end}
+          pixelsPerMinute={slotHeight / calendarConfig.slotDuration}
+          renderAppointment={(appointment) => {
+            const duration = getDisplayDuration(appointment);
+
+            return (
+              <div
+                role="button"
+                tabIndex={0}
+                className={`appointment-draggable ${draggingId === appointment.id ? 'dragging' : ''}`}
+                aria-label={`Appointment: ${appointment.patient.name}, ${APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label}, ${duration} minutes, ${formatClinicTime(new Date(appointment.startTime), timeFormat.time)}, ${APPOINTMENT_STATUS_CONFIG[appointment.status].label}`}
+                aria-describedby={onAppointmentReschedule ? 'day-view-reschedule-hint' : undefined}
+                {...(onAppointmentReschedule ? getDragSourceProps(appointment) : {})}
+                onClick={() => onAppointmentSelect?.(appointment)}
+                onKeyDown={(e) => {
+                  if (onAppointmentReschedule && handleRescheduleKeyDown(e, appointment)) return;
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onAppointmentSelect?.(appointment);
+                  }
+                }}
+              >
+                <AppointmentCard 
+                  appointment={appointment} 
+                  duration={duration}
+                />
+                {onAppointmentReschedule && (
+                  <div className="resize-handle" {...getResizeHandleProps(appointment)} />
+                )}
+              </div>
+            );
+          }}
+        />
       </div>
 
       {/* Empty state */}
@@ -245,7 +350,7 @@ export function DayView({ appointments, doctor, date }: DayViewProps) {
           </div>
           <h4 className="text-lg font-semibold text-gray-900 mb-2">No appointments today</h4>
           <p className="text-gray-500 max-w-sm mx-auto">
-            There are no appointments scheduled for {format(date, 'MMMM d, yyyy')}.
+            There are no appointments scheduled for {formatClinicTime(date, 'MMMM d, yyyy')}.
           </p>
         </div>
       )}
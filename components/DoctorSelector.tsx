@@ -17,6 +17,7 @@
 import { ChevronDown, AlertCircle, User, Mail, Phone } from 'lucide-react';
 import { useDoctors } from '@/hooks/useAppointments';
 import type { Doctor, Specialty } from '@/types';
+import { SPECIALTY_LABELS } from '@/types';
 
 interface DoctorSelectorProps {
   selectedDoctorId: string;
@@ -40,14 +41,7 @@ interface DoctorSelectorProps {
  * Format specialty for display
  */
 function formatSpecialty(specialty: Specialty): string {
-  const specialtyMap: Record<Specialty, string> = {
-    'cardiology': 'Cardiology',
-    'pediatrics': 'Pediatrics',
-    'general-practice': 'General Practice',
-    'orthopedics': 'Orthopedics',
-    'dermatology': 'Dermatology',
-  };
-  return specialtyMap[specialty] || specialty;
+  return SPECIALTY_LABELS[specialty] || specialty;
 }
 
 export function DoctorSelector({
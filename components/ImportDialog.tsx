@@ -0,0 +1,240 @@
+/**
+ * ImportDialog Component
+ *
+ * Modal for bulk-loading appointments from an .ics or CSV file. Choosing a
+ * file runs a dry run and previews which rows would be created, skipped or
+ * conflict; nothing is booked until the user confirms. Imported
+ * appointments don't message patients. Doctors see masked patient emails,
+ * so their imports match patients by id only.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Upload, X, AlertCircle, CheckCircle } from 'lucide-react';
+import type { AppointmentType } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG } from '@/types';
+import {
+  commitImport,
+  parseImportFile,
+  planImport,
+  type ImportOutcome,
+  type ImportPlanRow,
+  type ImportResult,
+} from '@/services/appointmentImport';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime } from '@/services/clinicTime';
+import { canViewPatientContact } from '@/services/session';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { useSession } from '@/hooks/useSession';
+
+interface ImportDialogProps {
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<ImportOutcome, string> = {
+  create: 'Create',
+  skip: 'Skip',
+  conflict: 'Conflict',
+};
+
+/**
+ * ImportDialog Component
+ */
+export function ImportDialog({ onClose }: ImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ImportPlanRow[] | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { settings } = useCalendarSettings();
+  const { session } = useSession();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setPlan(null);
+    setResult(null);
+    setError(null);
+    setBusy(true);
+    try {
+      const rows = parseImportFile(file.name, await file.text());
+      if (rows.length === 0) {
+        setError('No appointments found in this file');
+        return;
+      }
+      setPlan(await planImport(rows));
+    } catch (err) {
+      setError(`Can't read file: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      setResult(await commitImport(plan));
+    } catch (err) {
+      setError(`Import failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const counts = (plan ?? []).reduce<Record<ImportOutcome, number>>(
+    (totals, { outcome }) => ({ ...totals, [outcome]: totals[outcome] + 1 }),
+    { create: 0, skip: 0, conflict: 0 }
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal import-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div className="day-icon" aria-hidden="true">
+              <Upload style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="import-dialog-title" className="modal-title">Import Appointments</h2>
+              <p className="modal-subtitle">
+                iCalendar (.ics) or CSV with patient, doctor, type, start, end, notes columns
+              </p>
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <div className="form-field">
+            <label htmlFor="import-file" className="form-label">File</label>
+            <input
+              id="import-file"
+              type="file"
+              className="form-input"
+              accept=".ics,.csv,text/calendar,text/csv"
+              onChange={handleFileChange}
+              disabled={busy}
+            />
+            {session && !canViewPatientContact(session) && (
+              <p className="text-gray-600">
+                Patient emails are hidden in a doctor session, so patients are matched by id only.
+              </p>
+            )}
+          </div>
+
+          {busy && !plan && <p className="text-gray-600">Checking {fileName}...</p>}
+
+          {plan && !result && (
+            <>
+              <div className="import-summary" role="status">
+                {(Object.keys(OUTCOME_LABELS) as ImportOutcome[]).map((outcome) => (
+                  <span key={outcome} className={`import-count ${outcome}`}>
+                    {counts[outcome]} {OUTCOME_LABELS[outcome].toLowerCase()}
+                  </span>
+                ))}
+              </div>
+              <p className="text-gray-600">
+                Patients won&apos;t be sent confirmations or reminders for imported appointments.
+              </p>
+
+              <div className="import-preview">
+                <table className="import-table">
+                  <thead>
+                    <tr>
+                      <th scope="col">Row</th>
+                      <th scope="col">Result</th>
+                      <th scope="col">Patient</th>
+                      <th scope="col">Doctor</th>
+                      <th scope="col">When</th>
+                      <th scope="col">Type</th>
+                      <th scope="col">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.map(({ row, outcome, reason, appointment, patient, doctor }) => (
+                      <tr key={row.row} className={`import-row ${outcome}`}>
+                        <td>{row.row}</td>
+                        <td>{OUTCOME_LABELS[outcome]}</td>
+                        <td>{patient?.name ?? row.patient}</td>
+                        <td>{doctor?.name ?? row.doctor}</td>
+                        <td>
+                          {appointment
+                            ? `${formatClinicTime(new Date(appointment.startTime), `MMM d, ${timePattern}`)} - ${formatClinicTime(new Date(appointment.endTime), timePattern)}`
+                            : row.start}
+                        </td>
+                        <td>
+                          {appointment ? APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label : row.type}
+                        </td>
+                        <td>{reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {result && (
+            <div className="schedule-feedback success" role="status">
+              <CheckCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+              <span>
+                Imported {result.created.length} appointment{result.created.length !== 1 ? 's' : ''}
+                {result.failed.length > 0 &&
+                  `; ${result.failed.length} refused since the preview (${result.failed
+                    .map(({ row, reason }) => `row ${row.row}: ${reason}`)
+                    .join('; ')})`}
+              </span>
+            </div>
+          )}
+
+          {error && (
+            <div className="form-error" role="alert">
+              <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button type="button" className="secondary-button" onClick={onClose}>
+              {result ? 'Close' : 'Cancel'}
+            </button>
+            {plan && !result && (
+              <button
+                type="button"
+                className="primary-button"
+                onClick={handleImport}
+                disabled={busy || counts.create === 0}
+              >
+                {busy ? 'Importing...' : `Import ${counts.create} appointment${counts.create !== 1 ? 's' : ''}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
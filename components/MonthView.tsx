@@ -0,0 +1,251 @@
+/**
+ * MonthView Component
+ *
+ * Displays a 6-week overview grid for the selected doctor, with weeks
+ * starting on the day chosen in the calendar settings.
+ * Each day shows its appointment count broken down by type; clicking a day
+ * opens it in the DayView.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarDays, X } from 'lucide-react';
+import type { AppointmentType, Doctor, PopulatedAppointment, ScheduleException, WeekStartDay } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { appointmentService } from '@/services/appointmentService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import {
+  addClinicDays,
+  formatClinicTime,
+  isSameClinicDay,
+  isSameClinicMonth,
+  startOfClinicMonth,
+  startOfClinicWeek,
+} from '@/services/clinicTime';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { WaitlistDemandBadge } from './WaitlistDemandBadge';
+
+interface MonthViewProps {
+  appointments: PopulatedAppointment[];
+  doctor: Doctor | undefined;
+  date: Date; // Any date in the month to show
+  exceptions?: ScheduleException[]; // The doctor's time off, breaks and extra sessions
+  waitlistDemand?: Record<string, number>; // Waitlisted patients per clinic date ("YYYY-MM-DD")
+  onDayClick: (date: Date) => void;
+}
+
+const GRID_DAYS = 42;        // 6 weeks, so every month fits with a stable height
+const MAX_VISIBLE_APPOINTMENTS = 2;
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+
+/**
+ * Get the first day shown in the month grid (the first day of the week on or before the 1st)
+ */
+export function getMonthGridStart(date: Date, weekStartsOn: WeekStartDay): Date {
+  return startOfClinicWeek(startOfClinicMonth(date), weekStartsOn);
+}
+
+/**
+ * Get the last day shown in the month grid
+ */
+export function getMonthGridEnd(date: Date, weekStartsOn: WeekStartDay): Date {
+  return addClinicDays(getMonthGridStart(date, weekStartsOn), GRID_DAYS - 1);
+}
+
+/**
+ * Count appointments per type
+ */
+function countByType(appointments: PopulatedAppointment[]): Record<AppointmentType, number> {
+  const counts = Object.fromEntries(APPOINTMENT_TYPES.map((type) => [type, 0])) as Record<AppointmentType, number>;
+  appointments.forEach((appointment) => {
+    counts[appointment.type]++;
+  });
+  return counts;
+}
+
+/**
+ * Compact appointment line inside a day cell
+ */
+function MonthAppointmentChip({ appointment }: { appointment: PopulatedAppointment }) {
+  const typeConfig = APPOINTMENT_TYPE_CONFIG[appointment.type];
+  const { settings } = useCalendarSettings();
+
+  return (
+    <div className={`month-appointment status-${appointment.status}`} style={{ borderLeftColor: typeConfig.color }}>
+      <span className="month-appointment-time">{formatClinicTime(new Date(appointment.startTime), TIME_FORMATS[settings.timeFormat].clock)}</span>
+      <span className="month-appointment-patient">{appointment.patient.name}</span>
+    </div>
+  );
+}
+
+/**
+ * MonthView Component
+ */
+export function MonthView({ appointments, doctor, date, exceptions = [], waitlistDemand = {}, onDayClick }: MonthViewProps) {
+  // Day whose "+N more" popover is open
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+  const { settings: { weekStartsOn } } = useCalendarSettings();
+
+  useEffect(() => {
+    if (!expandedDay) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setExpandedDay(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [expandedDay]);
+
+  /**
+   * Generate the 42 days of the grid
+   */
+  const gridDays = useMemo((): Date[] => {
+    const start = getMonthGridStart(date, weekStartsOn);
+    return Array.from({ length: GRID_DAYS }, (_, index) => addClinicDays(start, index));
+  }, [date, weekStartsOn]);
+
+  /**
+   * Get appointments for a specific day, in time order
+   */
+  function getAppointmentsForDay(day: Date): PopulatedAppointment[] {
+    return appointmentService.sortAppointmentsByTime(
+      appointments.filter((appointment) => isSameClinicDay(new Date(appointment.startTime), day))
+    );
+  }
+
+  return (
+    <div className="month-view" role="main" aria-label={`Monthly schedule for ${formatClinicTime(date, 'MMMM yyyy')}`}>
+      {/* Month header */}
+      <header className="day-header">
+        <div className="day-header-content">
+          <div className="day-icon" aria-hidden="true">
+            <CalendarDays style={{ width: '1rem', height: '1rem', color: 'white' }} />
+          </div>
+          <h1 className="day-title">{formatClinicTime(date, 'MMMM yyyy')}</h1>
+        </div>
+        {doctor && (
+          <div className="day-doctor-info" role="banner" aria-label="Doctor information">
+            <div className="status-dot" aria-hidden="true"></div>
+            <span style={{ fontWeight: '500' }}>Dr. {doctor.name}</span>
+            <span aria-hidden="true">•</span>
+            <span>{doctor.specialty}</span>
+          </div>
+        )}
+      </header>
+
+      {/* Type legend */}
+      <div className="month-legend" aria-hidden="true">
+        {APPOINTMENT_TYPES.map((type) => (
+          <span key={type} className="month-legend-item">
+            <span className="month-legend-swatch" style={{ backgroundColor: APPOINTMENT_TYPE_CONFIG[type].color }} />
+            {APPOINTMENT_TYPE_CONFIG[type].label}
+          </span>
+        ))}
+      </div>
+
+      {/* Month grid */}
+      <div className="month-grid" role="grid" aria-label="Monthly appointment overview">
+        <div className="month-weekdays" role="row">
+          {gridDays.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="month-weekday" role="columnheader">
+              {formatClinicTime(day, 'EEE')}
+            </div>
+          ))}
+        </div>
+
+        <div className="month-days">
+          {gridDays.map((day) => {
+            const dayKey = formatClinicTime(day, 'yyyy-MM-dd');
+            const dayAppointments = getAppointmentsForDay(day);
+            const counts = countByType(dayAppointments);
+            const hiddenCount = dayAppointments.length - MAX_VISIBLE_APPOINTMENTS;
+            const isToday = isSameClinicDay(day, new Date());
+            const isDayOff =
+              doctor !== undefined && appointmentService.getWorkingPeriodsForDate(doctor, day, exceptions).length === 0;
+            const breakdown = APPOINTMENT_TYPES.filter((type) => counts[type] > 0)
+              .map((type) => `${counts[type]} ${APPOINTMENT_TYPE_CONFIG[type].label}`)
+              .join(', ');
+
+            return (
+              <div
+                key={dayKey}
+                className={`month-day ${isSameClinicMonth(day, date) ? '' : 'outside-month'} ${isToday ? 'today' : ''} ${isDayOff ? 'day-off' : ''}`}
+                role="gridcell"
+                aria-label={`${formatClinicTime(day, 'EEEE, MMMM d')}: ${dayAppointments.length} appointment${dayAppointments.length !== 1 ? 's' : ''}${breakdown ? ` (${breakdown})` : ''}`}
+              >
+                <button
+                  type="button"
+                  className="month-day-button"
+                  onClick={() => onDayClick(day)}
+                  aria-label={`Open ${formatClinicTime(day, 'EEEE, MMMM d')} in day view`}
+                >
+                  <span className="month-day-number">{formatClinicTime(day, 'd')}</span>
+                  <WaitlistDemandBadge count={waitlistDemand[dayKey]} />
+                  {dayAppointments.length > 0 && (
+                    <span className="month-day-count">{dayAppointments.length}</span>
+                  )}
+                </button>
+
+                {/* Count broken down by type */}
+                {dayAppointments.length > 0 && (
+                  <div className="month-type-bar" title={breakdown}>
+                    {APPOINTMENT_TYPES.filter((type) => counts[type] > 0).map((type) => (
+                      <span
+                        key={type}
+                        className="month-type-segment"
+                        style={{ flexGrow: counts[type], backgroundColor: APPOINTMENT_TYPE_CONFIG[type].color }}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {dayAppointments.slice(0, MAX_VISIBLE_APPOINTMENTS).map((appointment) => (
+                  <MonthAppointmentChip key={appointment.id} appointment={appointment} />
+                ))}
+
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    className="month-more-button"
+                    onClick={() => setExpandedDay(expandedDay === dayKey ? null : dayKey)}
+                    aria-expanded={expandedDay === dayKey}
+                  >
+                    +{hiddenCount} more
+                  </button>
+                )}
+
+                {/* Overflow popover with the full list */}
+                {expandedDay === dayKey && (
+                  <div className="month-popover" role="dialog" aria-label={`Appointments on ${formatClinicTime(day, 'MMMM d')}`}>
+                    <div className="month-popover-header">
+                      <span>{formatClinicTime(day, 'EEE, MMM d')}</span>
+                      <button
+                        type="button"
+                        className="icon-button"
+                        onClick={() => setExpandedDay(null)}
+                        aria-label="Close"
+                      >
+                        <X style={{ width: '0.875rem', height: '0.875rem' }} />
+                      </button>
+                    </div>
+                    {dayAppointments.map((appointment) => (
+                      <button
+                        key={appointment.id}
+                        type="button"
+                        className="month-popover-item"
+                        onClick={() => onDayClick(day)}
+                      >
+                        <MonthAppointmentChip appointment={appointment} />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * NotificationLog Component
+ *
+ * Delivery log of one appointment's patient messages: each confirmation,
+ * notice and reminder queued in the outbox, with its channel, recipient,
+ * status and every delivery attempt. Addresses are masked for doctors.
+ */
+
+'use client';
+
+import { Mail, MessageSquare } from 'lucide-react';
+import { NOTIFICATION_CHANNEL_LABELS, NOTIFICATION_EVENT_LABELS, OUTBOX_STATUS_LABELS } from '@/types';
+import type { OutboxMessage } from '@/types';
+import { useAppointmentNotifications } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime } from '@/services/clinicTime';
+
+interface NotificationLogProps {
+  appointmentId: string;
+}
+
+/**
+ * When a message went out, or when it's due to
+ */
+function describeTiming(message: OutboxMessage, pattern: string): string {
+  const format = (iso: string) => formatClinicTime(new Date(iso), pattern);
+  switch (message.status) {
+    case 'sent':
+      return `Sent ${format(message.sentAt ?? message.sendAt)}`;
+    case 'pending':
+      return `Scheduled for ${format(message.sendAt)}`;
+    case 'failed':
+      return `Gave up after ${message.attempts.length} attempt${message.attempts.length !== 1 ? 's' : ''}`;
+    case 'cancelled':
+      return `Was due ${format(message.sendAt)}`;
+  }
+}
+
+/**
+ * NotificationLog Component
+ */
+export function NotificationLog({ appointmentId }: NotificationLogProps) {
+  const { messages, loading, error } = useAppointmentNotifications(appointmentId);
+  const { settings } = useCalendarSettings();
+  const pattern = `MMM d, ${TIME_FORMATS[settings.timeFormat].time}`;
+
+  return (
+    <section className="drawer-section" aria-labelledby="drawer-messages-title">
+      <h3 id="drawer-messages-title" className="form-label">Patient messages</h3>
+      {error ? (
+        <p className="form-error" role="alert">{error.message}</p>
+      ) : loading ? (
+        <p className="message-log-empty">Loading messages...</p>
+      ) : messages.length === 0 ? (
+        <p className="message-log-empty">No messages for this appointment yet.</p>
+      ) : (
+        <ul className="message-log">
+          {messages.map((message) => {
+            const Icon = message.channel === 'email' ? Mail : MessageSquare;
+            return (
+              <li key={message.id} className="message-log-entry">
+                <div className="message-log-header">
+                  <Icon
+                    style={{ width: '0.875rem', height: '0.875rem', flexShrink: 0 }}
+                    aria-label={NOTIFICATION_CHANNEL_LABELS[message.channel]}
+                  />
+                  <span className="message-log-event">{NOTIFICATION_EVENT_LABELS[message.event]}</span>
+                  <span className={`message-status status-${message.status}`}>
+                    {OUTBOX_STATUS_LABELS[message.status]}
+                  </span>
+                </div>
+                <div className="message-log-meta">
+                  To {message.to} • {describeTiming(message, pattern)}
+                </div>
+                {message.attempts.length > 0 && (
+                  <ol className="message-log-attempts">
+                    {message.attempts.map((attempt, index) => (
+                      <li key={`${attempt.at}:${index}`} className={attempt.error ? 'attempt-failed' : undefined}>
+                        {formatClinicTime(new Date(attempt.at), pattern)} via {attempt.transport}:{' '}
+                        {attempt.error ?? 'delivered'}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
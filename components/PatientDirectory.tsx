@@ -0,0 +1,173 @@
+/**
+ * PatientDirectory Component
+ *
+ * Searchable, paginated list of patients linking to each patient's page.
+ * The search and page live in the URL (e.g. /patients?q=smith&page=2)
+ * so refreshes and shared links keep them.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Search, ChevronLeft, ChevronRight, Users } from 'lucide-react';
+import { usePatientDirectory } from '@/hooks/useAppointments';
+import { getPatientAge } from '@/services/patients';
+
+/**
+ * Milliseconds of typing pause before the search is written to the URL
+ */
+const QUERY_WRITE_DELAY = 300;
+
+/**
+ * Read the 1-based page param, falling back to the first page
+ */
+function parsePageParam(value: string | null): number {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+/**
+ * PatientDirectory Component
+ */
+export function PatientDirectory() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const urlQuery = searchParams.get('q') ?? '';
+  const page = parsePageParam(searchParams.get('page'));
+
+  const { result, loading, error } = usePatientDirectory({ query: urlQuery, page });
+
+  const navigate = useCallback(
+    (query: string, nextPage: number, replace: boolean) => {
+      const params = new URLSearchParams();
+      if (query) params.set('q', query);
+      if (nextPage > 1) params.set('page', String(nextPage));
+      const search = params.toString();
+      const href = search ? `${pathname}?${search}` : pathname;
+      if (replace) router.replace(href, { scroll: false });
+      else router.push(href, { scroll: false });
+    },
+    [pathname, router]
+  );
+
+  // Search input value; follows the URL on back/forward
+  const [query, setQuery] = useState(urlQuery);
+  const writtenQuery = useRef(urlQuery);
+  const queryTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (urlQuery === writtenQuery.current) return;
+    writtenQuery.current = urlQuery;
+    setQuery(urlQuery);
+  }, [urlQuery]);
+
+  useEffect(() => () => clearTimeout(queryTimer.current), []);
+
+  // A new search starts again from the first page
+  const handleQueryChange = (newQuery: string) => {
+    setQuery(newQuery);
+    clearTimeout(queryTimer.current);
+    queryTimer.current = setTimeout(() => {
+      writtenQuery.current = newQuery;
+      navigate(newQuery, 1, true);
+    }, QUERY_WRITE_DELAY);
+  };
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const shownPage = result?.page ?? page;
+
+  return (
+    <div className="card">
+      <div className="header-section">
+        <div className="search-container patient-search">
+          <Search className="search-icon" style={{ width: '1rem', height: '1rem' }} />
+          <input
+            type="search"
+            placeholder="Search by name, email or phone..."
+            value={query}
+            onChange={(e) => handleQueryChange(e.target.value)}
+            className="search-input"
+            aria-label="Search patients"
+          />
+        </div>
+      </div>
+
+      <div className="p-8">
+        {error ? (
+          <div className="form-error" role="alert">
+            <span>{error.message}</span>
+          </div>
+        ) : !result && loading ? (
+          <p className="text-gray-600">Loading patients...</p>
+        ) : !result || result.patients.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-icon">
+              <Users style={{ width: '2rem', height: '2rem', color: '#9ca3af' }} />
+            </div>
+            <p className="text-gray-600">
+              {urlQuery ? `No patients match "${urlQuery}"` : 'No patients yet'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <table className="patient-table" aria-busy={loading}>
+              <thead>
+                <tr>
+                  <th scope="col">Name</th>
+                  <th scope="col">Age</th>
+                  <th scope="col">Email</th>
+                  <th scope="col">Phone</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.patients.map((patient) => (
+                  <tr key={patient.id}>
+                    <td>
+                      <Link href={`/patients/${encodeURIComponent(patient.id)}`} className="patient-link">
+                        {patient.name}
+                      </Link>
+                    </td>
+                    <td>{getPatientAge(patient.dateOfBirth) ?? '-'}</td>
+                    <td>{patient.email}</td>
+                    <td>{patient.phone}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="pagination">
+              <span className="pagination-summary">
+                {result.total} patient{result.total !== 1 ? 's' : ''}
+              </span>
+              <button
+                type="button"
+                className="nav-button"
+                onClick={() => navigate(urlQuery, shownPage - 1, false)}
+                disabled={shownPage <= 1}
+                aria-label="Previous page"
+              >
+                <ChevronLeft style={{ width: '1rem', height: '1rem' }} />
+              </button>
+              <span>
+                Page {shownPage} of {pageCount}
+              </span>
+              <button
+                type="button"
+                className="nav-button"
+                onClick={() => navigate(urlQuery, shownPage + 1, false)}
+                disabled={shownPage >= pageCount}
+                aria-label="Next page"
+              >
+                <ChevronRight style={{ width: '1rem', height: '1rem' }} />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * PatientProfile Component
+ *
+ * A patient's page: contact details, age and their appointments with
+ * every doctor, split into upcoming and past. Each appointment links to
+ * its details on the schedule, and "Book appointment" starts a booking
+ * on the schedule with the patient already chosen.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { differenceInMinutes } from 'date-fns';
+import { ArrowLeft, CalendarPlus, Mail, Phone, AlertCircle } from 'lucide-react';
+import type { AppointmentType, PopulatedAppointment } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG, SPECIALTY_LABELS } from '@/types';
+import { usePatientHistory } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { useSession } from '@/hooks/useSession';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime } from '@/services/clinicTime';
+import { getPatientAge } from '@/services/patients';
+import { getScheduleHref } from '@/services/scheduleUrl';
+
+interface PatientProfileProps {
+  patientId: string;
+}
+
+interface AppointmentHistoryListProps {
+  title: string;
+  appointments: PopulatedAppointment[];
+  emptyMessage: string;
+}
+
+/**
+ * One group of a patient's appointments
+ */
+function AppointmentHistoryList({ title, appointments, emptyMessage }: AppointmentHistoryListProps) {
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+  const headingId = `patient-${title.toLowerCase()}-title`;
+
+  return (
+    <section className="patient-history" aria-labelledby={headingId}>
+      <h3 id={headingId} className="patient-history-title">
+        {title} ({appointments.length})
+      </h3>
+      {appointments.length === 0 ? (
+        <p className="patient-history-empty">{emptyMessage}</p>
+      ) : (
+        <ul className="patient-history-list">
+          {appointments.map((appointment) => {
+            const start = new Date(appointment.startTime);
+            const typeConfig = APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType];
+            const statusConfig = APPOINTMENT_STATUS_CONFIG[appointment.status];
+
+            return (
+              <li key={appointment.id}>
+                <Link
+                  href={`/schedule/appointments/${encodeURIComponent(appointment.id)}`}
+                  className={`patient-history-item status-${appointment.status}`}
+                  style={{ borderLeftColor: typeConfig.color }}
+                >
+                  <div className="patient-history-when">
+                    <strong>{formatClinicTime(start, 'EEE, MMM d, yyyy')}</strong>
+                    <span>{formatClinicTime(start, timePattern)}</span>
+                  </div>
+                  <div className="patient-history-what">
+                    <div>
+                      {typeConfig.label} ({differenceInMinutes(new Date(appointment.endTime), start)} min)
+                    </div>
+                    <div className="patient-history-meta">
+                      Dr. {appointment.doctor.name} - {SPECIALTY_LABELS[appointment.doctor.specialty]}
+                    </div>
+                  </div>
+                  <span className="appointment-status-badge" style={{ backgroundColor: statusConfig.color }}>
+                    {statusConfig.label}
+                  </span>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * PatientProfile Component
+ */
+export function PatientProfile({ patientId }: PatientProfileProps) {
+  const { session } = useSession();
+  const { patient, upcoming, past, loading, error } = usePatientHistory(patientId);
+
+  // Doctor sessions only ever see their own appointments with the patient
+  const historyScope = session?.role === 'doctor' ? 'with you' : 'with all doctors';
+
+  const age = patient && getPatientAge(patient.dateOfBirth);
+
+  return (
+    <div className="card">
+      <div className="header-section">
+        <Link href="/patients" className="patient-back-link">
+          <ArrowLeft style={{ width: '1rem', height: '1rem' }} />
+          All patients
+        </Link>
+      </div>
+
+      <div className="card-padding">
+        {loading ? (
+          <p className="text-gray-600">Loading patient...</p>
+        ) : error || !patient ? (
+          <div className="form-error" role="alert">
+            <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+            <span>{error ? error.message : 'Patient not found'}</span>
+          </div>
+        ) : (
+          <>
+            <div className="patient-summary">
+              <div>
+                <h2 className="card-title">{patient.name}</h2>
+                <dl className="detail-list">
+                  <div className="detail-row">
+                    <dt>Age</dt>
+                    <dd>
+                      {age ?? '-'} (born {patient.dateOfBirth})
+                    </dd>
+                  </div>
+                  <div className="detail-row">
+                    <dt>Contact</dt>
+                    <dd>
+                      <div className="detail-contact">
+                        <Mail style={{ width: '0.75rem', height: '0.75rem' }} aria-hidden="true" />
+                        {patient.email}
+                      </div>
+                      <div className="detail-contact">
+                        <Phone style={{ width: '0.75rem', height: '0.75rem' }} aria-hidden="true" />
+                        {patient.phone}
+                      </div>
+                    </dd>
+                  </div>
+                </dl>
+              </div>
+              <Link
+                href={getScheduleHref({ view: 'resource', bookForPatientId: patient.id })}
+                className="primary-button patient-book-button"
+              >
+                <CalendarPlus style={{ width: '1rem', height: '1rem' }} />
+                Book appointment
+              </Link>
+            </div>
+
+            <p className="card-subtitle">Appointments {historyScope}</p>
+
+            <AppointmentHistoryList
+              title="Upcoming"
+              appointments={upcoming}
+              emptyMessage="No upcoming appointments."
+            />
+            <AppointmentHistoryList
+              title="Past"
+              appointments={past}
+              emptyMessage="No past appointments."
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+/**
+ * ResourceDayView Component
+ *
+ * Front desk view of one day across all doctors: one column per doctor,
+ * sharing a single time axis. Columns show each doctor's appointments and
+ * working-hours shading; dragging a card into another column reassigns it.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { addMinutes } from 'date-fns';
+import { Users, Plus, AlertCircle } from 'lucide-react';
+import type { Appointment, AppointmentType, Doctor, PopulatedAppointment, Specialty, TimeSlot } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG, SPECIALTY_LABELS } from '@/types';
+import { appointmentService, isActiveAppointment } from '@/services/appointmentService';
+import type { AppointmentFilterSelection } from '@/services/appointmentFilters';
+import { TIME_FORMATS, getVisibleCalendarConfig } from '@/services/calendarSettings';
+import { formatClinicTime, setClinicTime } from '@/services/clinicTime';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { useResourceSchedule } from '@/hooks/useAppointments';
+import { useAppointmentDrag, KEYBOARD_RESCHEDULE_HINT } from '@/hooks/useAppointmentDrag';
+import { AppointmentLayer } from './AppointmentLayer';
+import { AppointmentCard } from './DayView';
+import { ViewerTime } from './ViewerTime';
+
+interface ResourceDayViewProps {
+  date: Date;
+  hideCancelled?: boolean;
+  filters?: AppointmentFilterSelection;
+  onSlotClick?: (start: Date, doctor: Doctor) => void;
+  onAppointmentReschedule?: (appointment: Appointment, start: Date, end: Date, doctorId?: string) => void | Promise<void>;
+  onAppointmentSelect?: (appointment: PopulatedAppointment) => void; // Card clicked or activated with Enter/Space
+}
+
+const SPECIALTIES = Object.keys(SPECIALTY_LABELS) as Specialty[];
+
+/**
+ * ResourceDayView Component
+ */
+export function ResourceDayView({
+  date,
+  hideCancelled,
+  filters,
+  onSlotClick,
+  onAppointmentReschedule,
+  onAppointmentSelect,
+}: ResourceDayViewProps) {
+  const [specialty, setSpecialty] = useState<Specialty | ''>('');
+  const { settings } = useCalendarSettings();
+  const { slotHeight } = settings;
+  const timeFormat = TIME_FORMATS[settings.timeFormat];
+
+  const { doctors, appointmentsByDoctor, exceptions, loading, error } = useResourceSchedule({
+    date,
+    specialty: specialty || undefined,
+    hideCancelled,
+    filters,
+  });
+
+  const columnDoctorIds = useMemo(() => doctors.map((doctor) => doctor.id), [doctors]);
+
+  const {
+    draggingId,
+    resizingId,
+    getDragSourceProps,
+    getDropTargetProps,
+    getDropTargetState,
+    getResizeHandleProps,
+    getDisplayDuration,
+    handleRescheduleKeyDown,
+  } = useAppointmentDrag({
+    slotDuration: settings.slotDuration,
+    slotHeight,
+    columnDoctorIds,
+    onReschedule: (appointment, start, end, doctorId) => onAppointmentReschedule?.(appointment, start, end, doctorId),
+  });
+
+  /**
+   * Visible hours from the settings, covering every shown doctor's working hours
+   */
+  const calendarConfig = useMemo(
+    () => getVisibleCalendarConfig(settings, doctors, exceptions),
+    [settings, doctors, exceptions]
+  );
+
+  /**
+   * Time range covered by the columns in clinic time, used to position the appointment layers
+   */
+  const timelineRange = useMemo(() => ({
+    start: setClinicTime(date, calendarConfig.startHour),
+    end: setClinicTime(date, calendarConfig.endHour),
+  }), [date, calendarConfig]);
+
+  /**
+   * Generate time slots for the shared time axis (stepping through real time, as in DayView)
+   */
+  const timeSlots = useMemo((): TimeSlot[] => {
+    const slots: TimeSlot[] = [];
+    const { slotDuration } = calendarConfig;
+
+    for (let start = timelineRange.start; start < timelineRange.end; start = addMinutes(start, slotDuration)) {
+      const end = addMinutes(start, slotDuration);
+      slots.push({ start, end, label: formatClinicTime(start, timeFormat.time) });
+    }
+
+    return slots;
+  }, [timelineRange, calendarConfig, timeFormat]);
+
+  /**
+   * Appointments of one doctor, with any resize in progress applied
+   */
+  function getColumnAppointments(doctor: Doctor) {
+    const appointments = appointmentsByDoctor[doctor.id] ?? [];
+    if (!resizingId) return appointments;
+
+    // Stretch the card being resized so its new length is visible while dragging
+    return appointments.map((appointment) =>
+      appointment.id === resizingId
+        ? { ...appointment, endTime: addMinutes(new Date(appointment.startTime), getDisplayDuration(appointment)).toISOString() }
+        : appointment
+    );
+  }
+
+  return (
+    <div className="resource-view" role="main" aria-label={`All doctors' schedules for ${formatClinicTime(date, 'EEEE, MMMM d, yyyy')}`}>
+      {/* Header */}
+      <header className="day-header resource-header">
+        <div className="day-header-content">
+          <div className="day-icon" aria-hidden="true">
+            <Users style={{ width: '1rem', height: '1rem', color: 'white' }} />
+          </div>
+          <h1 className="day-title">{formatClinicTime(date, 'EEEE, MMMM d, yyyy')}</h1>
+        </div>
+        <div className="resource-filter">
+          <label htmlFor="resource-specialty" className="form-label">Specialty</label>
+          <select
+            id="resource-specialty"
+            className="form-input"
+            value={specialty}
+            onChange={(e) => setSpecialty(e.target.value as Specialty | '')}
+          >
+            <option value="">All specialties</option>
+            {SPECIALTIES.map((value) => (
+              <option key={value} value={value}>{SPECIALTY_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      {onAppointmentReschedule && (
+        <p id="resource-view-reschedule-hint" className="sr-only">
+          {KEYBOARD_RESCHEDULE_HINT} In this view, left and right move the appointment to the neighbouring doctor.
+        </p>
+      )}
+
+      {loading ? (
+        <div className="loading-container" aria-busy="true">
+          <div className="loading-skeleton skeleton-grid" style={{ height: '20rem' }}></div>
+        </div>
+      ) : error ? (
+        <div className="error-container" role="alert">
+          <div className="error-icon">
+            <AlertCircle style={{ width: '2rem', height: '2rem', color: '#ef4444' }} />
+          </div>
+          <div className="error-title">Error loading schedules</div>
+          <p className="error-message">{error.message}</p>
+        </div>
+      ) : doctors.length === 0 ? (
+        <div className="empty-state">
+          <h4 className="empty-title">No doctors</h4>
+          <p className="empty-message">No doctors match the selected specialty.</p>
+        </div>
+      ) : (
+        <div className="resource-scroll">
+          <div
+            className={`resource-grid ${draggingId ? 'dragging-active' : ''}`}
+            role="grid"
+            aria-label="Appointments by doctor"
+            style={{
+              gridTemplateColumns: `6rem repeat(${doctors.length}, minmax(11rem, 1fr))`,
+              gridTemplateRows: `auto repeat(${timeSlots.length}, ${slotHeight}px)`,
+            }}
+          >
+            {/* Column headers */}
+            <div className="resource-corner" role="columnheader" style={{ gridColumn: 1, gridRow: 1 }}>
+              Time
+            </div>
+            {doctors.map((doctor, doctorIndex) => {
+              const isDayOff = appointmentService.getWorkingPeriodsForDate(doctor, date, exceptions).length === 0;
+              return (
+                <div
+                  key={doctor.id}
+                  className={`resource-doctor-header ${isDayOff ? 'day-off' : ''}`}
+                  role="columnheader"
+                  style={{ gridColumn: doctorIndex + 2, gridRow: 1 }}
+                >
+                  <div className="resource-doctor-name">Dr. {doctor.name}</div>
+                  <div className="resource-doctor-specialty">{SPECIALTY_LABELS[doctor.specialty]}</div>
+                  {isDayOff && <div className="day-off-label">Day off</div>}
+                </div>
+              );
+            })}
+
+            {/* Time axis and slot cells */}
+            {timeSlots.map((slot, slotIndex) => (
+              <div key={slot.start.toISOString()} className="resource-row" role="row">
+                <div
+                  className="time-slot resource-time"
+                  role="rowheader"
+                  style={{ gridColumn: 1, gridRow: slotIndex + 2 }}
+                >
+                  <div className="time-content">
+                    <div className="time-hour">{formatClinicTime(slot.start, timeFormat.clock)}</div>
+                    {timeFormat.period && <div className="time-period">{formatClinicTime(slot.start, timeFormat.period)}</div>}
+                    <ViewerTime date={slot.start} />
+                  </div>
+                </div>
+
+                {doctors.map((doctor, doctorIndex) => {
+                  const slotAppointments = (appointmentsByDoctor[doctor.id] ?? []).filter(
+                    (appointment) =>
+                      new Date(appointment.startTime) < slot.end && new Date(appointment.endTime) > slot.start
+                  );
+                  const isWorking = appointmentService.isWithinWorkingHours(doctor, slot.start, slot.end, exceptions);
+                  const dropState = getDropTargetState(slot.start, doctor.id);
+
+                  return (
+                    <div
+                      key={doctor.id}
+                      className={`resource-cell ${isWorking ? '' : 'outside-hours'} ${dropState ? (dropState.valid ? 'drop-valid' : 'drop-invalid') : ''}`}
+                      role="gridcell"
+                      aria-label={`Dr. ${doctor.name}, ${slotAppointments.length} appointment${slotAppointments.length !== 1 ? 's' : ''} at ${slot.label}${isWorking ? '' : ', outside working hours'}`}
+                      title={dropState?.message ?? undefined}
+                      style={{ gridColumn: doctorIndex + 2, gridRow: slotIndex + 2 }}
+                      {...(onAppointmentReschedule ? getDropTargetProps(slot.start, doctor.id) : {})}
+                    >
+                      {/* Book into an empty slot */}
+                      {isWorking && !slotAppointments.some(isActiveAppointment) && onSlotClick && (
+                        <button
+                          type="button"
+                          className="slot-book-button"
+                          onClick={() => onSlotClick(slot.start, doctor)}
+                          aria-label={`Book appointment with Dr. ${doctor.name} at ${slot.label}`}
+                        >
+                          <Plus style={{ width: '0.875rem', height: '0.875rem' }} />
+                          Book
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+
+            {/* One appointment layer per doctor column */}
+            {doctors.map((doctor, doctorIndex) => (
+              <div
+                key={doctor.id}
+                className="resource-column-layer"
+                style={{ gridColumn: doctorIndex + 2, gridRow: `2 / span ${timeSlots.length}` }}
+              >
+                <AppointmentLayer
+                  className="resource-appointment-layer"
+                  appointments={getColumnAppointments(doctor)}
+                  rangeStart={timelineRange.start}
+                  rangeEnd={timelineRange.end}
+                  pixelsPerMinute={slotHeight / calendarConfig.slotDuration}
+                  renderAppointment={(appointment) => {
+                    const duration = getDisplayDuration(appointment);
+
+                    return (
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        className={`appointment-draggable ${draggingId === appointment.id ? 'dragging' : ''}`}
+                        aria-label={`Appointment: ${appointment.patient.name} with Dr. ${doctor.name}, ${APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label}, ${duration} minutes, ${formatClinicTime(new Date(appointment.startTime), timeFormat.time)}, ${APPOINTMENT_STATUS_CONFIG[appointment.status].label}`}
+                        aria-describedby={onAppointmentReschedule ? 'resource-view-reschedule-hint' : undefined}
+                        {...(onAppointmentReschedule ? getDragSourceProps(appointment) : {})}
+                        onClick={() => onAppointmentSelect?.(appointment)}
+                        onKeyDown={(e) => {
+                          if (onAppointmentReschedule && handleRescheduleKeyDown(e, appointment)) return;
+                          if (e.key === 'Enter' || e.key === ' ') {
+                            e.preventDefault();
+                            onAppointmentSelect?.(appointment);
+                          }
+                        }}
+                      >
+                        <AppointmentCard appointment={appointment} duration={duration} />
+                        {onAppointmentReschedule && (
+                          <div className="resize-handle" {...getResizeHandleProps(appointment)} />
+                        )}
+                      </div>
+                    );
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
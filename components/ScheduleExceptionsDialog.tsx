@@ -0,0 +1,321 @@
+/**
+ * ScheduleExceptionsDialog Component
+ *
+ * Modal for a doctor's dated exceptions to their weekly hours: time off,
+ * breaks and extra sessions. Lists the upcoming ones with a remove action,
+ * and adds new ones after showing which booked appointments would clash.
+ * Clashing appointments are kept; staff move or cancel them from the list.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarOff, Trash2, X, AlertCircle } from 'lucide-react';
+import type { Doctor, PopulatedAppointment, ScheduleExceptionKind } from '@/types';
+import type { CreateScheduleExceptionInput } from '@/services/appointmentService';
+import { appointmentService } from '@/services/appointmentService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { addClinicDays, formatClinicTime, getClinicDateKey, startOfClinicDay } from '@/services/clinicTime';
+import { SCHEDULE_EXCEPTION_KIND_LABELS, describeScheduleException } from '@/services/scheduleExceptions';
+import { useScheduleExceptions } from '@/hooks/useAppointments';
+import { useScheduleExceptionPreview } from '@/hooks/useScheduleExceptionPreview';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+
+interface ScheduleExceptionsDialogProps {
+  doctor: Doctor;
+  initialDate: Date; // Date the form starts on
+  onClose: () => void;
+}
+
+const KINDS = Object.keys(SCHEDULE_EXCEPTION_KIND_LABELS) as ScheduleExceptionKind[];
+
+const LIST_DAYS = 365; // How far ahead existing exceptions are listed
+
+/**
+ * Appointments clashing with an exception, linked to their details
+ */
+function ClashList({ clashes }: { clashes: PopulatedAppointment[] }) {
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+
+  return (
+    <ul className="exception-clashes">
+      {clashes.map((appointment) => (
+        <li key={appointment.id}>
+          <a href={`/schedule/appointments/${encodeURIComponent(appointment.id)}`}>
+            <strong>
+              {formatClinicTime(new Date(appointment.startTime), 'EEE, MMM d')}{' '}
+              {formatClinicTime(new Date(appointment.startTime), timePattern)}
+            </strong>{' '}
+            {appointment.patient.name}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * ScheduleExceptionsDialog Component
+ */
+export function ScheduleExceptionsDialog({ doctor, initialDate, onClose }: ScheduleExceptionsDialogProps) {
+  const [kind, setKind] = useState<ScheduleExceptionKind>('absence');
+  const [startDate, setStartDate] = useState(() => getClinicDateKey(initialDate));
+  const [endDate, setEndDate] = useState(() => getClinicDateKey(initialDate));
+  const [start, setStart] = useState('12:00');
+  const [end, setEnd] = useState('13:00');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Appointments that clashed with the last exception added
+  const [added, setAdded] = useState<{ description: string; clashes: PopulatedAppointment[] } | null>(null);
+
+  const listStart = useMemo(() => startOfClinicDay(new Date()), []);
+  const listEnd = useMemo(() => addClinicDays(listStart, LIST_DAYS), [listStart]);
+  const { exceptions, error: listError } = useScheduleExceptions(doctor.id, listStart, listEnd);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Memoized so the preview only re-runs when the exception actually changes
+  const input = useMemo<CreateScheduleExceptionInput | null>(() => {
+    if (!startDate || !endDate) return null;
+    return {
+      doctorId: doctor.id,
+      kind,
+      startDate,
+      endDate,
+      ...(kind !== 'absence' && { start, end }),
+      reason,
+    };
+  }, [doctor.id, kind, startDate, endDate, start, end, reason]);
+
+  const { clashes, loading: previewLoading, error: previewError } = useScheduleExceptionPreview(input);
+
+  const handleStartDateChange = (value: string) => {
+    setStartDate(value);
+    if (value > endDate) setEndDate(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input) {
+      setError('Please choose the dates');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await appointmentService.addScheduleException(input);
+      setAdded({
+        description: describeScheduleException(result.exception),
+        clashes: await appointmentService.getPopulatedAppointments(result.clashes),
+      });
+      setError(null);
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the exception');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await appointmentService.deleteScheduleException(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the exception');
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal exceptions-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="exceptions-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div className="day-icon" aria-hidden="true">
+              <CalendarOff style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="exceptions-title" className="modal-title">Time off and extra hours</h2>
+              <p className="modal-subtitle">Dr. {doctor.name}</p>
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <section aria-labelledby="exceptions-list-title">
+            <h3 id="exceptions-list-title" className="form-label">Upcoming</h3>
+            {listError ? (
+              <p className="exception-empty">{listError.message}</p>
+            ) : exceptions.length === 0 ? (
+              <p className="exception-empty">No time off, breaks or extra sessions planned.</p>
+            ) : (
+              <ul className="exception-list">
+                {exceptions.map((exception) => (
+                  <li key={exception.id} className={`exception-item ${exception.kind}`}>
+                    <div>
+                      <div>{describeScheduleException(exception)}</div>
+                      {exception.reason && <div className="exception-reason">{exception.reason}</div>}
+                    </div>
+                    <button
+                      type="button"
+                      className="icon-button"
+                      onClick={() => handleRemove(exception.id)}
+                      aria-label={`Remove ${describeScheduleException(exception)}`}
+                    >
+                      <Trash2 style={{ width: '0.875rem', height: '0.875rem' }} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {added && (
+            <div className="schedule-feedback success" role="status">
+              <span>
+                Added {added.description}.
+                {added.clashes.length > 0
+                  ? ` ${added.clashes.length} booked appointment${added.clashes.length !== 1 ? 's need' : ' needs'} to be moved or cancelled:`
+                  : ' No booked appointments are affected.'}
+              </span>
+              {added.clashes.length > 0 && <ClashList clashes={added.clashes} />}
+            </div>
+          )}
+
+          <form className="exception-form" onSubmit={handleSubmit}>
+            <div className="form-row">
+              <div className="form-field">
+                <label htmlFor="exception-kind" className="form-label">Kind</label>
+                <select
+                  id="exception-kind"
+                  className="form-input"
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as ScheduleExceptionKind)}
+                >
+                  {KINDS.map((value) => (
+                    <option key={value} value={value}>{SCHEDULE_EXCEPTION_KIND_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-field">
+                <label htmlFor="exception-reason" className="form-label">Reason</label>
+                <input
+                  id="exception-reason"
+                  type="text"
+                  className="form-input"
+                  placeholder="Optional"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-field">
+                <label htmlFor="exception-start-date" className="form-label">From</label>
+                <input
+                  id="exception-start-date"
+                  type="date"
+                  className="form-input"
+                  value={startDate}
+                  onChange={(e) => handleStartDateChange(e.target.value)}
+                />
+              </div>
+              <div className="form-field">
+                <label htmlFor="exception-end-date" className="form-label">Until</label>
+                <input
+                  id="exception-end-date"
+                  type="date"
+                  className="form-input"
+                  min={startDate}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {kind !== 'absence' && (
+              <div className="form-row">
+                <div className="form-field">
+                  <label htmlFor="exception-start" className="form-label">Start time</label>
+                  <input
+                    id="exception-start"
+                    type="time"
+                    className="form-input"
+                    value={start}
+                    onChange={(e) => setStart(e.target.value)}
+                  />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="exception-end" className="form-label">End time</label>
+                  <input
+                    id="exception-end"
+                    type="time"
+                    className="form-input"
+                    value={end}
+                    onChange={(e) => setEnd(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="repeat-preview" aria-live="polite">
+              {kind === 'extra' ? (
+                <p>Extra sessions don&apos;t affect booked appointments.</p>
+              ) : previewError ? (
+                <p className="repeat-preview-error">{previewError.message}</p>
+              ) : previewLoading || !clashes ? (
+                <p>Checking booked appointments...</p>
+              ) : clashes.length === 0 ? (
+                <p>No booked appointments clash.</p>
+              ) : (
+                <>
+                  <p>
+                    {clashes.length} booked appointment{clashes.length !== 1 ? 's clash' : ' clashes'} and will need
+                    to be moved or cancelled:
+                  </p>
+                  <ClashList clashes={clashes} />
+                </>
+              )}
+            </div>
+
+            {error && (
+              <div className="form-error" role="alert">
+                <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="modal-actions">
+              <button type="button" className="secondary-button" onClick={onClose}>
+                Close
+              </button>
+              <button type="submit" className="primary-button" disabled={submitting || Boolean(previewError)}>
+                {submitting ? 'Adding...' : `Add ${SCHEDULE_EXCEPTION_KIND_LABELS[kind].toLowerCase()}`}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
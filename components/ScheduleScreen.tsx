@@ -0,0 +1,122 @@
+/**
+ * ScheduleScreen Component
+ *
+ * Body of the schedule pages: the schedule itself with its state kept in
+ * the URL, inside the shared page frame, and the details drawer of the
+ * appointment clicked in it. Shared by /schedule and
+ * /schedule/appointments/[id], which also opens that appointment's details
+ * on top of its day.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Calendar } from 'lucide-react';
+import { AppShell } from './AppShell';
+import { ScheduleView } from './ScheduleView';
+import { AppointmentDetail } from './AppointmentDetail';
+import { useAppointment } from '@/hooks/useAppointments';
+import { useScheduleUrlState } from '@/hooks/useScheduleUrlState';
+import { getScheduleHref } from '@/services/scheduleUrl';
+
+interface ScheduleScreenProps {
+  appointmentId?: string; // Appointment whose details to open
+}
+
+interface ScheduleContentProps {
+  appointmentId: string | null;
+}
+
+/**
+ * Schedule for a signed-in user
+ *
+ * With an appointment ID, the schedule defaults to that appointment's doctor
+ * and day (URL params still win) and its details are shown on top.
+ * Appointments clicked in the grid open in the same drawer without
+ * leaving the page.
+ */
+function ScheduleContent({ appointmentId }: ScheduleContentProps) {
+  const router = useRouter();
+  const { appointment, loading, error } = useAppointment(appointmentId);
+
+  // Appointment clicked in the grid, shown instead of the linked one
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = useAppointment(selectedId);
+
+  const schedule = useScheduleUrlState({
+    doctorId: appointment?.doctorId,
+    date: appointment ? new Date(appointment.startTime) : null,
+    view: 'day',
+  });
+
+  const { doctorId, date, view, query, showCancelled, filters } = schedule;
+  const handleCloseDetail = useCallback(() => {
+    router.push(getScheduleHref({ doctorId, date, view, query, showCancelled, filters }), { scroll: false });
+  }, [router, doctorId, date, view, query, showCancelled, filters]);
+
+  // Closing a clicked appointment also leaves the deep link, if there was one
+  const handleCloseSelected = useCallback(() => {
+    setSelectedId(null);
+    if (appointmentId) handleCloseDetail();
+  }, [appointmentId, handleCloseDetail]);
+
+  return (
+    <>
+      <ScheduleView
+        selectedDoctorId={schedule.doctorId}
+        selectedDate={schedule.date}
+        view={schedule.view}
+        searchQuery={schedule.query}
+        showCancelled={schedule.showCancelled}
+        filters={schedule.filters}
+        bookForPatientId={schedule.bookForPatientId}
+        onDoctorChange={schedule.setDoctorId}
+        onDateChange={schedule.setDate}
+        onViewChange={schedule.setView}
+        onSearchQueryChange={schedule.setQuery}
+        onShowCancelledChange={schedule.setShowCancelled}
+        onFiltersChange={schedule.setFilters}
+        onBookForPatientChange={schedule.setBookForPatientId}
+        onAppointmentSelect={(clicked) => setSelectedId(clicked.id)}
+      />
+
+      {selectedId ? (
+        <AppointmentDetail
+          key={selectedId}
+          appointment={selected.appointment}
+          loading={selected.loading}
+          error={selected.error}
+          onClose={handleCloseSelected}
+        />
+      ) : appointmentId && (
+        <AppointmentDetail
+          key={appointmentId}
+          appointment={appointment}
+          loading={loading}
+          error={error}
+          onClose={handleCloseDetail}
+        />
+      )}
+    </>
+  );
+}
+
+/**
+ * ScheduleScreen Component
+ *
+ * Uses URL search params, so it must be rendered inside a Suspense boundary.
+ */
+export function ScheduleScreen({ appointmentId }: ScheduleScreenProps) {
+  // Signing out drops the previous user's doctor, date and search along with the session
+  return (
+    <AppShell
+      icon={Calendar}
+      title="Appointment Schedule"
+      subtitle="View and manage doctor appointments with ease"
+      signOutHref="/schedule"
+    >
+      <ScheduleContent appointmentId={appointmentId ?? null} />
+    </AppShell>
+  );
+}
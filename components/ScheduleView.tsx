@@ -14,70 +14,202 @@
 
 'use client';
 
-import { useMemo, useState } from 'react';
-import { format, startOfWeek, addDays, subDays } from 'date-fns';
-import { User, ChevronLeft, ChevronRight, Calendar, Grid3X3, Mail, Phone, AlertCircle, Search, X } from 'lucide-react';
-import type { CalendarView } from '@/types';
-import { useAppointments } from '@/hooks/useAppointments';
+import { useEffect, useMemo, useState } from 'react';
+import { User, ChevronLeft, ChevronRight, Calendar, Grid3X3, Mail, Phone, AlertCircle, Search, X, CheckCircle, CalendarSearch, CalendarDays, Users, Upload, Settings, CalendarOff, UserPlus, Hourglass } from 'lucide-react';
+import type { Appointment, AppointmentType, CalendarView, Doctor, PopulatedAppointment, SeriesEditScope, WeekStartDay } from '@/types';
+import { useAppointments, usePatients, useScheduleExceptions, useWaitlistDemand } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { useSession } from '@/hooks/useSession';
 import { DoctorSelector } from './DoctorSelector';
 import { DayView } from './DayView';
 import { WeekView } from './WeekView';
-import {appointmentService} from '@/services/appointmentService';
+import { MonthView, getMonthGridStart, getMonthGridEnd } from './MonthView';
+import { ResourceDayView } from './ResourceDayView';
+import { BookingForm } from './BookingForm';
+import { AvailabilityPanel } from './AvailabilityPanel';
+import { CalendarExport } from './CalendarExport';
+import { ImportDialog } from './ImportDialog';
+import { CalendarSettingsDialog } from './CalendarSettingsDialog';
+import { SeriesScopeDialog } from './SeriesScopeDialog';
+import { ScheduleExceptionsDialog } from './ScheduleExceptionsDialog';
+import { AppointmentFilterBar } from './AppointmentFilterBar';
+import { AppointmentSearchResults } from './AppointmentSearchResults';
+import { WaitlistDialog } from './WaitlistDialog';
+import { WaitlistOffers } from './WaitlistOffers';
+import type { AvailableSlot } from '@/services/availabilityService';
+import { MIN_SEARCH_QUERY_LENGTH } from '@/services/appointmentSearch';
+import { EMPTY_FILTER_SELECTION, countActiveFilters, type AppointmentFilterSelection } from '@/services/appointmentFilters';
+import type { CreateAppointmentInput, CreateSeriesInput } from '@/services/appointmentService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import {
+  CLINIC_TIME_ZONE,
+  addClinicDays,
+  addClinicMonths,
+  endOfClinicDay,
+  endOfClinicMonth,
+  formatClinicTime,
+  getTimeZoneName,
+  isSameClinicDay,
+  startOfClinicDay,
+  startOfClinicMonth,
+  startOfClinicWeek,
+} from '@/services/clinicTime';
 
 interface ScheduleViewProps {
   selectedDoctorId: string;
   selectedDate: Date;
   view: CalendarView;
+  searchQuery: string;
+  showCancelled: boolean;
   onDoctorChange: (doctorId: string) => void;
   onDateChange: (date: Date) => void;
   onViewChange: (view: CalendarView) => void;
+  onSearchQueryChange: (query: string) => void;
+  onShowCancelledChange: (showCancelled: boolean) => void;
+  filters?: AppointmentFilterSelection; // Types, statuses and duration to show
+  onFiltersChange?: (filters: AppointmentFilterSelection) => void;
+  bookForPatientId?: string; // Patient to preselect when booking
+  onBookForPatientChange?: (patientId: string) => void;
+  onAppointmentSelect?: (appointment: PopulatedAppointment) => void; // Open an appointment's details
 }
 
 /**
- * Get the start of the week (Monday) for a given date
+ * Slot being booked while the booking form is open
  */
-function getWeekStart(date: Date): Date {
-  return startOfWeek(date, { weekStartsOn: 1 }); // Monday = 1
+interface BookingTarget {
+  start: Date;
+  doctor: Doctor;
+  type?: AppointmentType;
+}
+
+/**
+ * Move of a series occurrence waiting for the user to pick which occurrences it applies to
+ */
+interface PendingSeriesMove {
+  appointment: Appointment;
+  start: Date;
+  end: Date;
+  doctorId?: string;
+}
+
+/**
+ * Get the start of the clinic week (on the configured first day) for a given date
+ */
+function getWeekStart(date: Date, weekStartsOn: WeekStartDay): Date {
+  return startOfClinicWeek(date, weekStartsOn);
 }
 
 /**
  * ScheduleView Component
  *
  * This is the main container component for the schedule interface.
+ * Doctor sessions are locked to their own schedule: the selector and the
+ * all-doctors view are hidden and `selectedDoctorId` is ignored.
  */
 export function ScheduleView({
-  selectedDoctorId,
+  selectedDoctorId: requestedDoctorId,
   selectedDate,
-  view,
+  view: requestedView,
+  searchQuery,
+  showCancelled,
   onDoctorChange,
   onDateChange,
   onViewChange,
+  onSearchQueryChange,
+  onShowCancelledChange,
+  filters = EMPTY_FILTER_SELECTION,
+  onFiltersChange,
+  bookForPatientId = '',
+  onBookForPatientChange,
+  onAppointmentSelect,
 }: ScheduleViewProps) {
-  // Search state
-  const [searchQuery, setSearchQuery] = useState('');
+  const { session } = useSession();
+  const lockedDoctorId = session?.role === 'doctor' ? session.doctorId : undefined;
+  const selectedDoctorId = lockedDoctorId ?? requestedDoctorId;
+  const view = lockedDoctorId && requestedView === 'resource' ? 'day' : requestedView;
+
+  // Slot being booked, if the booking form is open
+  const [booking, setBooking] = useState<BookingTarget | null>(null);
+
+  // Whether the "find next available slot" panel is open
+  const [showAvailability, setShowAvailability] = useState(false);
+
+  // Whether the file import dialog is open
+  const [showImport, setShowImport] = useState(false);
+
+  // Whether the calendar settings dialog is open
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Whether the time off dialog is open
+  const [showTimeOff, setShowTimeOff] = useState(false);
+
+  // Whether the waitlist dialog is open
+  const [showWaitlist, setShowWaitlist] = useState(false);
+
+  // Series occurrence being moved, while the scope dialog is open
+  const [pendingSeriesMove, setPendingSeriesMove] = useState<PendingSeriesMove | null>(null);
+
+  const { settings } = useCalendarSettings();
+  const { weekStartsOn } = settings;
+
+  // Result of the last reschedule attempt, shown as a dismissible banner
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timeout = setTimeout(() => setFeedback(null), 5000);
+    return () => clearTimeout(timeout);
+  }, [feedback]);
   
   // Calculate week start for week view
-  const weekStartDate = useMemo(() => getWeekStart(selectedDate), [selectedDate]);
+  const weekStartDate = useMemo(() => getWeekStart(selectedDate, weekStartsOn), [selectedDate, weekStartsOn]);
+  const weekEndDate = useMemo(() => endOfClinicDay(addClinicDays(weekStartDate, 6)), [weekStartDate]);
+
+  // Calculate the visible 6-week range for month view
+  const monthGridStart = useMemo(() => getMonthGridStart(selectedDate, weekStartsOn), [selectedDate, weekStartsOn]);
+  const monthGridEnd = useMemo(() => endOfClinicDay(getMonthGridEnd(selectedDate, weekStartsOn)), [selectedDate, weekStartsOn]);
+
+  // Date range to fetch for the current view (day view uses `date` only)
+  const rangeStart = view === 'week' ? weekStartDate : view === 'month' ? monthGridStart : undefined;
+  const rangeEnd = view === 'week' ? weekEndDate : view === 'month' ? monthGridEnd : undefined;
+
+  // Time off, breaks and extra sessions shown in the grid
+  const dayStart = useMemo(() => startOfClinicDay(selectedDate), [selectedDate]);
+  const dayEnd = useMemo(() => endOfClinicDay(selectedDate), [selectedDate]);
+  const { exceptions } = useScheduleExceptions(selectedDoctorId, rangeStart ?? dayStart, rangeEnd ?? dayEnd);
+
+  // Waitlisted patients who would take a slot with this doctor, per day
+  const waitlistDemand = useWaitlistDemand(selectedDoctorId, rangeStart ?? dayStart, rangeEnd ?? dayEnd);
+
+  // Range covered by an .ics export (the month itself rather than the 6-week grid)
+  const exportStart = view === 'week' ? weekStartDate : view === 'month' ? startOfClinicMonth(selectedDate) : startOfClinicDay(selectedDate);
+  const exportEnd = view === 'week' ? weekEndDate : view === 'month' ? endOfClinicMonth(selectedDate) : endOfClinicDay(selectedDate);
   
   // Use the useAppointments hook to fetch data
-  const { appointments: rawAppointments, doctor, loading, error } = useAppointments({
+  const {
+    appointments: rawAppointments,
+    doctor,
+    loading,
+    error,
+    createAppointment,
+    rescheduleAppointment,
+    createSeries,
+    rescheduleSeriesOccurrences,
+  } = useAppointments({
     doctorId: selectedDoctorId,
     date: selectedDate,
-    startDate: view === 'week' ? weekStartDate : undefined,
-    endDate: view === 'week' ? addDays(weekStartDate, 6) : undefined,
+    startDate: rangeStart,
+    endDate: rangeEnd,
+    hideCancelled: !showCancelled,
+    filters,
   });
   
-  // Get populated appointments with patient and doctor data
-  const populatedAppointments = useMemo(() => {
-    return appointmentService.getPopulatedAppointments(rawAppointments);
-  }, [rawAppointments]);
-  
   // Filter appointments based on search query
   const appointments = useMemo(() => {
     if (!searchQuery.trim()) return rawAppointments;
     
     const query = searchQuery.toLowerCase();
-    const filteredPopulated = populatedAppointments.filter(appointment => {
+    return rawAppointments.filter(appointment => {
       // Search in patient name, appointment type, or notes
       const patientName = appointment.patient?.name?.toLowerCase() || '';
       const appointmentType = appointment.type?.toLowerCase() || '';
@@ -87,27 +219,26 @@ export function ScheduleView({
              appointmentType.includes(query) || 
              notes.includes(query);
     });
-    
-    // Return the original appointment objects (not populated) for consistency
-    return rawAppointments.filter(apt => 
-      filteredPopulated.some(filtered => filtered.id === apt.id)
-    );
-  }, [rawAppointments, populatedAppointments, searchQuery]);
+  }, [rawAppointments, searchQuery]);
 
   // Navigation handlers
   const handlePreviousDate = () => {
-    if (view === 'day') {
-      onDateChange(subDays(selectedDate, 1));
+    if (view === 'day' || view === 'resource') {
+      onDateChange(addClinicDays(selectedDate, -1));
+    } else if (view === 'week') {
+      onDateChange(addClinicDays(selectedDate, -7));
     } else {
-      onDateChange(subDays(selectedDate, 7));
+      onDateChange(addClinicMonths(selectedDate, -1));
     }
   };
 
   const handleNextDate = () => {
-    if (view === 'day') {
-      onDateChange(addDays(selectedDate, 1));
+    if (view === 'day' || view === 'resource') {
+      onDateChange(addClinicDays(selectedDate, 1));
+    } else if (view === 'week') {
+      onDateChange(addClinicDays(selectedDate, 7));
     } else {
-      onDateChange(addDays(selectedDate, 7));
+      onDateChange(addClinicMonths(selectedDate, 1));
     }
   };
 
@@ -115,7 +246,123 @@ export function ScheduleView({
     onDateChange(new Date());
   };
 
-  if (!selectedDoctorId) {
+  // Drag, resize or keyboard move of an appointment card (doctorId when moved to another doctor's column)
+  const handleReschedule = async (appointment: Appointment, start: Date, end: Date, doctorId?: string) => {
+    if (appointment.seriesId) {
+      setPendingSeriesMove({ appointment, start, end, doctorId });
+      return;
+    }
+    await moveAppointment(appointment, start, end, 'this', doctorId);
+  };
+
+  // Apply a move to one appointment, or to the following ones / the whole series
+  const moveAppointment = async (
+    appointment: Appointment,
+    start: Date,
+    end: Date,
+    scope: SeriesEditScope,
+    doctorId?: string
+  ) => {
+    const timePattern = TIME_FORMATS[settings.timeFormat].time;
+    try {
+      if (scope === 'this') {
+        await rescheduleAppointment(appointment.id, start.toISOString(), end.toISOString(), doctorId);
+        setFeedback({
+          type: 'success',
+          message: `${doctorId ? 'Reassigned and moved' : 'Moved'} to ${formatClinicTime(start, 'EEE, MMM d')} ${formatClinicTime(start, timePattern)} - ${formatClinicTime(end, timePattern)}`,
+        });
+        return;
+      }
+
+      const { skipped } = await rescheduleSeriesOccurrences(
+        appointment.id,
+        start.toISOString(),
+        end.toISOString(),
+        scope,
+        doctorId
+      );
+      setFeedback({
+        type: 'success',
+        message: `Moved ${scope === 'all' ? 'the series' : 'this and following appointments'} to ${formatClinicTime(start, timePattern)} - ${formatClinicTime(end, timePattern)}${
+          skipped.length > 0 ? ` (${skipped.length} conflicting date${skipped.length !== 1 ? 's' : ''} skipped)` : ''
+        }`,
+      });
+    } catch (err) {
+      setFeedback({
+        type: 'error',
+        message: `Can't move appointment: ${err instanceof Error ? err.message : 'unknown error'}`,
+      });
+    }
+  };
+
+  // Scope picked for a pending series move
+  const handleSeriesScopeSelect = (scope: SeriesEditScope) => {
+    if (!pendingSeriesMove) return;
+    const { appointment, start, end, doctorId } = pendingSeriesMove;
+    setPendingSeriesMove(null);
+    moveAppointment(appointment, start, end, scope, doctorId);
+  };
+
+  // Patient being booked for, named in a banner until they're booked
+  const { patients } = usePatients();
+  const bookForPatient = bookForPatientId
+    ? patients.find((patient) => patient.id === bookForPatientId)
+    : undefined;
+
+  // Single booking: done booking for the patient, if any
+  const handleCreateAppointment = async (input: CreateAppointmentInput) => {
+    const created = await createAppointment(input);
+    if (bookForPatientId) onBookForPatientChange?.('');
+    return created;
+  };
+
+  // Recurring booking: report the dates that were left out
+  const handleCreateSeries = async (input: CreateSeriesInput) => {
+    const { skipped } = await createSeries(input);
+    if (bookForPatientId) onBookForPatientChange?.('');
+    if (skipped.length > 0) {
+      setFeedback({
+        type: 'success',
+        message: `Series booked; ${skipped.length} conflicting date${skipped.length !== 1 ? 's were' : ' was'} skipped`,
+      });
+    }
+  };
+
+  // Global search result picked: show its day (and doctor), open it and end the search
+  const handleSearchResultSelect = (appointment: PopulatedAppointment) => {
+    if (!lockedDoctorId && view !== 'resource') onDoctorChange(appointment.doctorId);
+    onDateChange(new Date(appointment.startTime));
+    if (view !== 'resource') onViewChange('day');
+    onSearchQueryChange('');
+    onAppointmentSelect?.(appointment);
+  };
+
+  // Day clicked in the month grid
+  const handleMonthDayClick = (date: Date) => {
+    onDateChange(date);
+    onViewChange('day');
+  };
+
+  // Empty slot clicked in the calendar grid
+  const handleSlotClick = (start: Date) => {
+    if (doctor) setBooking({ start, doctor });
+  };
+
+  // Empty slot clicked in a doctor column of the resource view
+  const handleResourceSlotClick = (start: Date, slotDoctor: Doctor) => {
+    setBooking({ start, doctor: slotDoctor });
+  };
+
+  // Result picked in the availability panel: jump to it and start booking
+  const handleAvailableSlotSelect = (slot: AvailableSlot, type: AppointmentType) => {
+    onDoctorChange(slot.doctor.id);
+    onDateChange(slot.start);
+    onViewChange('day');
+    setBooking({ start: slot.start, doctor: slot.doctor, type });
+  };
+
+  // The resource view shows every doctor, so it doesn't need a selection
+  if (!selectedDoctorId && view !== 'resource') {
     return (
       <div className="card card-padding">
         <div className="text-center">
@@ -130,6 +377,14 @@ export function ScheduleView({
               onDoctorChange={onDoctorChange}
             />
           </div>
+          <button
+            type="button"
+            className="secondary-button all-doctors-button"
+            onClick={() => onViewChange('resource')}
+          >
+            <Users style={{ width: '1rem', height: '1rem' }} />
+            View all doctors
+          </button>
         </div>
       </div>
     );
@@ -146,9 +401,9 @@ export function ScheduleView({
             </div>
             <div className="doctor-details">
               <h2>
-                {doctor ? `Dr. ${doctor.name}` : 'Doctor Schedule'}
+                {view === 'resource' ? 'All Doctors' : doctor ? `Dr. ${doctor.name}` : 'Doctor Schedule'}
               </h2>
-              {doctor && (
+              {doctor && view !== 'resource' && (
                 <div className="doctor-meta">
                   <span className="meta-item">
                     <div className="dot"></div>
@@ -170,26 +425,28 @@ export function ScheduleView({
           {/* Controls Section */}
           <div className="controls-section">
             {/* Top Row: Doctor Selector and Search */}
-            <div className="control-group">
-              <DoctorSelector
-                selectedDoctorId={selectedDoctorId}
-                onDoctorChange={onDoctorChange}
-              />
-            </div>
+            {!lockedDoctorId && (
+              <div className="control-group">
+                <DoctorSelector
+                  selectedDoctorId={selectedDoctorId}
+                  onDoctorChange={onDoctorChange}
+                />
+              </div>
+            )}
 
             <div className="control-group">
               <div className="search-container">
                 <Search className="search-icon" style={{ width: '1rem', height: '1rem' }} />
                 <input
                   type="text"
-                  placeholder="Search appointments..."
+                  placeholder="Search all appointments..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => onSearchQueryChange(e.target.value)}
                   className="search-input"
                 />
                 {searchQuery && (
                   <button
-                    onClick={() => setSearchQuery('')}
+                    onClick={() => onSearchQueryChange('')}
                     className="clear-button"
                   >
                     <X style={{ width: '1rem', height: '1rem' }} />
@@ -198,7 +455,7 @@ export function ScheduleView({
               </div>
               {searchQuery && (
                 <div className="search-results">
-                  {appointments.length} result{appointments.length !== 1 ? 's' : ''} found
+                  {appointments.length} result{appointments.length !== 1 ? 's' : ''} in view
                 </div>
               )}
             </div>
@@ -217,10 +474,15 @@ export function ScheduleView({
               </button>
               
               <div className="date-display">
-                {view === 'day' 
-                  ? format(selectedDate, 'MMM d, yyyy')
-                  : `${format(weekStartDate, 'MMM d')} - ${format(addDays(weekStartDate, 6), 'MMM d')}`
+                {view === 'day' || view === 'resource'
+                  ? formatClinicTime(selectedDate, 'MMM d, yyyy')
+                  : view === 'week'
+                    ? `${formatClinicTime(weekStartDate, 'MMM d')} - ${formatClinicTime(addClinicDays(weekStartDate, 6), 'MMM d')}`
+                    : formatClinicTime(selectedDate, 'MMMM yyyy')
                 }
+                <span className="clinic-time-zone" title={`Times are shown in the clinic's time zone (${CLINIC_TIME_ZONE})`}>
+                  {getTimeZoneName(CLINIC_TIME_ZONE, selectedDate)}
+                </span>
               </div>
               
               <button
@@ -241,6 +503,74 @@ export function ScheduleView({
               </button>
             </div>
 
+            {/* Availability search */}
+            <button
+              type="button"
+              className={`view-button ${showAvailability ? 'active' : 'inactive'}`}
+              onClick={() => setShowAvailability((open) => !open)}
+              aria-expanded={showAvailability}
+            >
+              <CalendarSearch style={{ width: '1rem', height: '1rem' }} />
+              Find slot
+            </button>
+
+            {/* File import */}
+            <button
+              type="button"
+              className="view-button inactive"
+              onClick={() => setShowImport(true)}
+            >
+              <Upload style={{ width: '1rem', height: '1rem' }} />
+              Import
+            </button>
+
+            {/* Calendar settings */}
+            <button
+              type="button"
+              className="view-button inactive"
+              onClick={() => setShowSettings(true)}
+            >
+              <Settings style={{ width: '1rem', height: '1rem' }} />
+              Settings
+            </button>
+
+            {/* Time off and extra sessions */}
+            {doctor && view !== 'resource' && (
+              <button
+                type="button"
+                className="view-button inactive"
+                onClick={() => setShowTimeOff(true)}
+              >
+                <CalendarOff style={{ width: '1rem', height: '1rem' }} />
+                Time off
+              </button>
+            )}
+
+            {/* Waitlist */}
+            <button
+              type="button"
+              className="view-button inactive"
+              onClick={() => setShowWaitlist(true)}
+            >
+              <Hourglass style={{ width: '1rem', height: '1rem' }} />
+              Waitlist
+            </button>
+
+            {/* Calendar export */}
+            {doctor && view !== 'resource' && (
+              <CalendarExport doctor={doctor} startDate={exportStart} endDate={exportEnd} />
+            )}
+
+            {/* Cancelled visibility */}
+            <label className="toggle-label">
+              <input
+                type="checkbox"
+                checked={showCancelled}
+                onChange={(e) => onShowCancelledChange(e.target.checked)}
+              />
+              Show cancelled
+            </label>
+
             {/* View Toggle */}
             <div className="view-toggle">
               <button
@@ -257,14 +587,94 @@ export function ScheduleView({
                 <Grid3X3 style={{ width: '1rem', height: '1rem' }} />
                 Week
               </button>
+              <button
+                className={`view-button ${view === 'month' ? 'active' : 'inactive'}`}
+                onClick={() => onViewChange('month')}
+              >
+                <CalendarDays style={{ width: '1rem', height: '1rem' }} />
+                Month
+              </button>
+              {!lockedDoctorId && (
+                <button
+                  className={`view-button ${view === 'resource' ? 'active' : 'inactive'}`}
+                  onClick={() => onViewChange('resource')}
+                >
+                  <Users style={{ width: '1rem', height: '1rem' }} />
+                  All doctors
+                </button>
+              )}
             </div>
           </div>
         </div>
+
+        {/* Type, status and duration filters */}
+        {onFiltersChange && <AppointmentFilterBar filters={filters} onChange={onFiltersChange} />}
       </div>
 
       {/* Calendar View */}
       <div className="p-8">
-        {loading ? (
+        {showAvailability && (
+          <AvailabilityPanel
+            onSelectSlot={handleAvailableSlotSelect}
+            onClose={() => setShowAvailability(false)}
+          />
+        )}
+
+        {searchQuery.trim().length >= MIN_SEARCH_QUERY_LENGTH && (
+          <AppointmentSearchResults query={searchQuery} onSelect={handleSearchResultSelect} />
+        )}
+
+        <WaitlistOffers />
+
+        {bookForPatient && (
+          <div className="schedule-feedback booking-for" role="status">
+            <UserPlus style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+            <span>
+              Booking for <strong>{bookForPatient.name}</strong>: pick a free slot, or use Find slot.
+            </span>
+            <button
+              type="button"
+              className="icon-button"
+              onClick={() => onBookForPatientChange?.('')}
+              aria-label="Stop booking for this patient"
+            >
+              <X style={{ width: '0.875rem', height: '0.875rem' }} />
+            </button>
+          </div>
+        )}
+
+        {feedback && (
+          <div
+            className={`schedule-feedback ${feedback.type}`}
+            role={feedback.type === 'error' ? 'alert' : 'status'}
+          >
+            {feedback.type === 'error' ? (
+              <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+            ) : (
+              <CheckCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+            )}
+            <span>{feedback.message}</span>
+            <button
+              type="button"
+              className="icon-button"
+              onClick={() => setFeedback(null)}
+              aria-label="Dismiss"
+            >
+              <X style={{ width: '0.875rem', height: '0.875rem' }} />
+            </button>
+          </div>
+        )}
+
+        {view === 'resource' ? (
+          <ResourceDayView
+            date={selectedDate}
+            hideCancelled={!showCancelled}
+            filters={filters}
+            onSlotClick={handleResourceSlotClick}
+            onAppointmentReschedule={handleReschedule}
+            onAppointmentSelect={onAppointmentSelect}
+          />
+        ) : loading ? (
           <div className="text-center py-16">
             <div className="relative">
               <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-blue-600 mx-auto"></div>
@@ -282,22 +692,81 @@ export function ScheduleView({
           </div>
         ) : (
           <>
+            {countActiveFilters(filters) > 0 && appointments.length === 0 && (
+              <p className="filter-empty" role="status">
+                No appointments match the selected filters.
+              </p>
+            )}
             {view === 'day' ? (
               <DayView
                 appointments={appointments}
                 doctor={doctor}
                 date={selectedDate}
+                exceptions={exceptions}
+                waitlistDemand={waitlistDemand}
+                onSlotClick={handleSlotClick}
+                onAppointmentReschedule={handleReschedule}
+                onAppointmentSelect={onAppointmentSelect}
               />
-            ) : (
+            ) : view === 'week' ? (
               <WeekView
                 appointments={appointments}
                 doctor={doctor}
                 weekStartDate={weekStartDate}
+                exceptions={exceptions}
+                waitlistDemand={waitlistDemand}
+                onSlotClick={handleSlotClick}
+                onAppointmentReschedule={handleReschedule}
+                onAppointmentSelect={onAppointmentSelect}
+              />
+            ) : (
+              <MonthView
+                appointments={appointments}
+                doctor={doctor}
+                date={selectedDate}
+                exceptions={exceptions}
+                waitlistDemand={waitlistDemand}
+                onDayClick={handleMonthDayClick}
               />
             )}
           </>
         )}
       </div>
+
+      {showImport && <ImportDialog onClose={() => setShowImport(false)} />}
+
+      {showSettings && <CalendarSettingsDialog onClose={() => setShowSettings(false)} />}
+
+      {showTimeOff && doctor && (
+        <ScheduleExceptionsDialog doctor={doctor} initialDate={selectedDate} onClose={() => setShowTimeOff(false)} />
+      )}
+
+      {showWaitlist && (
+        <WaitlistDialog doctor={doctor} initialDate={selectedDate} onClose={() => setShowWaitlist(false)} />
+      )}
+
+      {/* Booking form for an empty slot */}
+      {booking && (
+        <BookingForm
+          doctor={booking.doctor}
+          startTime={booking.start}
+          initialType={booking.type}
+          initialPatientId={bookForPatientId}
+          onSubmit={handleCreateAppointment}
+          onSubmitSeries={handleCreateSeries}
+          onClose={() => setBooking(null)}
+        />
+      )}
+
+      {/* Which occurrences a move of a repeating appointment applies to */}
+      {pendingSeriesMove && (
+        <SeriesScopeDialog
+          action="Move repeating appointment"
+          allowSeriesScopes={isSameClinicDay(pendingSeriesMove.start, new Date(pendingSeriesMove.appointment.startTime))}
+          onSelect={handleSeriesScopeSelect}
+          onClose={() => setPendingSeriesMove(null)}
+        />
+      )}
     </div>
   );
 }
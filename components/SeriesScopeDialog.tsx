@@ -0,0 +1,109 @@
+/**
+ * SeriesScopeDialog Component
+ *
+ * Asks which occurrences a change to a recurring appointment applies to:
+ * just this one, this and the following ones, or the whole series.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Repeat, X } from 'lucide-react';
+import type { SeriesEditScope } from '@/types';
+
+interface SeriesScopeDialogProps {
+  action: string; // What is being changed, e.g. "Move appointment"
+  allowSeriesScopes?: boolean; // False when only this occurrence can take the change
+  onSelect: (scope: SeriesEditScope) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<SeriesEditScope, string> = {
+  this: 'This appointment',
+  following: 'This and following appointments',
+  all: 'All appointments in the series',
+};
+
+const SCOPES = Object.keys(SCOPE_LABELS) as SeriesEditScope[];
+
+/**
+ * SeriesScopeDialog Component
+ */
+export function SeriesScopeDialog({ action, allowSeriesScopes = true, onSelect, onClose }: SeriesScopeDialogProps) {
+  const [scope, setScope] = useState<SeriesEditScope>('this');
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSelect(scope);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal series-scope-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="series-scope-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div className="day-icon" aria-hidden="true">
+              <Repeat style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="series-scope-title" className="modal-title">{action}</h2>
+              <p className="modal-subtitle">This appointment is part of a repeating series</p>
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <form className="modal-body" onSubmit={handleSubmit}>
+          <fieldset className="series-scope-options">
+            <legend className="sr-only">Apply to</legend>
+            {SCOPES.map((option) => (
+              <label key={option} className="toggle-label">
+                <input
+                  type="radio"
+                  name="series-scope"
+                  value={option}
+                  checked={scope === option}
+                  disabled={option !== 'this' && !allowSeriesScopes}
+                  onChange={() => setScope(option)}
+                />
+                {SCOPE_LABELS[option]}
+              </label>
+            ))}
+          </fieldset>
+
+          {!allowSeriesScopes && (
+            <p className="modal-subtitle">
+              Only a single appointment can be moved to another day.
+            </p>
+          )}
+
+          <div className="modal-actions">
+            <button type="button" className="secondary-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="primary-button">
+              OK
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * SignInPanel Component
+ *
+ * Local login stand-in: pick a role and, for doctors, which doctor you are.
+ * There are no credentials; the choice only decides which role rules the
+ * service and API apply.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { LogIn, AlertCircle } from 'lucide-react';
+import type { Session, UserRole } from '@/types';
+import { SPECIALTY_LABELS } from '@/types';
+import { useDoctors } from '@/hooks/useAppointments';
+import { ROLE_LABELS } from '@/services/session';
+
+interface SignInPanelProps {
+  onSignIn: (session: Session) => void;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+/**
+ * SignInPanel Component
+ */
+export function SignInPanel({ onSignIn }: SignInPanelProps) {
+  const { doctors, loading, error: doctorsError } = useDoctors();
+
+  const [role, setRole] = useState<UserRole>('front-desk');
+  const [name, setName] = useState('');
+  const [doctorId, setDoctorId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (role === 'doctor') {
+      const doctor = doctors.find((d) => d.id === doctorId);
+      if (!doctor) {
+        setError('Please select which doctor you are');
+        return;
+      }
+      onSignIn({ name: `Dr. ${doctor.name}`, role, doctorId: doctor.id });
+      return;
+    }
+
+    if (!name.trim()) {
+      setError('Please enter your name');
+      return;
+    }
+    onSignIn({ name: name.trim(), role });
+  };
+
+  return (
+    <div className="card card-padding">
+      <form className="sign-in-form" onSubmit={handleSubmit}>
+        <div className="text-center">
+          <div className="doctor-icon">
+            <LogIn style={{ width: '2rem', height: '2rem', color: 'white' }} />
+          </div>
+          <h2 className="card-title">Sign In</h2>
+          <p className="card-subtitle">Front desk staff see every doctor; doctors see their own schedule</p>
+        </div>
+
+        <div className="form-field">
+          <label htmlFor="sign-in-role" className="form-label">Role</label>
+          <select
+            id="sign-in-role"
+            className="form-input"
+            value={role}
+            onChange={(e) => {
+              setRole(e.target.value as UserRole);
+              setError(null);
+            }}
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+        </div>
+
+        {role === 'doctor' ? (
+          <div className="form-field">
+            <label htmlFor="sign-in-doctor" className="form-label">Doctor</label>
+            <select
+              id="sign-in-doctor"
+              className="form-input"
+              value={doctorId}
+              onChange={(e) => setDoctorId(e.target.value)}
+              disabled={loading}
+            >
+              <option value="">Select a doctor...</option>
+              {doctors.map((doctor) => (
+                <option key={doctor.id} value={doctor.id}>
+                  Dr. {doctor.name} - {SPECIALTY_LABELS[doctor.specialty]}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div className="form-field">
+            <label htmlFor="sign-in-name" className="form-label">Name</label>
+            <input
+              id="sign-in-name"
+              type="text"
+              className="form-input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+        )}
+
+        {(error || doctorsError) && (
+          <div className="form-error" role="alert">
+            <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+            <span>{error ?? 'Error loading doctors'}</span>
+          </div>
+        )}
+
+        <button type="submit" className="primary-button">
+          Sign in
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * ViewerTime Component
+ *
+ * Secondary label with a time on the viewer's own clock. Only shown when
+ * the "also show my time zone" setting is on and the viewer's clock
+ * differs from the clinic's at that time.
+ */
+
+'use client';
+
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import {
+  formatClinicTime,
+  formatInTimeZone,
+  getTimeZoneName,
+  getViewerTimeZone,
+  matchesClinicTimeZone,
+} from '@/services/clinicTime';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+
+interface ViewerTimeProps {
+  date: Date;
+  className?: string;
+}
+
+/**
+ * ViewerTime Component
+ */
+export function ViewerTime({ date, className = '' }: ViewerTimeProps) {
+  const { settings } = useCalendarSettings();
+  const viewerTimeZone = getViewerTimeZone();
+  if (!settings.showViewerTime || matchesClinicTimeZone(viewerTimeZone, date)) return null;
+
+  // Name the weekday when the viewer is already on another day
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+  const otherDay = formatInTimeZone(date, 'yyyy-MM-dd', viewerTimeZone) !== formatClinicTime(date, 'yyyy-MM-dd');
+  const label = formatInTimeZone(date, otherDay ? `EEE ${timePattern}` : timePattern, viewerTimeZone);
+
+  return (
+    <span className={`viewer-time ${className}`} title={`Your time (${viewerTimeZone})`}>
+      {label} {getTimeZoneName(viewerTimeZone, date)}
+    </span>
+  );
+}
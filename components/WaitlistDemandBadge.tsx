@@ -0,0 +1,29 @@
+/**
+ * WaitlistDemandBadge Component
+ *
+ * Small badge for a calendar day showing how many waitlisted patients
+ * would take a slot on it, so staff know where a freed slot is wanted.
+ */
+
+'use client';
+
+import { Hourglass } from 'lucide-react';
+
+interface WaitlistDemandBadgeProps {
+  count: number | undefined;
+}
+
+/**
+ * WaitlistDemandBadge Component
+ */
+export function WaitlistDemandBadge({ count }: WaitlistDemandBadgeProps) {
+  if (!count) return null;
+
+  const description = `${count} waitlisted patient${count !== 1 ? 's' : ''} could take a slot`;
+  return (
+    <span className="waitlist-badge" title={description} aria-label={description}>
+      <Hourglass style={{ width: '0.75rem', height: '0.75rem' }} aria-hidden="true" />
+      {count}
+    </span>
+  );
+}
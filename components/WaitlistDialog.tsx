@@ -0,0 +1,324 @@
+/**
+ * WaitlistDialog Component
+ *
+ * Modal for the waitlist: patients waiting for a slot with a doctor, any
+ * doctor of a specialty or anyone, most urgent first, with a remove
+ * action, and a form to add a patient. Freed slots are offered to these
+ * patients from the schedule (see WaitlistOffers).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Hourglass, Trash2, X, AlertCircle } from 'lucide-react';
+import type { AppointmentType, Doctor, Specialty, WaitlistEntry, WaitlistPriority } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG, SPECIALTY_LABELS, WAITLIST_PRIORITY_LABELS } from '@/types';
+import { useDoctors, usePatients, useWaitlist } from '@/hooks/useAppointments';
+import { addClinicDays, formatClinicTime, getClinicDateKey, parseClinicDateKey } from '@/services/clinicTime';
+
+interface WaitlistDialogProps {
+  doctor?: Doctor | null; // Doctor the form starts on
+  initialDate: Date;      // First day of the form's date window
+  onClose: () => void;
+}
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+const PRIORITIES = Object.keys(WAITLIST_PRIORITY_LABELS) as WaitlistPriority[];
+const SPECIALTIES = Object.keys(SPECIALTY_LABELS) as Specialty[];
+
+const DEFAULT_WINDOW_DAYS = 14; // Length of the date window the form starts with
+
+/**
+ * Format a clinic date ("YYYY-MM-DD") for display
+ */
+function formatDateKey(dateKey: string): string {
+  return formatClinicTime(parseClinicDateKey(dateKey), 'MMM d');
+}
+
+/**
+ * Who an entry wants to see
+ */
+function describeWanted(entry: WaitlistEntry, doctors: Doctor[]): string {
+  if (entry.doctorId) {
+    const doctor = doctors.find((candidate) => candidate.id === entry.doctorId);
+    return doctor ? `Dr. ${doctor.name}` : 'A specific doctor';
+  }
+  return entry.specialty ? `Any ${SPECIALTY_LABELS[entry.specialty]} doctor` : 'Any doctor';
+}
+
+/**
+ * WaitlistDialog Component
+ */
+export function WaitlistDialog({ doctor, initialDate, onClose }: WaitlistDialogProps) {
+  const { entries, loading, error: listError, addEntry, removeEntry } = useWaitlist();
+  const { patients } = usePatients();
+  const { doctors } = useDoctors();
+
+  const [patientId, setPatientId] = useState('');
+  // "doctor:<id>", "specialty:<specialty>" or "" for any doctor
+  const [wanted, setWanted] = useState(doctor ? `doctor:${doctor.id}` : '');
+  const [type, setType] = useState<AppointmentType>('consultation');
+  const [priority, setPriority] = useState<WaitlistPriority>('normal');
+  const [earliestDate, setEarliestDate] = useState(() => getClinicDateKey(initialDate));
+  const [latestDate, setLatestDate] = useState(() =>
+    getClinicDateKey(addClinicDays(initialDate, DEFAULT_WINDOW_DAYS - 1))
+  );
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [added, setAdded] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const patientName = (id: string) => patients.find((patient) => patient.id === id)?.name ?? 'Unknown patient';
+
+  const handleEarliestDateChange = (value: string) => {
+    setEarliestDate(value);
+    if (value > latestDate) setLatestDate(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patientId) {
+      setError('Please choose a patient');
+      return;
+    }
+
+    const [wantedKind, wantedValue] = wanted.split(':');
+    setSubmitting(true);
+    try {
+      await addEntry({
+        patientId,
+        ...(wantedKind === 'doctor' && { doctorId: wantedValue }),
+        ...(wantedKind === 'specialty' && { specialty: wantedValue as Specialty }),
+        type,
+        priority,
+        earliestDate,
+        latestDate,
+        notes,
+      });
+      setAdded(patientName(patientId));
+      setError(null);
+      setPatientId('');
+      setNotes('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add to the waitlist');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeEntry(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the entry');
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal waitlist-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="waitlist-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div className="day-icon" aria-hidden="true">
+              <Hourglass style={{ width: '1rem', height: '1rem', color: 'white' }} />
+            </div>
+            <div>
+              <h2 id="waitlist-title" className="modal-title">Waitlist</h2>
+              <p className="modal-subtitle">Offered freed slots as they come up</p>
+            </div>
+          </div>
+          <button type="button" className="icon-button" onClick={onClose} aria-label="Close">
+            <X style={{ width: '1rem', height: '1rem' }} />
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <section aria-labelledby="waitlist-list-title">
+            <h3 id="waitlist-list-title" className="form-label">Waiting ({entries.length})</h3>
+            {listError ? (
+              <p className="exception-empty">{listError.message}</p>
+            ) : loading ? (
+              <p className="exception-empty">Loading waitlist...</p>
+            ) : entries.length === 0 ? (
+              <p className="exception-empty">Nobody is waiting.</p>
+            ) : (
+              <ul className="waitlist-list">
+                {entries.map((entry) => (
+                  <li key={entry.id} className={`waitlist-item priority-${entry.priority}`}>
+                    <div>
+                      <div>
+                        <strong>{patientName(entry.patientId)}</strong> - {APPOINTMENT_TYPE_CONFIG[entry.type].label}
+                      </div>
+                      <div className="waitlist-meta">
+                        {describeWanted(entry, doctors)}, {formatDateKey(entry.earliestDate)} -{' '}
+                        {formatDateKey(entry.latestDate)}
+                      </div>
+                      {entry.notes && <div className="exception-reason">{entry.notes}</div>}
+                    </div>
+                    <span className={`waitlist-priority priority-${entry.priority}`}>
+                      {WAITLIST_PRIORITY_LABELS[entry.priority]}
+                    </span>
+                    <button
+                      type="button"
+                      className="icon-button"
+                      onClick={() => handleRemove(entry.id)}
+                      aria-label={`Take ${patientName(entry.patientId)} off the waitlist`}
+                    >
+                      <Trash2 style={{ width: '0.875rem', height: '0.875rem' }} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {added && (
+            <div className="schedule-feedback success" role="status">
+              <span>Added {added} to the waitlist.</span>
+            </div>
+          )}
+
+          <form className="exception-form" onSubmit={handleSubmit}>
+            <div className="form-row">
+              <div className="form-field">
+                <label htmlFor="waitlist-patient" className="form-label">Patient</label>
+                <select
+                  id="waitlist-patient"
+                  className="form-input"
+                  value={patientId}
+                  onChange={(e) => setPatientId(e.target.value)}
+                >
+                  <option value="">Choose a patient...</option>
+                  {patients.map((patient) => (
+                    <option key={patient.id} value={patient.id}>{patient.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-field">
+                <label htmlFor="waitlist-wanted" className="form-label">Wants to see</label>
+                <select
+                  id="waitlist-wanted"
+                  className="form-input"
+                  value={wanted}
+                  onChange={(e) => setWanted(e.target.value)}
+                >
+                  <option value="">Any doctor</option>
+                  <optgroup label="Doctor">
+                    {doctors.map((candidate) => (
+                      <option key={candidate.id} value={`doctor:${candidate.id}`}>Dr. {candidate.name}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Any doctor of a specialty">
+                    {SPECIALTIES.map((specialty) => (
+                      <option key={specialty} value={`specialty:${specialty}`}>{SPECIALTY_LABELS[specialty]}</option>
+                    ))}
+                  </optgroup>
+                </select>
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-field">
+                <label htmlFor="waitlist-type" className="form-label">Appointment type</label>
+                <select
+                  id="waitlist-type"
+                  className="form-input"
+                  value={type}
+                  onChange={(e) => setType(e.target.value as AppointmentType)}
+                >
+                  {APPOINTMENT_TYPES.map((value) => (
+                    <option key={value} value={value}>
+                      {APPOINTMENT_TYPE_CONFIG[value].label} ({APPOINTMENT_TYPE_CONFIG[value].defaultDuration} min)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-field">
+                <label htmlFor="waitlist-priority" className="form-label">Priority</label>
+                <select
+                  id="waitlist-priority"
+                  className="form-input"
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value as WaitlistPriority)}
+                >
+                  {PRIORITIES.map((value) => (
+                    <option key={value} value={value}>{WAITLIST_PRIORITY_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-field">
+                <label htmlFor="waitlist-earliest" className="form-label">Earliest date</label>
+                <input
+                  id="waitlist-earliest"
+                  type="date"
+                  className="form-input"
+                  value={earliestDate}
+                  onChange={(e) => handleEarliestDateChange(e.target.value)}
+                />
+              </div>
+              <div className="form-field">
+                <label htmlFor="waitlist-latest" className="form-label">Latest date</label>
+                <input
+                  id="waitlist-latest"
+                  type="date"
+                  className="form-input"
+                  min={earliestDate}
+                  value={latestDate}
+                  onChange={(e) => setLatestDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="form-field">
+              <label htmlFor="waitlist-notes" className="form-label">Notes</label>
+              <input
+                id="waitlist-notes"
+                type="text"
+                className="form-input"
+                placeholder="Optional"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            {error && (
+              <div className="form-error" role="alert">
+                <AlertCircle style={{ width: '1rem', height: '1rem', flexShrink: 0 }} />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="modal-actions">
+              <button type="button" className="secondary-button" onClick={onClose}>
+                Close
+              </button>
+              <button type="submit" className="primary-button" disabled={submitting}>
+                {submitting ? 'Adding...' : 'Add to waitlist'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * WaitlistOffers Component
+ *
+ * Panel above the calendar listing slots freed by cancellations and
+ * reschedules that suit someone on the waitlist, with the candidates for
+ * each slot best first. Booking a candidate creates the appointment the
+ * usual way; dismissing a slot stops offering it.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Hourglass, X } from 'lucide-react';
+import { APPOINTMENT_TYPE_CONFIG, WAITLIST_PRIORITY_LABELS } from '@/types';
+import { useWaitlistOffers } from '@/hooks/useAppointments';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import type { WaitlistOffer } from '@/services/appointmentService';
+import { TIME_FORMATS } from '@/services/calendarSettings';
+import { formatClinicTime } from '@/services/clinicTime';
+
+/**
+ * Candidates listed per slot
+ */
+const MAX_OFFERS_SHOWN = 3;
+
+/**
+ * WaitlistOffers Component
+ */
+export function WaitlistOffers() {
+  const { slots, error: loadError, acceptOffer, dismissSlot } = useWaitlistOffers();
+  const { settings } = useCalendarSettings();
+  const timePattern = TIME_FORMATS[settings.timeFormat].time;
+
+  const [feedback, setFeedback] = useState<{ kind: 'success' | 'error'; message: string } | null>(null);
+  const [bookingId, setBookingId] = useState<string | null>(null);
+
+  const handleBook = async (doctorId: string, offer: WaitlistOffer) => {
+    setBookingId(offer.entry.id);
+    try {
+      await acceptOffer(offer.entry.id, doctorId, offer.startTime);
+      setFeedback({
+        kind: 'success',
+        message: `Booked ${offer.patient.name} for ${formatClinicTime(new Date(offer.startTime), `EEE, MMM d, ${timePattern}`)}.`,
+      });
+    } catch (err) {
+      setFeedback({ kind: 'error', message: err instanceof Error ? err.message : 'Could not book the slot' });
+    } finally {
+      setBookingId(null);
+    }
+  };
+
+  const handleDismiss = async (slotId: string) => {
+    try {
+      await dismissSlot(slotId);
+    } catch (err) {
+      setFeedback({ kind: 'error', message: err instanceof Error ? err.message : 'Could not dismiss the slot' });
+    }
+  };
+
+  if (slots.length === 0 && !feedback && !loadError) return null;
+
+  return (
+    <section className="waitlist-offers" aria-label="Freed slots for waitlisted patients">
+      {feedback && (
+        <div className={`schedule-feedback ${feedback.kind}`} role={feedback.kind === 'error' ? 'alert' : 'status'}>
+          <span>{feedback.message}</span>
+          <button type="button" className="icon-button" onClick={() => setFeedback(null)} aria-label="Dismiss">
+            <X style={{ width: '0.875rem', height: '0.875rem' }} />
+          </button>
+        </div>
+      )}
+      {loadError && (
+        <div className="schedule-feedback error" role="alert">
+          <span>{loadError.message}</span>
+        </div>
+      )}
+
+      {slots.map(({ slot, doctor, offers }) => (
+        <div key={slot.id} className="waitlist-slot">
+          <div className="waitlist-slot-header">
+            <Hourglass style={{ width: '0.875rem', height: '0.875rem' }} aria-hidden="true" />
+            <span>
+              Freed slot with Dr. {doctor.name},{' '}
+              {formatClinicTime(new Date(slot.startTime), `EEE, MMM d, ${timePattern}`)} -{' '}
+              {formatClinicTime(new Date(slot.endTime), timePattern)}
+            </span>
+            <button
+              type="button"
+              className="secondary-button waitlist-dismiss"
+              onClick={() => handleDismiss(slot.id)}
+            >
+              Dismiss
+            </button>
+          </div>
+          <ol className="waitlist-offer-list">
+            {offers.slice(0, MAX_OFFERS_SHOWN).map((offer) => (
+              <li key={offer.entry.id} className="waitlist-offer">
+                <span className={`waitlist-priority priority-${offer.entry.priority}`}>
+                  {WAITLIST_PRIORITY_LABELS[offer.entry.priority]}
+                </span>
+                <span className="waitlist-offer-name">{offer.patient.name}</span>
+                <span className="waitlist-meta">
+                  {APPOINTMENT_TYPE_CONFIG[offer.entry.type].label}, {formatClinicTime(new Date(offer.startTime), timePattern)} -{' '}
+                  {formatClinicTime(new Date(offer.endTime), timePattern)}
+                </span>
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={() => handleBook(doctor.id, offer)}
+                  disabled={bookingId !== null}
+                >
+                  {bookingId === offer.entry.id ? 'Booking...' : 'Book'}
+                </button>
+              </li>
+            ))}
+          </ol>
+          {offers.length > MAX_OFFERS_SHOWN && (
+            <p className="waitlist-meta">
+              {offers.length - MAX_OFFERS_SHOWN} more waiting for this slot
+            </p>
+          )}
+        </div>
+      ))}
+    </section>
+  );
+}
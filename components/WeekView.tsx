@@ -15,16 +15,28 @@
 'use client';
 
 import { useMemo } from 'react';
-import { format, addDays, isSameDay } from 'date-fns';
-import { Grid3X3, Clock, CalendarX } from 'lucide-react';
-import type { Appointment, Doctor, TimeSlot, PopulatedAppointment, AppointmentType } from '@/types';
-import { APPOINTMENT_TYPE_CONFIG, DEFAULT_CALENDAR_CONFIG } from '@/types';
-import { appointmentService } from '@/services/appointmentService';
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import { Grid3X3, Clock, CalendarX, Plus, Repeat } from 'lucide-react';
+import type { Appointment, Doctor, TimeSlot, PopulatedAppointment, AppointmentType, ScheduleException } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { appointmentService, isActiveAppointment } from '@/services/appointmentService';
+import { TIME_FORMATS, getVisibleCalendarConfig } from '@/services/calendarSettings';
+import { addClinicDays, formatClinicTime, getZonedDateParts, isSameClinicDay, setClinicTime } from '@/services/clinicTime';
+import { useCalendarSettings } from '@/hooks/useCalendarSettings';
+import { useAppointmentDrag, KEYBOARD_RESCHEDULE_HINT } from '@/hooks/useAppointmentDrag';
+import { AppointmentLayer } from './AppointmentLayer';
+import { ViewerTime } from './ViewerTime';
+import { WaitlistDemandBadge } from './WaitlistDemandBadge';
 
 interface WeekViewProps {
-  appointments: Appointment[];
+  appointments: PopulatedAppointment[];
   doctor: Doctor | undefined;
   weekStartDate: Date; // Should be a Monday
+  exceptions?: ScheduleException[]; // The doctor's time off, breaks and extra sessions
+  waitlistDemand?: Record<string, number>; // Waitlisted patients per clinic date ("YYYY-MM-DD")
+  onSlotClick?: (start: Date) => void;
+  onAppointmentReschedule?: (appointment: Appointment, start: Date, end: Date) => void | Promise<void>;
+  onAppointmentSelect?: (appointment: PopulatedAppointment) => void; // Card clicked or activated with Enter/Space
 }
 
 /**
@@ -32,30 +44,41 @@ interface WeekViewProps {
  */
 interface CompactAppointmentCardProps {
   appointment: PopulatedAppointment;
+  resizeDuration?: number; // New duration in minutes while being resized
 }
 
-function CompactAppointmentCard({ appointment }: CompactAppointmentCardProps) {
+function CompactAppointmentCard({ appointment, resizeDuration }: CompactAppointmentCardProps) {
   const typeConfig = APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType];
-  const startTime = format(new Date(appointment.startTime), 'h:mm');
+  const statusConfig = APPOINTMENT_STATUS_CONFIG[appointment.status];
+  const { settings } = useCalendarSettings();
+  const startTime = formatClinicTime(new Date(appointment.startTime), TIME_FORMATS[settings.timeFormat].clock);
   
   return (
     <div
-      className="text-xs p-2 mb-1.5 rounded-lg text-white shadow-md cursor-pointer hover:shadow-lg hover:scale-105 transition-all duration-200 group backdrop-blur-sm"
+      className={`compact-appointment-card status-${appointment.status} text-xs p-2 mb-1.5 rounded-lg text-white shadow-md cursor-pointer hover:shadow-lg hover:scale-105 transition-all duration-200 group backdrop-blur-sm`}
       style={{ 
         backgroundColor: `${typeConfig.color}f0`,
         background: `linear-gradient(135deg, ${typeConfig.color}f0 0%, ${typeConfig.color}e0 100%)`,
       }}
-      title={`${appointment.patient.name} - ${typeConfig.label} at ${startTime}`}
+      title={`${appointment.patient.name} - ${typeConfig.label} at ${startTime} (${statusConfig.label})`}
     >
       <div className="flex items-center justify-between mb-1">
         <div className="font-semibold truncate flex-1 group-hover:scale-105 transition-transform">
           {appointment.patient.name}
         </div>
-        <div className="w-2 h-2 bg-white rounded-full opacity-70 ml-1 flex-shrink-0"></div>
+        <div
+          className="compact-status-dot w-2 h-2 rounded-full ml-1 flex-shrink-0"
+          style={{ backgroundColor: statusConfig.color }}
+          aria-hidden="true"
+        ></div>
       </div>
       <div className="flex items-center gap-1 opacity-90">
         <Clock className="w-3 h-3 flex-shrink-0" />
         <span className="truncate">{startTime}</span>
+        {appointment.seriesId && <Repeat className="w-3 h-3 flex-shrink-0" aria-label="Repeating" />}
+        {resizeDuration !== undefined && (
+          <span className="compact-resize-preview">{resizeDuration}m</span>
+        )}
       </div>
     </div>
   );
@@ -66,79 +89,137 @@ function CompactAppointmentCard({ appointment }: CompactAppointmentCardProps) {
  *
  * Renders a weekly calendar grid with appointments.
  */
-export function WeekView({ appointments, doctor, weekStartDate }: WeekViewProps) {
+export function WeekView({
+  appointments,
+  doctor,
+  weekStartDate,
+  exceptions = [],
+  waitlistDemand = {},
+  onSlotClick,
+  onAppointmentReschedule,
+  onAppointmentSelect,
+}: WeekViewProps) {
+  const { settings } = useCalendarSettings();
+  const { slotHeight } = settings;
+  const timeFormat = TIME_FORMATS[settings.timeFormat];
+
+  /**
+   * Visible hours from the settings, fitted to the doctor's working hours across the week
+   */
+  const calendarConfig = useMemo(
+    () => getVisibleCalendarConfig(settings, doctor ? [doctor] : [], exceptions),
+    [settings, doctor, exceptions]
+  );
+
+  const {
+    draggingId,
+    resizingId,
+    getDragSourceProps,
+    getDropTargetProps,
+    getDropTargetState,
+    getResizeHandleProps,
+    getDisplayDuration,
+    handleRescheduleKeyDown,
+  } = useAppointmentDrag({
+    slotDuration: calendarConfig.slotDuration,
+    slotHeight,
+    onReschedule: (appointment, start, end) => onAppointmentReschedule?.(appointment, start, end),
+  });
+
   /**
-   * Generate array of 7 dates (Monday through Sunday)
+   * Generate array of 7 dates, starting on the configured first day of the week
    */
   const weekDays = useMemo((): Date[] => {
     const days: Date[] = [];
     for (let i = 0; i < 7; i++) {
-      days.push(addDays(weekStartDate, i));
+      days.push(addClinicDays(weekStartDate, i));
     }
     return days;
   }, [weekStartDate]);
 
   /**
-   * Generate time slots (same as DayView)
+   * Time range covered by each day column, used to position its appointment layer
+   */
+  const dayRanges = useMemo(() => {
+    return weekDays.map((day) => ({
+      start: setClinicTime(day, calendarConfig.startHour),
+      end: setClinicTime(day, calendarConfig.endHour),
+    }));
+  }, [weekDays, calendarConfig]);
+
+  /**
+   * Whether the doctor has no working hours on a day (weekly day off or time off)
+   */
+  function isDayOff(date: Date): boolean {
+    return doctor !== undefined && appointmentService.getWorkingPeriodsForDate(doctor, date, exceptions).length === 0;
+  }
+
+  /**
+   * Generate time slot rows, as clinic times on the first day of the week
    */
   const timeSlots = useMemo((): TimeSlot[] => {
     const slots: TimeSlot[] = [];
-    const { startHour, endHour, slotDuration } = DEFAULT_CALENDAR_CONFIG;
+    const { startHour, endHour, slotDuration } = calendarConfig;
     
     for (let hour = startHour; hour < endHour; hour++) {
       for (let minute = 0; minute < 60; minute += slotDuration) {
-        const start = new Date();
-        start.setHours(hour, minute, 0, 0);
-        
-        const end = new Date(start);
-        end.setMinutes(end.getMinutes() + slotDuration);
-        
-        const label = format(start, 'h:mm a');
+        const start = setClinicTime(weekStartDate, hour, minute);
+        const end = addMinutes(start, slotDuration);
+        const label = formatClinicTime(start, timeFormat.time);
         
         slots.push({ start, end, label });
       }
     }
     
     return slots;
-  }, []);
-
-  /**
-   * Get populated appointments with patient and doctor data
-   */
-  const populatedAppointments = useMemo(() => {
-    return appointmentService.getPopulatedAppointments(appointments);
-  }, [appointments]);
+  }, [weekStartDate, calendarConfig, timeFormat]);
 
   /**
    * Get appointments for a specific day
    */
   function getAppointmentsForDay(date: Date): PopulatedAppointment[] {
-    return populatedAppointments.filter((appointment) => {
+    return appointments.filter((appointment) => {
       const appointmentDate = new Date(appointment.startTime);
-      return isSameDay(appointmentDate, date);
+      return isSameClinicDay(appointmentDate, date);
     });
   }
 
   /**
-   * Get appointments for a specific day and time slot
+   * Get the concrete start time of a slot row on a specific day (same clinic time)
+   */
+  function getSlotStart(date: Date, slot: TimeSlot): Date {
+    const { hour, minute } = getZonedDateParts(slot.start);
+    return setClinicTime(date, hour, minute);
+  }
+
+  /**
+   * Get appointments that overlap a specific day and time slot
    */
   function getAppointmentsForDayAndSlot(date: Date, slot: TimeSlot): PopulatedAppointment[] {
     const dayAppointments = getAppointmentsForDay(date);
     return dayAppointments.filter((appointment) => {
       const appointmentStart = new Date(appointment.startTime);
-      const slotStart = new Date(date);
-      slotStart.setHours(slot.start.getHours(), slot.start.getMinutes(), 0, 0);
-      const slotEnd = new Date(date);
-      slotEnd.setHours(slot.end.getHours(), slot.end.getMinutes(), 0, 0);
+      const appointmentEnd = new Date(appointment.endTime);
+      const slotStart = getSlotStart(date, slot);
+      const slotEnd = addMinutes(slotStart, calendarConfig.slotDuration);
       
-      return appointmentStart >= slotStart && appointmentStart < slotEnd;
+      return appointmentStart < slotEnd && appointmentEnd > slotStart;
     });
   }
 
-  const weekEndDate = addDays(weekStartDate, 6);
+  // Stretch the card being resized so its new length is visible while dragging
+  const layerAppointments = resizingId
+    ? appointments.map((appointment) =>
+        appointment.id === resizingId
+          ? { ...appointment, endTime: addMinutes(new Date(appointment.startTime), getDisplayDuration(appointment)).toISOString() }
+          : appointment
+      )
+    : appointments;
+
+  const weekEndDate = addClinicDays(weekStartDate, 6);
 
   return (
-    <div className="week-view" role="main" aria-label={`Weekly schedule for ${format(weekStartDate, 'MMM d')} - ${format(weekEndDate, 'MMM d, yyyy')}`}>
+    <div className="week-view" role="main" aria-label={`Weekly schedule for ${formatClinicTime(weekStartDate, 'MMM d')} - ${formatClinicTime(weekEndDate, 'MMM d, yyyy')}`}>
       {/* Week header */}
       <header className="mb-6">
         <div className="flex items-center gap-3 mb-2">
@@ -146,7 +227,7 @@ export function WeekView({ appointments, doctor, weekStartDate }: WeekViewProps)
             <Grid3X3 className="w-4 h-4 text-white" />
           </div>
           <h1 className="text-2xl font-bold text-gray-900">
-            {format(weekStartDate, 'MMM d')} - {format(weekEndDate, 'MMM d, yyyy')}
+            {formatClinicTime(weekStartDate, 'MMM d')} - {formatClinicTime(weekEndDate, 'MMM d, yyyy')}
           </h1>
         </div>
         {doctor && (
@@ -159,32 +240,41 @@ export function WeekView({ appointments, doctor, weekStartDate }: WeekViewProps)
         )}
       </header>
 
+      {onAppointmentReschedule && (
+        <p id="week-view-reschedule-hint" className="sr-only">{KEYBOARD_RESCHEDULE_HINT}</p>
+      )}
+
       {/* Week grid - horizontal scroll on mobile */}
-      <div className="border border-gray-200 rounded-xl overflow-x-auto bg-white shadow-sm" role="table" aria-label="Weekly appointment schedule">
-        <table className="min-w-full">
+      <div className={`border border-gray-200 rounded-xl overflow-x-auto bg-white shadow-sm ${draggingId ? 'dragging-active' : ''}`} role="table" aria-label="Weekly appointment schedule">
+        <table className="week-grid min-w-full">
           <thead>
             <tr role="row">
               <th className="w-24 p-4 text-xs bg-gradient-to-r from-gray-50 to-gray-100 border-r border-gray-200 sticky left-0 z-10" scope="col">
                 <div className="font-semibold text-gray-700">Time</div>
               </th>
               {weekDays.map((day, index) => {
-                const isToday = format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+                const isToday = isSameClinicDay(day, new Date());
+                const dayOff = isDayOff(day);
                 return (
-                  <th key={index} className={`p-4 text-xs border-l border-gray-200 min-w-[140px] ${
+                  <th key={index} className={`p-4 text-xs border-l border-gray-200 min-w-[140px] ${dayOff ? 'day-off' : ''} ${
                     isToday 
                       ? 'bg-gradient-to-br from-blue-50 to-indigo-50 border-blue-200' 
                       : 'bg-gradient-to-br from-gray-50 to-gray-100'
-                  }`} scope="col" aria-label={`${format(day, 'EEEE, MMMM d')}${isToday ? ' (Today)' : ''}`}>
+                  }`} scope="col" aria-label={`${formatClinicTime(day, 'EEEE, MMMM d')}${isToday ? ' (Today)' : ''}${dayOff ? ' (Day off)' : ''}`}>
                     <div className={`font-bold text-sm mb-1 ${
                       isToday ? 'text-blue-700' : 'text-gray-900'
                     }`}>
-                      {format(day, 'EEE')}
+                      {formatClinicTime(day, 'EEE')}
                     </div>
                     <div className={`text-xs ${
                       isToday ? 'text-blue-600' : 'text-gray-600'
                     }`}>
-                      {format(day, 'MMM d')}
+                      {formatClinicTime(day, 'MMM d')}
                     </div>
+                    {dayOff && (
+                      <div className="day-off-label">Day off</div>
+                    )}
+                    <WaitlistDemandBadge count={waitlistDemand[formatClinicTime(day, 'yyyy-MM-dd')]} />
                     {isToday && (
                       <div className="w-2 h-2 bg-blue-500 rounded-full mx-auto mt-1 animate-pulse" aria-hidden="true"></div>
                     )}
@@ -195,60 +285,107 @@ export function WeekView({ appointments, doctor, weekStartDate }: WeekViewProps)
           </thead>
           <tbody>
             {timeSlots.map((slot, slotIndex) => {
-              const isCurrentHour = new Date().getHours() === slot.start.getHours();
+              const isCurrentHour = getZonedDateParts(new Date()).hour === getZonedDateParts(slot.start).hour;
               
               return (
                 <tr key={slotIndex} className={`border-t border-gray-100 transition-colors duration-200 ${
                   isCurrentHour ? 'bg-blue-50/30' : 'hover:bg-gray-50/50'
-                }`} role="row">
+                }`} style={{ height: `${slotHeight}px` }} role="row">
                   <th className={`p-4 text-xs font-medium border-r border-gray-200 sticky left-0 z-10 ${
                     isCurrentHour 
                       ? 'bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-700 border-blue-200' 
                       : 'bg-gradient-to-r from-gray-50 to-gray-100 text-gray-600'
-                  }`} scope="row" aria-label={`Time slot ${format(slot.start, 'h:mm a')}`}>
+                  }`} scope="row" aria-label={`Time slot ${slot.label}`}>
                     <div className="text-center">
                       <div className={`font-semibold ${
                         isCurrentHour ? 'text-blue-700' : 'text-gray-900'
                       }`}>
-                        {format(slot.start, 'h:mm')}
-                      </div>
-                      <div className={`text-xs ${
-                        isCurrentHour ? 'text-blue-600' : 'text-gray-500'
-                      }`}>
-                        {format(slot.start, 'a')}
+                        {formatClinicTime(slot.start, timeFormat.clock)}
                       </div>
+                      {timeFormat.period && (
+                        <div className={`text-xs ${
+                          isCurrentHour ? 'text-blue-600' : 'text-gray-500'
+                        }`}>
+                          {formatClinicTime(slot.start, timeFormat.period)}
+                        </div>
+                      )}
+                      <ViewerTime date={slot.start} />
                     </div>
                   </th>
                   {weekDays.map((day, dayIndex) => {
                     const slotAppointments = getAppointmentsForDayAndSlot(day, slot);
-                    const isToday = format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+                    const isToday = isSameClinicDay(day, new Date());
+                    const slotStart = getSlotStart(day, slot);
+                    const now = new Date();
+                    const isCurrentSlot = slotStart <= now && now < addMinutes(slotStart, calendarConfig.slotDuration);
+                    const dropState = getDropTargetState(slotStart);
+                    const isWorking =
+                      !doctor ||
+                      appointmentService.isWithinWorkingHours(doctor, slotStart, addMinutes(slotStart, calendarConfig.slotDuration), exceptions);
                     
                     return (
-                      <td key={dayIndex} className={`p-2 border-l border-gray-200 align-top min-h-[70px] w-36 relative ${
+                      <td key={dayIndex} className={`week-slot-cell p-2 border-l border-gray-200 align-top min-h-[70px] w-36 relative ${
                         isToday ? 'bg-blue-50/20' : ''
-                      }`} role="gridcell" aria-label={`${format(day, 'EEEE')}, ${slotAppointments.length} appointment${slotAppointments.length !== 1 ? 's' : ''} at ${format(slot.start, 'h:mm a')}`}>
-                        {slotAppointments.map((appointment) => (
-                          <div
-                            key={appointment.id}
-                            role="button"
-                            tabIndex={0}
-                            aria-label={`Appointment: ${appointment.patient.name}, ${APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label}, ${format(new Date(appointment.startTime), 'h:mm a')}`}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter' || e.key === ' ') {
-                                e.preventDefault();
-                                // Handle appointment selection
-                              }
-                            }}
+                      } ${isWorking ? '' : 'outside-hours'} ${dropState ? (dropState.valid ? 'drop-valid' : 'drop-invalid') : ''}`}
+                        role="gridcell"
+                        aria-label={`${formatClinicTime(day, 'EEEE')}, ${slotAppointments.length} appointment${slotAppointments.length !== 1 ? 's' : ''} at ${slot.label}${isWorking ? '' : ', outside working hours'}`}
+                        title={dropState?.message ?? undefined}
+                        {...(onAppointmentReschedule ? getDropTargetProps(slotStart) : {})}
+                      >
+                        {/* Book into an empty slot */}
+                        {isWorking && !slotAppointments.some(isActiveAppointment) && onSlotClick && (
+                          <button
+                            type="button"
+                            className="slot-book-button"
+                            onClick={() => onSlotClick(slotStart)}
+                            aria-label={`Book appointment on ${formatClinicTime(day, 'EEEE')} at ${slot.label}`}
                           >
-                            <CompactAppointmentCard 
-                              appointment={appointment}
-                            />
-                          </div>
-                        ))}
+                            <Plus style={{ width: '0.875rem', height: '0.875rem' }} />
+                            Book
+                          </button>
+                        )}
+                        {/* Appointments for the whole day column, anchored to its first cell */}
+                        {slotIndex === 0 && (
+                          <AppointmentLayer
+                            className="week-appointment-layer"
+                            appointments={layerAppointments.filter((appointment) =>
+                              isSameClinicDay(new Date(appointment.startTime), day)
+                            )}
+                            rangeStart={dayRanges[dayIndex].start}
+                            rangeEnd={dayRanges[dayIndex].end}
+                            pixelsPerMinute={slotHeight / calendarConfig.slotDuration}
+                            renderAppointment={(appointment) => (
+                              <div
+                                role="button"
+                                tabIndex={0}
+                                className={`appointment-draggable ${draggingId === appointment.id ? 'dragging' : ''}`}
+                                aria-label={`Appointment: ${appointment.patient.name}, ${APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label}, ${formatClinicTime(new Date(appointment.startTime), timeFormat.time)}, ${APPOINTMENT_STATUS_CONFIG[appointment.status].label}`}
+                                aria-describedby={onAppointmentReschedule ? 'week-view-reschedule-hint' : undefined}
+                                {...(onAppointmentReschedule ? getDragSourceProps(appointment) : {})}
+                                onClick={() => onAppointmentSelect?.(appointment)}
+                                onKeyDown={(e) => {
+                                  if (onAppointmentReschedule && handleRescheduleKeyDown(e, appointment)) return;
+                                  if (e.key === 'Enter' || e.key === ' ') {
+                                    e.preventDefault();
+                                    onAppointmentSelect?.(appointment);
+                                  }
+                                }}
+                              >
+                                <CompactAppointmentCard 
+                                  appointment={appointment}
+                                  resizeDuration={resizingId === appointment.id ? getDisplayDuration(appointment) : undefined}
+                                />
+                                {onAppointmentReschedule && (
+                                  <div className="resize-handle" {...getResizeHandleProps(appointment)} />
+                                )}
+                              </div>
+                            )}
+                          />
+                        )}
                         {/* Current time indicator for today */}
-                        {isToday && isCurrentHour && (
+                        {isCurrentSlot && (
                           <div className="absolute left-0 right-0 border-t-2 border-red-500 z-20" 
-                               style={{ top: `${(new Date().getMinutes() / 60) * 70}px` }}
+                               style={{ top: `${(differenceInMinutes(now, slotStart) / calendarConfig.slotDuration) * slotHeight}px` }}
                                aria-label="Current time indicator">
                             <div className="w-2 h-2 bg-red-500 rounded-full -mt-1 -ml-1 animate-pulse"></div>
                           </div>
@@ -271,7 +408,7 @@ export function WeekView({ appointments, doctor, weekStartDate }: WeekViewProps)
           </div>
           <h4 className="text-lg font-semibold text-gray-900 mb-2">No appointments this week</h4>
           <p className="text-gray-500 max-w-sm mx-auto">
-            There are no appointments scheduled for the week of {format(weekStartDate, 'MMMM d, yyyy')}.
+            There are no appointments scheduled for the week of {formatClinicTime(weekStartDate, 'MMMM d, yyyy')}.
           </p>
         </div>
       )}
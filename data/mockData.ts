@@ -13,8 +13,12 @@ import type {
   Doctor,
   Patient,
   Appointment,
+  AppointmentSeries,
   AppointmentType,
+  ScheduleException,
+  WaitlistEntry,
 } from '../types';
+import { endOfClinicDay, getZonedDateParts, startOfClinicDay, zonedDateTime } from '../services/clinicTime';
 
 /**
  * 3 Doctors with different specialties and schedules
@@ -121,18 +125,21 @@ export const MOCK_PATIENTS: Patient[] = [
 ];
 
 /**
- * Helper to get current week's date at specific time
+ * Helper to get current week's date at specific clinic time
  */
 function getWeekDate(dayOffset: number, hour: number, minute: number): string {
-  const now = new Date();
-  const monday = new Date(now);
-  monday.setDate(now.getDate() - now.getDay() + 1); // Get Monday of current week
+  const today = getZonedDateParts(new Date());
+  const monday = today.day - today.weekday + 1; // Get Monday of current week
 
-  const date = new Date(monday);
-  date.setDate(monday.getDate() + dayOffset);
-  date.setHours(hour, minute, 0, 0);
+  return zonedDateTime(today.year, today.month, monday + dayOffset, hour, minute).toISOString();
+}
 
-  return date.toISOString();
+/**
+ * Helper to get the clinic date ("YYYY-MM-DD") of a day relative to this week's Monday
+ */
+function getWeekDateKey(dayOffset: number): string {
+  const { year, month, day } = getZonedDateParts(new Date(getWeekDate(dayOffset, 12, 0)));
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 }
 
 /**
@@ -239,6 +246,47 @@ export const MOCK_APPOINTMENTS: Appointment[] = [
   { id: 'apt-55', patientId: 'pat-5', doctorId: 'doc-3', type: 'checkup', startTime: getWeekDate(5, 12, 0), endTime: getEndTime(getWeekDate(5, 12, 0), 30), status: 'scheduled' },
 ];
 
+/**
+ * Recurring series: weekly follow-ups, generated on the fly from their rule
+ */
+export const MOCK_SERIES: AppointmentSeries[] = [
+  // Dr. Sarah Chen - cardiac rehab follow-ups, Mondays and Thursdays for 6 weeks
+  {
+    id: 'ser-1',
+    patientId: 'pat-6',
+    doctorId: 'doc-1',
+    type: 'follow-up',
+    startTime: getWeekDate(0, 16, 0),
+    endTime: getEndTime(getWeekDate(0, 16, 0), 30),
+    notes: 'Cardiac rehab check-in',
+    rule: { frequency: 'weekly', interval: 1, byDay: ['monday', 'thursday'], count: 12 },
+    exceptionDates: [],
+  },
+];
+
+/**
+ * Dated exceptions to the doctors' weekly hours
+ */
+export const MOCK_SCHEDULE_EXCEPTIONS: ScheduleException[] = [
+  // Dr. Sarah Chen - lunch break for the next four weeks, and a Saturday clinic next week
+  { id: 'exc-1', doctorId: 'doc-1', kind: 'block', startDate: getWeekDateKey(0), endDate: getWeekDateKey(27), start: '12:00', end: '13:00', reason: 'Lunch break' },
+  { id: 'exc-2', doctorId: 'doc-1', kind: 'extra', startDate: getWeekDateKey(12), endDate: getWeekDateKey(12), start: '09:00', end: '12:00', reason: 'Saturday heart health clinic' },
+  // Dr. Michael Rodriguez - pediatrics conference, Wednesday to Friday next week
+  { id: 'exc-3', doctorId: 'doc-2', kind: 'absence', startDate: getWeekDateKey(9), endDate: getWeekDateKey(11), reason: 'Pediatrics conference' },
+];
+
+/**
+ * Patients waiting for an earlier or cancelled slot
+ */
+export const MOCK_WAITLIST: WaitlistEntry[] = [
+  // Waiting for Dr. Sarah Chen this week and next
+  { id: 'wl-1', patientId: 'pat-7', doctorId: 'doc-1', type: 'consultation', earliestDate: getWeekDateKey(0), latestDate: getWeekDateKey(13), priority: 'high', status: 'waiting', createdAt: getWeekDate(-7, 9, 0), notes: 'Chest pain follow-up, can come at short notice' },
+  // Any pediatrician within three weeks
+  { id: 'wl-2', patientId: 'pat-10', specialty: 'pediatrics', type: 'checkup', earliestDate: getWeekDateKey(0), latestDate: getWeekDateKey(20), priority: 'normal', status: 'waiting', createdAt: getWeekDate(-5, 14, 0) },
+  // Any doctor, next week
+  { id: 'wl-3', patientId: 'pat-12', type: 'follow-up', earliestDate: getWeekDateKey(7), latestDate: getWeekDateKey(11), priority: 'low', status: 'waiting', createdAt: getWeekDate(-2, 11, 30) },
+];
+
 /**
  * Helper function to get a doctor by ID
  */
@@ -267,11 +315,8 @@ export function getAppointmentsByDoctorAndDate(
   doctorId: string,
   date: Date
 ): Appointment[] {
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+  const startOfDay = startOfClinicDay(date);
+  const endOfDay = endOfClinicDay(date);
 
   return MOCK_APPOINTMENTS.filter((apt) => {
     if (apt.doctorId !== doctorId) return false;
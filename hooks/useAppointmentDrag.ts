@@ -0,0 +1,296 @@
+/**
+ * useAppointmentDrag Hook
+ *
+ * Headless drag-and-drop, edge-resize and keyboard rescheduling for the
+ * calendar grids. Views spread the returned prop getters onto their cards
+ * and slots; the hook validates candidate positions through the service
+ * (for live drop feedback) and reports the final time range via onReschedule.
+ * Drop targets may belong to a specific doctor (resource view columns), in
+ * which case dropping there also reassigns the appointment.
+ */
+
+import { useRef, useState } from 'react';
+import { addMinutes } from 'date-fns';
+import type { Appointment } from '@/types';
+import { appointmentService } from '@/services/appointmentService';
+import { addClinicDays } from '@/services/clinicTime';
+
+/**
+ * Hook parameters
+ */
+interface UseAppointmentDragParams {
+  slotDuration: number; // Moves and resizes snap to this many minutes
+  slotHeight: number;   // Rendered height of one slot in pixels
+  // Doctor columns, left to right; Alt+Left/Right then moves between doctors instead of days
+  columnDoctorIds?: string[];
+  onReschedule: (appointment: Appointment, start: Date, end: Date, doctorId?: string) => void | Promise<void>;
+}
+
+/**
+ * Slot currently hovered by a dragged appointment
+ */
+interface DropTarget {
+  key: string;
+  valid: boolean;
+  message: string | null;
+}
+
+/**
+ * Live resize state, used to preview the new duration on the card
+ */
+interface ResizePreview {
+  id: string;
+  duration: number;
+}
+
+/**
+ * Screen-reader instructions for the keyboard alternative
+ */
+export const KEYBOARD_RESCHEDULE_HINT =
+  'Press Alt and the arrow keys to move this appointment by one slot or one day. ' +
+  'Add Shift with up or down to shorten or extend it.';
+
+/**
+ * Calculate appointment duration in minutes
+ */
+function getDuration(appointment: Appointment): number {
+  const start = new Date(appointment.startTime);
+  const end = new Date(appointment.endTime);
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60));
+}
+
+/**
+ * Identify a drop target by its start time and, for doctor columns, its doctor
+ */
+function getTargetKey(start: Date, doctorId?: string): string {
+  return doctorId ? `${doctorId}@${start.toISOString()}` : start.toISOString();
+}
+
+/**
+ * Validate a candidate time range (and doctor) without changing anything
+ * @returns The rejection message, or null if the move is allowed
+ */
+async function getMoveError(
+  appointment: Appointment,
+  start: Date,
+  end: Date,
+  doctorId = appointment.doctorId
+): Promise<string | null> {
+  try {
+    await appointmentService.validateAppointment({
+      ...appointment,
+      doctorId,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+    });
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'This time is not available';
+  }
+}
+
+/**
+ * useAppointmentDrag Hook
+ */
+export function useAppointmentDrag({
+  slotDuration,
+  slotHeight,
+  columnDoctorIds,
+  onReschedule,
+}: UseAppointmentDragParams) {
+  const [dragging, setDragging] = useState<Appointment | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [resizePreview, setResizePreview] = useState<ResizePreview | null>(null);
+  // Slot the latest validation was started for, to drop stale results
+  const pendingTargetKey = useRef<string | null>(null);
+  // Set while the click that ends a resize is still on its way to the card
+  const resizeJustEnded = useRef(false);
+
+  const endDrag = () => {
+    pendingTargetKey.current = null;
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  /**
+   * Props for the draggable wrapper around an appointment card
+   */
+  function getDragSourceProps(appointment: Appointment) {
+    return {
+      draggable: true,
+      'data-appointment-id': appointment.id,
+      onDragStart: (e: React.DragEvent<HTMLElement>) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', appointment.id);
+        setDragging(appointment);
+      },
+      onDragEnd: endDrag,
+      // Releasing a resize handle over the card mustn't count as clicking it
+      onClickCapture: (e: React.MouseEvent<HTMLElement>) => {
+        if (resizeJustEnded.current) e.stopPropagation();
+      },
+    };
+  }
+
+  /**
+   * Props for a slot that accepts dropped appointments starting at `start`
+   * @param doctorId - Doctor owning the slot, for columns of a multi-doctor view
+   */
+  function getDropTargetProps(start: Date, doctorId?: string) {
+    const key = getTargetKey(start, doctorId);
+
+    return {
+      onDragOver: (e: React.DragEvent<HTMLElement>) => {
+        if (!dragging) return;
+        e.preventDefault();
+
+        if (pendingTargetKey.current !== key) {
+          pendingTargetKey.current = key;
+          const end = addMinutes(start, getDuration(dragging));
+          getMoveError(dragging, start, end, doctorId).then((message) => {
+            if (pendingTargetKey.current !== key) return;
+            setDropTarget({ key, valid: message === null, message });
+          });
+        }
+        e.dataTransfer.dropEffect = dropTarget?.key === key && !dropTarget.valid ? 'none' : 'move';
+      },
+      onDragLeave: (e: React.DragEvent<HTMLElement>) => {
+        // Ignore leave events caused by moving over child elements
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        if (pendingTargetKey.current === key) pendingTargetKey.current = null;
+        setDropTarget((current) => (current?.key === key ? null : current));
+      },
+      onDrop: (e: React.DragEvent<HTMLElement>) => {
+        e.preventDefault();
+        const appointment = dragging;
+        endDrag();
+
+        if (!appointment) return;
+
+        const newDoctorId = doctorId && doctorId !== appointment.doctorId ? doctorId : undefined;
+        if (!newDoctorId && new Date(appointment.startTime).getTime() === start.getTime()) return;
+        onReschedule(appointment, start, addMinutes(start, getDuration(appointment)), newDoctorId);
+      },
+    };
+  }
+
+  /**
+   * Drop feedback for the slot starting at `start`, if it is being hovered
+   */
+  function getDropTargetState(start: Date, doctorId?: string): DropTarget | null {
+    return dropTarget?.key === getTargetKey(start, doctorId) ? dropTarget : null;
+  }
+
+  /**
+   * Props for the bottom-edge handle that changes an appointment's duration
+   */
+  function getResizeHandleProps(appointment: Appointment) {
+    return {
+      'aria-hidden': true,
+      onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        const startY = e.clientY;
+        const originalDuration = getDuration(appointment);
+        let duration = originalDuration;
+
+        const handlePointerMove = (event: PointerEvent) => {
+          const deltaMinutes = ((event.clientY - startY) / slotHeight) * slotDuration;
+          duration = Math.max(
+            slotDuration,
+            Math.round((originalDuration + deltaMinutes) / slotDuration) * slotDuration
+          );
+          setResizePreview({ id: appointment.id, duration });
+        };
+
+        const handlePointerUp = async () => {
+          window.removeEventListener('pointermove', handlePointerMove);
+          window.removeEventListener('pointerup', handlePointerUp);
+          setResizePreview(null);
+
+          resizeJustEnded.current = true;
+          setTimeout(() => {
+            resizeJustEnded.current = false;
+          });
+
+          if (duration !== originalDuration) {
+            const start = new Date(appointment.startTime);
+            await onReschedule(appointment, start, addMinutes(start, duration));
+          }
+        };
+
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+      },
+    };
+  }
+
+  /**
+   * Duration to display for an appointment, including any resize in progress
+   */
+  function getDisplayDuration(appointment: Appointment): number {
+    return resizePreview?.id === appointment.id ? resizePreview.duration : getDuration(appointment);
+  }
+
+  /**
+   * Keyboard alternative to dragging:
+   * Alt+Up/Down moves by one slot, Alt+Left/Right by one day (or to the
+   * neighbouring doctor column when `columnDoctorIds` is set),
+   * Alt+Shift+Up/Down shortens or extends by one slot.
+   * @returns true if the key was handled
+   */
+  function handleRescheduleKeyDown(e: React.KeyboardEvent<HTMLElement>, appointment: Appointment): boolean {
+    if (!e.altKey) return false;
+
+    let start = new Date(appointment.startTime);
+    let duration = getDuration(appointment);
+    let doctorId: string | undefined;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        if (e.shiftKey) duration = Math.max(slotDuration, duration - slotDuration);
+        else start = addMinutes(start, -slotDuration);
+        break;
+      case 'ArrowDown':
+        if (e.shiftKey) duration += slotDuration;
+        else start = addMinutes(start, slotDuration);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const step = e.key === 'ArrowLeft' ? -1 : 1;
+        if (columnDoctorIds) {
+          const column = columnDoctorIds.indexOf(appointment.doctorId);
+          doctorId = column === -1 ? undefined : columnDoctorIds[column + step];
+          if (!doctorId) return false;
+        } else {
+          start = addClinicDays(start, step);
+        }
+        break;
+      }
+      default:
+        return false;
+    }
+
+    e.preventDefault();
+
+    // The card re-renders in its new slot; keep keyboard focus on it
+    Promise.resolve(onReschedule(appointment, start, addMinutes(start, duration), doctorId)).then(() => {
+      requestAnimationFrame(() => {
+        document.querySelector<HTMLElement>(`[data-appointment-id="${appointment.id}"]`)?.focus();
+      });
+    });
+    return true;
+  }
+
+  return {
+    draggingId: dragging?.id ?? null,
+    resizingId: resizePreview?.id ?? null,
+    getDragSourceProps,
+    getDropTargetProps,
+    getDropTargetState,
+    getResizeHandleProps,
+    getDisplayDuration,
+    handleRescheduleKeyDown,
+  };
+}
@@ -12,9 +12,35 @@
  * 4. Think about how to make this reusable for both day and week views
  */
 
-import { useState, useEffect, useMemo } from 'react';
-import type { Appointment, Doctor } from '@/types';
-import { appointmentService } from '@/services/appointmentService';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  Appointment,
+  AppointmentSeries,
+  AppointmentStatus,
+  Doctor,
+  OutboxMessage,
+  Patient,
+  PopulatedAppointment,
+  ScheduleException,
+  SeriesEditScope,
+  Specialty,
+  WaitlistEntry,
+} from '@/types';
+import {
+  appointmentService,
+  type CreateAppointmentInput,
+  type CreateSeriesInput,
+  type CreateWaitlistEntryInput,
+  type FreedSlotOffers,
+  type PatientHistory,
+  type PatientPage,
+  type PatientSearchOptions,
+  type SeriesChangeResult,
+} from '@/services/appointmentService';
+import { EMPTY_FILTER_SELECTION, toAppointmentFilters, type AppointmentFilterSelection } from '@/services/appointmentFilters';
+import { MIN_SEARCH_QUERY_LENGTH, type AppointmentSearchHit } from '@/services/appointmentSearch';
+import type { ClinicAnalytics } from '@/services/analytics';
+import { addClinicDays, endOfClinicDay } from '@/services/clinicTime';
 
 /**
  * Hook parameters
@@ -25,91 +51,186 @@ interface UseAppointmentsParams {
   // For week view, you might want to pass a date range instead
   startDate?: Date;
   endDate?: Date;
+  hideCancelled?: boolean;
+  filters?: AppointmentFilterSelection; // Keep stable between renders (it's an effect dependency)
 }
 
 /**
  * Hook return value
  */
 interface UseAppointmentsReturn {
-  appointments: Appointment[];
+  appointments: PopulatedAppointment[];
   doctor: Doctor | undefined;
   loading: boolean;
   error: Error | null;
-  // Add any other useful data or functions
+  createAppointment: (input: CreateAppointmentInput) => Promise<Appointment>;
+  rescheduleAppointment: (id: string, startTime: string, endTime: string, doctorId?: string) => Promise<Appointment>;
+  updateAppointmentStatus: (id: string, status: AppointmentStatus) => Promise<Appointment>;
+  createSeries: (input: CreateSeriesInput) => Promise<SeriesChangeResult>;
+  rescheduleSeriesOccurrences: (
+    id: string,
+    startTime: string,
+    endTime: string,
+    scope: Exclude<SeriesEditScope, 'this'>,
+    doctorId?: string
+  ) => Promise<SeriesChangeResult>;
+}
+
+/**
+ * Re-render whenever the service reports a data change
+ * @returns A counter to include in effect dependencies
+ */
+export function useServiceVersion(): number {
+  const [dataVersion, setDataVersion] = useState(0);
+
+  useEffect(() => {
+    return appointmentService.subscribe(() => setDataVersion((version) => version + 1));
+  }, []);
+
+  return dataVersion;
 }
 
 /**
  * useAppointments Hook
  *
  * Fetches and manages appointment data for a given doctor and date/date range.
- *
- * TODO: Implement this hook
- *
- * Tips:
- * - Use useState for loading and error states
- * - Use useEffect to fetch data when params change
- * - Use useMemo to memoize expensive computations
- * - Consider how to handle both single date (day view) and date range (week view)
+ * Appointments are returned sorted and populated with patient and doctor data.
  */
 export function useAppointments(params: UseAppointmentsParams): UseAppointmentsReturn {
-  const { doctorId, date, startDate, endDate } = params;
+  const { doctorId, date, startDate, endDate, hideCancelled = false, filters = EMPTY_FILTER_SELECTION } = params;
 
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [appointments, setAppointments] = useState<PopulatedAppointment[]>([]);
+  const [doctor, setDoctor] = useState<Doctor | undefined>(undefined);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
 
   // Fetch doctor data
-  const doctor = useMemo(() => {
-    try {
-      return appointmentService.getDoctorById(doctorId);
-    } catch {
-      return undefined;
-    }
+  useEffect(() => {
+    let cancelled = false;
+
+    appointmentService
+      .getDoctorById(doctorId)
+      .then((fetchedDoctor) => {
+        if (!cancelled) setDoctor(fetchedDoctor);
+      })
+      .catch(() => {
+        if (!cancelled) setDoctor(undefined);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [doctorId]);
 
   // Fetch appointments when dependencies change
   useEffect(() => {
+    // Ignore responses that arrive after the parameters changed
+    let cancelled = false;
+
+    // Refetches after a data change keep showing the current grid instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
     const fetchAppointments = async () => {
       try {
-        setLoading(true);
+        if (!isRefresh) setLoading(true);
         setError(null);
 
-        let fetchedAppointments: Appointment[];
+        // Use the date range if provided (week and month views), otherwise the single date
+        let fetchedAppointments: Appointment[] = await appointmentService.getAppointments({
+          doctorId,
+          ...(startDate && endDate ? { startDate, endDate } : { date }),
+          ...toAppointmentFilters(filters),
+        });
 
-        // If date range is provided, use it (for week view)
-        if (startDate && endDate) {
-          fetchedAppointments = appointmentService.getAppointmentsByDoctorAndDateRange(
-            doctorId,
-            startDate,
-            endDate
-          );
-        } else {
-          // Otherwise use single date (for day view)
-          fetchedAppointments = appointmentService.getAppointmentsByDoctorAndDate(
-            doctorId,
-            date
+        if (hideCancelled) {
+          fetchedAppointments = fetchedAppointments.filter(
+            (appointment) => appointment.status !== 'cancelled'
           );
         }
 
         // Sort appointments by time
         const sortedAppointments = appointmentService.sortAppointmentsByTime(fetchedAppointments);
-        setAppointments(sortedAppointments);
+        const populatedAppointments = await appointmentService.getPopulatedAppointments(sortedAppointments);
+        if (!cancelled) setAppointments(populatedAppointments);
       } catch (err) {
+        if (cancelled) return;
         setError(err instanceof Error ? err : new Error('Failed to fetch appointments'));
         setAppointments([]);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchAppointments();
-  }, [doctorId, date, startDate, endDate]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [doctorId, date, startDate, endDate, hideCancelled, filters, dataVersion]);
+
+  /**
+   * Book a new appointment. Validation errors are thrown to the caller
+   * so forms can display them; subscribers refetch automatically.
+   */
+  const createAppointment = useCallback((input: CreateAppointmentInput) => {
+    return appointmentService.createAppointment(input);
+  }, []);
+
+  /**
+   * Move an appointment to a new time range, and optionally to another doctor.
+   * Throws if the move is refused.
+   */
+  const rescheduleAppointment = useCallback(
+    (id: string, startTime: string, endTime: string, doctorId?: string) => {
+      return appointmentService.rescheduleAppointment(id, startTime, endTime, doctorId);
+    },
+    []
+  );
+
+  /**
+   * Move an appointment through its status lifecycle. Throws on illegal transitions.
+   */
+  const updateAppointmentStatus = useCallback((id: string, status: AppointmentStatus) => {
+    return appointmentService.updateAppointmentStatus(id, status);
+  }, []);
+
+  /**
+   * Book a recurring series. Conflicting occurrences are skipped and
+   * returned in the result; throws if the series is invalid.
+   */
+  const createSeries = useCallback((input: CreateSeriesInput) => {
+    return appointmentService.createSeries(input);
+  }, []);
+
+  /**
+   * Move an occurrence together with the following ones or the whole series
+   * to a new time of day (and optionally another doctor). Throws if the
+   * change is refused.
+   */
+  const rescheduleSeriesOccurrences = useCallback(
+    (id: string, startTime: string, endTime: string, scope: Exclude<SeriesEditScope, 'this'>, doctorId?: string) => {
+      return appointmentService.updateSeriesOccurrences(
+        id,
+        doctorId ? { startTime, endTime, doctorId } : { startTime, endTime },
+        scope
+      );
+    },
+    []
+  );
 
   return {
     appointments,
     doctor,
     loading,
     error,
+    createAppointment,
+    rescheduleAppointment,
+    updateAppointmentStatus,
+    createSeries,
+    rescheduleSeriesOccurrences,
   };
 }
 
@@ -124,9 +245,7 @@ export function useDayViewAppointments(doctorId: string, date: Date) {
  * Hook specifically for week view appointments
  */
 export function useWeekViewAppointments(doctorId: string, weekStartDate: Date) {
-  const weekEndDate = new Date(weekStartDate);
-  weekEndDate.setDate(weekStartDate.getDate() + 6);
-  weekEndDate.setHours(23, 59, 59, 999);
+  const weekEndDate = endOfClinicDay(addClinicDays(weekStartDate, 6));
 
   return useAppointments({
     doctorId,
@@ -137,26 +256,662 @@ export function useWeekViewAppointments(doctorId: string, weekStartDate: Date) {
 }
 
 /**
- * Hook to get all doctors
+ * Resource schedule hook parameters
+ */
+interface UseResourceScheduleParams {
+  date: Date;
+  specialty?: Specialty; // Only doctors of this specialty
+  hideCancelled?: boolean;
+  filters?: AppointmentFilterSelection; // Keep stable between renders (it's an effect dependency)
+}
+
+/**
+ * Hook for the multi-doctor resource day view
+ *
+ * Fetches every doctor (optionally of one specialty) together with their
+ * appointments on the given date, grouped by doctor id, and the schedule
+ * exceptions that apply that day.
+ */
+export function useResourceSchedule(params: UseResourceScheduleParams) {
+  const { date, specialty, hideCancelled = false, filters = EMPTY_FILTER_SELECTION } = params;
+
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
+  const [appointmentsByDoctor, setAppointmentsByDoctor] = useState<Record<string, PopulatedAppointment[]>>({});
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Refetches after a data change keep showing the current grid instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchSchedule = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+
+        const [allDoctors, dayAppointments, dayExceptions] = await Promise.all([
+          appointmentService.getAllDoctors(),
+          appointmentService.getAppointments({ date, ...toAppointmentFilters(filters) }),
+          appointmentService.getScheduleExceptions(undefined, date, date),
+        ]);
+
+        const visibleDoctors = specialty
+          ? allDoctors.filter((doctor) => doctor.specialty === specialty)
+          : allDoctors;
+
+        const visibleAppointments = hideCancelled
+          ? dayAppointments.filter((appointment) => appointment.status !== 'cancelled')
+          : dayAppointments;
+
+        const populatedAppointments = await appointmentService.getPopulatedAppointments(
+          appointmentService.sortAppointmentsByTime(visibleAppointments)
+        );
+
+        const grouped: Record<string, PopulatedAppointment[]> = {};
+        visibleDoctors.forEach((doctor) => {
+          grouped[doctor.id] = populatedAppointments.filter((appointment) => appointment.doctorId === doctor.id);
+        });
+
+        if (!cancelled) {
+          setDoctors(visibleDoctors);
+          setAppointmentsByDoctor(grouped);
+          setExceptions(dayExceptions);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch schedule'));
+        setDoctors([]);
+        setAppointmentsByDoctor({});
+        setExceptions([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [date, specialty, hideCancelled, filters, dataVersion]);
+
+  return { doctors, appointmentsByDoctor, exceptions, loading, error };
+}
+
+/**
+ * Hook to get a single appointment, populated with patient and doctor data
+ *
+ * `appointment` is undefined while loading and when no appointment has the ID.
+ * Pass null to skip fetching.
+ */
+export function useAppointment(id: string | null) {
+  const [appointment, setAppointment] = useState<PopulatedAppointment | undefined>(undefined);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    if (!id) {
+      setAppointment(undefined);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    // Refetches after a data change keep showing the current details instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchAppointment = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const fetchedAppointment = await appointmentService.getAppointmentById(id);
+        const populated = fetchedAppointment
+          ? await appointmentService.getPopulatedAppointment(fetchedAppointment)
+          : null;
+        if (!cancelled) setAppointment(populated ?? undefined);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch appointment'));
+        setAppointment(undefined);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchAppointment();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, dataVersion]);
+
+  return { appointment, loading, error };
+}
+
+/**
+ * Hook to get a recurring series by ID
+ *
+ * Pass undefined to skip fetching (e.g. for appointments outside a series).
+ */
+export function useAppointmentSeries(id: string | undefined) {
+  const [series, setSeries] = useState<AppointmentSeries | undefined>(undefined);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    if (!id) {
+      setSeries(undefined);
+      return;
+    }
+
+    let cancelled = false;
+
+    appointmentService
+      .getSeriesById(id)
+      .then((fetchedSeries) => {
+        if (!cancelled) setSeries(fetchedSeries);
+      })
+      .catch(() => {
+        if (!cancelled) setSeries(undefined);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, dataVersion]);
+
+  return series;
+}
+
+/**
+ * Hook to get a doctor's schedule exceptions overlapping a date range
+ *
+ * Pass an empty doctor ID to skip fetching. Keep `startDate` and `endDate`
+ * stable between renders (e.g. memoized), since they're effect dependencies.
+ */
+export function useScheduleExceptions(doctorId: string, startDate: Date, endDate: Date) {
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    if (!doctorId) {
+      setExceptions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    appointmentService
+      .getScheduleExceptions(doctorId, startDate, endDate)
+      .then((fetchedExceptions) => {
+        if (cancelled) return;
+        setExceptions(fetchedExceptions);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch schedule exceptions'));
+        setExceptions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [doctorId, startDate, endDate, dataVersion]);
+
+  return { exceptions, error };
+}
+
+/**
+ * Hook to get all doctors the session can access
  */
 export function useDoctors() {
   const [doctors, setDoctors] = useState<Doctor[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Refetches after a data change keep the current list instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchDoctors = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const allDoctors = await appointmentService.getAllDoctors();
+        if (!cancelled) setDoctors(allDoctors);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch doctors'));
+        setDoctors([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchDoctors();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion]);
+
+  return { doctors, loading, error };
+}
+
+/**
+ * Hook to get all patients (refetched when the session changes,
+ * since contact details are masked by role)
+ */
+export function usePatients() {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Refetches after a data change keep the current list instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchPatients = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const allPatients = await appointmentService.getAllPatients();
+        if (!cancelled) setPatients(allPatients);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch patients'));
+        setPatients([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchPatients();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion]);
+
+  return { patients, loading, error };
+}
+
+/**
+ * Hook to get one page of patient directory results
+ *
+ * `result` keeps the previous page while the next one loads, so the
+ * list doesn't flash empty between searches.
+ */
+export function usePatientDirectory({ query = '', page = 1, pageSize }: PatientSearchOptions) {
+  const [result, setResult] = useState<PatientPage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const fetchedPage = await appointmentService.searchPatients({ query, page, pageSize });
+        if (!cancelled) setResult(fetchedPage);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to search patients'));
+        setResult(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, page, pageSize, dataVersion]);
+
+  return { result, loading, error };
+}
+
+/**
+ * Hook to get a patient with their upcoming and past appointments
+ *
+ * `patient` is undefined while loading and when no patient has the ID.
+ */
+export function usePatientHistory(patientId: string) {
+  const [patient, setPatient] = useState<Patient | undefined>(undefined);
+  const [history, setHistory] = useState<PatientHistory>({ upcoming: [], past: [] });
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Refetches after a data change keep showing the current history instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchHistory = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const [fetchedPatient, fetchedHistory] = await Promise.all([
+          appointmentService.getPatientById(patientId),
+          appointmentService.getPatientHistory(patientId),
+        ]);
+        if (cancelled) return;
+        setPatient(fetchedPatient);
+        setHistory(fetchedHistory);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch patient history'));
+        setPatient(undefined);
+        setHistory({ upcoming: [], past: [] });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId, dataVersion]);
+
+  return { patient, ...history, loading, error };
+}
+
+/**
+ * Hook to search appointments across all doctors and dates
+ *
+ * Queries shorter than MIN_SEARCH_QUERY_LENGTH return no hits without
+ * searching. Refetches after a data change keep the current hits.
+ */
+export function useAppointmentSearch(query: string) {
+  const [hits, setHits] = useState<AppointmentSearchHit[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
 
   useEffect(() => {
-    try {
-      setLoading(true);
+    let cancelled = false;
+
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    if (query.trim().length < MIN_SEARCH_QUERY_LENGTH) {
+      setHits([]);
+      setLoading(false);
       setError(null);
-      const allDoctors = appointmentService.getAllDoctors();
-      setDoctors(allDoctors);
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to fetch doctors'));
-      setDoctors([]);
-    } finally {
+      return;
+    }
+
+    const fetchHits = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const fetchedHits = await appointmentService.searchAppointments({ query });
+        if (!cancelled) setHits(fetchedHits);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to search appointments'));
+        setHits([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHits();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, dataVersion]);
+
+  return { hits, loading, error };
+}
+
+/**
+ * Hook to get the waitlist, with actions to add and remove entries
+ */
+export function useWaitlist() {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Refetches after a data change keep the current list instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchWaitlist = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const fetchedEntries = await appointmentService.getWaitlist();
+        if (!cancelled) setEntries(fetchedEntries);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch waitlist'));
+        setEntries([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchWaitlist();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion]);
+
+  const addEntry = useCallback(
+    (input: CreateWaitlistEntryInput) => appointmentService.addWaitlistEntry(input),
+    []
+  );
+  const removeEntry = useCallback((id: string) => appointmentService.removeWaitlistEntry(id), []);
+
+  return { entries, loading, error, addEntry, removeEntry };
+}
+
+/**
+ * Hook to get the freed slots with waitlist candidates, with actions to
+ * book a candidate or stop offering a slot
+ */
+export function useWaitlistOffers() {
+  const [slots, setSlots] = useState<FreedSlotOffers[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    appointmentService
+      .getWaitlistOffers()
+      .then((fetchedSlots) => {
+        if (cancelled) return;
+        setSlots(fetchedSlots);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch waitlist offers'));
+        setSlots([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataVersion]);
+
+  const acceptOffer = useCallback(
+    (entryId: string, doctorId: string, startTime: string) =>
+      appointmentService.acceptWaitlistOffer(entryId, doctorId, startTime),
+    []
+  );
+  const dismissSlot = useCallback((slotId: string) => appointmentService.dismissFreedSlot(slotId), []);
+
+  return { slots, error, acceptOffer, dismissSlot };
+}
+
+/**
+ * Hook to count waiting entries per clinic day of a range, for grid badges
+ *
+ * An empty `doctorId` counts demand for any doctor. Keep `startDate` and
+ * `endDate` stable between renders, since they're effect dependencies.
+ */
+export function useWaitlistDemand(doctorId: string, startDate: Date, endDate: Date) {
+  const [demand, setDemand] = useState<Record<string, number>>({});
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    appointmentService
+      .getWaitlistDemand(doctorId || undefined, startDate, endDate)
+      .then((fetchedDemand) => {
+        if (!cancelled) setDemand(fetchedDemand);
+      })
+      .catch(() => {
+        // Badges are a hint; leave them off if demand can't be loaded
+        if (!cancelled) setDemand({});
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [doctorId, startDate, endDate, dataVersion]);
+
+  return demand;
+}
+
+/**
+ * Hook to get an appointment's outbox messages (its delivery log), in send order
+ */
+export function useAppointmentNotifications(appointmentId: string | undefined) {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    if (!appointmentId) {
+      setMessages([]);
       setLoading(false);
+      return;
     }
-  }, []);
 
-  return { doctors, loading, error };
+    let cancelled = false;
+
+    // Refetches after a data change keep the current log instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchMessages = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const fetchedMessages = await appointmentService.getNotifications({ appointmentId });
+        if (!cancelled) setMessages(fetchedMessages);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to fetch messages'));
+        setMessages([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchMessages();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, dataVersion]);
+
+  return { messages, loading, error };
+}
+
+/**
+ * Hook to get the analytics dashboard figures for a range of clinic days
+ *
+ * Keep `startDate` and `endDate` stable between renders (e.g. memoized),
+ * since they're effect dependencies. An empty `specialty` covers every
+ * doctor the session can access.
+ */
+export function useClinicAnalytics(startDate: Date, endDate: Date, specialty: Specialty | '') {
+  const [analytics, setAnalytics] = useState<ClinicAnalytics | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+  const lastDataVersion = useRef(dataVersion);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Refetches after a data change keep the current figures instead of a spinner
+    const isRefresh = lastDataVersion.current !== dataVersion;
+    lastDataVersion.current = dataVersion;
+
+    const fetchAnalytics = async () => {
+      try {
+        if (!isRefresh) setLoading(true);
+        setError(null);
+        const fetchedAnalytics = await appointmentService.getAnalytics({
+          startDate,
+          endDate,
+          specialty: specialty || undefined,
+        });
+        if (!cancelled) setAnalytics(fetchedAnalytics);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to compute analytics'));
+        setAnalytics(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, specialty, dataVersion]);
+
+  return { analytics, loading, error };
 }
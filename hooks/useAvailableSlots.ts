@@ -0,0 +1,54 @@
+/**
+ * useAvailableSlots Hook
+ *
+ * Runs a free-slot search through the availability service and keeps the
+ * results current as appointments are booked or moved.
+ */
+
+import { useEffect, useState } from 'react';
+import { availabilityService, type AvailabilityQuery, type AvailableSlot } from '@/services/availabilityService';
+import { useServiceVersion } from './useAppointments';
+
+/**
+ * useAvailableSlots Hook
+ *
+ * Pass null to skip searching (e.g. before the user has submitted the form).
+ */
+export function useAvailableSlots(query: AvailabilityQuery | null) {
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    if (!query) {
+      setSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSlots = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const results = await availabilityService.findAvailableSlots(query);
+        if (!cancelled) setSlots(results);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to search availability'));
+        setSlots([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSlots();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, dataVersion]);
+
+  return { slots, loading, error };
+}
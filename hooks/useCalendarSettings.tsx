@@ -0,0 +1,72 @@
+/**
+ * useCalendarSettings Hook
+ *
+ * Calendar display settings of the signed-in user, shared through context
+ * so every grid (day, week, month and all-doctors views) reads the same
+ * values. CalendarSettingsProvider loads and persists them per user.
+ */
+
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { CalendarSettings, Session } from '@/types';
+import { DEFAULT_CALENDAR_SETTINGS } from '@/types';
+import { loadCalendarSettings, saveCalendarSettings } from '@/services/calendarSettings';
+
+/**
+ * Hook return value
+ */
+interface UseCalendarSettingsReturn {
+  settings: CalendarSettings;
+  updateSettings: (settings: CalendarSettings) => void;
+  resetSettings: () => void;
+}
+
+const CalendarSettingsContext = createContext<UseCalendarSettingsReturn>({
+  settings: DEFAULT_CALENDAR_SETTINGS,
+  updateSettings: () => {},
+  resetSettings: () => {},
+});
+
+interface CalendarSettingsProviderProps {
+  session: Session;
+  children: ReactNode;
+}
+
+/**
+ * Provides the settings of the given user to everything below it
+ */
+export function CalendarSettingsProvider({ session, children }: CalendarSettingsProviderProps) {
+  const [settings, setSettings] = useState<CalendarSettings>(DEFAULT_CALENDAR_SETTINGS);
+
+  // Load after mount so the server render and hydration agree
+  useEffect(() => {
+    setSettings(loadCalendarSettings(session));
+  }, [session]);
+
+  const updateSettings = useCallback((next: CalendarSettings) => {
+    saveCalendarSettings(session, next);
+    setSettings(next);
+  }, [session]);
+
+  const resetSettings = useCallback(() => {
+    saveCalendarSettings(session, null);
+    setSettings(DEFAULT_CALENDAR_SETTINGS);
+  }, [session]);
+
+  const value = useMemo(
+    () => ({ settings, updateSettings, resetSettings }),
+    [settings, updateSettings, resetSettings]
+  );
+
+  return <CalendarSettingsContext.Provider value={value}>{children}</CalendarSettingsContext.Provider>;
+}
+
+/**
+ * useCalendarSettings Hook
+ *
+ * Outside a provider, returns the defaults (and updates are ignored).
+ */
+export function useCalendarSettings(): UseCalendarSettingsReturn {
+  return useContext(CalendarSettingsContext);
+}
@@ -0,0 +1,59 @@
+/**
+ * useScheduleExceptionPreview Hook
+ *
+ * Lists the appointments that would clash with a schedule exception
+ * while it's being filled in, populated for display.
+ */
+
+import { useEffect, useState } from 'react';
+import type { PopulatedAppointment } from '@/types';
+import { appointmentService, type CreateScheduleExceptionInput } from '@/services/appointmentService';
+import { useServiceVersion } from './useAppointments';
+
+const PREVIEW_DELAY_MS = 300; // Wait for typing to settle before checking
+
+/**
+ * useScheduleExceptionPreview Hook
+ *
+ * Pass null to skip checking (e.g. while the form is incomplete).
+ * `error` holds the reason an invalid exception would be refused.
+ */
+export function useScheduleExceptionPreview(input: CreateScheduleExceptionInput | null) {
+  const [clashes, setClashes] = useState<PopulatedAppointment[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    if (!input) {
+      setClashes(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await appointmentService.previewScheduleException(input);
+        const populated = await appointmentService.getPopulatedAppointments(result);
+        if (!cancelled) setClashes(populated);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to check the schedule'));
+        setClashes(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [input, dataVersion]);
+
+  return { clashes, loading, error };
+}
@@ -0,0 +1,170 @@
+/**
+ * useScheduleUrlState Hook
+ *
+ * Keeps the schedule page state (doctor, date, view, search, filters) in
+ * the URL search params instead of component state, so refreshing keeps
+ * the view, links can be shared and back/forward step through changes.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { CalendarView } from '@/types';
+import type { AppointmentFilterSelection } from '@/services/appointmentFilters';
+import {
+  DEFAULT_SCHEDULE_STATE,
+  buildScheduleParams,
+  parseScheduleParams,
+  type ScheduleUrlState,
+} from '@/services/scheduleUrl';
+
+/**
+ * Milliseconds of typing pause before the search query is written to the URL
+ */
+const QUERY_WRITE_DELAY = 300;
+
+/**
+ * Hook return value
+ */
+interface UseScheduleUrlStateReturn {
+  doctorId: string;
+  date: Date;
+  view: CalendarView;
+  query: string;
+  showCancelled: boolean;
+  filters: AppointmentFilterSelection;
+  bookForPatientId: string;
+  setDoctorId: (doctorId: string) => void;
+  setDate: (date: Date) => void;
+  setView: (view: CalendarView) => void;
+  setQuery: (query: string) => void;
+  setShowCancelled: (showCancelled: boolean) => void;
+  setFilters: (filters: AppointmentFilterSelection) => void;
+  setBookForPatientId: (patientId: string) => void;
+}
+
+/**
+ * useScheduleUrlState Hook
+ *
+ * Setters called in the same tick (e.g. doctor, date and view when jumping
+ * to a slot) are merged into a single history entry. The search query is
+ * kept locally while typing and written (replacing the current entry) once
+ * the user pauses, rather than once per keystroke.
+ *
+ * @param defaults - State for params the URL doesn't set
+ */
+export function useScheduleUrlState(
+  defaults: Partial<ScheduleUrlState> = {}
+): UseScheduleUrlStateReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const search = searchParams.toString();
+
+  // "Today" when the URL has no date; fixed for the lifetime of the page
+  const [today] = useState(() => new Date());
+
+  const { doctorId: defaultDoctorId = '', date: defaultDate = null, view: defaultView = 'day' } = defaults;
+  const state = useMemo(
+    () =>
+      parseScheduleParams(new URLSearchParams(search), {
+        ...DEFAULT_SCHEDULE_STATE,
+        doctorId: defaultDoctorId,
+        date: defaultDate,
+        view: defaultView,
+      }),
+    // Compare the default date by value so a new Date object doesn't refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [search, defaultDoctorId, defaultDate?.getTime(), defaultView]
+  );
+
+  // Changes waiting to be written, and whether they may replace the current entry
+  const pending = useRef<{ changes: Partial<ScheduleUrlState>; replace: boolean } | null>(null);
+  const stateRef = useRef(state);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  const navigate = useCallback(
+    (changes: Partial<ScheduleUrlState>, replace: boolean) => {
+      if (pending.current) {
+        pending.current = {
+          changes: { ...pending.current.changes, ...changes },
+          replace: pending.current.replace && replace,
+        };
+        return;
+      }
+
+      pending.current = { changes, replace };
+      queueMicrotask(() => {
+        const next = pending.current;
+        pending.current = null;
+        if (!next) return;
+
+        const params = buildScheduleParams({ ...stateRef.current, ...next.changes }).toString();
+        const href = params ? `${pathname}?${params}` : pathname;
+        if (next.replace) router.replace(href, { scroll: false });
+        else router.push(href, { scroll: false });
+      });
+    },
+    [pathname, router]
+  );
+
+  // Search input value; follows the URL on back/forward
+  const [query, setQueryState] = useState(state.query);
+  const writtenQuery = useRef(state.query);
+  const queryTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (state.query === writtenQuery.current) return;
+    writtenQuery.current = state.query;
+    setQueryState(state.query);
+  }, [state.query]);
+
+  useEffect(() => () => clearTimeout(queryTimer.current), []);
+
+  const setQuery = useCallback(
+    (newQuery: string) => {
+      setQueryState(newQuery);
+      clearTimeout(queryTimer.current);
+      queryTimer.current = setTimeout(() => {
+        writtenQuery.current = newQuery;
+        navigate({ query: newQuery }, true);
+      }, QUERY_WRITE_DELAY);
+    },
+    [navigate]
+  );
+
+  const setDoctorId = useCallback((doctorId: string) => navigate({ doctorId }, false), [navigate]);
+  const setDate = useCallback((date: Date) => navigate({ date }, false), [navigate]);
+  const setView = useCallback((view: CalendarView) => navigate({ view }, false), [navigate]);
+  const setShowCancelled = useCallback(
+    (showCancelled: boolean) => navigate({ showCancelled }, false),
+    [navigate]
+  );
+  const setFilters = useCallback(
+    (filters: AppointmentFilterSelection) => navigate({ filters }, false),
+    [navigate]
+  );
+  const setBookForPatientId = useCallback(
+    (bookForPatientId: string) => navigate({ bookForPatientId }, true),
+    [navigate]
+  );
+
+  return {
+    doctorId: state.doctorId,
+    date: state.date ?? today,
+    view: state.view,
+    query,
+    showCancelled: state.showCancelled,
+    filters: state.filters,
+    bookForPatientId: state.bookForPatientId,
+    setDoctorId,
+    setDate,
+    setView,
+    setQuery,
+    setShowCancelled,
+    setFilters,
+    setBookForPatientId,
+  };
+}
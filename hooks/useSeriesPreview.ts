@@ -0,0 +1,61 @@
+/**
+ * useSeriesPreview Hook
+ *
+ * Lists the occurrences a recurring booking would have and which of them
+ * conflict, while the booking form is being filled in.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  appointmentService,
+  type CreateSeriesInput,
+  type SeriesPreview,
+} from '@/services/appointmentService';
+import { useServiceVersion } from './useAppointments';
+
+const PREVIEW_DELAY_MS = 300; // Wait for typing to settle before checking
+
+/**
+ * useSeriesPreview Hook
+ *
+ * Pass null to skip checking (e.g. when the booking doesn't repeat).
+ * `error` holds the reason an invalid series would be refused.
+ */
+export function useSeriesPreview(input: CreateSeriesInput | null) {
+  const [preview, setPreview] = useState<SeriesPreview | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const dataVersion = useServiceVersion();
+
+  useEffect(() => {
+    if (!input) {
+      setPreview(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await appointmentService.previewSeries(input);
+        if (!cancelled) setPreview(result);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err : new Error('Failed to check the series'));
+        setPreview(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [input, dataVersion]);
+
+  return { preview, loading, error };
+}
@@ -0,0 +1,59 @@
+/**
+ * useSession Hook
+ *
+ * Signed-in user for the local login stand-in. The session lives on the
+ * shared appointment service (so its role rules apply to every fetch) and
+ * is persisted to localStorage between visits.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Session } from '@/types';
+import { appointmentService } from '@/services/appointmentService';
+import { loadSession, saveSession } from '@/services/session';
+import { useServiceVersion } from './useAppointments';
+
+/**
+ * Hook return value
+ */
+interface UseSessionReturn {
+  session: Session | null;
+  loading: boolean; // True until the stored session has been restored
+  signIn: (session: Session) => void;
+  signOut: () => void;
+}
+
+/**
+ * useSession Hook
+ */
+export function useSession(): UseSessionReturn {
+  const [restored, setRestored] = useState(false);
+
+  // Re-render when the session changes (setSession notifies subscribers)
+  useServiceVersion();
+
+  // Restore after mount so the server render and hydration agree
+  useEffect(() => {
+    if (!appointmentService.getSession()) {
+      const stored = loadSession();
+      if (stored) appointmentService.setSession(stored);
+    }
+    setRestored(true);
+  }, []);
+
+  const signIn = useCallback((session: Session) => {
+    saveSession(session);
+    appointmentService.setSession(session);
+  }, []);
+
+  const signOut = useCallback(() => {
+    saveSession(null);
+    appointmentService.setSession(null);
+  }, []);
+
+  return {
+    session: restored ? appointmentService.getSession() : null,
+    loading: !restored,
+    signIn,
+    signOut,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Analytics figures over a few hand-made appointments, in America/New_York
+ * (pinned in vitest.config.ts). Dr. Sarah Chen works 09:00-17:00 on Mondays
+ * and Tuesdays.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Appointment, AppointmentStatus, ScheduleException } from '@/types';
+import { MOCK_DOCTORS } from '@/data/mockData';
+import {
+  MAX_ANALYTICS_RANGE_DAYS,
+  computeAnalytics,
+  getAvailableMinutes,
+  getHourLoads,
+  getStatusBreakdown,
+  validateAnalyticsRange,
+} from './analytics';
+import { zonedDateTime } from './clinicTime';
+
+const doctor = MOCK_DOCTORS[0];
+
+/**
+ * Appointment with Dr. Chen on Monday 2024-03-11
+ */
+function appointment(
+  id: string,
+  [startHour, startMinute]: [number, number],
+  [endHour, endMinute]: [number, number],
+  status: AppointmentStatus = 'scheduled'
+): Appointment {
+  return {
+    id,
+    patientId: 'pat-1',
+    doctorId: doctor.id,
+    type: 'checkup',
+    startTime: zonedDateTime(2024, 3, 11, startHour, startMinute).toISOString(),
+    endTime: zonedDateTime(2024, 3, 11, endHour, endMinute).toISOString(),
+    status,
+  };
+}
+
+describe('getStatusBreakdown', () => {
+  it('counts no-shows only among appointments already due', () => {
+    const appointments = [
+      appointment('apt-1', [9, 0], [9, 30], 'no-show'),
+      appointment('apt-2', [10, 0], [10, 30], 'completed'),
+      appointment('apt-3', [11, 0], [11, 30], 'cancelled'),
+      appointment('apt-4', [15, 0], [15, 30], 'scheduled'), // Not due yet
+    ];
+
+    const breakdown = getStatusBreakdown(appointments, zonedDateTime(2024, 3, 11, 12));
+
+    expect(breakdown.noShowRate).toBe(0.5);
+    expect(breakdown.cancellationRate).toBe(0.25);
+    expect(breakdown.counts).toMatchObject({ 'no-show': 1, completed: 1, cancelled: 1, scheduled: 1 });
+  });
+
+  it('has no no-show rate before anything is due', () => {
+    const breakdown = getStatusBreakdown([appointment('apt-1', [9, 0], [9, 30])], zonedDateTime(2024, 3, 11, 8));
+
+    expect(breakdown.noShowRate).toBeNull();
+  });
+});
+
+describe('computeAnalytics', () => {
+  it('leaves cancelled appointments out of booked minutes', () => {
+    const analytics = computeAnalytics({
+      doctors: [doctor],
+      appointments: [
+        appointment('apt-1', [9, 0], [9, 30]),
+        appointment('apt-2', [10, 0], [11, 0], 'cancelled'),
+        appointment('apt-3', [14, 0], [14, 45], 'no-show'),
+      ],
+      exceptions: [],
+      startDate: zonedDateTime(2024, 3, 11),
+      endDate: zonedDateTime(2024, 3, 11),
+      now: zonedDateTime(2024, 3, 12),
+    });
+
+    expect(analytics.bookedMinutes).toBe(75);
+    expect(analytics.availableMinutes).toBe(480);
+    expect(analytics.utilization).toBe(75 / 480);
+    expect(analytics.typeMix.find((entry) => entry.type === 'checkup')).toMatchObject({ count: 2, minutes: 75 });
+  });
+});
+
+describe('getAvailableMinutes', () => {
+  it('takes blocked time and absences off the weekly hours', () => {
+    const exceptions: ScheduleException[] = [
+      { id: 'exc-1', doctorId: doctor.id, kind: 'block', startDate: '2024-03-11', endDate: '2024-03-11', start: '12:00', end: '13:00' },
+      { id: 'exc-2', doctorId: doctor.id, kind: 'absence', startDate: '2024-03-12', endDate: '2024-03-12' },
+      { id: 'exc-3', doctorId: 'doc-2', kind: 'absence', startDate: '2024-03-11', endDate: '2024-03-11' },
+    ];
+
+    expect(getAvailableMinutes(doctor, [], zonedDateTime(2024, 3, 11), zonedDateTime(2024, 3, 12))).toBe(960);
+    expect(getAvailableMinutes(doctor, exceptions, zonedDateTime(2024, 3, 11), zonedDateTime(2024, 3, 12))).toBe(420);
+  });
+});
+
+describe('getHourLoads', () => {
+  it('splits an appointment across the hours it spans', () => {
+    const hours = getHourLoads([appointment('apt-1', [9, 45], [10, 15])]);
+
+    expect(hours[9]).toEqual({ hour: 9, minutes: 15, starts: 1 });
+    expect(hours[10]).toEqual({ hour: 10, minutes: 15, starts: 0 });
+    expect(hours.reduce((sum, load) => sum + load.minutes, 0)).toBe(30);
+  });
+});
+
+describe('validateAnalyticsRange', () => {
+  it(`accepts at most ${MAX_ANALYTICS_RANGE_DAYS} days`, () => {
+    expect(validateAnalyticsRange('2024-01-01', '2024-12-31')).toBeNull(); // 366 days in a leap year
+    expect(validateAnalyticsRange('2024-01-01', '2025-01-01')).toBe(
+      `Choose a range of at most ${MAX_ANALYTICS_RANGE_DAYS} days`
+    );
+  });
+
+  it('rejects malformed and reversed ranges', () => {
+    expect(validateAnalyticsRange('2024-3-1', '2024-03-02')).toBe('Dates must be YYYY-MM-DD');
+    expect(validateAnalyticsRange('2024-03-02', '2024-03-01')).toBe('The end date must not be before the start date');
+  });
+});
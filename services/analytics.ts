@@ -0,0 +1,239 @@
+/**
+ * Clinic Analytics
+ *
+ * Pure helpers for the analytics dashboard: how much of each doctor's
+ * working time is booked, the mix of appointment types, no-show and
+ * cancellation rates, and which hours of the day are busiest. Working time
+ * comes from the weekly hours adjusted by schedule exceptions, the same
+ * periods booking validation uses.
+ *
+ * Cancelled appointments count towards the cancellation rate only; every
+ * other status, no-shows included, held a slot and counts as booked time.
+ */
+
+import type {
+  Appointment,
+  AppointmentStatus,
+  AppointmentType,
+  DayOfWeek,
+  Doctor,
+  ScheduleException,
+} from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import {
+  addClinicDays,
+  formatClinicTime,
+  getClinicDateKey,
+  getClinicMinutesOfDay,
+  parseClinicDateKey,
+  startOfClinicDay,
+} from './clinicTime';
+import { getExceptionsOnDate, getWorkingPeriods, parseTimeToMinutes } from './scheduleExceptions';
+
+/**
+ * Longest range the dashboard covers, in clinic days
+ */
+export const MAX_ANALYTICS_RANGE_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Appointment counts per status, with the rates derived from them
+ */
+export interface StatusBreakdown {
+  counts: Record<AppointmentStatus, number>;
+  total: number;
+  noShowRate: number | null;       // No-shows among non-cancelled appointments already due; null if none were due
+  cancellationRate: number | null; // Cancelled among all appointments; null if there were none
+}
+
+/**
+ * How busy one doctor was over the range
+ */
+export interface DoctorUtilization {
+  doctor: Doctor;
+  availableMinutes: number;
+  bookedMinutes: number;
+  utilization: number | null; // Booked over available minutes; null if the doctor had no working time
+  statuses: StatusBreakdown;
+}
+
+/**
+ * Bookings of one appointment type
+ */
+export interface TypeMixEntry {
+  type: AppointmentType;
+  count: number;
+  minutes: number;
+  share: number | null; // Of all bookings; null if there were none
+}
+
+/**
+ * Booked time within one clinic hour of the day, summed over the range
+ */
+export interface HourLoad {
+  hour: number;    // 0-23, clinic wall clock
+  minutes: number;
+  starts: number;  // Bookings starting in the hour
+}
+
+/**
+ * Everything the dashboard shows
+ */
+export interface ClinicAnalytics {
+  doctors: DoctorUtilization[];      // Busiest first
+  availableMinutes: number;
+  bookedMinutes: number;
+  utilization: number | null;
+  statuses: StatusBreakdown;
+  typeMix: TypeMixEntry[];           // In APPOINTMENT_TYPE_CONFIG order
+  hours: HourLoad[];                 // All 24 hours
+  peakHour: number | null;           // Hour with the most booked time; null if nothing was booked
+}
+
+/**
+ * What the analytics are computed from
+ */
+export interface AnalyticsInput {
+  doctors: Doctor[];
+  appointments: Appointment[];       // Those starting in the range, of any status
+  exceptions: ScheduleException[];
+  startDate: Date;                   // Any time on the first clinic day
+  endDate: Date;                     // Any time on the last clinic day
+  now: Date;                         // Appointments starting later can't be no-shows yet
+}
+
+/**
+ * Check a range of clinic dates ("YYYY-MM-DD")
+ * @returns A description of the problem, or null if the range is valid
+ */
+export function validateAnalyticsRange(startDate: string, endDate: string): string | null {
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) return 'Dates must be YYYY-MM-DD';
+  if (endDate < startDate) return 'The end date must not be before the start date';
+
+  const lastAllowed = getClinicDateKey(addClinicDays(parseClinicDateKey(startDate), MAX_ANALYTICS_RANGE_DAYS - 1));
+  if (endDate > lastAllowed) return `Choose a range of at most ${MAX_ANALYTICS_RANGE_DAYS} days`;
+  return null;
+}
+
+/**
+ * Ratio of two counts, or null when there's nothing to divide by
+ */
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+/**
+ * Length of an appointment in minutes
+ */
+function getDurationMinutes(appointment: Appointment): number {
+  return Math.max(0, (new Date(appointment.endTime).getTime() - new Date(appointment.startTime).getTime()) / 60000);
+}
+
+/**
+ * Count appointments per status and work out the no-show and cancellation rates
+ */
+export function getStatusBreakdown(appointments: Appointment[], now: Date): StatusBreakdown {
+  const counts = Object.fromEntries(
+    Object.keys(APPOINTMENT_STATUS_CONFIG).map((status) => [status, 0])
+  ) as Record<AppointmentStatus, number>;
+  let due = 0;
+
+  appointments.forEach((appointment) => {
+    counts[appointment.status] += 1;
+    if (appointment.status !== 'cancelled' && new Date(appointment.startTime) <= now) due += 1;
+  });
+
+  return {
+    counts,
+    total: appointments.length,
+    noShowRate: ratio(counts['no-show'], due),
+    cancellationRate: ratio(counts.cancelled, appointments.length),
+  };
+}
+
+/**
+ * Minutes a doctor works over a range of clinic days, after exceptions
+ */
+export function getAvailableMinutes(
+  doctor: Doctor,
+  exceptions: ScheduleException[],
+  startDate: Date,
+  endDate: Date
+): number {
+  let total = 0;
+  for (let day = startOfClinicDay(startDate); day <= endDate; day = addClinicDays(day, 1)) {
+    const dayOfWeek = formatClinicTime(day, 'EEEE').toLowerCase() as DayOfWeek;
+    const periods = getWorkingPeriods(doctor.workingHours[dayOfWeek], getExceptionsOnDate(exceptions, doctor.id, day));
+    total += periods.reduce((sum, period) => sum + parseTimeToMinutes(period.end) - parseTimeToMinutes(period.start), 0);
+  }
+  return total;
+}
+
+/**
+ * Spread booked time over the clinic hours of the day it falls in
+ */
+export function getHourLoads(appointments: Appointment[]): HourLoad[] {
+  const hours: HourLoad[] = Array.from({ length: 24 }, (_, hour) => ({ hour, minutes: 0, starts: 0 }));
+
+  appointments.forEach((appointment) => {
+    const start = getClinicMinutesOfDay(new Date(appointment.startTime));
+    const end = Math.min(start + getDurationMinutes(appointment), MINUTES_PER_DAY);
+    hours[Math.floor(start / 60)].starts += 1;
+    for (let hour = Math.floor(start / 60); hour * 60 < end; hour++) {
+      hours[hour].minutes += Math.min(end, (hour + 1) * 60) - Math.max(start, hour * 60);
+    }
+  });
+
+  return hours;
+}
+
+/**
+ * Compute the dashboard figures for some doctors over a range of clinic days
+ *
+ * Appointments of doctors not in `doctors` are ignored.
+ */
+export function computeAnalytics({ doctors, appointments, exceptions, startDate, endDate, now }: AnalyticsInput): ClinicAnalytics {
+  const doctorIds = new Set(doctors.map((doctor) => doctor.id));
+  const relevant = appointments.filter((appointment) => doctorIds.has(appointment.doctorId));
+  const booked = relevant.filter((appointment) => appointment.status !== 'cancelled');
+  const sumMinutes = (list: Appointment[]) => list.reduce((sum, appointment) => sum + getDurationMinutes(appointment), 0);
+
+  const perDoctor = doctors
+    .map((doctor): DoctorUtilization => {
+      const own = relevant.filter((appointment) => appointment.doctorId === doctor.id);
+      const availableMinutes = getAvailableMinutes(doctor, exceptions, startDate, endDate);
+      const bookedMinutes = sumMinutes(own.filter((appointment) => appointment.status !== 'cancelled'));
+      return {
+        doctor,
+        availableMinutes,
+        bookedMinutes,
+        utilization: ratio(bookedMinutes, availableMinutes),
+        statuses: getStatusBreakdown(own, now),
+      };
+    })
+    .sort((a, b) => (b.utilization ?? -1) - (a.utilization ?? -1) || a.doctor.name.localeCompare(b.doctor.name));
+
+  const availableMinutes = perDoctor.reduce((sum, entry) => sum + entry.availableMinutes, 0);
+  const bookedMinutes = sumMinutes(booked);
+
+  const typeMix = (Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[]).map((type): TypeMixEntry => {
+    const ofType = booked.filter((appointment) => appointment.type === type);
+    return { type, count: ofType.length, minutes: sumMinutes(ofType), share: ratio(ofType.length, booked.length) };
+  });
+
+  const hours = getHourLoads(booked);
+  const busiest = hours.reduce((best, load) => (load.minutes > best.minutes ? load : best), hours[0]);
+
+  return {
+    doctors: perDoctor,
+    availableMinutes,
+    bookedMinutes,
+    utilization: ratio(bookedMinutes, availableMinutes),
+    statuses: getStatusBreakdown(relevant, now),
+    typeMix,
+    hours,
+    peakHour: busiest.minutes > 0 ? busiest.hour : null,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Appointment Filters
+ *
+ * The schedule's filter bar selection (appointment types, statuses and a
+ * duration range) and its translation into AppointmentFilters, which the
+ * service and repositories apply.
+ */
+
+import type { AppointmentFilters, AppointmentStatus, AppointmentType } from '@/types';
+
+/**
+ * Duration ranges offered by the filter bar
+ */
+export type DurationRange = 'short' | 'standard' | 'long' | 'extended';
+
+/**
+ * Label and inclusive bounds (in minutes) of each duration range
+ */
+export const DURATION_RANGES: Record<DurationRange, { label: string; min?: number; max?: number }> = {
+  short: { label: '15 min or less', max: 15 },
+  standard: { label: '16-30 min', min: 16, max: 30 },
+  long: { label: '31-60 min', min: 31, max: 60 },
+  extended: { label: 'Over 60 min', min: 61 },
+};
+
+/**
+ * Filter bar selection; empty lists and an empty duration filter nothing
+ */
+export interface AppointmentFilterSelection {
+  types: AppointmentType[];
+  statuses: AppointmentStatus[];
+  duration: DurationRange | '';
+}
+
+/**
+ * Selection with nothing filtered
+ */
+export const EMPTY_FILTER_SELECTION: AppointmentFilterSelection = {
+  types: [],
+  statuses: [],
+  duration: '',
+};
+
+/**
+ * Number of selected filter values (each type, each status and the duration range)
+ */
+export function countActiveFilters(selection: AppointmentFilterSelection): number {
+  return selection.types.length + selection.statuses.length + (selection.duration ? 1 : 0);
+}
+
+/**
+ * AppointmentFilters fields for a filter bar selection
+ */
+export function toAppointmentFilters(
+  selection: AppointmentFilterSelection
+): Pick<AppointmentFilters, 'type' | 'status' | 'minDuration' | 'maxDuration'> {
+  const filters: Pick<AppointmentFilters, 'type' | 'status' | 'minDuration' | 'maxDuration'> = {};
+  if (selection.types.length > 0) filters.type = selection.types;
+  if (selection.statuses.length > 0) filters.status = selection.statuses;
+
+  if (selection.duration) {
+    const { min, max } = DURATION_RANGES[selection.duration];
+    if (min !== undefined) filters.minDuration = min;
+    if (max !== undefined) filters.maxDuration = max;
+  }
+  return filters;
+}
+
+/**
+ * Add a value to a list, or remove it if it's already there
+ */
+export function toggleFilterValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+}
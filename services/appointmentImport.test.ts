@@ -0,0 +1,61 @@
+/**
+ * Import start times without a time zone are clinic time (America/New_York,
+ * pinned in vitest.config.ts), even for a browser in another zone.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MOCK_DOCTORS, MOCK_PATIENTS } from '@/data/mockData';
+import { parseCsv, planImport } from './appointmentImport';
+import { AppointmentService } from './appointmentService';
+import { zonedDateTime } from './clinicTime';
+import { InMemoryAppointmentRepository } from './repositories';
+
+const viewerTimeZone = process.env.TZ;
+
+beforeAll(() => {
+  process.env.TZ = 'Asia/Tokyo';
+});
+
+afterAll(() => {
+  if (viewerTimeZone === undefined) delete process.env.TZ;
+  else process.env.TZ = viewerTimeZone;
+});
+
+/**
+ * Plan a CSV of Dr. Chen's appointments, one per start time
+ */
+async function planStartTimes(...startTimes: string[]) {
+  const csv = ['patient,doctor,type,start', ...startTimes.map((start) => `pat-1,doc-1,checkup,${start}`)].join('\n');
+  const service = new AppointmentService(
+    new InMemoryAppointmentRepository({ doctors: MOCK_DOCTORS, patients: MOCK_PATIENTS, appointments: [], series: [] })
+  );
+  return planImport(parseCsv(csv), service);
+}
+
+describe('planImport', () => {
+  it('reads ISO times without an offset as clinic time', async () => {
+    // Mondays, when Dr. Chen works 09:00-17:00
+    const plan = await planStartTimes('2030-01-07T10:00', '2030-01-14T10:15:30', '2030-01-21 11:00');
+
+    expect(plan.map((row) => row.appointment?.startTime)).toEqual([
+      zonedDateTime(2030, 1, 7, 10).toISOString(),
+      new Date(zonedDateTime(2030, 1, 14, 10, 15).getTime() + 30_000).toISOString(),
+      zonedDateTime(2030, 1, 21, 11).toISOString(),
+    ]);
+  });
+
+  it('keeps the instant of ISO times with an offset', async () => {
+    const plan = await planStartTimes('2030-01-07T15:00:00Z', '2030-01-14T11:00-04:00');
+
+    expect(plan.map((row) => row.appointment?.startTime)).toEqual([
+      zonedDateTime(2030, 1, 7, 10).toISOString(),
+      zonedDateTime(2030, 1, 14, 10).toISOString(),
+    ]);
+  });
+
+  it('skips dates that do not exist', async () => {
+    const plan = await planStartTimes('2030-02-30T10:00', '2030-01-07T24:00', 'next Monday');
+
+    expect(plan.map((row) => row.reason)).toEqual(['Invalid start time', 'Invalid start time', 'Invalid start time']);
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Appointment Import
+ *
+ * Bulk-loads appointments from iCalendar (.ics) and CSV files. Files are
+ * parsed into rows, each row is matched to a patient and doctor (by id or
+ * email; doctor sessions, which only see masked patient emails, match
+ * patients by id alone) and checked with AppointmentService.validateAppointment, giving a
+ * dry-run plan to preview. Committing the plan books the accepted rows
+ * through AppointmentService.createAppointment, like a manual booking, except
+ * that patients aren't sent confirmations or reminders for imported rows.
+ */
+
+import { addMinutes, addSeconds, isExists, isValid, parse } from 'date-fns';
+import type { Appointment, AppointmentType, Doctor, Patient } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { appointmentService, type AppointmentService } from './appointmentService';
+import { AppointmentValidationError } from './errors';
+import { zonedDateTime } from './clinicTime';
+import { canViewPatientContact } from './session';
+
+/**
+ * Supported file formats
+ */
+export type ImportFormat = 'ics' | 'csv';
+
+/**
+ * One appointment as read from a file, before matching
+ */
+export interface ImportRow {
+  row: number;           // CSV row (counting the header) or iCalendar event number, from 1
+  patient: string;       // Patient id or email
+  doctor: string;        // Doctor id or email
+  type: string;          // Type key or label; empty for the default
+  start: string;
+  end: string;           // Empty to use the type's default duration
+  notes: string;
+  cancelled: boolean;
+}
+
+/**
+ * What the import will do with a row
+ * - create: valid, will be booked
+ * - skip: can't be booked (unknown patient, bad time, already imported...)
+ * - conflict: overlaps an existing appointment or an earlier row
+ */
+export type ImportOutcome = 'create' | 'skip' | 'conflict';
+
+/**
+ * Dry-run result for one row
+ */
+export interface ImportPlanRow {
+  row: ImportRow;
+  outcome: ImportOutcome;
+  reason?: string;
+  appointment?: Omit<Appointment, 'id'>; // Set when the row could be matched and timed
+  patient?: Patient;
+  doctor?: Doctor;
+}
+
+/**
+ * Result of committing a plan
+ */
+export interface ImportResult {
+  created: Appointment[];
+  failed: { row: ImportRow; reason: string }[]; // Rows refused at commit time
+}
+
+const APPOINTMENT_TYPES = Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[];
+
+/**
+ * Date-time formats without a time zone accepted besides ISO strings
+ * (read as clinic time)
+ */
+const LOCAL_DATE_FORMATS = ['yyyy-MM-dd HH:mm', 'yyyy-MM-dd H:mm', 'yyyy-MM-dd h:mm a', 'MM/dd/yyyy HH:mm', 'MM/dd/yyyy h:mm a'];
+
+/**
+ * ISO 8601 date or date-time; without the trailing Z or offset it's read as clinic time
+ */
+const ISO_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * CSV header aliases for each row field (compared lower-case, without spaces or underscores)
+ */
+const CSV_COLUMNS: Record<Exclude<keyof ImportRow, 'row' | 'cancelled'> | 'status', string[]> = {
+  patient: ['patient', 'patientid', 'patientemail'],
+  doctor: ['doctor', 'doctorid', 'doctoremail'],
+  type: ['type', 'appointmenttype'],
+  start: ['start', 'starttime', 'startdate'],
+  end: ['end', 'endtime', 'enddate'],
+  notes: ['notes', 'note', 'description'],
+  status: ['status'],
+};
+
+/**
+ * Guess the format of a file from its name, then its content
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat {
+  if (/\.ics$/i.test(fileName)) return 'ics';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return content.trimStart().startsWith('BEGIN:VCALENDAR') ? 'ics' : 'csv';
+}
+
+/**
+ * Split CSV text into records of fields (RFC 4180 quoting)
+ */
+function parseCsvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Parse a CSV file with a header row
+ *
+ * Columns: patient and doctor (id or email), type, start, end, notes, status.
+ * Rows whose status is "cancelled" are read but won't be booked.
+ */
+export function parseCsv(content: string): ImportRow[] {
+  const [header, ...records] = parseCsvRecords(content);
+  if (!header) return [];
+
+  const normalized = header.map((name) => name.trim().toLowerCase().replace(/[\s_-]/g, ''));
+  const columnIndex = (field: keyof typeof CSV_COLUMNS) =>
+    normalized.findIndex((name) => CSV_COLUMNS[field].includes(name));
+
+  const indexes = {
+    patient: columnIndex('patient'),
+    doctor: columnIndex('doctor'),
+    type: columnIndex('type'),
+    start: columnIndex('start'),
+    end: columnIndex('end'),
+    notes: columnIndex('notes'),
+    status: columnIndex('status'),
+  };
+  const value = (record: string[], index: number) => (index >= 0 ? (record[index] ?? '').trim() : '');
+
+  return records.map((record, i) => ({
+    row: i + 2, // Row number, counting the header
+    patient: value(record, indexes.patient),
+    doctor: value(record, indexes.doctor),
+    type: value(record, indexes.type),
+    start: value(record, indexes.start),
+    end: value(record, indexes.end),
+    notes: value(record, indexes.notes),
+    cancelled: value(record, indexes.status).toLowerCase() === 'cancelled',
+  }));
+}
+
+/**
+ * Undo iCalendar TEXT escaping
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Convert an iCalendar DATE-TIME (UTC with Z, otherwise floating clinic time) to ISO
+ * @returns The ISO string, or the raw value if it isn't a DATE-TIME
+ */
+function parseICalendarDateTime(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!match) return value;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : zonedDateTime(+year, +month, +day, +hours, +minutes);
+  return date.toISOString();
+}
+
+/**
+ * Strip a "mailto:" prefix from a CAL-ADDRESS
+ */
+function fromMailto(value: string): string {
+  return value.replace(/^mailto:/i, '');
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file
+ *
+ * The patient comes from X-PATIENT-ID or the first ATTENDEE's email, the
+ * doctor from X-DOCTOR-ID or the ORGANIZER's email, and the type from
+ * CATEGORIES. TZID parameters are ignored: times without Z are read as
+ * clinic-local.
+ */
+export function parseICalendar(content: string): ImportRow[] {
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const rows: ImportRow[] = [];
+  let event: Record<string, string> | null = null;
+
+  lines.forEach((line) => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (line === 'END:VEVENT' && event) {
+      rows.push({
+        row: rows.length + 1,
+        patient: event['X-PATIENT-ID'] ?? fromMailto(event.ATTENDEE ?? ''),
+        doctor: event['X-DOCTOR-ID'] ?? fromMailto(event.ORGANIZER ?? ''),
+        type: unescapeText(event.CATEGORIES ?? '').split(',')[0].trim(),
+        start: parseICalendarDateTime(event.DTSTART ?? ''),
+        end: parseICalendarDateTime(event.DTEND ?? ''),
+        notes: unescapeText(event.DESCRIPTION ?? ''),
+        cancelled: event.STATUS === 'CANCELLED',
+      });
+      event = null;
+      return;
+    }
+    if (!event) return;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    // Property name without parameters (e.g. "DTSTART;TZID=..." -> "DTSTART")
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    // Keep the first occurrence (e.g. the first ATTENDEE)
+    if (!(name in event)) event[name] = line.slice(separator + 1);
+  });
+
+  return rows;
+}
+
+/**
+ * Parse a file in either supported format
+ */
+export function parseImportFile(fileName: string, content: string): ImportRow[] {
+  return detectImportFormat(fileName, content) === 'ics' ? parseICalendar(content) : parseCsv(content);
+}
+
+/**
+ * Parse a date-time cell: ISO strings or one of LOCAL_DATE_FORMATS
+ *
+ * Only ISO strings ending in Z or an offset name an exact instant; anything
+ * else is clinic wall-clock time, whatever the browser's time zone.
+ */
+function parseDateTime(value: string): Date | null {
+  if (!value) return null;
+
+  for (const dateFormat of LOCAL_DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date)) {
+      return zonedDateTime(date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes());
+    }
+  }
+
+  const match = ISO_DATE_TIME.exec(value);
+  if (!match) return null;
+
+  if (match[7]) {
+    const date = new Date(value);
+    return isValid(date) ? date : null;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number(part ?? 0));
+  if (!isExists(year, month - 1, day) || hour > 23 || minute > 59 || second > 59) return null;
+  return addSeconds(zonedDateTime(year, month, day, hour, minute), second);
+}
+
+/**
+ * Match a type cell by key or display label
+ */
+function parseType(value: string): AppointmentType | null {
+  if (!value) return 'checkup';
+  const normalized = value.trim().toLowerCase();
+  return (
+    APPOINTMENT_TYPES.find(
+      (type) => type === normalized || APPOINTMENT_TYPE_CONFIG[type].label.toLowerCase() === normalized
+    ) ?? null
+  );
+}
+
+/**
+ * Find a record by id or, unless `matchEmail` is false, (case-insensitive) email
+ */
+function findByIdOrEmail<T extends { id: string; email: string }>(
+  records: T[],
+  value: string,
+  matchEmail = true
+): T | undefined {
+  const normalized = value.trim().toLowerCase();
+  return records.find(
+    (record) => record.id === value.trim() || (matchEmail && record.email.toLowerCase() === normalized)
+  );
+}
+
+/**
+ * Check a single row without booking it
+ *
+ * `planned` are the rows accepted so far, so rows in the same file can't
+ * double-book a doctor either. Patient emails are only matched when
+ * `matchPatientEmails` is set, i.e. the session sees them unmasked.
+ */
+async function planRow(
+  row: ImportRow,
+  doctors: Doctor[],
+  patients: Patient[],
+  matchPatientEmails: boolean,
+  planned: Omit<Appointment, 'id'>[],
+  service: AppointmentService
+): Promise<ImportPlanRow> {
+  if (row.cancelled) {
+    return { row, outcome: 'skip', reason: 'Cancelled in the source file' };
+  }
+
+  const doctor = findByIdOrEmail(doctors, row.doctor);
+  if (!doctor) {
+    return { row, outcome: 'skip', reason: row.doctor ? `Unknown doctor "${row.doctor}"` : 'No doctor given' };
+  }
+
+  const patient = findByIdOrEmail(patients, row.patient, matchPatientEmails);
+  if (!patient) {
+    const reason = !row.patient
+      ? 'No patient given'
+      : !matchPatientEmails && row.patient.includes('@')
+        ? `Patients can only be matched by id in a doctor session, not by email ("${row.patient}")`
+        : `Unknown patient "${row.patient}"`;
+    return { row, outcome: 'skip', reason, doctor };
+  }
+
+  const type = parseType(row.type);
+  if (!type) {
+    return { row, outcome: 'skip', reason: `Unknown appointment type "${row.type}"`, doctor, patient };
+  }
+
+  const start = parseDateTime(row.start);
+  const end = row.end ? parseDateTime(row.end) : start && addMinutes(start, APPOINTMENT_TYPE_CONFIG[type].defaultDuration);
+  if (!start || !end) {
+    return { row, outcome: 'skip', reason: `Invalid ${start ? 'end' : 'start'} time`, doctor, patient };
+  }
+
+  const appointment: Omit<Appointment, 'id'> = {
+    patientId: patient.id,
+    doctorId: doctor.id,
+    type,
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    notes: row.notes || undefined,
+    status: 'scheduled',
+  };
+  const result = { row, appointment, doctor, patient };
+
+  try {
+    await service.validateAppointment({ ...appointment, id: '' });
+  } catch (err) {
+    if (!(err instanceof AppointmentValidationError)) throw err;
+    if (err.code !== 'overlap') {
+      return { ...result, outcome: 'skip', reason: err.message };
+    }
+
+    // The same booking already exists, e.g. when a file is imported twice
+    const duplicate = err.conflicts.some(
+      (existing) =>
+        existing.patientId === appointment.patientId &&
+        new Date(existing.startTime).getTime() === start.getTime() &&
+        new Date(existing.endTime).getTime() === end.getTime()
+    );
+    return duplicate
+      ? { ...result, outcome: 'skip', reason: 'Already booked' }
+      : { ...result, outcome: 'conflict', reason: err.message };
+  }
+
+  const earlierRow = planned.find(
+    (other) =>
+      other.doctorId === appointment.doctorId &&
+      service.appointmentsOverlap({ ...other, id: '' }, { ...appointment, id: '' })
+  );
+  if (earlierRow) {
+    return { ...result, outcome: 'conflict', reason: 'Overlaps another row in this file' };
+  }
+
+  return { ...result, outcome: 'create' };
+}
+
+/**
+ * Dry run: decide what importing each row would do, without booking anything
+ *
+ * Doctors the service's session can't access count as unknown. Sessions
+ * that only see masked patient contacts (doctors) match patients by id,
+ * since their emails can't be compared.
+ */
+export async function planImport(
+  rows: ImportRow[],
+  service: AppointmentService = appointmentService
+): Promise<ImportPlanRow[]> {
+  const [doctors, patients] = await Promise.all([service.getAllDoctors(), service.getAllPatients()]);
+  const matchPatientEmails = canViewPatientContact(service.getSession());
+  const plan: ImportPlanRow[] = [];
+  const planned: Omit<Appointment, 'id'>[] = [];
+
+  for (const row of rows) {
+    const result = await planRow(row, doctors, patients, matchPatientEmails, planned, service);
+    if (result.outcome === 'create' && result.appointment) planned.push(result.appointment);
+    plan.push(result);
+  }
+
+  return plan;
+}
+
+/**
+ * Book every row the plan marked for creation
+ *
+ * Rows are booked one by one through createAppointment, so anything that
+ * changed since the dry run is still caught; such rows are reported as
+ * failed rather than aborting the import. Patients aren't messaged: an
+ * import usually migrates bookings they already know about.
+ */
+export async function commitImport(
+  plan: ImportPlanRow[],
+  service: AppointmentService = appointmentService
+): Promise<ImportResult> {
+  const result: ImportResult = { created: [], failed: [] };
+
+  for (const { row, outcome, appointment } of plan) {
+    if (outcome !== 'create' || !appointment) continue;
+
+    try {
+      result.created.push(
+        await service.createAppointment({
+          patientId: appointment.patientId,
+          doctorId: appointment.doctorId,
+          type: appointment.type,
+          startTime: appointment.startTime,
+          endTime: appointment.endTime,
+          notes: appointment.notes,
+          notifyPatient: false,
+        })
+      );
+    } catch (err) {
+      result.failed.push({ row, reason: err instanceof Error ? err.message : 'Failed to book' });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,113 @@
+/**
+ * Appointment Layout
+ *
+ * Pure layout for overlapping appointments in a single calendar column.
+ * Appointments that overlap (directly or through a chain of overlaps) form
+ * a cluster; each cluster is split into side-by-side columns so no two
+ * overlapping appointments share a column.
+ */
+
+import type { Appointment } from '@/types';
+
+/**
+ * Horizontal placement of one appointment within its cluster
+ */
+export interface AppointmentLayout<T extends Appointment = Appointment> {
+  appointment: T;
+  column: number;   // Zero-based column index within the cluster
+  columns: number;  // Total columns in the cluster
+  span: number;     // Columns this appointment can stretch across (>= 1)
+}
+
+/**
+ * Start and end of an appointment in milliseconds
+ */
+function getTimeRange(appointment: Appointment): { start: number; end: number } {
+  return {
+    start: new Date(appointment.startTime).getTime(),
+    end: new Date(appointment.endTime).getTime(),
+  };
+}
+
+function rangesOverlap(a: Appointment, b: Appointment): boolean {
+  const rangeA = getTimeRange(a);
+  const rangeB = getTimeRange(b);
+  return rangeA.start < rangeB.end && rangeB.start < rangeA.end;
+}
+
+/**
+ * Assign columns within one cluster of transitively overlapping appointments
+ */
+function layoutCluster<T extends Appointment>(cluster: T[]): AppointmentLayout<T>[] {
+  // Each column holds appointments in start order; track where each column is free again
+  const columnEnds: number[] = [];
+  const columnMembers: T[][] = [];
+  const assignments: { appointment: T; column: number }[] = [];
+
+  cluster.forEach((appointment) => {
+    const { start, end } = getTimeRange(appointment);
+    let column = columnEnds.findIndex((columnEnd) => columnEnd <= start);
+
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(end);
+      columnMembers.push([appointment]);
+    } else {
+      columnEnds[column] = end;
+      columnMembers[column].push(appointment);
+    }
+
+    assignments.push({ appointment, column });
+  });
+
+  const columns = columnEnds.length;
+
+  return assignments.map(({ appointment, column }) => {
+    // Stretch right across columns that have nothing overlapping this appointment
+    let span = 1;
+    while (
+      column + span < columns &&
+      !columnMembers[column + span].some((other) => rangesOverlap(other, appointment))
+    ) {
+      span++;
+    }
+
+    return { appointment, column, columns, span };
+  });
+}
+
+/**
+ * Lay out appointments so overlapping ones sit side by side
+ * @returns One layout entry per appointment, in start-time order
+ */
+export function layoutAppointments<T extends Appointment>(appointments: T[]): AppointmentLayout<T>[] {
+  // Earlier first; for equal starts, longer first so it takes the leftmost column
+  const sorted = [...appointments].sort((a, b) => {
+    const rangeA = getTimeRange(a);
+    const rangeB = getTimeRange(b);
+    return rangeA.start - rangeB.start || rangeB.end - rangeA.end;
+  });
+
+  const layouts: AppointmentLayout<T>[] = [];
+  let cluster: T[] = [];
+  let clusterEnd = -Infinity;
+
+  sorted.forEach((appointment) => {
+    const { start, end } = getTimeRange(appointment);
+
+    if (cluster.length > 0 && start >= clusterEnd) {
+      layouts.push(...layoutCluster(cluster));
+      cluster = [];
+      clusterEnd = -Infinity;
+    }
+
+    cluster.push(appointment);
+    clusterEnd = Math.max(clusterEnd, end);
+  });
+
+  if (cluster.length > 0) {
+    layouts.push(...layoutCluster(cluster));
+  }
+
+  return layouts;
+}
@@ -0,0 +1,309 @@
+/**
+ * Appointment Search
+ *
+ * Pure helpers for the schedule's global search: scoring an appointment
+ * against a free-text query (tolerating small typos), ranking the hits and
+ * working out which parts of each field matched, for highlighting.
+ */
+
+import type { PopulatedAppointment } from '@/types';
+
+/**
+ * Appointment fields the search looks at
+ */
+export type AppointmentSearchField = 'patientName' | 'email' | 'phone' | 'notes' | 'id';
+
+/**
+ * Display labels for the searched fields
+ */
+export const APPOINTMENT_SEARCH_FIELD_LABELS: Record<AppointmentSearchField, string> = {
+  patientName: 'Patient',
+  email: 'Email',
+  phone: 'Phone',
+  notes: 'Notes',
+  id: 'Appointment ID',
+};
+
+/**
+ * How much a match in each field counts towards the score
+ */
+const FIELD_WEIGHTS: Record<AppointmentSearchField, number> = {
+  patientName: 3,
+  id: 3,
+  email: 2,
+  phone: 2,
+  notes: 1,
+};
+
+/**
+ * Shortest query word that may match with a typo
+ */
+const MIN_FUZZY_WORD_LENGTH = 4;
+
+/**
+ * Shortest query the global search runs for
+ */
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+/**
+ * Hits returned unless another limit is asked for
+ */
+export const APPOINTMENT_SEARCH_LIMIT = 50;
+
+/**
+ * Largest number of hits the search returns
+ */
+export const MAX_APPOINTMENT_SEARCH_LIMIT = 200;
+
+/**
+ * Character range [start, end) of a field value that matched
+ */
+export type MatchRange = [number, number];
+
+/**
+ * A field of a hit with the ranges that matched the query
+ */
+export interface AppointmentSearchMatch {
+  field: AppointmentSearchField;
+  value: string;
+  ranges: MatchRange[];
+}
+
+/**
+ * An appointment found by the search, with its score and matched fields
+ */
+export interface AppointmentSearchHit {
+  appointment: PopulatedAppointment;
+  score: number;
+  matches: AppointmentSearchMatch[];
+}
+
+/**
+ * A word of a field value and where it sits in the value
+ */
+interface FieldWord {
+  text: string; // Lower-cased
+  start: number;
+}
+
+/**
+ * Lower-case a value and strip accents, keeping its length so ranges line up
+ */
+function normalize(value: string): string {
+  return value
+    .split('')
+    .map((char) => {
+      const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+      return plain.length === 1 ? plain : char;
+    })
+    .join('');
+}
+
+/**
+ * Split a normalized value into words (letters and digits)
+ */
+function splitWords(value: string): FieldWord[] {
+  return Array.from(value.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({ text: match[0], start: match.index ?? 0 }));
+}
+
+/**
+ * Most typos a query word of this length may have
+ */
+function getAllowedTypos(word: string): number {
+  if (word.length < MIN_FUZZY_WORD_LENGTH) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions and adjacent swaps)
+ * between two words, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+/**
+ * How well one query word matches a field value, and the matched range
+ *
+ * A whole word or word start scores highest, then a match inside the value,
+ * then a word within the allowed number of typos. Digits also match the
+ * phone number with its punctuation stripped.
+ * @returns The match quality (0-1) and range, or null if the word doesn't match
+ */
+function matchWord(
+  queryWord: string,
+  field: AppointmentSearchField,
+  value: string,
+  words: FieldWord[]
+): { quality: number; range: MatchRange } | null {
+  for (const word of words) {
+    if (word.text === queryWord) return { quality: 1, range: [word.start, word.start + word.text.length] };
+  }
+  for (const word of words) {
+    if (word.text.startsWith(queryWord)) return { quality: 0.9, range: [word.start, word.start + queryWord.length] };
+  }
+
+  const index = value.indexOf(queryWord);
+  if (index !== -1) return { quality: 0.7, range: [index, index + queryWord.length] };
+
+  if (field === 'phone' && /^\d+$/.test(queryWord)) {
+    const digitPositions = Array.from(value.matchAll(/\d/g), (match) => match.index ?? 0);
+    const digitIndex = digitPositions.map((position) => value[position]).join('').indexOf(queryWord);
+    if (digitIndex !== -1) {
+      return {
+        quality: 0.7,
+        range: [digitPositions[digitIndex], digitPositions[digitIndex + queryWord.length - 1] + 1],
+      };
+    }
+  }
+
+  const allowedTypos = getAllowedTypos(queryWord);
+  if (allowedTypos === 0 || field === 'id') return null;
+
+  let best: { quality: number; range: MatchRange } | null = null;
+  for (const word of words) {
+    // Also compare with the word's start, so a typo in a prefix still matches
+    const candidates = [word.text, word.text.slice(0, queryWord.length)];
+    for (const candidate of candidates) {
+      const distance = editDistance(queryWord, candidate, allowedTypos);
+      if (distance > allowedTypos) continue;
+      const quality = 0.5 - 0.15 * distance;
+      if (!best || quality > best.quality) {
+        best = { quality, range: [word.start, word.start + candidate.length] };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Merge overlapping or touching ranges, in order
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+/**
+ * Score an appointment against a query
+ *
+ * Every word of the query must match at least one field; each word counts
+ * its best match weighted by field (patient name and appointment ID count
+ * most, notes least).
+ * @returns The hit, or null if some word matches nothing
+ */
+export function scoreAppointment(appointment: PopulatedAppointment, query: string): AppointmentSearchHit | null {
+  const queryWords = splitWords(normalize(query)).map((word) => word.text);
+  if (queryWords.length === 0) return null;
+
+  const fields: Record<AppointmentSearchField, string> = {
+    patientName: appointment.patient.name,
+    email: appointment.patient.email,
+    phone: appointment.patient.phone,
+    notes: appointment.notes ?? '',
+    id: appointment.id,
+  };
+  const fieldNames = Object.keys(fields) as AppointmentSearchField[];
+  const normalized = fieldNames.map((field) => {
+    const value = normalize(fields[field]);
+    return { field, value, words: splitWords(value) };
+  });
+
+  // An exact appointment ID match beats everything else
+  const wholeQuery = normalize(query.trim());
+  if (wholeQuery === normalize(appointment.id)) {
+    return {
+      appointment,
+      score: FIELD_WEIGHTS.id * queryWords.length * 2,
+      matches: [{ field: 'id', value: appointment.id, ranges: [[0, appointment.id.length]] }],
+    };
+  }
+
+  const ranges = new Map<AppointmentSearchField, MatchRange[]>();
+  let score = 0;
+
+  for (const queryWord of queryWords) {
+    let bestScore = 0;
+    const wordRanges: Array<{ field: AppointmentSearchField; range: MatchRange }> = [];
+
+    for (const { field, value, words } of normalized) {
+      const match = matchWord(queryWord, field, value, words);
+      if (!match) continue;
+      wordRanges.push({ field, range: match.range });
+      bestScore = Math.max(bestScore, match.quality * FIELD_WEIGHTS[field]);
+    }
+
+    if (bestScore === 0) return null;
+    score += bestScore;
+    for (const { field, range } of wordRanges) {
+      ranges.set(field, [...(ranges.get(field) ?? []), range]);
+    }
+  }
+
+  const matches = fieldNames
+    .filter((field) => ranges.has(field))
+    .map((field) => ({ field, value: fields[field], ranges: mergeRanges(ranges.get(field) ?? []) }));
+
+  return { appointment, score, matches };
+}
+
+/**
+ * Search appointments and rank the hits
+ *
+ * Hits are ordered by score; equal scores put the appointment closest to
+ * `now` first, so the next visit comes before last year's.
+ */
+export function searchAppointments(
+  appointments: PopulatedAppointment[],
+  query: string,
+  now: Date = new Date()
+): AppointmentSearchHit[] {
+  const distanceFromNow = (hit: AppointmentSearchHit) =>
+    Math.abs(new Date(hit.appointment.startTime).getTime() - now.getTime());
+
+  return appointments
+    .map((appointment) => scoreAppointment(appointment, query))
+    .filter((hit): hit is AppointmentSearchHit => hit !== null)
+    .sort((a, b) => b.score - a.score || distanceFromNow(a) - distanceFromNow(b));
+}
+
+/**
+ * Split a value into plain and highlighted parts for display
+ */
+export function getHighlightParts(value: string, ranges: MatchRange[]): Array<{ text: string; highlighted: boolean }> {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push({ text: value.slice(position, start), highlighted: false });
+    parts.push({ text: value.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < value.length) parts.push({ text: value.slice(position), highlighted: false });
+  return parts;
+}
@@ -0,0 +1,153 @@
+/**
+ * Edits to single occurrences of a recurring series: the patient messages
+ * they queue and the slots they free, both against a local repository and
+ * through the HTTP adapter talking to the API route handlers in-process.
+ * Clinic time is America/New_York (pinned in vitest.config.ts).
+ */
+
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AppointmentSeries, OutboxMessage, Session } from '@/types';
+import { MOCK_DOCTORS, MOCK_PATIENTS } from '@/data/mockData';
+import { AppointmentService } from './appointmentService';
+import { addClinicDays, zonedDateTime } from './clinicTime';
+import { expandSeries, getOccurrenceId } from './recurrence';
+import { HttpAppointmentRepository, InMemoryAppointmentRepository } from './repositories';
+import { sessionToHeaders } from './session';
+
+const FRONT_DESK: Session = { name: 'Front Desk', role: 'front-desk' };
+
+type RouteHandler = (request: NextRequest, context: { params: { id: string } }) => Promise<Response>;
+type RouteModule = Partial<Record<'GET' | 'POST' | 'PUT' | 'DELETE', RouteHandler>>;
+
+/**
+ * API routes the tests go through, most specific first
+ */
+const ROUTES: Array<[RegExp, () => Promise<unknown>]> = [
+  [/^\/api\/appointments\/search$/, () => import('@/app/api/appointments/search/route')],
+  [/^\/api\/appointments\/([^/]+)$/, () => import('@/app/api/appointments/[id]/route')],
+  [/^\/api\/appointments$/, () => import('@/app/api/appointments/route')],
+  [/^\/api\/doctors\/([^/]+)$/, () => import('@/app/api/doctors/[id]/route')],
+  [/^\/api\/doctors$/, () => import('@/app/api/doctors/route')],
+  [/^\/api\/patients\/([^/]+)$/, () => import('@/app/api/patients/[id]/route')],
+  [/^\/api\/patients$/, () => import('@/app/api/patients/route')],
+  [/^\/api\/series\/([^/]+)$/, () => import('@/app/api/series/[id]/route')],
+  [/^\/api\/series$/, () => import('@/app/api/series/route')],
+  [/^\/api\/schedule-exceptions$/, () => import('@/app/api/schedule-exceptions/route')],
+  [/^\/api\/waitlist\/freed-slots$/, () => import('@/app/api/waitlist/freed-slots/route')],
+  [/^\/api\/waitlist$/, () => import('@/app/api/waitlist/route')],
+  [/^\/api\/notifications$/, () => import('@/app/api/notifications/route')],
+];
+
+/**
+ * Answer fetch calls with the API route handlers instead of the network
+ */
+async function fetchFromRoutes(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = new URL(String(input), 'http://localhost');
+  for (const [pattern, load] of ROUTES) {
+    const match = pattern.exec(url.pathname);
+    if (!match) continue;
+
+    const handler = ((await load()) as RouteModule)[(init?.method ?? 'GET') as keyof RouteModule];
+    if (!handler) return new Response(null, { status: 405 });
+    return handler(new NextRequest(url, init as ConstructorParameters<typeof NextRequest>[1]), {
+      params: { id: decodeURIComponent(match[1] ?? '') },
+    });
+  }
+  throw new Error(`No route for ${url.pathname}`);
+}
+
+/**
+ * Service talking to the API as the front desk
+ */
+function createHttpService(): AppointmentService {
+  vi.stubGlobal('fetch', fetchFromRoutes);
+  return new AppointmentService(new HttpAppointmentRepository('/api', () => sessionToHeaders(FRONT_DESK)), FRONT_DESK);
+}
+
+/**
+ * The seeded series' first occurrence more than a day ahead, as stored by the API
+ */
+async function getUpcomingOccurrence(service: AppointmentService, skip = 0) {
+  const [series] = await service.getSeries();
+  const from = addClinicDays(new Date(), 2);
+  return expandSeries(series, from, addClinicDays(from, 60))[skip];
+}
+
+/**
+ * Event and channel of each message, in a stable order
+ */
+function describeMessages(messages: OutboxMessage[]): string[] {
+  return messages.map((message) => `${message.event}:${message.channel}`).sort();
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('editing a series occurrence', () => {
+  it('tells the patient it moved rather than that it was booked', async () => {
+    const series: AppointmentSeries = {
+      id: 'ser-1',
+      patientId: MOCK_PATIENTS[0].id,
+      doctorId: MOCK_DOCTORS[0].id,
+      type: 'checkup',
+      startTime: zonedDateTime(2030, 1, 7, 10).toISOString(), // A Monday
+      endTime: zonedDateTime(2030, 1, 7, 10, 30).toISOString(),
+      rule: { frequency: 'weekly', interval: 1, count: 4 },
+      exceptionDates: [],
+    };
+    const repository = new InMemoryAppointmentRepository({
+      doctors: MOCK_DOCTORS,
+      patients: MOCK_PATIENTS,
+      appointments: [],
+      series: [series],
+    });
+    const service = new AppointmentService(repository);
+
+    const moved = await service.rescheduleAppointment(
+      getOccurrenceId('ser-1', '2030-01-14'),
+      zonedDateTime(2030, 1, 14, 11).toISOString(),
+      zonedDateTime(2030, 1, 14, 11, 30).toISOString()
+    );
+
+    expect(describeMessages(await repository.getOutboxMessages())).toEqual([
+      'reminder:email',
+      'reminder:sms',
+      'reminder:sms',
+      'rescheduled:email',
+      'rescheduled:sms',
+    ]);
+    expect((await repository.getOutboxMessages()).every((message) => message.appointmentId === moved.id)).toBe(true);
+  });
+
+  it('through the API, queues only reminders when the occurrence is confirmed', async () => {
+    const service = createHttpService();
+    const occurrence = await getUpcomingOccurrence(service);
+
+    const confirmed = await service.updateAppointmentStatus(occurrence.id, 'confirmed');
+
+    expect(confirmed.id).not.toBe(occurrence.id);
+    expect(confirmed).toMatchObject({ status: 'confirmed', occurrenceDate: occurrence.occurrenceDate });
+    const messages = await service.getNotifications({ appointmentId: confirmed.id });
+    expect(describeMessages(messages)).toEqual(['reminder:email', 'reminder:sms', 'reminder:sms']);
+  });
+});
+
+describe('deleting a series occurrence', () => {
+  it('through the API, offers the freed slot to the waitlist', async () => {
+    const service = createHttpService();
+    const occurrence = await getUpcomingOccurrence(service, 1);
+
+    await service.deleteAppointment(occurrence.id);
+
+    expect(await service.getAppointmentById(occurrence.id)).toBeUndefined();
+    expect(await service.getFreedSlots()).toContainEqual(
+      expect.objectContaining({
+        doctorId: occurrence.doctorId,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+      })
+    );
+  });
+});
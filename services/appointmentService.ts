@@ -12,27 +12,418 @@
  * 5. Think about how to structure this for testability
  */
 
-import type { Appointment, Doctor, Patient, PopulatedAppointment } from '@/types';
+import type {
+  Appointment,
+  AppointmentFilters,
+  AppointmentSeries,
+  AppointmentStatus,
+  AppointmentType,
+  CalendarConfig,
+  DayOfWeek,
+  Doctor,
+  FreedSlot,
+  NotificationEvent,
+  OutboxFilters,
+  OutboxMessage,
+  Patient,
+  PopulatedAppointment,
+  RecurrenceRule,
+  ScheduleException,
+  SeriesEditScope,
+  Session,
+  Specialty,
+  WaitlistEntry,
+  WorkingHours,
+} from '@/types';
+import { DEFAULT_CALENDAR_CONFIG } from '@/types';
 import {
-  MOCK_APPOINTMENTS,
-  MOCK_DOCTORS,
-  MOCK_PATIENTS,
-  getDoctorById,
-  getPatientById,
-} from '@/data/mockData';
+  AccessDeniedError,
+  AppointmentNotFoundError,
+  AppointmentValidationError,
+  FreedSlotNotFoundError,
+  ScheduleExceptionNotFoundError,
+  SeriesNotFoundError,
+  WaitlistEntryNotFoundError,
+} from './errors';
+import {
+  addClinicDays,
+  endOfClinicDay,
+  formatClinicTime,
+  getClinicDateKey,
+  getZonedDateParts,
+  parseClinicDateKey,
+  setClinicTime,
+  startOfClinicDay,
+} from './clinicTime';
+import {
+  countOccurrencesBefore,
+  endSeriesBefore,
+  expandSeries,
+  getOccurrenceDate,
+  getSeriesOccurrence,
+  isGeneratedOccurrence,
+  isSameOccurrence,
+  parseOccurrenceId,
+  validateRecurrenceRule,
+} from './recurrence';
+import {
+  SCHEDULE_EXCEPTION_KIND_LABELS,
+  exceptionRemovesTime,
+  getExceptionsOnDate,
+  getWorkingPeriods,
+  isWithinPeriods,
+  parseTimeToMinutes,
+  validateScheduleException,
+} from './scheduleExceptions';
+import { MAX_PATIENT_PAGE_SIZE, PATIENT_PAGE_SIZE, matchesPatientQuery } from './patients';
+import {
+  APPOINTMENT_SEARCH_LIMIT,
+  MAX_APPOINTMENT_SEARCH_LIMIT,
+  MIN_SEARCH_QUERY_LENGTH,
+  searchAppointments,
+  type AppointmentSearchHit,
+} from './appointmentSearch';
+import {
+  compareWaitlistEntries,
+  entryFitsSlot,
+  entryWantsDoctor,
+  getWaitlistDemandByDay,
+  getWaitlistDuration,
+  validateWaitlistEntry,
+} from './waitlist';
+import { computeAnalytics, type ClinicAnalytics } from './analytics';
+import { MAX_DELIVERY_ATTEMPTS, planNotifications, type NotificationTransports } from './notifications';
+import { canAccessDoctor, canViewPatientContact, maskEmail, maskPatientContact, maskPhone } from './session';
+import { createRepository, matchesAppointmentFilters, type AppointmentRepository } from './repositories';
+
+export {
+  AccessDeniedError,
+  AppointmentNotFoundError,
+  AppointmentValidationError,
+  AuthenticationRequiredError,
+  FreedSlotNotFoundError,
+  OutboxMessageNotFoundError,
+  RepositoryError,
+  ScheduleExceptionNotFoundError,
+  SeriesNotFoundError,
+  WaitlistEntryNotFoundError,
+} from './errors';
+export type { AppointmentValidationCode } from './errors';
+
+/**
+ * Input for booking a new appointment
+ */
+export interface CreateAppointmentInput {
+  patientId: string;
+  doctorId: string;
+  type: AppointmentType;
+  startTime: string;     // ISO datetime string
+  endTime: string;       // ISO datetime string
+  notes?: string;
+  seriesId?: string;        // Set when storing an edited occurrence of a series
+  occurrenceDate?: string;
+  notifyPatient?: boolean;  // False to book without queueing a confirmation or reminders; default true
+}
+
+/**
+ * Input for booking a recurring series
+ *
+ * `startTime` and `endTime` are those of the first occurrence.
+ */
+export interface CreateSeriesInput {
+  patientId: string;
+  doctorId: string;
+  type: AppointmentType;
+  startTime: string;
+  endTime: string;
+  notes?: string;
+  rule: RecurrenceRule;
+  exceptionDates?: string[]; // Occurrences to leave out
+}
+
+/**
+ * Occurrence of a series that can't be booked
+ */
+export interface SeriesOccurrenceConflict {
+  occurrence: Appointment;
+  code: 'outside-working-hours' | 'overlap';
+  message: string;
+  conflicts: Appointment[]; // Overlapping appointments, for 'overlap'
+}
+
+/**
+ * Occurrences a series would have (within the checked horizon) and which of them conflict
+ */
+export interface SeriesPreview {
+  occurrences: Appointment[];
+  conflicts: SeriesOccurrenceConflict[];
+}
+
+/**
+ * Result of creating or changing a series
+ *
+ * Conflicting occurrences are left out of the series as exception dates
+ * and reported in `skipped`.
+ */
+export interface SeriesChangeResult {
+  series: AppointmentSeries;
+  skipped: SeriesOccurrenceConflict[];
+}
+
+/**
+ * How far ahead occurrences of a series are checked for conflicts
+ * (series may repeat indefinitely)
+ */
+export const SERIES_CHECK_HORIZON_DAYS = 365;
+
+/**
+ * Input for adding a dated exception to a doctor's working hours
+ */
+export type CreateScheduleExceptionInput = Omit<ScheduleException, 'id'>;
+
+/**
+ * Result of adding (or previewing) a schedule exception
+ *
+ * `clashes` lists the active appointments in the time the exception takes
+ * away; they're kept as they are for staff to move or cancel.
+ */
+export interface ScheduleExceptionResult {
+  exception: ScheduleException;
+  clashes: Appointment[];
+}
+
+/**
+ * Input for putting a patient on the waitlist
+ */
+export type CreateWaitlistEntryInput = Omit<WaitlistEntry, 'id' | 'status' | 'createdAt' | 'appointmentId'>;
+
+/**
+ * Booking proposed to a waitlisted patient
+ */
+export interface WaitlistOffer {
+  entry: WaitlistEntry;
+  patient: Patient;
+  startTime: string;
+  endTime: string;     // startTime plus the type's default duration
+}
+
+/**
+ * A freed slot with its waitlist candidates, best first
+ */
+export interface FreedSlotOffers {
+  slot: FreedSlot;
+  doctor: Doctor;
+  offers: WaitlistOffer[];
+}
+
+/**
+ * Outcome of a delivery run
+ */
+export interface DeliveryReport {
+  sent: number;
+  failed: number;   // Failed attempts; messages are retried up to MAX_DELIVERY_ATTEMPTS times
+  expired: number;  // Cancelled because the appointment had already started
+}
+
+/**
+ * Options for searching the patient directory
+ */
+export interface PatientSearchOptions {
+  query?: string;    // Matched against name, email and phone
+  page?: number;     // 1-based
+  pageSize?: number;
+}
+
+/**
+ * One page of patient directory results
+ */
+export interface PatientPage {
+  patients: Patient[];
+  total: number;     // Matches across all pages
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * A patient's appointments split around the current time, populated for display
+ *
+ * Upcoming appointments are soonest first, past ones most recent first.
+ */
+export interface PatientHistory {
+  upcoming: PopulatedAppointment[];
+  past: PopulatedAppointment[];
+}
+
+/**
+ * Options for a global appointment search
+ */
+export interface AppointmentSearchOptions {
+  query: string;
+  limit?: number; // Most hits to return (default APPOINTMENT_SEARCH_LIMIT)
+}
+
+/**
+ * Range and doctors the analytics dashboard covers
+ */
+export interface AnalyticsOptions {
+  startDate: Date;       // Any time on the first clinic day
+  endDate: Date;         // Any time on the last clinic day
+  specialty?: Specialty; // Only doctors of this specialty
+}
+
+/**
+ * Allowed status transitions (the appointment lifecycle state machine)
+ *
+ * completed, cancelled and no-show are terminal.
+ */
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  'scheduled': ['confirmed', 'checked-in', 'cancelled', 'no-show'],
+  'confirmed': ['checked-in', 'cancelled', 'no-show'],
+  'checked-in': ['in-progress', 'cancelled'],
+  'in-progress': ['completed'],
+  'completed': [],
+  'cancelled': [],
+  'no-show': [],
+};
+
+/**
+ * Statuses in which an appointment can still be moved or resized
+ */
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed'];
+
+/**
+ * Statuses that no longer occupy the doctor's time
+ */
+const INACTIVE_STATUSES: AppointmentStatus[] = ['cancelled', 'no-show'];
+
+/**
+ * Check whether an appointment still occupies its time slot
+ */
+export function isActiveAppointment(appointment: Appointment): boolean {
+  return !INACTIVE_STATUSES.includes(appointment.status);
+}
 
 /**
  * AppointmentService class
  *
  * Provides methods to access and manipulate appointment data.
- * This is where you abstract data access from your components.
+ * Storage is delegated to an AppointmentRepository passed to the constructor,
+ * so the same business rules run against any adapter (or test fixtures).
+ *
+ * When a session is set, its role limits what can be read or changed:
+ * doctors only reach their own schedule and see masked patient contacts.
  */
 export class AppointmentService {
+  private readonly repository: AppointmentRepository;
+  private session: Session | null;
+  private listeners = new Set<() => void>();
+
+  constructor(repository: AppointmentRepository, session: Session | null = null) {
+    this.repository = repository;
+    this.session = session;
+  }
+
+  /**
+   * Get the session whose role rules are applied
+   */
+  getSession(): Session | null {
+    return this.session;
+  }
+
+  /**
+   * Change the signed-in user; subscribers refetch with the new role
+   */
+  setSession(session: Session | null): void {
+    this.session = session;
+    this.notify();
+  }
+
+  /**
+   * Subscribe to appointment changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify subscribers that appointment data changed
+   */
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Refuse access to another doctor's schedule for doctor sessions
+   * @throws AccessDeniedError
+   */
+  private assertDoctorAccess(doctorId: string): void {
+    if (!canAccessDoctor(this.session, doctorId)) {
+      throw new AccessDeniedError('Doctors can only access their own schedule');
+    }
+  }
+
+  /**
+   * Patient as the current session may see it
+   */
+  private toVisiblePatient(patient: Patient): Patient {
+    return canViewPatientContact(this.session) ? patient : maskPatientContact(patient);
+  }
+
+  /**
+   * Add the generated occurrences of recurring series to stored appointments
+   *
+   * Only filters with a date or a full date range are expanded, since a
+   * series may repeat indefinitely. Occurrences already in `stored` (the
+   * API expands series too) aren't added twice.
+   */
+  private async withSeriesOccurrences(
+    stored: Appointment[],
+    filters: AppointmentFilters
+  ): Promise<Appointment[]> {
+    const rangeStart = filters.date ? startOfClinicDay(filters.date) : filters.startDate;
+    const rangeEnd = filters.date ? endOfClinicDay(filters.date) : filters.endDate;
+    if (!rangeStart || !rangeEnd) return stored;
+
+    const allSeries = await this.repository.getSeries(filters.doctorId);
+    const storedIds = new Set(stored.map((appointment) => appointment.id));
+
+    const generated = allSeries
+      .flatMap((series) => expandSeries(series, rangeStart, rangeEnd))
+      .filter((occurrence) => !storedIds.has(occurrence.id) && matchesAppointmentFilters(occurrence, filters));
+
+    return generated.length > 0 ? [...stored, ...generated] : stored;
+  }
+
+  /**
+   * Get appointments matching a set of filters
+   *
+   * For doctor sessions, results are limited to the doctor's own appointments.
+   * Occurrences of recurring series are included when the filters have a
+   * date or date range.
+   * @throws AccessDeniedError if the filters name another doctor
+   */
+  async getAppointments(filters: AppointmentFilters = {}): Promise<Appointment[]> {
+    if (filters.doctorId) {
+      this.assertDoctorAccess(filters.doctorId);
+    } else if (this.session?.role === 'doctor') {
+      filters = { ...filters, doctorId: this.session.doctorId };
+    }
+    return this.withSeriesOccurrences(await this.repository.getAppointments(filters), filters);
+  }
+
   /**
-   * Get all appointments for a specific doctor
+   * Get all stored appointments for a specific doctor
+   *
+   * Series occurrences that weren't edited on their own aren't stored,
+   * so they're only returned by the date-based queries.
    */
-  getAppointmentsByDoctor(doctorId: string): Appointment[] {
-    return MOCK_APPOINTMENTS.filter((appointment) => appointment.doctorId === doctorId);
+  async getAppointmentsByDoctor(doctorId: string): Promise<Appointment[]> {
+    this.assertDoctorAccess(doctorId);
+    return this.repository.getAppointments({ doctorId });
   }
 
   /**
@@ -41,39 +432,61 @@ export class AppointmentService {
    * @param date - The date to filter by
    * @returns Array of appointments for that doctor on that date
    */
-  getAppointmentsByDoctorAndDate(doctorId: string, date: Date): Appointment[] {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    return MOCK_APPOINTMENTS.filter((appointment) => {
-      if (appointment.doctorId !== doctorId) return false;
-
-      const appointmentStart = new Date(appointment.startTime);
-      return appointmentStart >= startOfDay && appointmentStart <= endOfDay;
-    });
+  async getAppointmentsByDoctorAndDate(doctorId: string, date: Date): Promise<Appointment[]> {
+    this.assertDoctorAccess(doctorId);
+    const filters = { doctorId, date };
+    return this.withSeriesOccurrences(await this.repository.getAppointments(filters), filters);
   }
 
   /**
    * Get appointments for a specific doctor within a date range (for week view)
+   *
+   * Recurring series are expanded lazily: only occurrences starting within
+   * the range are generated.
    * @param doctorId - The doctor's ID
    * @param startDate - Start of the date range
    * @param endDate - End of the date range
    * @returns Array of appointments within the date range
    */
-  getAppointmentsByDoctorAndDateRange(
+  async getAppointmentsByDoctorAndDateRange(
     doctorId: string,
     startDate: Date,
     endDate: Date
-  ): Appointment[] {
-    return MOCK_APPOINTMENTS.filter((appointment) => {
-      if (appointment.doctorId !== doctorId) return false;
+  ): Promise<Appointment[]> {
+    this.assertDoctorAccess(doctorId);
+    const filters = { doctorId, startDate, endDate };
+    return this.withSeriesOccurrences(await this.repository.getAppointments(filters), filters);
+  }
 
-      const appointmentStart = new Date(appointment.startTime);
-      return appointmentStart >= startDate && appointmentStart <= endDate;
-    });
+  /**
+   * Get appointment by ID
+   *
+   * Accepts the IDs of generated series occurrences as well; an occurrence
+   * that was edited on its own resolves to the stored appointment.
+   */
+  async getAppointmentById(id: string): Promise<Appointment | undefined> {
+    const occurrenceId = parseOccurrenceId(id);
+    const appointment = occurrenceId
+      ? await this.getOccurrence(occurrenceId.seriesId, occurrenceId.occurrenceDate)
+      : await this.repository.getAppointmentById(id);
+
+    if (appointment) this.assertDoctorAccess(appointment.doctorId);
+    return appointment;
+  }
+
+  /**
+   * An occurrence of a series: the stored one if it was edited on its own,
+   * otherwise the generated one
+   */
+  private async getOccurrence(seriesId: string, occurrenceDate: string): Promise<Appointment | undefined> {
+    const series = await this.repository.getSeriesById(seriesId);
+    if (!series) return undefined;
+
+    if (series.exceptionDates.includes(occurrenceDate)) {
+      const edited = await this.repository.getAppointments({ seriesId });
+      return edited.find((appointment) => appointment.occurrenceDate === occurrenceDate);
+    }
+    return getSeriesOccurrence(series, occurrenceDate);
   }
 
   /**
@@ -81,9 +494,11 @@ export class AppointmentService {
    *
    * This is useful for display purposes where you need patient/doctor details
    */
-  getPopulatedAppointment(appointment: Appointment): PopulatedAppointment | null {
-    const patient = getPatientById(appointment.patientId);
-    const doctor = getDoctorById(appointment.doctorId);
+  async getPopulatedAppointment(appointment: Appointment): Promise<PopulatedAppointment | null> {
+    const [patient, doctor] = await Promise.all([
+      this.repository.getPatientById(appointment.patientId),
+      this.repository.getDoctorById(appointment.doctorId),
+    ]);
 
     if (!patient || !doctor) {
       return null;
@@ -91,72 +506,1483 @@ export class AppointmentService {
 
     return {
       ...appointment,
-      patient,
+      patient: this.toVisiblePatient(patient),
       doctor,
     };
   }
 
   /**
-   * Get all doctors
+   * Get populated appointments (with patient and doctor data)
+   *
+   * Loads doctors and patients once rather than per appointment.
+   */
+  async getPopulatedAppointments(appointments: Appointment[]): Promise<PopulatedAppointment[]> {
+    const [doctors, patients] = await Promise.all([
+      this.repository.getDoctors(),
+      this.repository.getPatients(),
+    ]);
+    const doctorsById = new Map(doctors.map((doctor) => [doctor.id, doctor]));
+    const patientsById = new Map(patients.map((patient) => [patient.id, patient]));
+
+    return appointments.flatMap((appointment) => {
+      const patient = patientsById.get(appointment.patientId);
+      const doctor = doctorsById.get(appointment.doctorId);
+      return patient && doctor ? [{ ...appointment, patient: this.toVisiblePatient(patient), doctor }] : [];
+    });
+  }
+
+  /**
+   * Get all doctors the session can access
    */
-  getAllDoctors(): Doctor[] {
-    return MOCK_DOCTORS;
+  async getAllDoctors(): Promise<Doctor[]> {
+    const doctors = await this.repository.getDoctors();
+    return doctors.filter((doctor) => canAccessDoctor(this.session, doctor.id));
   }
 
   /**
    * Get doctor by ID
+   * @throws AccessDeniedError if a doctor session asks for another doctor
    */
-  getDoctorById(id: string): Doctor | undefined {
-    return getDoctorById(id);
+  async getDoctorById(id: string): Promise<Doctor | undefined> {
+    this.assertDoctorAccess(id);
+    return this.repository.getDoctorById(id);
   }
 
   /**
-   * Sort appointments by start time
+   * Get all patients (contact details masked for doctor sessions)
    */
-  sortAppointmentsByTime(appointments: Appointment[]): Appointment[] {
-    return [...appointments].sort((a, b) => {
-      const timeA = new Date(a.startTime).getTime();
-      const timeB = new Date(b.startTime).getTime();
-      return timeA - timeB;
+  async getAllPatients(): Promise<Patient[]> {
+    const patients = await this.repository.getPatients();
+    return patients.map((patient) => this.toVisiblePatient(patient));
+  }
+
+  /**
+   * Get patient by ID (contact details masked for doctor sessions)
+   */
+  async getPatientById(id: string): Promise<Patient | undefined> {
+    const patient = await this.repository.getPatientById(id);
+    return patient && this.toVisiblePatient(patient);
+  }
+
+  /**
+   * Search patients by name, email or phone, a page at a time, sorted by name
+   *
+   * Doctor sessions search the masked contact details they can see.
+   */
+  async searchPatients(options: PatientSearchOptions = {}): Promise<PatientPage> {
+    const pageSize = Math.min(Math.max(1, Math.floor(options.pageSize ?? PATIENT_PAGE_SIZE)), MAX_PATIENT_PAGE_SIZE);
+    const query = options.query?.trim() ?? '';
+
+    const matches = (await this.getAllPatients())
+      .filter((patient) => !query || matchesPatientQuery(patient, query))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const pageCount = Math.max(1, Math.ceil(matches.length / pageSize));
+    const page = Math.min(Math.max(1, Math.floor(options.page ?? 1)), pageCount);
+
+    return {
+      patients: matches.slice((page - 1) * pageSize, page * pageSize),
+      total: matches.length,
+      page,
+      pageSize,
+    };
+  }
+
+  /**
+   * Get all of a patient's appointments, across doctors, in start order
+   *
+   * Includes occurrences of the patient's recurring series up to
+   * SERIES_CHECK_HORIZON_DAYS ahead. Doctor sessions only get their own
+   * appointments with the patient.
+   */
+  async getPatientAppointments(patientId: string, now: Date = new Date()): Promise<Appointment[]> {
+    const filters: AppointmentFilters = { patientId };
+    if (this.session?.role === 'doctor') filters.doctorId = this.session.doctorId;
+    return this.getAppointmentsUpToHorizon(filters, now);
+  }
+
+  /**
+   * Search appointments across all doctors and dates, best match first
+   *
+   * Looks at the patient's name, email and phone, the notes and the
+   * appointment ID, tolerating small typos. Covers stored appointments and
+   * series occurrences up to SERIES_CHECK_HORIZON_DAYS ahead; doctor
+   * sessions only search their own appointments, with the masked contact
+   * details they can see. Backends that search themselves (the API) do the
+   * ranking, so only the hits are downloaded.
+   */
+  async searchAppointments(options: AppointmentSearchOptions, now: Date = new Date()): Promise<AppointmentSearchHit[]> {
+    const query = options.query.trim();
+    if (query.length < MIN_SEARCH_QUERY_LENGTH) return [];
+    const limit = Math.min(
+      Math.max(1, Math.floor(options.limit ?? APPOINTMENT_SEARCH_LIMIT)),
+      MAX_APPOINTMENT_SEARCH_LIMIT
+    );
+
+    if (this.repository.searchAppointments) return this.repository.searchAppointments(query, limit);
+
+    const filters: AppointmentFilters = {};
+    if (this.session?.role === 'doctor') filters.doctorId = this.session.doctorId;
+
+    const appointments = await this.getPopulatedAppointments(await this.getAppointmentsUpToHorizon(filters, now));
+    return searchAppointments(appointments, query, now).slice(0, limit);
+  }
+
+  /**
+   * Get the stored appointments matching some filters plus the occurrences
+   * of matching series up to SERIES_CHECK_HORIZON_DAYS ahead, in start order
+   */
+  private async getAppointmentsUpToHorizon(filters: AppointmentFilters, now: Date): Promise<Appointment[]> {
+    const stored = await this.repository.getAppointments(filters);
+    const series = (await this.repository.getSeries(filters.doctorId)).filter(
+      (candidate) => !filters.patientId || candidate.patientId === filters.patientId
+    );
+    if (series.length === 0) return this.sortAppointmentsByTime(stored);
+
+    const firstStart = new Date(Math.min(...series.map((candidate) => new Date(candidate.startTime).getTime())));
+    const appointments = await this.withSeriesOccurrences(stored, {
+      ...filters,
+      startDate: startOfClinicDay(firstStart),
+      endDate: endOfClinicDay(addClinicDays(now, SERIES_CHECK_HORIZON_DAYS)),
     });
+    return this.sortAppointmentsByTime(appointments);
   }
 
   /**
-   * Check if two appointments overlap
+   * Get a patient's appointments as upcoming and past, populated for display
+   *
+   * An appointment is past once it has ended.
    */
-  appointmentsOverlap(apt1: Appointment, apt2: Appointment): boolean {
-    const start1 = new Date(apt1.startTime);
-    const end1 = new Date(apt1.endTime);
-    const start2 = new Date(apt2.startTime);
-    const end2 = new Date(apt2.endTime);
+  async getPatientHistory(patientId: string, now: Date = new Date()): Promise<PatientHistory> {
+    const appointments = await this.getPopulatedAppointments(await this.getPatientAppointments(patientId, now));
 
-    return start1 < end2 && start2 < end1;
+    const upcoming = appointments.filter((appointment) => new Date(appointment.endTime) > now);
+    const past = appointments.filter((appointment) => new Date(appointment.endTime) <= now).reverse();
+    return { upcoming, past };
   }
 
   /**
-   * Get appointments by type
+   * Get a doctor's weekly working hours for the clinic weekday of a given date
+   * (without dated exceptions; see getWorkingPeriodsForDate)
+   * @returns Working hours, or undefined if the doctor doesn't work that weekday
    */
-  getAppointmentsByType(appointments: Appointment[], type: string): Appointment[] {
-    return appointments.filter((appointment) => appointment.type === type);
+  getWorkingHoursForDate(doctor: Doctor, date: Date): WorkingHours | undefined {
+    const dayOfWeek = formatClinicTime(date, 'EEEE').toLowerCase() as DayOfWeek;
+    return doctor.workingHours[dayOfWeek];
   }
 
   /**
-   * Get populated appointments (with patient and doctor data)
+   * Get the periods a doctor works on the clinic day of a date, with the
+   * weekly hours adjusted by any absences, blocks and extra sessions
+   * @param exceptions - Schedule exceptions to apply (other doctors' are ignored)
+   * @returns Working periods, earliest first; empty if the doctor doesn't work that day
    */
-  getPopulatedAppointments(appointments: Appointment[]): PopulatedAppointment[] {
-    return appointments
-      .map((appointment) => this.getPopulatedAppointment(appointment))
-      .filter((appointment): appointment is PopulatedAppointment => appointment !== null);
+  getWorkingPeriodsForDate(doctor: Doctor, date: Date, exceptions: ScheduleException[] = []): WorkingHours[] {
+    return getWorkingPeriods(
+      this.getWorkingHoursForDate(doctor, date),
+      getExceptionsOnDate(exceptions, doctor.id, date)
+    );
   }
-}
 
-/**
- * Singleton instance (optional pattern)
- *
- * You can either:
- * 1. Export a singleton instance: export const appointmentService = new AppointmentService();
- * 2. Or let consumers create their own instances: new AppointmentService()
+  /**
+   * Check whether a time range falls entirely within one of a doctor's
+   * working periods that day (read on the clinic's wall clock)
+   * @param exceptions - Schedule exceptions to apply (other doctors' are ignored)
+   */
+  isWithinWorkingHours(doctor: Doctor, start: Date, end: Date, exceptions: ScheduleException[] = []): boolean {
+    return isWithinPeriods(this.getWorkingPeriodsForDate(doctor, start, exceptions), start, end);
+  }
+
+  /**
+   * Calendar configuration whose visible hours cover all of a doctor's working hours
+   *
+   * The range is widened to whole hours (e.g. 09:30-16:45 shows 9 AM-5 PM),
+   * and to any of the given extra sessions.
+   * Falls back to the base configuration if the doctor has no working hours.
+   */
+  getCalendarConfigForDoctor(
+    doctor: Doctor | undefined,
+    base: CalendarConfig = DEFAULT_CALENDAR_CONFIG,
+    exceptions: ScheduleException[] = []
+  ): CalendarConfig {
+    const schedules: { start?: string; end?: string }[] = doctor
+      ? [
+          ...Object.values(doctor.workingHours),
+          ...exceptions.filter((exception) => exception.doctorId === doctor.id && exception.kind === 'extra'),
+        ]
+      : [];
+    if (schedules.length === 0) return base;
+
+    const startMinutes = Math.min(...schedules.map((hours) => parseTimeToMinutes(hours.start!)));
+    const endMinutes = Math.max(...schedules.map((hours) => parseTimeToMinutes(hours.end!)));
+
+    return {
+      ...base,
+      startHour: Math.floor(startMinutes / 60),
+      endHour: Math.ceil(endMinutes / 60),
+    };
+  }
+
+  /**
+   * Explain why a doctor can't take a time range
+   *
+   * Names the absence or block in the way, if there is one.
+   */
+  private describeUnavailability(doctor: Doctor, start: Date, end: Date, exceptions: ScheduleException[]): string {
+    const blocking = exceptions.find(
+      (exception) => exception.doctorId === doctor.id && exceptionRemovesTime(exception, start, end)
+    );
+    if (!blocking) return `${doctor.name} is not working at that time`;
+    return `${doctor.name} is unavailable at that time (${blocking.reason ?? SCHEDULE_EXCEPTION_KIND_LABELS[blocking.kind]})`;
+  }
+
+  /**
+   * Find existing appointments of the same doctor that overlap the given one
+   *
+   * Cancelled and no-show appointments don't block the slot.
+   * The appointment itself (matched by id, or by series occurrence) is ignored, so this can be used
+   * to validate changes to an existing appointment as well as new bookings.
+   */
+  async getConflictingAppointments(appointment: Appointment): Promise<Appointment[]> {
+    const filters = { doctorId: appointment.doctorId, date: new Date(appointment.startTime) };
+    const sameDay = await this.withSeriesOccurrences(await this.repository.getAppointments(filters), filters);
+
+    return sameDay.filter(
+      (existing) =>
+        existing.id !== appointment.id &&
+        !isSameOccurrence(existing, appointment) &&
+        isActiveAppointment(existing) &&
+        this.appointmentsOverlap(existing, appointment)
+    );
+  }
+
+  /**
+   * Validate an appointment against doctor, patient, working hours and overlaps
+   * @throws AppointmentValidationError if the appointment can't be booked
+   */
+  async validateAppointment(appointment: Appointment): Promise<void> {
+    const start = new Date(appointment.startTime);
+    const end = new Date(appointment.endTime);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      throw new AppointmentValidationError('invalid-time', 'Appointment must end after it starts');
+    }
+
+    const [doctor, patient] = await Promise.all([
+      this.repository.getDoctorById(appointment.doctorId),
+      this.repository.getPatientById(appointment.patientId),
+    ]);
+
+    if (!doctor) {
+      throw new AppointmentValidationError('unknown-doctor', `Doctor ${appointment.doctorId} not found`);
+    }
+
+    if (!patient) {
+      throw new AppointmentValidationError('unknown-patient', `Patient ${appointment.patientId} not found`);
+    }
+
+    const exceptions = await this.repository.getScheduleExceptions(doctor.id);
+    if (!this.isWithinWorkingHours(doctor, start, end, exceptions)) {
+      throw new AppointmentValidationError(
+        'outside-working-hours',
+        this.describeUnavailability(doctor, start, end, exceptions)
+      );
+    }
+
+    const conflicts = await this.getConflictingAppointments(appointment);
+    if (conflicts.length > 0) {
+      throw new AppointmentValidationError(
+        'overlap',
+        `Overlaps with ${conflicts.length} existing appointment${conflicts.length !== 1 ? 's' : ''}`,
+        conflicts
+      );
+    }
+  }
+
+  /**
+   * Book a new appointment
+   * @throws AccessDeniedError if a doctor session books for another doctor
+   * @throws AppointmentValidationError if the booking is invalid
+   * @returns The created appointment
+   */
+  async createAppointment(input: CreateAppointmentInput): Promise<Appointment> {
+    const appointment: Omit<Appointment, 'id'> = {
+      patientId: input.patientId,
+      doctorId: input.doctorId,
+      type: input.type,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      notes: input.notes?.trim() || undefined,
+      status: 'scheduled',
+      ...(input.seriesId && { seriesId: input.seriesId, occurrenceDate: input.occurrenceDate }),
+    };
+
+    // Validate with a placeholder ID; the repository assigns the real one
+    this.assertDoctorAccess(appointment.doctorId);
+    if (appointment.seriesId && (!appointment.occurrenceDate || !(await this.repository.getSeriesById(appointment.seriesId)))) {
+      throw new AppointmentValidationError('invalid-recurrence', `Series ${appointment.seriesId} has no such occurrence`);
+    }
+    await this.validateAppointment({ ...appointment, id: '' });
+
+    const notifyPatient = input.notifyPatient !== false;
+    const created = await this.repository.createAppointment(appointment, { notify: notifyPatient });
+    await this.takeFreedSlots(created);
+    if (notifyPatient) await this.queueNotifications(created, 'booked');
+    this.notify();
+    return created;
+  }
+
+  /**
+   * Check whether an appointment may move from one status to another
+   */
+  canTransitionStatus(from: AppointmentStatus, to: AppointmentStatus): boolean {
+    return STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Get the statuses an appointment can move to next
+   */
+  getAllowedStatusTransitions(appointment: Appointment): AppointmentStatus[] {
+    return STATUS_TRANSITIONS[appointment.status];
+  }
+
+  /**
+   * Check whether an appointment can still be moved or resized
+   */
+  canRescheduleAppointment(appointment: Appointment): boolean {
+    return RESCHEDULABLE_STATUSES.includes(appointment.status);
+  }
+
+  /**
+   * Update an existing appointment
+   *
+   * Status changes must follow STATUS_TRANSITIONS. When the time, doctor or
+   * patient changes, the result is validated as a whole, so moving it onto
+   * another booking or outside working hours is rejected.
+   *
+   * Changing a generated series occurrence stores it as an appointment of
+   * its own, leaving the rest of the series as it was (see
+   * updateSeriesOccurrences for changing several occurrences).
+   * @throws AppointmentNotFoundError if no appointment has that ID
+   * @throws AccessDeniedError if a doctor session touches another doctor's appointment
+   * @throws AppointmentValidationError if the result is invalid
+   * @returns The updated appointment
+   */
+  async updateAppointment(id: string, changes: Partial<Omit<Appointment, 'id'>>): Promise<Appointment> {
+    const existing = await this.getAppointmentById(id);
+    if (!existing) {
+      throw new AppointmentNotFoundError(id);
+    }
+
+    const updated: Appointment = { ...existing, ...changes, id };
+    this.assertDoctorAccess(updated.doctorId);
+
+    if (updated.status !== existing.status && !this.canTransitionStatus(existing.status, updated.status)) {
+      throw new AppointmentValidationError(
+        'invalid-transition',
+        `Can't change a ${existing.status} appointment to ${updated.status}`
+      );
+    }
+
+    const bookingChanged =
+      updated.startTime !== existing.startTime ||
+      updated.endTime !== existing.endTime ||
+      updated.doctorId !== existing.doctorId ||
+      updated.patientId !== existing.patientId;
+
+    if (bookingChanged) {
+      if (!RESCHEDULABLE_STATUSES.includes(existing.status)) {
+        throw new AppointmentValidationError(
+          'not-editable',
+          `A ${existing.status} appointment can't be rescheduled`
+        );
+      }
+      await this.validateAppointment(updated);
+    }
+
+    const saved = isGeneratedOccurrence(existing) && !this.repository.editsOccurrences
+      ? await this.storeEditedOccurrence(updated)
+      : await this.repository.updateAppointment(updated);
+    if (bookingChanged || !isActiveAppointment(updated)) await this.recordFreedSlot(existing);
+    await this.queueNotifications(
+      saved,
+      saved.status === 'cancelled' && existing.status !== 'cancelled' ? 'cancelled' : bookingChanged ? 'rescheduled' : null
+    );
+    this.notify();
+    return saved;
+  }
+
+  /**
+   * Store a changed series occurrence as an appointment of its own and
+   * leave its date out of the series
+   */
+  private async storeEditedOccurrence(occurrence: Appointment): Promise<Appointment> {
+    const series = await this.requireSeries(occurrence.seriesId!);
+
+    // Stored as scheduled (like any new booking), then moved to the new
+    // status; the caller queues the messages the edit calls for
+    let stored = await this.repository.createAppointment({
+      patientId: occurrence.patientId,
+      doctorId: occurrence.doctorId,
+      type: occurrence.type,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      notes: occurrence.notes,
+      status: 'scheduled',
+      seriesId: occurrence.seriesId,
+      occurrenceDate: occurrence.occurrenceDate,
+    }, { notify: false });
+    if (occurrence.status !== stored.status) {
+      stored = await this.repository.updateAppointment({ ...stored, status: occurrence.status });
+    }
+
+    await this.repository.updateSeries({
+      ...series,
+      exceptionDates: [...series.exceptionDates, occurrence.occurrenceDate!],
+    });
+    return stored;
+  }
+
+  /**
+   * Move an appointment to a new time range (drag, resize or keyboard move)
+   * @param doctorId - Reassign the appointment to this doctor as well
+   * @throws AppointmentValidationError if the new time or doctor is invalid
+   */
+  async rescheduleAppointment(
+    id: string,
+    startTime: string,
+    endTime: string,
+    doctorId?: string
+  ): Promise<Appointment> {
+    return this.updateAppointment(id, doctorId ? { startTime, endTime, doctorId } : { startTime, endTime });
+  }
+
+  /**
+   * Move an appointment to a new status
+   * @throws AppointmentValidationError if the transition isn't allowed
+   */
+  async updateAppointmentStatus(id: string, status: AppointmentStatus): Promise<Appointment> {
+    return this.updateAppointment(id, { status });
+  }
+
+  /**
+   * Permanently remove an appointment
+   *
+   * Prefer cancelling; deletion is for correcting mistakes. Removing a
+   * series occurrence leaves the rest of the series as it was.
+   * @throws AppointmentNotFoundError if no appointment has that ID
+   * @throws AccessDeniedError if a doctor session deletes another doctor's appointment
+   */
+  async deleteAppointment(id: string): Promise<void> {
+    const existing = await this.getAppointmentById(id);
+
+    if (existing && isGeneratedOccurrence(existing) && !this.repository.editsOccurrences) {
+      const series = await this.requireSeries(existing.seriesId!);
+      await this.repository.updateSeries({
+        ...series,
+        exceptionDates: [...series.exceptionDates, existing.occurrenceDate!],
+      });
+    } else {
+      // Edited occurrences are already left out of their series; the API
+      // takes generated ones and frees their slot on the server
+      await this.repository.deleteAppointment(existing?.id ?? id);
+    }
+    if (existing) {
+      await this.recordFreedSlot(existing);
+      await this.queueNotifications({ ...existing, status: 'cancelled' }, 'cancelled');
+    }
+    this.notify();
+  }
+
+  /**
+   * Get the recurring series the session can access, optionally of one doctor
+   */
+  async getSeries(doctorId?: string): Promise<AppointmentSeries[]> {
+    if (doctorId) {
+      this.assertDoctorAccess(doctorId);
+    } else if (this.session?.role === 'doctor') {
+      doctorId = this.session.doctorId;
+    }
+    return this.repository.getSeries(doctorId);
+  }
+
+  /**
+   * Get a recurring series by ID
+   */
+  async getSeriesById(id: string): Promise<AppointmentSeries | undefined> {
+    const series = await this.repository.getSeriesById(id);
+    if (series) this.assertDoctorAccess(series.doctorId);
+    return series;
+  }
+
+  /**
+   * Get a series that must exist
+   * @throws SeriesNotFoundError
+   */
+  private async requireSeries(id: string): Promise<AppointmentSeries> {
+    const series = await this.getSeriesById(id);
+    if (!series) {
+      throw new SeriesNotFoundError(id);
+    }
+    return series;
+  }
+
+  /**
+   * Validate a series and find its occurrences that can't be booked
+   *
+   * Occurrences are checked from `from` up to SERIES_CHECK_HORIZON_DAYS
+   * later, against working hours and every active appointment of the
+   * doctor except those of `replacesSeriesId` (the series being changed).
+   * @throws AppointmentValidationError if the times, rule, doctor or patient are invalid
+   */
+  private async checkSeries(
+    series: Omit<AppointmentSeries, 'id'> & { id?: string },
+    from: Date,
+    replacesSeriesId?: string
+  ): Promise<SeriesPreview> {
+    const start = new Date(series.startTime);
+    const end = new Date(series.endTime);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      throw new AppointmentValidationError('invalid-time', 'Appointment must end after it starts');
+    }
+
+    const ruleError = validateRecurrenceRule(series.rule, start);
+    if (ruleError) {
+      throw new AppointmentValidationError('invalid-recurrence', ruleError);
+    }
+
+    const [doctor, patient] = await Promise.all([
+      this.repository.getDoctorById(series.doctorId),
+      this.repository.getPatientById(series.patientId),
+    ]);
+
+    if (!doctor) {
+      throw new AppointmentValidationError('unknown-doctor', `Doctor ${series.doctorId} not found`);
+    }
+
+    if (!patient) {
+      throw new AppointmentValidationError('unknown-patient', `Patient ${series.patientId} not found`);
+    }
+
+    const occurrences = expandSeries(
+      { ...series, id: series.id ?? '' },
+      from,
+      addClinicDays(from, SERIES_CHECK_HORIZON_DAYS)
+    );
+    if (occurrences.length === 0) return { occurrences, conflicts: [] };
+
+    // One query for the whole span rather than one per occurrence
+    const filters = {
+      doctorId: series.doctorId,
+      startDate: startOfClinicDay(new Date(occurrences[0].startTime)),
+      endDate: new Date(occurrences[occurrences.length - 1].endTime),
+    };
+    const [booked, exceptions] = await Promise.all([
+      this.repository.getAppointments(filters).then((stored) => this.withSeriesOccurrences(stored, filters)),
+      this.repository.getScheduleExceptions(doctor.id),
+    ]);
+    const active = booked.filter(
+      (appointment) =>
+        isActiveAppointment(appointment) &&
+        (!replacesSeriesId || appointment.seriesId !== replacesSeriesId)
+    );
+
+    const conflicts: SeriesOccurrenceConflict[] = [];
+    occurrences.forEach((occurrence) => {
+      const occurrenceStart = new Date(occurrence.startTime);
+      const occurrenceEnd = new Date(occurrence.endTime);
+      if (!this.isWithinWorkingHours(doctor, occurrenceStart, occurrenceEnd, exceptions)) {
+        conflicts.push({
+          occurrence,
+          code: 'outside-working-hours',
+          message: this.describeUnavailability(doctor, occurrenceStart, occurrenceEnd, exceptions),
+          conflicts: [],
+        });
+        return;
+      }
+
+      const overlapping = active.filter((appointment) => this.appointmentsOverlap(appointment, occurrence));
+      if (overlapping.length > 0) {
+        conflicts.push({
+          occurrence,
+          code: 'overlap',
+          message: `Overlaps with ${overlapping.length} existing appointment${overlapping.length !== 1 ? 's' : ''}`,
+          conflicts: overlapping,
+        });
+      }
+    });
+
+    return { occurrences, conflicts };
+  }
+
+  /**
+   * Leave conflicting occurrences out of a series
+   * @throws AppointmentValidationError if no checked occurrence can be booked
+   */
+  private skipConflicts<T extends Omit<AppointmentSeries, 'id'>>(series: T, { occurrences, conflicts }: SeriesPreview): T {
+    if (occurrences.length > 0 && conflicts.length === occurrences.length) {
+      throw new AppointmentValidationError(
+        'invalid-recurrence',
+        `None of the ${occurrences.length} occurrences can be booked`,
+        conflicts.flatMap((conflict) => conflict.conflicts)
+      );
+    }
+
+    return {
+      ...series,
+      exceptionDates: [...series.exceptionDates, ...conflicts.map((conflict) => conflict.occurrence.occurrenceDate!)],
+    };
+  }
+
+  /**
+   * Series described by booking input, with notes trimmed
+   */
+  private toSeries(input: CreateSeriesInput): Omit<AppointmentSeries, 'id'> {
+    return {
+      patientId: input.patientId,
+      doctorId: input.doctorId,
+      type: input.type,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      notes: input.notes?.trim() || undefined,
+      rule: input.rule,
+      exceptionDates: input.exceptionDates ?? [],
+    };
+  }
+
+  /**
+   * List the occurrences a new series would have and which of them conflict,
+   * without booking anything
+   * @throws AppointmentValidationError if the series itself is invalid
+   */
+  async previewSeries(input: CreateSeriesInput): Promise<SeriesPreview> {
+    this.assertDoctorAccess(input.doctorId);
+    return this.checkSeries(this.toSeries(input), new Date(input.startTime));
+  }
+
+  /**
+   * Book a recurring series
+   *
+   * Occurrences that fall outside working hours or overlap other bookings
+   * are left out and reported; occurrences beyond SERIES_CHECK_HORIZON_DAYS
+   * aren't checked.
+   * @throws AccessDeniedError if a doctor session books for another doctor
+   * @throws AppointmentValidationError if the series is invalid or no occurrence can be booked
+   */
+  async createSeries(input: CreateSeriesInput): Promise<SeriesChangeResult> {
+    const series = this.toSeries(input);
+    this.assertDoctorAccess(series.doctorId);
+
+    const preview = await this.checkSeries(series, new Date(series.startTime));
+    const created = await this.repository.createSeries(this.skipConflicts(series, preview));
+    this.notify();
+    return { series: created, skipped: preview.conflicts };
+  }
+
+  /**
+   * Change every occurrence of a series
+   *
+   * When the time, doctor, patient or rule changes, upcoming occurrences
+   * are checked again and conflicting ones are left out and reported.
+   * Occurrences edited on their own keep their edits.
+   * @throws SeriesNotFoundError if no series has that ID
+   * @throws AppointmentValidationError if the result is invalid
+   */
+  async updateSeries(id: string, changes: Partial<Omit<AppointmentSeries, 'id'>>): Promise<SeriesChangeResult> {
+    const existing = await this.requireSeries(id);
+    const updated: AppointmentSeries = { ...existing, ...changes, id };
+    this.assertDoctorAccess(updated.doctorId);
+
+    const bookingChanged =
+      updated.startTime !== existing.startTime ||
+      updated.endTime !== existing.endTime ||
+      updated.doctorId !== existing.doctorId ||
+      updated.patientId !== existing.patientId ||
+      JSON.stringify(updated.rule) !== JSON.stringify(existing.rule);
+
+    let skipped: SeriesOccurrenceConflict[] = [];
+    let toSave = updated;
+    if (bookingChanged) {
+      const from = new Date(Math.max(new Date(updated.startTime).getTime(), startOfClinicDay(new Date()).getTime()));
+      const preview = await this.checkSeries(updated, from, id);
+      skipped = preview.conflicts;
+      toSave = this.skipConflicts(updated, preview);
+    }
+
+    const saved = await this.repository.updateSeries(toSave);
+    this.notify();
+    return { series: saved, skipped };
+  }
+
+  /**
+   * Remove a series with its edited occurrences
+   *
+   * Edited occurrences that already happened (checked in, completed, no-show,
+   * cancelled...) are kept as a record.
+   * @throws SeriesNotFoundError if no series has that ID
+   */
+  async deleteSeries(id: string): Promise<void> {
+    await this.requireSeries(id);
+    await this.deleteEditedOccurrences(id);
+    await this.repository.deleteSeries(id);
+    this.notify();
+  }
+
+  /**
+   * Delete the still reschedulable edited occurrences of a series,
+   * optionally only from a clinic date on
+   */
+  private async deleteEditedOccurrences(seriesId: string, fromDate?: string): Promise<void> {
+    const edited = await this.repository.getAppointments({ seriesId });
+    await Promise.all(
+      edited
+        .filter((appointment) => RESCHEDULABLE_STATUSES.includes(appointment.status))
+        .filter((appointment) => !fromDate || appointment.occurrenceDate! >= fromDate)
+        .map((appointment) => this.repository.deleteAppointment(appointment.id))
+    );
+  }
+
+  /**
+   * Get an occurrence and its series for a series-wide change
+   * @throws AppointmentNotFoundError if no appointment has that ID
+   * @throws AppointmentValidationError if the appointment isn't part of a series
+   */
+  private async getOccurrenceWithSeries(id: string): Promise<{ occurrence: Appointment; series: AppointmentSeries }> {
+    const occurrence = await this.getAppointmentById(id);
+    if (!occurrence) {
+      throw new AppointmentNotFoundError(id);
+    }
+    if (!occurrence.seriesId || !occurrence.occurrenceDate) {
+      throw new AppointmentValidationError('invalid-recurrence', 'This appointment is not part of a series');
+    }
+    return { occurrence, series: await this.requireSeries(occurrence.seriesId) };
+  }
+
+  /**
+   * Series fields for changes made through one of its occurrences
+   *
+   * A new time keeps each occurrence on its own day: the series takes the
+   * new clinic time of day and length.
+   * @throws AppointmentValidationError for changes that only make sense for one occurrence
+   */
+  private toSeriesChanges(
+    series: AppointmentSeries,
+    occurrence: Appointment,
+    changes: Partial<Omit<Appointment, 'id'>>
+  ): Partial<Omit<AppointmentSeries, 'id'>> {
+    if (changes.status !== undefined && changes.status !== occurrence.status) {
+      throw new AppointmentValidationError('invalid-recurrence', 'Status changes apply to one occurrence at a time');
+    }
+
+    const seriesChanges: Partial<Omit<AppointmentSeries, 'id'>> = {};
+    if (changes.patientId !== undefined) seriesChanges.patientId = changes.patientId;
+    if (changes.doctorId !== undefined) seriesChanges.doctorId = changes.doctorId;
+    if (changes.type !== undefined) seriesChanges.type = changes.type;
+    if (changes.notes !== undefined) seriesChanges.notes = changes.notes.trim() || undefined;
+
+    if (changes.startTime !== undefined || changes.endTime !== undefined) {
+      const start = new Date(changes.startTime ?? occurrence.startTime);
+      const end = new Date(changes.endTime ?? occurrence.endTime);
+
+      if (getOccurrenceDate(start) !== occurrence.occurrenceDate) {
+        throw new AppointmentValidationError(
+          'invalid-recurrence',
+          'Only a single occurrence can be moved to another day'
+        );
+      }
+
+      const { hour, minute } = getZonedDateParts(start);
+      const seriesStart = setClinicTime(new Date(series.startTime), hour, minute);
+      seriesChanges.startTime = seriesStart.toISOString();
+      seriesChanges.endTime = new Date(seriesStart.getTime() + end.getTime() - start.getTime()).toISOString();
+    }
+
+    return seriesChanges;
+  }
+
+  /**
+   * Change an occurrence together with the following ones, or the whole series
+   *
+   * 'following' ends the series before the occurrence and starts a new one
+   * from it with the changes; edited occurrences from that date move to the
+   * new series. Conflicting occurrences are left out and reported.
+   * @throws AppointmentValidationError if the change is invalid (e.g. moving to another day)
+   */
+  async updateSeriesOccurrences(
+    id: string,
+    changes: Partial<Omit<Appointment, 'id'>>,
+    scope: Exclude<SeriesEditScope, 'this'>
+  ): Promise<SeriesChangeResult> {
+    const { occurrence, series } = await this.getOccurrenceWithSeries(id);
+    const seriesChanges = this.toSeriesChanges(series, occurrence, changes);
+    const occurrenceDate = occurrence.occurrenceDate!;
+
+    if (scope === 'all' || occurrenceDate <= getOccurrenceDate(new Date(series.startTime))) {
+      return this.updateSeries(series.id, seriesChanges);
+    }
+
+    const changed = { ...series, ...seriesChanges };
+    this.assertDoctorAccess(changed.doctorId);
+
+    // The new series starts on the occurrence's day at the (new) series time
+    const { hour, minute } = getZonedDateParts(new Date(changed.startTime));
+    const start = parseClinicDateKey(occurrenceDate, hour, minute);
+    const duration = new Date(changed.endTime).getTime() - new Date(changed.startTime).getTime();
+
+    const following: Omit<AppointmentSeries, 'id'> = {
+      patientId: changed.patientId,
+      doctorId: changed.doctorId,
+      type: changed.type,
+      startTime: start.toISOString(),
+      endTime: new Date(start.getTime() + duration).toISOString(),
+      notes: changed.notes,
+      rule: {
+        ...series.rule,
+        count: series.rule.count !== undefined ? series.rule.count - countOccurrencesBefore(series, occurrenceDate) : undefined,
+      },
+      exceptionDates: series.exceptionDates.filter((date) => date >= occurrenceDate),
+    };
+
+    const from = new Date(Math.max(start.getTime(), startOfClinicDay(new Date()).getTime()));
+    const preview = await this.checkSeries(following, from, series.id);
+
+    // End the original first so the new occurrences don't collide with it
+    await this.repository.updateSeries(endSeriesBefore(series, occurrenceDate));
+    let created: AppointmentSeries;
+    try {
+      created = await this.repository.createSeries(this.skipConflicts(following, preview));
+    } catch (err) {
+      await this.repository.updateSeries(series);
+      throw err;
+    }
+
+    const edited = await this.repository.getAppointments({ seriesId: series.id });
+    await Promise.all(
+      edited
+        .filter((appointment) => appointment.occurrenceDate! >= occurrenceDate)
+        .map((appointment) => this.repository.updateAppointment({ ...appointment, seriesId: created.id }))
+    );
+
+    this.notify();
+    return { series: created, skipped: preview.conflicts };
+  }
+
+  /**
+   * Remove an occurrence together with the following ones, or the whole series
+   * @throws AppointmentNotFoundError if no appointment has that ID
+   */
+  async deleteSeriesOccurrences(id: string, scope: Exclude<SeriesEditScope, 'this'>): Promise<void> {
+    const { occurrence, series } = await this.getOccurrenceWithSeries(id);
+    const occurrenceDate = occurrence.occurrenceDate!;
+
+    if (scope === 'all' || occurrenceDate <= getOccurrenceDate(new Date(series.startTime))) {
+      return this.deleteSeries(series.id);
+    }
+
+    await this.repository.updateSeries(endSeriesBefore(series, occurrenceDate));
+    await this.deleteEditedOccurrences(series.id, occurrenceDate);
+    this.notify();
+  }
+
+  /**
+   * Get the schedule exceptions the session can access, optionally of one
+   * doctor and only those overlapping a date range
+   */
+  async getScheduleExceptions(doctorId?: string, startDate?: Date, endDate?: Date): Promise<ScheduleException[]> {
+    if (doctorId) {
+      this.assertDoctorAccess(doctorId);
+    } else if (this.session?.role === 'doctor') {
+      doctorId = this.session.doctorId;
+    }
+
+    const exceptions = await this.repository.getScheduleExceptions(doctorId);
+    const visible = exceptions.filter((exception) => canAccessDoctor(this.session, exception.doctorId));
+    if (!startDate || !endDate) return visible;
+
+    const startKey = getClinicDateKey(startDate);
+    const endKey = getClinicDateKey(endDate);
+    return visible.filter((exception) => exception.startDate <= endKey && exception.endDate >= startKey);
+  }
+
+  /**
+   * Get a schedule exception by ID
+   */
+  async getScheduleExceptionById(id: string): Promise<ScheduleException | undefined> {
+    const exception = await this.repository.getScheduleExceptionById(id);
+    if (exception) this.assertDoctorAccess(exception.doctorId);
+    return exception;
+  }
+
+  /**
+   * Validate a schedule exception and find the active appointments in the
+   * time it takes away
+   * @throws AppointmentValidationError if the exception or its doctor is invalid
+   */
+  private async checkScheduleException(
+    exception: CreateScheduleExceptionInput
+  ): Promise<{ exception: CreateScheduleExceptionInput; clashes: Appointment[] }> {
+    const normalized: CreateScheduleExceptionInput = {
+      doctorId: exception.doctorId,
+      kind: exception.kind,
+      startDate: exception.startDate,
+      endDate: exception.endDate,
+      ...(exception.kind !== 'absence' && { start: exception.start, end: exception.end }),
+      reason: exception.reason?.trim() || undefined,
+    };
+
+    const problem = validateScheduleException(normalized);
+    if (problem) {
+      throw new AppointmentValidationError('invalid-schedule-exception', problem);
+    }
+
+    const doctor = await this.repository.getDoctorById(normalized.doctorId);
+    if (!doctor) {
+      throw new AppointmentValidationError('unknown-doctor', `Doctor ${normalized.doctorId} not found`);
+    }
+
+    if (normalized.kind === 'extra') return { exception: normalized, clashes: [] };
+
+    const filters = {
+      doctorId: doctor.id,
+      startDate: parseClinicDateKey(normalized.startDate),
+      endDate: endOfClinicDay(parseClinicDateKey(normalized.endDate)),
+    };
+    const booked = await this.withSeriesOccurrences(await this.repository.getAppointments(filters), filters);
+
+    const candidate: ScheduleException = { ...normalized, id: '' };
+    const clashes = booked.filter(
+      (appointment) =>
+        isActiveAppointment(appointment) &&
+        exceptionRemovesTime(candidate, new Date(appointment.startTime), new Date(appointment.endTime))
+    );
+    return { exception: normalized, clashes: this.sortAppointmentsByTime(clashes) };
+  }
+
+  /**
+   * List the appointments a new schedule exception would clash with, without saving it
+   * @throws AppointmentValidationError if the exception is invalid
+   */
+  async previewScheduleException(input: CreateScheduleExceptionInput): Promise<Appointment[]> {
+    this.assertDoctorAccess(input.doctorId);
+    const { clashes } = await this.checkScheduleException(input);
+    return clashes;
+  }
+
+  /**
+   * Add a dated absence, block or extra session to a doctor's working hours
+   *
+   * Appointments already booked in time that's taken away are kept and
+   * returned as clashes for staff to move or cancel.
+   * @throws AccessDeniedError if a doctor session changes another doctor's hours
+   * @throws AppointmentValidationError if the exception is invalid
+   */
+  async addScheduleException(input: CreateScheduleExceptionInput): Promise<ScheduleExceptionResult> {
+    this.assertDoctorAccess(input.doctorId);
+    const { exception, clashes } = await this.checkScheduleException(input);
+
+    const created = await this.repository.createScheduleException(exception);
+    this.notify();
+    return { exception: created, clashes };
+  }
+
+  /**
+   * Remove a schedule exception, restoring the weekly hours on its days
+   * @throws ScheduleExceptionNotFoundError if no exception has that ID
+   */
+  async deleteScheduleException(id: string): Promise<void> {
+    const exception = await this.getScheduleExceptionById(id);
+    if (!exception) {
+      throw new ScheduleExceptionNotFoundError(id);
+    }
+
+    await this.repository.deleteScheduleException(id);
+    this.notify();
+  }
+
+  /**
+   * Check whether the session may see a waitlist entry: doctor sessions see
+   * the entries that would take a slot with them
+   */
+  private async canSeeWaitlistEntry(entry: WaitlistEntry): Promise<boolean> {
+    if (this.session?.role !== 'doctor') return true;
+    const doctor = this.session.doctorId && (await this.repository.getDoctorById(this.session.doctorId));
+    return Boolean(doctor && entryWantsDoctor(entry, doctor));
+  }
+
+  /**
+   * Get the waitlist, most urgent first (see compareWaitlistEntries)
+   * @param includeBooked - Also return entries already booked from an offer
+   */
+  async getWaitlist(includeBooked = false): Promise<WaitlistEntry[]> {
+    const entries = await this.repository.getWaitlistEntries();
+    const visible: WaitlistEntry[] = [];
+    for (const entry of entries) {
+      if ((includeBooked || entry.status === 'waiting') && (await this.canSeeWaitlistEntry(entry))) {
+        visible.push(entry);
+      }
+    }
+    return visible.sort(compareWaitlistEntries);
+  }
+
+  /**
+   * Get a waitlist entry by ID
+   * @throws AccessDeniedError if a doctor session reads an entry for another doctor
+   */
+  async getWaitlistEntryById(id: string): Promise<WaitlistEntry | undefined> {
+    const entry = await this.repository.getWaitlistEntryById(id);
+    if (entry && !(await this.canSeeWaitlistEntry(entry))) {
+      throw new AccessDeniedError('This waitlist entry is for another doctor');
+    }
+    return entry;
+  }
+
+  /**
+   * Validate a waitlist entry's fields, patient and doctor
+   * @throws AppointmentValidationError if the entry is invalid
+   */
+  private async checkWaitlistEntry(entry: Omit<WaitlistEntry, 'id'>): Promise<void> {
+    const problem = validateWaitlistEntry(entry);
+    if (problem) {
+      throw new AppointmentValidationError('invalid-waitlist-entry', problem);
+    }
+
+    if (!(await this.repository.getPatientById(entry.patientId))) {
+      throw new AppointmentValidationError('unknown-patient', `Patient ${entry.patientId} not found`);
+    }
+    if (entry.doctorId) {
+      this.assertDoctorAccess(entry.doctorId);
+      if (!(await this.repository.getDoctorById(entry.doctorId))) {
+        throw new AppointmentValidationError('unknown-doctor', `Doctor ${entry.doctorId} not found`);
+      }
+    }
+  }
+
+  /**
+   * Put a patient on the waitlist
+   * @throws AppointmentValidationError if the entry is invalid
+   */
+  async addWaitlistEntry(input: CreateWaitlistEntryInput, now: Date = new Date()): Promise<WaitlistEntry> {
+    const entry: Omit<WaitlistEntry, 'id'> = {
+      patientId: input.patientId,
+      ...(input.doctorId ? { doctorId: input.doctorId } : input.specialty && { specialty: input.specialty }),
+      type: input.type,
+      earliestDate: input.earliestDate,
+      latestDate: input.latestDate,
+      priority: input.priority,
+      status: 'waiting',
+      createdAt: now.toISOString(),
+      notes: input.notes?.trim() || undefined,
+    };
+    await this.checkWaitlistEntry(entry);
+
+    const created = await this.repository.createWaitlistEntry(entry);
+    this.notify();
+    return created;
+  }
+
+  /**
+   * Change a waitlist entry (e.g. its priority or dates, or mark it booked)
+   * @throws WaitlistEntryNotFoundError if no entry has that ID
+   * @throws AppointmentValidationError if the result is invalid
+   */
+  async updateWaitlistEntry(id: string, changes: Partial<Omit<WaitlistEntry, 'id'>>): Promise<WaitlistEntry> {
+    const existing = await this.getWaitlistEntryById(id);
+    if (!existing) {
+      throw new WaitlistEntryNotFoundError(id);
+    }
+
+    const updated: WaitlistEntry = { ...existing, ...changes, id };
+    await this.checkWaitlistEntry(updated);
+
+    const saved = await this.repository.updateWaitlistEntry(updated);
+    this.notify();
+    return saved;
+  }
+
+  /**
+   * Take a patient off the waitlist
+   * @throws WaitlistEntryNotFoundError if no entry has that ID
+   */
+  async removeWaitlistEntry(id: string): Promise<void> {
+    if (!(await this.getWaitlistEntryById(id))) {
+      throw new WaitlistEntryNotFoundError(id);
+    }
+
+    await this.repository.deleteWaitlistEntry(id);
+    this.notify();
+  }
+
+  /**
+   * Remember the time an active, upcoming appointment no longer occupies,
+   * forgetting slots that have passed
+   *
+   * Nothing is stored when the repository records slots itself: the API
+   * route making the same change does it on the server.
+   */
+  private async recordFreedSlot(appointment: Appointment, now: Date = new Date()): Promise<void> {
+    if (this.repository.recordsFreedSlots) return;
+
+    for (const slot of await this.repository.getFreedSlots()) {
+      if (new Date(slot.startTime) <= now) await this.repository.deleteFreedSlot(slot.id);
+    }
+    if (!isActiveAppointment(appointment) || new Date(appointment.startTime) <= now) return;
+
+    await this.repository.createFreedSlot({
+      doctorId: appointment.doctorId,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+    });
+  }
+
+  /**
+   * Stop offering the part of the doctor's freed slots a new booking takes,
+   * keeping whatever is left after it
+   */
+  private async takeFreedSlots(booking: Appointment): Promise<void> {
+    if (this.repository.recordsFreedSlots) return;
+
+    const start = new Date(booking.startTime);
+    const end = new Date(booking.endTime);
+    for (const slot of await this.repository.getFreedSlots()) {
+      const slotStart = new Date(slot.startTime);
+      const slotEnd = new Date(slot.endTime);
+      if (slot.doctorId !== booking.doctorId || end <= slotStart || start >= slotEnd) continue;
+
+      if (start <= slotStart && end < slotEnd) {
+        await this.repository.updateFreedSlot({ ...slot, startTime: booking.endTime });
+      } else {
+        await this.repository.deleteFreedSlot(slot.id);
+      }
+    }
+  }
+
+  /**
+   * Rank the waitlist candidates for a free slot
+   *
+   * Each candidate is offered the start of the slot for their type's default
+   * duration; those whose booking wouldn't be valid (outside working hours,
+   * overlapping another booking) or who already have an appointment then
+   * are left out.
+   * @throws AccessDeniedError if a doctor session asks about another doctor's slot
+   */
+  async getWaitlistOffersForSlot(doctorId: string, start: Date, end: Date): Promise<WaitlistOffer[]> {
+    this.assertDoctorAccess(doctorId);
+    const doctor = await this.repository.getDoctorById(doctorId);
+    if (!doctor) return [];
+
+    const candidates = (await this.repository.getWaitlistEntries())
+      .filter((entry) => entryFitsSlot(entry, doctor, start, end))
+      .sort(compareWaitlistEntries);
+
+    const offers: WaitlistOffer[] = [];
+    for (const entry of candidates) {
+      const endTime = new Date(start.getTime() + getWaitlistDuration(entry) * 60000).toISOString();
+      const booking: Appointment = {
+        id: '',
+        patientId: entry.patientId,
+        doctorId,
+        type: entry.type,
+        startTime: start.toISOString(),
+        endTime,
+        status: 'scheduled',
+      };
+
+      try {
+        await this.validateAppointment(booking);
+      } catch (err) {
+        if (err instanceof AppointmentValidationError) continue;
+        throw err;
+      }
+
+      const patientFilters = { patientId: entry.patientId, date: start };
+      const patientDay = await this.withSeriesOccurrences(await this.repository.getAppointments(patientFilters), patientFilters);
+      if (patientDay.some((appointment) => isActiveAppointment(appointment) && this.appointmentsOverlap(appointment, booking))) {
+        continue;
+      }
+
+      const patient = await this.repository.getPatientById(entry.patientId);
+      if (patient) {
+        offers.push({ entry, patient: this.toVisiblePatient(patient), startTime: booking.startTime, endTime });
+      }
+    }
+    return offers;
+  }
+
+  /**
+   * Get the upcoming slots freed by cancelling, moving or deleting single
+   * appointments, with their ranked waitlist candidates
+   *
+   * Slots are stored by the repository, so every session sees them; slots
+   * nobody on the waitlist can take are left out.
+   */
+  async getWaitlistOffers(now: Date = new Date()): Promise<FreedSlotOffers[]> {
+    const results: FreedSlotOffers[] = [];
+    for (const slot of await this.getFreedSlots(now)) {
+      const doctor = await this.repository.getDoctorById(slot.doctorId);
+      if (!doctor) continue;
+
+      const offers = await this.getWaitlistOffersForSlot(slot.doctorId, new Date(slot.startTime), new Date(slot.endTime));
+      if (offers.length > 0) results.push({ slot, doctor, offers });
+    }
+    return results;
+  }
+
+  /**
+   * Get the upcoming freed slots, in start order (doctor sessions get their own)
+   */
+  async getFreedSlots(now: Date = new Date()): Promise<FreedSlot[]> {
+    return (await this.repository.getFreedSlots())
+      .filter((slot) => new Date(slot.startTime) > now && canAccessDoctor(this.session, slot.doctorId))
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Stop offering a freed slot to the waitlist
+   * @throws FreedSlotNotFoundError if no slot has that ID
+   * @throws AccessDeniedError if a doctor session dismisses another doctor's slot
+   */
+  async dismissFreedSlot(id: string): Promise<void> {
+    const slot = (await this.repository.getFreedSlots()).find((candidate) => candidate.id === id);
+    if (!slot) {
+      throw new FreedSlotNotFoundError(id);
+    }
+
+    this.assertDoctorAccess(slot.doctorId);
+    await this.repository.deleteFreedSlot(id);
+    this.notify();
+  }
+
+  /**
+   * Book a waitlisted patient into a slot and mark their entry booked
+   *
+   * The booking goes through createAppointment, so it's validated like any
+   * other, and the part of a freed slot it takes is no longer offered.
+   * @throws WaitlistEntryNotFoundError if no entry has that ID
+   * @throws AppointmentValidationError if the entry is already booked or the booking is invalid
+   * @returns The created appointment
+   */
+  async acceptWaitlistOffer(entryId: string, doctorId: string, startTime: string): Promise<Appointment> {
+    const entry = await this.getWaitlistEntryById(entryId);
+    if (!entry) {
+      throw new WaitlistEntryNotFoundError(entryId);
+    }
+    if (entry.status !== 'waiting') {
+      throw new AppointmentValidationError('invalid-waitlist-entry', 'This patient has already been booked from the waitlist');
+    }
+
+    const start = new Date(startTime);
+    const created = await this.createAppointment({
+      patientId: entry.patientId,
+      doctorId,
+      type: entry.type,
+      startTime: start.toISOString(),
+      endTime: new Date(start.getTime() + getWaitlistDuration(entry) * 60000).toISOString(),
+      notes: entry.notes,
+    });
+    await this.repository.updateWaitlistEntry({ ...entry, status: 'booked', appointmentId: created.id });
+    this.notify();
+    return created;
+  }
+
+  /**
+   * Count the waiting entries on each clinic day of a range, for the grid
+   * badges: those that would take a slot with a doctor, or with anyone when
+   * no doctor is given (doctor sessions always count their own demand)
+   * @returns Entry counts keyed by clinic date ("YYYY-MM-DD")
+   */
+  async getWaitlistDemand(doctorId: string | undefined, startDate: Date, endDate: Date): Promise<Record<string, number>> {
+    if (doctorId) {
+      this.assertDoctorAccess(doctorId);
+    } else if (this.session?.role === 'doctor') {
+      doctorId = this.session.doctorId;
+    }
+
+    const doctor = doctorId ? await this.repository.getDoctorById(doctorId) : undefined;
+    if (doctorId && !doctor) return {};
+
+    return getWaitlistDemandByDay(
+      await this.repository.getWaitlistEntries(),
+      doctor ?? null,
+      getClinicDateKey(startDate),
+      getClinicDateKey(endDate)
+    );
+  }
+
+  /**
+   * Bring an appointment's queued patient messages in line with a change
+   * (see planNotifications)
+   *
+   * Occurrences generated from a series aren't stored, so they get no
+   * messages until they're edited on their own. Nothing is queued when the
+   * repository queues messages itself: the API route making the same
+   * change does it on the server, from the unmasked patient record.
+   */
+  private async queueNotifications(
+    appointment: Appointment,
+    event: NotificationEvent | null,
+    now: Date = new Date()
+  ): Promise<void> {
+    if (this.repository.queuesNotifications || isGeneratedOccurrence(appointment)) return;
+
+    const patient = await this.repository.getPatientById(appointment.patientId);
+    const doctor = await this.repository.getDoctorById(appointment.doctorId);
+    if (!patient || !doctor) return;
+
+    const history = await this.repository.getOutboxMessages({ appointmentId: appointment.id });
+    const { drafts, superseded } = planNotifications({ appointment, patient, doctor, event, history, now });
+
+    for (const message of superseded) {
+      await this.repository.updateOutboxMessage({ ...message, status: 'cancelled' });
+    }
+    for (const message of drafts) {
+      await this.repository.createOutboxMessage(message);
+    }
+  }
+
+  /**
+   * Outbox message as the current session may see it
+   */
+  private toVisibleMessage(message: OutboxMessage): OutboxMessage {
+    if (canViewPatientContact(this.session)) return message;
+    return { ...message, to: message.channel === 'email' ? maskEmail(message.to) : maskPhone(message.to) };
+  }
+
+  /**
+   * Get the outbox messages the session can access, by send time
+   *
+   * Doctors only see messages about their own appointments, with the
+   * patient's address masked.
+   */
+  async getNotifications(filters: OutboxFilters = {}): Promise<OutboxMessage[]> {
+    const messages = await this.repository.getOutboxMessages(filters);
+    return messages
+      .filter((message) => canAccessDoctor(this.session, message.doctorId))
+      .map((message) => this.toVisibleMessage(message))
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt) || a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get an outbox message by ID
+   * @returns The message, or undefined if it doesn't exist or belongs to another doctor
+   */
+  async getNotificationById(id: string): Promise<OutboxMessage | undefined> {
+    const message = await this.repository.getOutboxMessageById(id);
+    return message && canAccessDoctor(this.session, message.doctorId) ? this.toVisibleMessage(message) : undefined;
+  }
+
+  /**
+   * Send the pending messages that are due through the transports
+   *
+   * Messages past their expiry (the appointment has started) are cancelled
+   * instead. A failed attempt is logged on the message and retried on the
+   * next run, up to MAX_DELIVERY_ATTEMPTS attempts; messages for a channel
+   * without a transport stay pending.
+   * @throws AccessDeniedError for sessions that may not contact patients
+   */
+  async deliverDueNotifications(transports: NotificationTransports, now: Date = new Date()): Promise<DeliveryReport> {
+    if (!canViewPatientContact(this.session)) {
+      throw new AccessDeniedError('Only the front desk can send patient messages');
+    }
+
+    const report: DeliveryReport = { sent: 0, failed: 0, expired: 0 };
+    const due = (await this.repository.getOutboxMessages({ status: 'pending' }))
+      .filter((message) => new Date(message.sendAt) <= now)
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+
+    for (const message of due) {
+      if (message.expiresAt && new Date(message.expiresAt) <= now) {
+        await this.repository.updateOutboxMessage({ ...message, status: 'cancelled' });
+        report.expired++;
+        continue;
+      }
+
+      const transport = transports[message.channel];
+      if (!transport) continue;
+
+      try {
+        await transport.send(message);
+        await this.repository.updateOutboxMessage({
+          ...message,
+          status: 'sent',
+          sentAt: now.toISOString(),
+          attempts: [...message.attempts, { at: now.toISOString(), transport: transport.name }],
+        });
+        report.sent++;
+      } catch (err) {
+        const attempts = [
+          ...message.attempts,
+          { at: now.toISOString(), transport: transport.name, error: err instanceof Error ? err.message : 'Delivery failed' },
+        ];
+        await this.repository.updateOutboxMessage({
+          ...message,
+          status: attempts.filter((attempt) => attempt.error).length >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+        });
+        report.failed++;
+      }
+    }
+
+    if (report.sent + report.failed + report.expired > 0) this.notify();
+    return report;
+  }
+
+  /**
+   * Get utilization, type mix, status rates and peak hours over a range of
+   * clinic days (see computeAnalytics)
+   *
+   * Covers the doctors the session can access, so doctor sessions only see
+   * their own figures. Series occurrences in the range are included.
+   */
+  async getAnalytics({ startDate, endDate, specialty }: AnalyticsOptions, now: Date = new Date()): Promise<ClinicAnalytics> {
+    const rangeStart = startOfClinicDay(startDate);
+    const rangeEnd = endOfClinicDay(endDate);
+    const doctors = (await this.getAllDoctors()).filter((doctor) => !specialty || doctor.specialty === specialty);
+
+    const [appointments, exceptions] = await Promise.all([
+      this.getAppointments({ startDate: rangeStart, endDate: rangeEnd }),
+      this.getScheduleExceptions(undefined, rangeStart, rangeEnd),
+    ]);
+
+    return computeAnalytics({ doctors, appointments, exceptions, startDate: rangeStart, endDate: rangeEnd, now });
+  }
+
+  /**
+   * Sort appointments by start time
+   */
+  sortAppointmentsByTime<T extends Appointment>(appointments: T[]): T[] {
+    return [...appointments].sort((a, b) => {
+      const timeA = new Date(a.startTime).getTime();
+      const timeB = new Date(b.startTime).getTime();
+      return timeA - timeB;
+    });
+  }
+
+  /**
+   * Check if two appointments overlap
+   */
+  appointmentsOverlap(apt1: Appointment, apt2: Appointment): boolean {
+    const start1 = new Date(apt1.startTime);
+    const end1 = new Date(apt1.endTime);
+    const start2 = new Date(apt2.startTime);
+    const end2 = new Date(apt2.endTime);
+
+    return start1 < end2 && start2 < end1;
+  }
+
+  /**
+   * Get appointments by type
+   */
+  getAppointmentsByType(appointments: Appointment[], type: string): Appointment[] {
+    return appointments.filter((appointment) => appointment.type === type);
+  }
+}
+
+/**
+ * Singleton instance
  *
- * Consider which is better for your architecture and testing needs.
+ * Uses the adapter selected by NEXT_PUBLIC_APPOINTMENT_REPOSITORY
+ * (see services/repositories). Tests and tools can create their own
+ * instance with `new AppointmentService(repository)`.
  */
-export const appointmentService = new AppointmentService();
+export const appointmentService = new AppointmentService(createRepository());
@@ -0,0 +1,163 @@
+/**
+ * Availability Service
+ *
+ * Finds free appointment slots across doctors, on top of AppointmentService.
+ * A slot is free when it lies within the doctor's working hours (with any
+ * time off, breaks and extra sessions applied) and doesn't overlap any
+ * active appointment of that doctor.
+ */
+
+import { addMinutes } from 'date-fns';
+import type { Appointment, AppointmentType, Doctor, ScheduleException, Specialty } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG, DEFAULT_CALENDAR_CONFIG } from '@/types';
+import { appointmentService, isActiveAppointment, type AppointmentService } from './appointmentService';
+import { addClinicDays, getZonedDateParts, setClinicTime, startOfClinicDay } from './clinicTime';
+
+/**
+ * Preferred part of the day for a slot, by start time
+ */
+export type TimeOfDay = 'any' | 'morning' | 'afternoon' | 'evening';
+
+/**
+ * Start (inclusive) and end (exclusive) hour of each part of the day
+ */
+export const TIME_OF_DAY_HOURS: Record<Exclude<TimeOfDay, 'any'>, { start: number; end: number }> = {
+  morning: { start: 0, end: 12 },
+  afternoon: { start: 12, end: 17 },
+  evening: { start: 17, end: 24 },
+};
+
+/**
+ * Search parameters for free slots
+ */
+export interface AvailabilityQuery {
+  type: AppointmentType;
+  doctorId?: string;       // Only this doctor
+  specialty?: Specialty;   // Only doctors of this specialty
+  earliestDate: Date;      // No slot starts before this time
+  timeOfDay?: TimeOfDay;
+  limit?: number;          // Maximum number of slots to return
+}
+
+/**
+ * A free slot for a specific doctor
+ */
+export interface AvailableSlot {
+  doctor: Doctor;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * How many days ahead a search looks before giving up
+ */
+export const AVAILABILITY_WINDOW_DAYS = 60;
+
+const DEFAULT_LIMIT = 5;
+const SLOT_STEP_MINUTES = DEFAULT_CALENDAR_CONFIG.slotDuration; // Candidate starts are aligned to the grid
+
+/**
+ * Check whether a start time falls in the preferred part of the clinic's day
+ */
+function matchesTimeOfDay(start: Date, timeOfDay: TimeOfDay): boolean {
+  if (timeOfDay === 'any') return true;
+  const { start: fromHour, end: toHour } = TIME_OF_DAY_HOURS[timeOfDay];
+  const { hour } = getZonedDateParts(start);
+  return hour >= fromHour && hour < toHour;
+}
+
+/**
+ * Build a Date on the given clinic day at an "HH:MM" clinic time
+ */
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return setClinicTime(day, hours, minutes);
+}
+
+/**
+ * AvailabilityService class
+ */
+export class AvailabilityService {
+  constructor(private readonly appointments: AppointmentService) {}
+
+  /**
+   * Find the next free slots matching a query, earliest first
+   *
+   * Slots have the appointment type's default duration and start on
+   * calendar slot boundaries. Slots at the same time for different doctors
+   * are ordered by doctor name.
+   * @returns Up to `limit` slots within the search window
+   */
+  async findAvailableSlots(query: AvailabilityQuery): Promise<AvailableSlot[]> {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const timeOfDay = query.timeOfDay ?? 'any';
+    const duration = APPOINTMENT_TYPE_CONFIG[query.type].defaultDuration;
+
+    const doctors = (await this.appointments.getAllDoctors()).filter(
+      (doctor) =>
+        (!query.doctorId || doctor.id === query.doctorId) &&
+        (!query.specialty || doctor.specialty === query.specialty)
+    );
+    if (doctors.length === 0 || limit <= 0) return [];
+
+    const firstDay = startOfClinicDay(query.earliestDate);
+    const windowEnd = addClinicDays(firstDay, AVAILABILITY_WINDOW_DAYS);
+
+    // Load each doctor's booked time and schedule exceptions for the whole window once
+    const booked = new Map<string, Appointment[]>();
+    const exceptions = new Map<string, ScheduleException[]>();
+    await Promise.all(
+      doctors.map(async (doctor) => {
+        const [appointments, doctorExceptions] = await Promise.all([
+          this.appointments.getAppointmentsByDoctorAndDateRange(doctor.id, firstDay, windowEnd),
+          this.appointments.getScheduleExceptions(doctor.id, firstDay, windowEnd),
+        ]);
+        booked.set(doctor.id, appointments.filter(isActiveAppointment));
+        exceptions.set(doctor.id, doctorExceptions);
+      })
+    );
+
+    const slots: AvailableSlot[] = [];
+
+    for (let day = firstDay; day < windowEnd && slots.length < limit; day = addClinicDays(day, 1)) {
+      const daySlots: AvailableSlot[] = [];
+
+      doctors.forEach((doctor) => {
+        const periods = this.appointments.getWorkingPeriodsForDate(doctor, day, exceptions.get(doctor.id));
+        const doctorAppointments = booked.get(doctor.id) ?? [];
+
+        periods.forEach((hours) => {
+          const workEnd = atTime(day, hours.end);
+
+          for (
+            let start = atTime(day, hours.start);
+            addMinutes(start, duration) <= workEnd;
+            start = addMinutes(start, SLOT_STEP_MINUTES)
+          ) {
+            const end = addMinutes(start, duration);
+
+            if (start < query.earliestDate || !matchesTimeOfDay(start, timeOfDay)) continue;
+
+            const isFree = !doctorAppointments.some(
+              (appointment) =>
+                new Date(appointment.startTime) < end && new Date(appointment.endTime) > start
+            );
+            if (isFree) daySlots.push({ doctor, start, end });
+          }
+        });
+      });
+
+      daySlots.sort(
+        (a, b) => a.start.getTime() - b.start.getTime() || a.doctor.name.localeCompare(b.doctor.name)
+      );
+      slots.push(...daySlots.slice(0, limit - slots.length));
+    }
+
+    return slots;
+  }
+}
+
+/**
+ * Singleton instance backed by the shared appointment service
+ */
+export const availabilityService = new AvailabilityService(appointmentService);
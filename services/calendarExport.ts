@@ -0,0 +1,221 @@
+/**
+ * Calendar Export
+ *
+ * Turns a doctor's appointments into an iCalendar (RFC 5545) document so
+ * the schedule can be opened in personal calendar apps, either as a
+ * one-off .ics download or through the subscribable per-doctor feed.
+ */
+
+import type { AppointmentStatus, AppointmentType, Doctor, PopulatedAppointment } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { appointmentService, type AppointmentService } from './appointmentService';
+import { formatClinicTime } from './clinicTime';
+import { RepositoryError } from './errors';
+import { toError } from './repositories/httpRepository';
+import { canExportPatientNames, loadSession, sessionToHeaders } from './session';
+
+const PRODUCT_ID = '-//Hospital Scheduler//Appointments//EN';
+
+/**
+ * Domain used to make event UIDs globally unique
+ */
+const UID_DOMAIN = 'hospital-scheduler';
+
+/**
+ * Longest content line in octets, excluding the CRLF (RFC 5545 §3.1)
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * MIME type of iCalendar documents
+ */
+export const ICALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * Days before and after today covered by the subscribable feed
+ */
+export const FEED_WINDOW = { pastDays: 30, futureDays: 180 } as const;
+
+/**
+ * Options for building a calendar
+ */
+export interface ICalendarOptions {
+  calendarName: string;
+  includePatientNames: boolean; // Otherwise events only show the appointment type
+  now?: Date;                   // DTSTAMP; defaults to the current time
+}
+
+/**
+ * VEVENT STATUS for each appointment status
+ * (iCalendar only knows TENTATIVE, CONFIRMED and CANCELLED)
+ */
+const EVENT_STATUS: Record<AppointmentStatus, 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'> = {
+  'scheduled': 'TENTATIVE',
+  'confirmed': 'CONFIRMED',
+  'checked-in': 'CONFIRMED',
+  'in-progress': 'CONFIRMED',
+  'completed': 'CONFIRMED',
+  'cancelled': 'CANCELLED',
+  'no-show': 'CONFIRMED',
+};
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Format a date as a UTC DATE-TIME value (e.g. 20251013T090000Z)
+ */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line into 75-octet chunks, continuation lines starting
+ * with a space. Never splits a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Build the VEVENT lines for one appointment
+ */
+function buildEvent(appointment: PopulatedAppointment, options: ICalendarOptions, stamp: string): string[] {
+  const typeLabel = APPOINTMENT_TYPE_CONFIG[appointment.type as AppointmentType].label;
+  const statusLabel = APPOINTMENT_STATUS_CONFIG[appointment.status].label;
+  const summary = options.includePatientNames ? `${typeLabel}: ${appointment.patient.name}` : typeLabel;
+  const description = [`Status: ${statusLabel}`, appointment.notes].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(new Date(appointment.startTime))}`,
+    `DTEND:${formatDateTime(new Date(appointment.endTime))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(typeLabel)}`,
+    // Lets the importer match the event back to its doctor and patient
+    `X-DOCTOR-ID:${escapeText(appointment.doctorId)}`,
+    `X-PATIENT-ID:${escapeText(appointment.patientId)}`,
+    `STATUS:${EVENT_STATUS[appointment.status]}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build an iCalendar document with one VEVENT per appointment
+ * @returns The document, with CRLF line endings and folded lines
+ */
+export function buildICalendar(appointments: PopulatedAppointment[], options: ICalendarOptions): string {
+  const stamp = formatDateTime(options.now ?? new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    ...appointments.flatMap((appointment) => buildEvent(appointment, options, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Export a doctor's appointments in a date range as an iCalendar document
+ *
+ * Reads through the given service, so its session's role rules apply
+ * (including whether patient names are shown).
+ * @throws AccessDeniedError if the session can't access the doctor
+ */
+export async function exportDoctorCalendar(
+  doctor: Doctor,
+  startDate: Date,
+  endDate: Date,
+  service: AppointmentService = appointmentService
+): Promise<string> {
+  const appointments = await service.getAppointmentsByDoctorAndDateRange(doctor.id, startDate, endDate);
+  const populated = await service.getPopulatedAppointments(service.sortAppointmentsByTime(appointments));
+
+  return buildICalendar(populated, {
+    calendarName: `${doctor.name} - Clinic schedule`,
+    includePatientNames: canExportPatientNames(service.getSession()),
+  });
+}
+
+/**
+ * File name for a doctor's .ics download
+ */
+export function getICalendarFileName(doctor: Doctor, startDate: Date, endDate: Date): string {
+  const slug = doctor.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}-${formatClinicTime(startDate, 'yyyy-MM-dd')}-to-${formatClinicTime(endDate, 'yyyy-MM-dd')}.ics`;
+}
+
+/**
+ * Save an iCalendar document as a file in the browser
+ */
+export function downloadICalendar(fileName: string, content: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: ICALENDAR_CONTENT_TYPE }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Get the subscribable feed URL for a doctor from the API
+ *
+ * The URL carries a signed token instead of session headers, since
+ * calendar clients poll it on their own.
+ * @throws RepositoryError (or a service error) if the API refuses
+ */
+export async function fetchCalendarFeedUrl(doctorId: string): Promise<string> {
+  const baseUrl = (process.env.NEXT_PUBLIC_API_BASE_URL || '/api').replace(/\/$/, '');
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/doctors/${encodeURIComponent(doctorId)}/calendar-feed`, {
+      headers: sessionToHeaders(loadSession()),
+    });
+  } catch (err) {
+    throw new RepositoryError(`Network error: ${err instanceof Error ? err.message : 'request failed'}`);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw toError(body, response.status);
+  }
+  return (body as { url: string }).url;
+}
@@ -0,0 +1,164 @@
+/**
+ * Calendar Settings
+ *
+ * Display settings for the schedule grids (visible hours, slot length and
+ * height, first day of the week, 12/24-hour clock). Each signed-in user
+ * keeps their own copy in the browser's localStorage.
+ */
+
+import type { CalendarConfig, CalendarSettings, Doctor, ScheduleException, Session, TimeFormat, WeekStartDay } from '@/types';
+import { DEFAULT_CALENDAR_SETTINGS, SLOT_DURATION_OPTIONS } from '@/types';
+import { appointmentService } from './appointmentService';
+import { getStorage } from './session';
+
+const STORAGE_KEY_PREFIX = 'hospital-scheduler:calendar-settings';
+
+/**
+ * Allowed slot heights in pixels (cards need room for their three lines)
+ */
+export const SLOT_HEIGHT_LIMITS = { min: 40, max: 160 } as const;
+
+/**
+ * date-fns patterns for each clock
+ *
+ * `time` is a full time; `clock` and `period` are the two lines of a grid
+ * row label (24-hour labels have no period line).
+ */
+export const TIME_FORMATS: Record<TimeFormat, { time: string; clock: string; period: string | null }> = {
+  '12h': { time: 'h:mm a', clock: 'h:mm', period: 'a' },
+  '24h': { time: 'HH:mm', clock: 'HH:mm', period: null },
+};
+
+/**
+ * Day names for the week start setting
+ */
+export const WEEK_START_LABELS: Record<WeekStartDay, string> = {
+  0: 'Sunday',
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+};
+
+/**
+ * Storage key for a user's settings
+ */
+function getStorageKey(session: Session): string {
+  return `${STORAGE_KEY_PREFIX}:${session.role}:${session.doctorId ?? session.name}`;
+}
+
+/**
+ * Check settings for out-of-range values
+ * @returns A message per invalid field (empty if all are valid)
+ */
+export function validateCalendarSettings(settings: CalendarSettings): Partial<Record<keyof CalendarSettings, string>> {
+  const errors: Partial<Record<keyof CalendarSettings, string>> = {};
+
+  if (!Number.isInteger(settings.startHour) || settings.startHour < 0 || settings.startHour > 23) {
+    errors.startHour = 'Must be a whole hour between 0 and 23';
+  }
+  if (!Number.isInteger(settings.endHour) || settings.endHour < 1 || settings.endHour > 24) {
+    errors.endHour = 'Must be a whole hour between 1 and 24';
+  } else if (settings.endHour <= settings.startHour) {
+    errors.endHour = 'Must be after the start hour';
+  }
+  if (!(SLOT_DURATION_OPTIONS as readonly number[]).includes(settings.slotDuration)) {
+    errors.slotDuration = `Must be one of: ${SLOT_DURATION_OPTIONS.join(', ')} minutes`;
+  }
+  if (
+    !Number.isInteger(settings.slotHeight) ||
+    settings.slotHeight < SLOT_HEIGHT_LIMITS.min ||
+    settings.slotHeight > SLOT_HEIGHT_LIMITS.max
+  ) {
+    errors.slotHeight = `Must be between ${SLOT_HEIGHT_LIMITS.min} and ${SLOT_HEIGHT_LIMITS.max} pixels`;
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in missing or invalid fields of stored settings with the defaults
+ */
+export function normalizeCalendarSettings(value: unknown): CalendarSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_CALENDAR_SETTINGS;
+  const stored = value as Partial<CalendarSettings>;
+
+  const defaults = DEFAULT_CALENDAR_SETTINGS;
+  const isWeekStartDay = Number.isInteger(stored.weekStartsOn) && Number(stored.weekStartsOn) >= 0 && Number(stored.weekStartsOn) <= 6;
+
+  const settings: CalendarSettings = {
+    startHour: typeof stored.startHour === 'number' ? stored.startHour : defaults.startHour,
+    endHour: typeof stored.endHour === 'number' ? stored.endHour : defaults.endHour,
+    slotDuration: typeof stored.slotDuration === 'number' ? stored.slotDuration : defaults.slotDuration,
+    slotHeight: typeof stored.slotHeight === 'number' ? stored.slotHeight : defaults.slotHeight,
+    weekStartsOn: isWeekStartDay ? (stored.weekStartsOn as WeekStartDay) : defaults.weekStartsOn,
+    timeFormat: stored.timeFormat === '12h' || stored.timeFormat === '24h' ? stored.timeFormat : defaults.timeFormat,
+    fitToWorkingHours: typeof stored.fitToWorkingHours === 'boolean' ? stored.fitToWorkingHours : defaults.fitToWorkingHours,
+    showViewerTime: typeof stored.showViewerTime === 'boolean' ? stored.showViewerTime : defaults.showViewerTime,
+  };
+
+  const errors = validateCalendarSettings(settings);
+  // Hours are only valid as a pair, so reset both if either is off
+  if (errors.startHour || errors.endHour) {
+    settings.startHour = defaults.startHour;
+    settings.endHour = defaults.endHour;
+  }
+  if (errors.slotDuration) settings.slotDuration = defaults.slotDuration;
+  if (errors.slotHeight) settings.slotHeight = defaults.slotHeight;
+
+  return settings;
+}
+
+/**
+ * Read a user's stored settings, falling back to the defaults
+ */
+export function loadCalendarSettings(session: Session): CalendarSettings {
+  const raw = getStorage()?.getItem(getStorageKey(session));
+  if (!raw) return DEFAULT_CALENDAR_SETTINGS;
+
+  try {
+    return normalizeCalendarSettings(JSON.parse(raw));
+  } catch {
+    return DEFAULT_CALENDAR_SETTINGS;
+  }
+}
+
+/**
+ * Store a user's settings, or clear them to go back to the defaults
+ */
+export function saveCalendarSettings(session: Session, settings: CalendarSettings | null): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  if (settings) storage.setItem(getStorageKey(session), JSON.stringify(settings));
+  else storage.removeItem(getStorageKey(session));
+}
+
+/**
+ * Calendar configuration for a grid showing one or more doctors
+ *
+ * With `fitToWorkingHours`, the visible hours cover every given doctor's
+ * working hours and extra sessions (the configured hours are kept if none
+ * has any); otherwise the configured hours are used as they are.
+ */
+export function getVisibleCalendarConfig(
+  settings: CalendarSettings,
+  doctors: Doctor[],
+  exceptions: ScheduleException[] = []
+): CalendarConfig {
+  const base: CalendarConfig = {
+    startHour: settings.startHour,
+    endHour: settings.endHour,
+    slotDuration: settings.slotDuration,
+  };
+  if (!settings.fitToWorkingHours || doctors.length === 0) return base;
+
+  const configs = doctors.map((doctor) => appointmentService.getCalendarConfigForDoctor(doctor, base, exceptions));
+  return {
+    ...base,
+    startHour: Math.min(...configs.map((config) => config.startHour)),
+    endHour: Math.max(...configs.map((config) => config.endHour)),
+  };
+}
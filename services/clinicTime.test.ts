@@ -0,0 +1,137 @@
+/**
+ * Clinic time across DST changes, in America/New_York (pinned in
+ * vitest.config.ts): clocks went forward at 02:00 on 2024-03-10 and back
+ * at 02:00 on 2024-11-03.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import type { AppointmentSeries } from '@/types';
+import {
+  addClinicDays,
+  endOfClinicDay,
+  formatClinicTime,
+  getClinicDateKey,
+  parseClinicDateKey,
+  startOfClinicDay,
+  zonedDateTime,
+} from './clinicTime';
+import { expandSeries } from './recurrence';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('zonedDateTime', () => {
+  it('moves a time skipped by spring forward ahead by the gap', () => {
+    expect(zonedDateTime(2024, 3, 10, 2, 30).toISOString()).toBe('2024-03-10T07:30:00.000Z'); // 03:30 EDT
+  });
+
+  it('resolves the repeated fall-back hour to its first occurrence', () => {
+    expect(zonedDateTime(2024, 11, 3, 1, 30).toISOString()).toBe('2024-11-03T05:30:00.000Z'); // 01:30 EDT
+  });
+
+  it('uses the offset in force on either side of a change', () => {
+    expect(zonedDateTime(2024, 3, 9, 9).toISOString()).toBe('2024-03-09T14:00:00.000Z');
+    expect(zonedDateTime(2024, 3, 10, 9).toISOString()).toBe('2024-03-10T13:00:00.000Z');
+  });
+});
+
+describe('parseClinicDateKey', () => {
+  it('resolves a clinic date to its start, or a time on it', () => {
+    expect(parseClinicDateKey('2024-03-10').toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(parseClinicDateKey('2024-03-10', 9, 15).toISOString()).toBe('2024-03-10T13:15:00.000Z');
+  });
+
+  it('round-trips with getClinicDateKey late on a fall-back day', () => {
+    const lateEvening = parseClinicDateKey('2024-11-03', 23, 30);
+
+    expect(lateEvening.toISOString()).toBe('2024-11-04T04:30:00.000Z');
+    expect(getClinicDateKey(lateEvening)).toBe('2024-11-03');
+  });
+});
+
+describe('startOfClinicDay and endOfClinicDay', () => {
+  it('span 23 hours on the spring-forward day', () => {
+    const noon = zonedDateTime(2024, 3, 10, 12);
+    const start = startOfClinicDay(noon);
+    const end = endOfClinicDay(noon);
+
+    expect(start.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2024-03-11T03:59:59.999Z');
+    expect(end.getTime() + 1 - start.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('span 25 hours on the fall-back day', () => {
+    const noon = zonedDateTime(2024, 11, 3, 12);
+    const start = startOfClinicDay(noon);
+    const end = endOfClinicDay(noon);
+
+    expect(start.toISOString()).toBe('2024-11-03T04:00:00.000Z');
+    expect(end.toISOString()).toBe('2024-11-04T04:59:59.999Z');
+    expect(end.getTime() + 1 - start.getTime()).toBe(25 * HOUR_MS);
+  });
+});
+
+describe('addClinicDays', () => {
+  it('keeps the wall-clock time across spring forward', () => {
+    const before = zonedDateTime(2024, 3, 9, 9);
+    const after = addClinicDays(before, 1);
+
+    expect(formatClinicTime(after, 'yyyy-MM-dd HH:mm')).toBe('2024-03-10 09:00');
+    expect(after.getTime() - before.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('keeps the wall-clock time across fall back, in both directions', () => {
+    const before = zonedDateTime(2024, 11, 2, 9);
+    const after = addClinicDays(before, 1);
+
+    expect(formatClinicTime(after, 'yyyy-MM-dd HH:mm')).toBe('2024-11-03 09:00');
+    expect(after.getTime() - before.getTime()).toBe(25 * HOUR_MS);
+    expect(addClinicDays(after, -1).getTime()).toBe(before.getTime());
+  });
+});
+
+describe('formatClinicTime', () => {
+  const viewerTimeZone = process.env.TZ;
+
+  afterEach(() => {
+    if (viewerTimeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = viewerTimeZone;
+  });
+
+  it("shows clinic times the viewer's clocks skip", () => {
+    // London clocks went forward from 01:00 to 02:00 on 2024-03-31
+    process.env.TZ = 'Europe/London';
+    const clinicTime = zonedDateTime(2024, 3, 31, 1, 30);
+
+    expect(clinicTime.toISOString()).toBe('2024-03-31T05:30:00.000Z'); // 01:30 EDT
+    expect(formatClinicTime(clinicTime, 'EEEE yyyy-MM-dd HH:mm:ss')).toBe('Sunday 2024-03-31 01:30:00');
+    expect(formatClinicTime(clinicTime, "'week' I")).toBe('week 13');
+  });
+});
+
+describe('expandSeries', () => {
+  it('keeps weekly occurrences at 09:00 clinic time across DST changes', () => {
+    const firstStart = zonedDateTime(2024, 3, 4, 9);
+    const series: AppointmentSeries = {
+      id: 'ser-1',
+      patientId: 'p1',
+      doctorId: 'd1',
+      type: 'checkup',
+      startTime: firstStart.toISOString(),
+      endTime: new Date(firstStart.getTime() + 30 * 60 * 1000).toISOString(),
+      rule: { frequency: 'weekly', interval: 1, count: 3 },
+      exceptionDates: [],
+    };
+
+    const occurrences = expandSeries(series, zonedDateTime(2024, 3, 1), zonedDateTime(2024, 3, 31));
+
+    expect(occurrences.map((occurrence) => occurrence.startTime)).toEqual([
+      '2024-03-04T14:00:00.000Z',
+      '2024-03-11T13:00:00.000Z',
+      '2024-03-18T13:00:00.000Z',
+    ]);
+    occurrences.forEach((occurrence) => {
+      expect(formatClinicTime(new Date(occurrence.startTime), 'HH:mm')).toBe('09:00');
+      expect(formatClinicTime(new Date(occurrence.endTime), 'HH:mm')).toBe('09:30');
+    });
+  });
+});
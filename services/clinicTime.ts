@@ -0,0 +1,324 @@
+/**
+ * Clinic Time
+ *
+ * Date helpers that work in the clinic's time zone rather than the
+ * viewer's. Appointments are stored as UTC instants; deciding which day,
+ * hour or week an instant belongs to (and formatting it) always happens in
+ * the clinic's IANA zone, so remote staff see the same schedule as the
+ * front desk and the API buckets days the same way as the browser.
+ *
+ * Every helper takes an optional time zone for the rare cases that need
+ * another one (the viewer's own clock).
+ */
+
+import { format } from 'date-fns';
+import type { WeekStartDay } from '@/types';
+
+const DEFAULT_CLINIC_TIME_ZONE = 'America/New_York';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Wall-clock fields of an instant in a time zone (month is 1-12, weekday 0 = Sunday)
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: WeekStartDay;
+}
+
+/**
+ * Check that a string is an IANA time zone this environment knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA time zone of the clinic, from NEXT_PUBLIC_CLINIC_TIME_ZONE
+ */
+export const CLINIC_TIME_ZONE = (() => {
+  const configured = process.env.NEXT_PUBLIC_CLINIC_TIME_ZONE;
+  if (!configured) return DEFAULT_CLINIC_TIME_ZONE;
+  if (isValidTimeZone(configured)) return configured;
+
+  console.warn(`Unknown clinic time zone "${configured}", using ${DEFAULT_CLINIC_TIME_ZONE}`);
+  return DEFAULT_CLINIC_TIME_ZONE;
+})();
+
+/**
+ * IANA time zone of the browser (or server) running this code
+ */
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Creating formatters is slow; one per zone is enough
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the wall-clock fields of an instant in a time zone
+ */
+export function getZonedDateParts(date: Date, timeZone: string = CLINIC_TIME_ZONE): ZonedDateParts {
+  const values: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') values[type] = Number(value);
+  });
+
+  const { year, month, day, hour, minute, second } = values;
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() as WeekStartDay,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ * (e.g. -4 hours for New York in summer)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string = CLINIC_TIME_ZONE): number {
+  const { year, month, day, hour, minute, second } = getZonedDateParts(date, timeZone);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Date.UTC(year, month - 1, day, hour, minute, second) - wholeSeconds;
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone
+ *
+ * Out-of-range fields roll over (hour 24 is midnight of the next day).
+ * Around DST changes, a time that happens twice resolves to the first
+ * occurrence and a time skipped by the change moves forward by the gap
+ * (02:30 on a spring-forward night becomes 03:30), like `new Date()` does
+ * for local time.
+ */
+export function zonedDateTime(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  timeZone: string = CLINIC_TIME_ZONE
+): Date {
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const wall = new Date(wallAsUtc);
+
+  // The offsets a day either side cover both sides of any DST change
+  const offsetBefore = getTimeZoneOffset(new Date(wallAsUtc - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallAsUtc + DAY_MS), timeZone);
+
+  const matches = [wallAsUtc - offsetBefore, wallAsUtc - offsetAfter].filter((candidate) => {
+    const parts = getZonedDateParts(new Date(candidate), timeZone);
+    return (
+      parts.year === wall.getUTCFullYear() &&
+      parts.month === wall.getUTCMonth() + 1 &&
+      parts.day === wall.getUTCDate() &&
+      parts.hour === wall.getUTCHours() &&
+      parts.minute === wall.getUTCMinutes()
+    );
+  });
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : wallAsUtc - offsetBefore);
+}
+
+/**
+ * Clinic date ("YYYY-MM-DD") of an instant
+ */
+export function getClinicDateKey(date: Date): string {
+  return formatClinicTime(date, 'yyyy-MM-dd');
+}
+
+/**
+ * The instant a wall-clock time occurs on a clinic date ("YYYY-MM-DD");
+ * the start of the day by default
+ */
+export function parseClinicDateKey(dateKey: string, hour = 0, minute = 0): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return zonedDateTime(year, month, day, hour, minute);
+}
+
+/**
+ * Start of the clinic day containing an instant
+ */
+export function startOfClinicDay(date: Date, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return zonedDateTime(year, month, day, 0, 0, timeZone);
+}
+
+/**
+ * Last millisecond of the clinic day containing an instant
+ * (days are 23 or 25 hours long when DST changes)
+ */
+export function endOfClinicDay(date: Date, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return new Date(zonedDateTime(year, month, day + 1, 0, 0, timeZone).getTime() - 1);
+}
+
+/**
+ * The same clinic wall-clock time a number of days later (or earlier)
+ */
+export function addClinicDays(date: Date, amount: number, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month, day, hour, minute } = getZonedDateParts(date, timeZone);
+  return zonedDateTime(year, month, day + amount, hour, minute, timeZone);
+}
+
+/**
+ * The same clinic wall-clock time a number of months later (or earlier),
+ * clamped to the last day of shorter months
+ */
+export function addClinicMonths(date: Date, amount: number, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month, day, hour, minute } = getZonedDateParts(date, timeZone);
+  const daysInTargetMonth = new Date(Date.UTC(year, month - 1 + amount + 1, 0)).getUTCDate();
+  return zonedDateTime(year, month + amount, Math.min(day, daysInTargetMonth), hour, minute, timeZone);
+}
+
+/**
+ * A clinic wall-clock time on the clinic day of an instant
+ */
+export function setClinicTime(date: Date, hour: number, minute = 0, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return zonedDateTime(year, month, day, hour, minute, timeZone);
+}
+
+/**
+ * Minutes since clinic midnight, by the wall clock
+ */
+export function getClinicMinutesOfDay(date: Date, timeZone: string = CLINIC_TIME_ZONE): number {
+  const { hour, minute } = getZonedDateParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Check whether two instants fall on the same clinic day
+ */
+export function isSameClinicDay(left: Date, right: Date, timeZone: string = CLINIC_TIME_ZONE): boolean {
+  const a = getZonedDateParts(left, timeZone);
+  const b = getZonedDateParts(right, timeZone);
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+}
+
+/**
+ * Check whether two instants fall in the same clinic month
+ */
+export function isSameClinicMonth(left: Date, right: Date, timeZone: string = CLINIC_TIME_ZONE): boolean {
+  const a = getZonedDateParts(left, timeZone);
+  const b = getZonedDateParts(right, timeZone);
+  return a.year === b.year && a.month === b.month;
+}
+
+/**
+ * Start of the clinic week containing an instant
+ */
+export function startOfClinicWeek(date: Date, weekStartsOn: WeekStartDay, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month, day, weekday } = getZonedDateParts(date, timeZone);
+  const daysSinceWeekStart = (weekday - weekStartsOn + 7) % 7;
+  return zonedDateTime(year, month, day - daysSinceWeekStart, 0, 0, timeZone);
+}
+
+/**
+ * Start of the clinic month containing an instant
+ */
+export function startOfClinicMonth(date: Date, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month } = getZonedDateParts(date, timeZone);
+  return zonedDateTime(year, month, 1, 0, 0, timeZone);
+}
+
+/**
+ * Last millisecond of the clinic month containing an instant
+ */
+export function endOfClinicMonth(date: Date, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const { year, month } = getZonedDateParts(date, timeZone);
+  return new Date(zonedDateTime(year, month + 1, 1, 0, 0, timeZone).getTime() - 1);
+}
+
+/**
+ * Date whose local fields are its UTC fields
+ *
+ * date-fns reads and copies dates through the local getters and setters
+ * (keeping the constructor), so it formats one of these as UTC. A wall-clock
+ * time the viewer's zone skips at a DST change can't be held in a plain
+ * local Date.
+ */
+class UtcFieldsDate extends Date {
+  getFullYear() { return this.getUTCFullYear(); }
+  getMonth() { return this.getUTCMonth(); }
+  getDate() { return this.getUTCDate(); }
+  getDay() { return this.getUTCDay(); }
+  getHours() { return this.getUTCHours(); }
+  getMinutes() { return this.getUTCMinutes(); }
+  getSeconds() { return this.getUTCSeconds(); }
+  getMilliseconds() { return this.getUTCMilliseconds(); }
+  getTimezoneOffset() { return 0; }
+  setFullYear(...args: Parameters<Date['setUTCFullYear']>) { return this.setUTCFullYear(...args); }
+  setMonth(...args: Parameters<Date['setUTCMonth']>) { return this.setUTCMonth(...args); }
+  setDate(...args: Parameters<Date['setUTCDate']>) { return this.setUTCDate(...args); }
+  setHours(...args: Parameters<Date['setUTCHours']>) { return this.setUTCHours(...args); }
+  setMinutes(...args: Parameters<Date['setUTCMinutes']>) { return this.setUTCMinutes(...args); }
+  setSeconds(...args: Parameters<Date['setUTCSeconds']>) { return this.setUTCSeconds(...args); }
+  setMilliseconds(...args: Parameters<Date['setUTCMilliseconds']>) { return this.setUTCMilliseconds(...args); }
+}
+
+/**
+ * Format an instant with a date-fns pattern as read on a wall clock in a
+ * time zone, whatever the viewer's own zone. Time zone tokens (z, x, O)
+ * aren't supported.
+ */
+export function formatInTimeZone(date: Date, pattern: string, timeZone: string): string {
+  const { year, month, day, hour, minute, second } = getZonedDateParts(date, timeZone);
+  return format(new UtcFieldsDate(Date.UTC(year, month - 1, day, hour, minute, second)), pattern);
+}
+
+/**
+ * Format an instant with a date-fns pattern in the clinic's time zone
+ */
+export function formatClinicTime(date: Date, pattern: string): string {
+  return formatInTimeZone(date, pattern, CLINIC_TIME_ZONE);
+}
+
+/**
+ * Check whether a time zone reads the same wall clock as the clinic's at an instant
+ */
+export function matchesClinicTimeZone(timeZone: string, date: Date = new Date()): boolean {
+  return getTimeZoneOffset(date, timeZone) === getTimeZoneOffset(date, CLINIC_TIME_ZONE);
+}
+
+/**
+ * Short name of a time zone at an instant (e.g. "EDT"), or its offset
+ * (e.g. "GMT+5:30") where the zone has no common abbreviation
+ */
+export function getTimeZoneName(timeZone: string = CLINIC_TIME_ZONE, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(({ type }) => type === 'timeZoneName')?.value ?? timeZone;
+}
@@ -0,0 +1,161 @@
+/**
+ * Service Errors
+ *
+ * Error classes shared by the service layer and repository adapters.
+ * Each carries a machine-readable code so it can cross the HTTP boundary
+ * as structured JSON and be rebuilt on the other side.
+ */
+
+import type { Appointment } from '@/types';
+
+/**
+ * Reasons an appointment can be rejected by validation
+ */
+export const APPOINTMENT_VALIDATION_CODES = [
+  'invalid-time',
+  'unknown-doctor',
+  'unknown-patient',
+  'outside-working-hours',
+  'overlap',
+  'invalid-transition',
+  'not-editable',
+  'invalid-recurrence',
+  'invalid-schedule-exception',
+  'invalid-waitlist-entry',
+] as const;
+
+export type AppointmentValidationCode = (typeof APPOINTMENT_VALIDATION_CODES)[number];
+
+/**
+ * Check whether a string is a known validation code
+ */
+export function isAppointmentValidationCode(code: string): code is AppointmentValidationCode {
+  return (APPOINTMENT_VALIDATION_CODES as readonly string[]).includes(code);
+}
+
+/**
+ * Error thrown when an appointment fails validation
+ *
+ * Carries a machine-readable code and, for overlaps, the conflicting appointments
+ * so the UI can explain why a booking was refused.
+ */
+export class AppointmentValidationError extends Error {
+  readonly code: AppointmentValidationCode;
+  readonly conflicts: Appointment[];
+
+  constructor(code: AppointmentValidationCode, message: string, conflicts: Appointment[] = []) {
+    super(message);
+    this.name = 'AppointmentValidationError';
+    this.code = code;
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Error thrown when an appointment ID doesn't exist
+ */
+export class AppointmentNotFoundError extends Error {
+  readonly code = 'not-found';
+
+  constructor(id: string) {
+    super(`Appointment ${id} not found`);
+    this.name = 'AppointmentNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a recurring series ID doesn't exist
+ */
+export class SeriesNotFoundError extends Error {
+  readonly code = 'not-found';
+
+  constructor(id: string) {
+    super(`Appointment series ${id} not found`);
+    this.name = 'SeriesNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a schedule exception ID doesn't exist
+ */
+export class ScheduleExceptionNotFoundError extends Error {
+  readonly code = 'not-found';
+
+  constructor(id: string) {
+    super(`Schedule exception ${id} not found`);
+    this.name = 'ScheduleExceptionNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a waitlist entry ID doesn't exist
+ */
+export class WaitlistEntryNotFoundError extends Error {
+  readonly code = 'not-found';
+
+  constructor(id: string) {
+    super(`Waitlist entry ${id} not found`);
+    this.name = 'WaitlistEntryNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a freed slot ID doesn't exist
+ */
+export class FreedSlotNotFoundError extends Error {
+  readonly code = 'not-found';
+
+  constructor(id: string) {
+    super(`Freed slot ${id} not found`);
+    this.name = 'FreedSlotNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when an outbox message ID doesn't exist
+ */
+export class OutboxMessageNotFoundError extends Error {
+  readonly code = 'not-found';
+
+  constructor(id: string) {
+    super(`Outbox message ${id} not found`);
+    this.name = 'OutboxMessageNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a storage backend fails (network, quota, bad response)
+ */
+export class RepositoryError extends Error {
+  readonly code = 'repository-error';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+/**
+ * Error thrown when no user is signed in for an operation that needs one
+ */
+export class AuthenticationRequiredError extends Error {
+  readonly code = 'unauthenticated';
+
+  constructor(message: string = 'Sign in required') {
+    super(message);
+    this.name = 'AuthenticationRequiredError';
+  }
+}
+
+/**
+ * Error thrown when the signed-in user's role doesn't allow an operation
+ * (e.g. a doctor reading another doctor's schedule)
+ */
+export class AccessDeniedError extends Error {
+  readonly code = 'access-denied';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Message text planned for an appointment change, in America/New_York
+ * (pinned in vitest.config.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Appointment } from '@/types';
+import { MOCK_DOCTORS, MOCK_PATIENTS } from '@/data/mockData';
+import { planNotifications } from './notifications';
+import { zonedDateTime } from './clinicTime';
+
+const appointment: Appointment = {
+  id: 'apt-1',
+  patientId: MOCK_PATIENTS[0].id,
+  doctorId: MOCK_DOCTORS[0].id,
+  type: 'checkup',
+  startTime: zonedDateTime(2024, 3, 12, 9).toISOString(),
+  endTime: zonedDateTime(2024, 3, 12, 9, 30).toISOString(),
+  status: 'scheduled',
+};
+
+describe('planNotifications', () => {
+  it("names the doctor once, as the doctor's record does", () => {
+    const { drafts } = planNotifications({
+      appointment,
+      patient: MOCK_PATIENTS[0],
+      doctor: MOCK_DOCTORS[0],
+      event: 'booked',
+      history: [],
+      now: zonedDateTime(2024, 3, 1, 12),
+    });
+
+    const email = drafts.find((message) => message.event === 'booked' && message.channel === 'email');
+    const sms = drafts.find((message) => message.event === 'booked' && message.channel === 'sms');
+
+    expect(email?.subject).toBe('Appointment booked for Tuesday, March 12 at 9:00 AM');
+    expect(email?.body).toContain(
+      `Dear ${MOCK_PATIENTS[0].name},\n\nYour General Checkup appointment with Dr. Sarah Chen is booked for Tuesday, March 12 at 9:00 AM.`
+    );
+    expect(sms?.body).toBe('Booked: General Checkup with Dr. Sarah Chen on Tuesday, March 12 at 9:00 AM.');
+    drafts.forEach((message) => expect(message.body).not.toContain('Dr. Dr.'));
+  });
+});
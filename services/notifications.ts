@@ -0,0 +1,230 @@
+/**
+ * Patient Notifications
+ *
+ * Pure helpers for the notification outbox: the message templates, the
+ * reminder rules and planning which messages an appointment needs after a
+ * change. Storing and delivering the messages is up to AppointmentService
+ * and the transports passed to it.
+ *
+ * Planning compares the messages an appointment's current state calls for
+ * with those still pending, so messages that haven't gone out yet always
+ * describe the latest booking, and planning the same change twice queues
+ * nothing new.
+ */
+
+import type {
+  Appointment,
+  AppointmentStatus,
+  Doctor,
+  NotificationChannel,
+  NotificationEvent,
+  OutboxMessage,
+  Patient,
+} from '@/types';
+import { APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { formatClinicTime } from './clinicTime';
+
+/**
+ * When to remind patients of an appointment, and how
+ */
+export interface ReminderRule {
+  id: string;            // Part of the message key; keep it stable
+  minutesBefore: number;
+  channels: NotificationChannel[];
+}
+
+export const REMINDER_RULES: ReminderRule[] = [
+  { id: '24h', minutesBefore: 24 * 60, channels: ['email', 'sms'] },
+  { id: '2h', minutesBefore: 2 * 60, channels: ['sms'] },
+];
+
+/**
+ * Failed deliveries before a message is given up on
+ */
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+/**
+ * Sends outbox messages over one channel (SMTP server, log file, console)
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: OutboxMessage): Promise<void>;
+}
+
+/**
+ * Transport for each channel; messages for a channel without one stay pending
+ */
+export type NotificationTransports = Partial<Record<NotificationChannel, NotificationTransport>>;
+
+/**
+ * Statuses of bookings patients are reminded of
+ */
+const REMINDED_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed'];
+
+const MESSAGE_DATE_FORMAT = 'EEEE, MMMM d';
+const MESSAGE_TIME_FORMAT = 'h:mm a';
+const SIGNATURE = 'Hospital Appointment Scheduler';
+
+/**
+ * Text of the messages for an event; {placeholders} are filled in by renderTemplate
+ */
+interface MessageTemplate {
+  subject: string;
+  email: string;
+  sms: string;
+}
+
+const TEMPLATES: Record<NotificationEvent, MessageTemplate> = {
+  booked: {
+    subject: 'Appointment booked for {date} at {time}',
+    email:
+      'Dear {patient},\n\nYour {type} appointment with {doctor} is booked for {date} at {time}.\n\n' +
+      "If you can't make it, please let us know so we can offer the time to another patient.",
+    sms: 'Booked: {type} with {doctor} on {date} at {time}.',
+  },
+  rescheduled: {
+    subject: 'Appointment moved to {date} at {time}',
+    email: 'Dear {patient},\n\nYour {type} appointment with {doctor} has been moved to {date} at {time}.',
+    sms: 'Moved: your {type} with {doctor} is now on {date} at {time}.',
+  },
+  cancelled: {
+    subject: 'Appointment on {date} at {time} cancelled',
+    email:
+      'Dear {patient},\n\nYour {type} appointment with {doctor} on {date} at {time} has been cancelled.\n\n' +
+      'Please contact us to book a new time.',
+    sms: 'Cancelled: your {type} with {doctor} on {date} at {time}. Contact us to rebook.',
+  },
+  reminder: {
+    subject: 'Reminder: appointment on {date} at {time}',
+    email: 'Dear {patient},\n\nThis is a reminder of your {type} appointment with {doctor} on {date} at {time}.',
+    sms: 'Reminder: {type} with {doctor} on {date} at {time}.',
+  },
+};
+
+/**
+ * Fill in a template's {placeholders}; unknown ones are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Patient's address on a channel, or null if they have none
+ */
+function getRecipient(patient: Patient, channel: NotificationChannel): string | null {
+  if (channel === 'email') return patient.email.includes('@') ? patient.email : null;
+  return /\d/.test(patient.phone) ? patient.phone : null;
+}
+
+/**
+ * Key of a message: appointment, patient, event (or reminder rule),
+ * channel and appointment time
+ */
+function getMessageKey(appointment: Appointment, kind: string, channel: NotificationChannel): string {
+  return [appointment.id, appointment.patientId, kind, channel, appointment.startTime].join(':');
+}
+
+/**
+ * What an appointment's notifications are planned from
+ */
+export interface NotificationContext {
+  appointment: Appointment;   // Its state after the change
+  patient: Patient;           // With real contact details
+  doctor: Doctor;
+  event: NotificationEvent | null; // What happened; null when only the reminders may need updating
+  history: OutboxMessage[];   // Every message of the appointment so far
+  now: Date;
+}
+
+/**
+ * Messages to queue and pending messages to cancel after a change
+ */
+export interface NotificationPlan {
+  drafts: Array<Omit<OutboxMessage, 'id'>>;
+  superseded: OutboxMessage[];
+}
+
+/**
+ * Work out the messages an appointment needs after a change
+ *
+ * A patient who hasn't been sent anything yet gets a booking confirmation
+ * rather than a reschedule notice, and no cancellation notice at all;
+ * occurrences of a series count as known, since the patient booked the
+ * series.
+ * Reminders follow REMINDER_RULES for scheduled and confirmed bookings
+ * whose reminder time is still ahead. Pending reminders that no longer
+ * match are cancelled, and so are pending notices when a new event
+ * replaces them.
+ */
+export function planNotifications({ appointment, patient, doctor, event, history, now }: NotificationContext): NotificationPlan {
+  const start = new Date(appointment.startTime);
+  const values = {
+    patient: patient.name,
+    doctor: doctor.name,
+    type: APPOINTMENT_TYPE_CONFIG[appointment.type].label,
+    date: formatClinicTime(start, MESSAGE_DATE_FORMAT),
+    time: formatClinicTime(start, MESSAGE_TIME_FORMAT),
+  };
+
+  const draft = (
+    kind: string,
+    messageEvent: NotificationEvent,
+    channel: NotificationChannel,
+    sendAt: Date
+  ): Omit<OutboxMessage, 'id'> | null => {
+    const to = getRecipient(patient, channel);
+    if (!to) return null;
+
+    const template = TEMPLATES[messageEvent];
+    return {
+      key: getMessageKey(appointment, kind, channel),
+      appointmentId: appointment.id,
+      patientId: patient.id,
+      doctorId: appointment.doctorId,
+      channel,
+      event: messageEvent,
+      to,
+      ...(channel === 'email' && { subject: renderTemplate(template.subject, values) }),
+      body:
+        channel === 'email'
+          ? `${renderTemplate(template.email, values)}\n\n${SIGNATURE}`
+          : renderTemplate(template.sms, values),
+      sendAt: sendAt.toISOString(),
+      expiresAt: appointment.startTime,
+      status: 'pending',
+      createdAt: now.toISOString(),
+      attempts: [],
+    };
+  };
+
+  // Patients who haven't heard about the booking are told about it as new
+  const patientNotified =
+    appointment.seriesId !== undefined ||
+    history.some((message) => message.status === 'sent' && message.patientId === appointment.patientId);
+  const notice =
+    event === 'rescheduled' && !patientNotified ? 'booked' : event === 'cancelled' && !patientNotified ? null : event;
+
+  const drafts: Array<Omit<OutboxMessage, 'id'> | null> = [];
+  if (notice && notice !== 'reminder' && start > now) {
+    drafts.push(draft(notice, notice, 'email', now), draft(notice, notice, 'sms', now));
+  }
+  if (REMINDED_STATUSES.includes(appointment.status)) {
+    for (const rule of REMINDER_RULES) {
+      const sendAt = new Date(start.getTime() - rule.minutesBefore * 60000);
+      if (sendAt <= now) continue;
+      drafts.push(...rule.channels.map((channel) => draft(`reminder-${rule.id}`, 'reminder', channel, sendAt)));
+    }
+  }
+
+  const planned = drafts.filter((message): message is Omit<OutboxMessage, 'id'> => message !== null);
+  const plannedKeys = new Set(planned.map((message) => message.key));
+  const pending = history.filter((message) => message.status === 'pending');
+  const pendingKeys = new Set(pending.map((message) => message.key));
+
+  return {
+    drafts: planned.filter((message) => !pendingKeys.has(message.key)),
+    superseded: pending.filter(
+      (message) => !plannedKeys.has(message.key) && (message.event === 'reminder' || event !== null)
+    ),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Patients
+ *
+ * Pure helpers for the patient directory: matching a search query against
+ * a patient record, paging results and working out a patient's age.
+ */
+
+import { differenceInYears } from 'date-fns';
+import type { Patient } from '@/types';
+
+/**
+ * Patients shown per directory page unless another size is asked for
+ */
+export const PATIENT_PAGE_SIZE = 20;
+
+/**
+ * Largest page size the directory serves
+ */
+export const MAX_PATIENT_PAGE_SIZE = 100;
+
+/**
+ * Check whether a patient matches a free-text query
+ *
+ * Every word of the query must appear in the name, email or phone number
+ * (case-insensitive). Digits also match the phone number with its
+ * punctuation stripped, so "5551110001" finds "(555) 111-0001".
+ */
+export function matchesPatientQuery(patient: Patient, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${patient.name} ${patient.email} ${patient.phone}`.toLowerCase();
+  const phoneDigits = patient.phone.replace(/\D/g, '');
+
+  return words.every((word) => {
+    if (haystack.includes(word)) return true;
+    const digits = word.replace(/\D/g, '');
+    return digits !== '' && digits === word.replace(/[\s()+.-]/g, '') && phoneDigits.includes(digits);
+  });
+}
+
+/**
+ * Age in whole years on a given day
+ * @param dateOfBirth - ISO date ("YYYY-MM-DD")
+ * @returns The age, or null if the date of birth is malformed
+ */
+export function getPatientAge(dateOfBirth: string, today: Date = new Date()): number | null {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  const age = differenceInYears(today, new Date(year, month - 1, day));
+  return isNaN(age) ? null : age;
+}
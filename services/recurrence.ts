@@ -0,0 +1,388 @@
+/**
+ * Recurrence
+ *
+ * Pure helpers for recurring appointment series: validating, parsing and
+ * describing recurrence rules (a subset of iCalendar RRULE: FREQ=DAILY or
+ * WEEKLY with INTERVAL, COUNT, UNTIL and BYDAY), and expanding a series
+ * into its occurrences for a date range.
+ *
+ * Occurrences keep the clinic wall-clock time of the first one, so a 9:00
+ * series stays at 9:00 across DST changes. Each occurrence is identified
+ * by its clinic date, which is what exceptions and edited occurrences refer to.
+ */
+
+import type { Appointment, AppointmentSeries, DayOfWeek, RecurrenceFrequency, RecurrenceRule } from '@/types';
+import { formatClinicTime, getZonedDateParts, parseClinicDateKey, zonedDateTime } from './clinicTime';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits on rule values
+ */
+export const RECURRENCE_LIMITS = {
+  maxInterval: 52,
+  maxCount: 365,
+};
+
+/**
+ * Weekdays in iCalendar order (weeks start on Monday), with their BYDAY codes
+ */
+export const WEEKDAY_CODES: Record<DayOfWeek, string> = {
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+  sunday: 'SU',
+};
+
+const WEEKDAYS = Object.keys(WEEKDAY_CODES) as DayOfWeek[];
+
+/**
+ * Weekday names by JavaScript day index (0 = Sunday)
+ */
+const DAYS_BY_INDEX: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Weekday of an instant in the clinic's time zone
+ */
+export function getClinicWeekday(date: Date): DayOfWeek {
+  return DAYS_BY_INDEX[getZonedDateParts(date).weekday];
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, { single: string; plural: string }> = {
+  daily: { single: 'Daily', plural: 'days' },
+  weekly: { single: 'Weekly', plural: 'weeks' },
+};
+
+/**
+ * Clinic date ("YYYY-MM-DD") of an instant, as used to identify occurrences
+ */
+export function getOccurrenceDate(date: Date): string {
+  return formatClinicTime(date, 'yyyy-MM-dd');
+}
+
+/**
+ * ID of a generated occurrence (e.g. "ser-1_20261019")
+ */
+export function getOccurrenceId(seriesId: string, occurrenceDate: string): string {
+  return `${seriesId}_${occurrenceDate.replace(/-/g, '')}`;
+}
+
+/**
+ * Split a generated occurrence ID into its series ID and occurrence date
+ * @returns null if the ID isn't an occurrence ID
+ */
+export function parseOccurrenceId(id: string): { seriesId: string; occurrenceDate: string } | null {
+  const match = /^(.+)_(\d{4})(\d{2})(\d{2})$/.exec(id);
+  return match ? { seriesId: match[1], occurrenceDate: `${match[2]}-${match[3]}-${match[4]}` } : null;
+}
+
+/**
+ * Check whether an appointment is generated from a series rather than stored
+ * (stored occurrences are ones that were edited on their own)
+ */
+export function isGeneratedOccurrence(appointment: Appointment): boolean {
+  return (
+    appointment.seriesId !== undefined &&
+    appointment.occurrenceDate !== undefined &&
+    appointment.id === getOccurrenceId(appointment.seriesId, appointment.occurrenceDate)
+  );
+}
+
+/**
+ * Check whether two appointments are the same occurrence of a series
+ * (e.g. the generated one and its edited replacement)
+ */
+export function isSameOccurrence(left: Appointment, right: Appointment): boolean {
+  return (
+    left.seriesId !== undefined &&
+    left.seriesId === right.seriesId &&
+    left.occurrenceDate === right.occurrenceDate
+  );
+}
+
+/**
+ * Weekdays a rule repeats on, for a series starting at the given time
+ */
+function getRuleWeekdays(rule: RecurrenceRule, firstStart: Date): DayOfWeek[] {
+  if (rule.byDay && rule.byDay.length > 0) return rule.byDay;
+  return [getClinicWeekday(firstStart)];
+}
+
+/**
+ * Check a rule for values the expansion can't handle
+ * @param firstStart - Start of the first occurrence, which must match the rule
+ * @returns A description of the problem, or null if the rule is valid
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule, firstStart?: Date): string | null {
+  if (rule.frequency !== 'daily' && rule.frequency !== 'weekly') {
+    return 'Repeat must be daily or weekly';
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > RECURRENCE_LIMITS.maxInterval) {
+    return `Interval must be a whole number from 1 to ${RECURRENCE_LIMITS.maxInterval}`;
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > RECURRENCE_LIMITS.maxCount)) {
+    return `Number of occurrences must be from 1 to ${RECURRENCE_LIMITS.maxCount}`;
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    return 'End after a number of occurrences or on a date, not both';
+  }
+  if (rule.until !== undefined && isNaN(new Date(rule.until).getTime())) {
+    return 'End date is invalid';
+  }
+  if (rule.byDay?.some((day) => !WEEKDAYS.includes(day))) {
+    return 'Unknown weekday';
+  }
+  if (rule.frequency === 'daily' && rule.byDay && rule.byDay.length > 0) {
+    return 'Weekdays can only be chosen for weekly series';
+  }
+
+  if (firstStart) {
+    if (rule.until !== undefined && new Date(rule.until) < firstStart) {
+      return 'End date is before the first occurrence';
+    }
+    const firstDay = getClinicWeekday(firstStart);
+    if (!getRuleWeekdays(rule, firstStart).includes(firstDay)) {
+      return 'The first occurrence must fall on one of the repeat days';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse an RRULE value (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10")
+ *
+ * Only the supported subset is accepted; anything else (other frequencies,
+ * BYMONTH, BYSETPOS...) returns null rather than being silently ignored.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined) return null;
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY') return null;
+
+  const rule: RecurrenceRule = {
+    frequency: frequency === 'DAILY' ? 'daily' : 'weekly',
+    interval: parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1,
+  };
+
+  for (const key of Array.from(parts.keys())) {
+    const partValue = parts.get(key)!;
+    switch (key) {
+      case 'FREQ':
+      case 'INTERVAL':
+      case 'WKST':
+        break;
+      case 'COUNT':
+        rule.count = Number(partValue);
+        break;
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(partValue);
+        if (!match) return null;
+        const [, year, month, day, hour, minute, second] = match;
+        // A date-only UNTIL includes the whole clinic day
+        rule.until = hour === undefined
+          ? new Date(zonedDateTime(Number(year), Number(month), Number(day) + 1).getTime() - 1).toISOString()
+          : new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))).toISOString();
+        break;
+      }
+      case 'BYDAY': {
+        const days = partValue.split(',').map((code) => WEEKDAYS.find((day) => WEEKDAY_CODES[day] === code));
+        if (days.some((day) => day === undefined)) return null;
+        rule.byDay = days as DayOfWeek[];
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return validateRecurrenceRule(rule) ? null : rule;
+}
+
+/**
+ * Format a rule as an RRULE value
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${new Date(rule.until).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Human-readable summary of a rule (e.g. "Every 2 weeks on Mon, Thu, 10 times")
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const labels = FREQUENCY_LABELS[rule.frequency];
+  let description = rule.interval === 1 ? labels.single : `Every ${rule.interval} ${labels.plural}`;
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    const ordered = WEEKDAYS.filter((day) => rule.byDay!.includes(day));
+    description += ` on ${ordered.map((day) => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(', ')}`;
+  }
+  if (rule.count !== undefined) {
+    description += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  } else if (rule.until !== undefined) {
+    description += `, until ${formatClinicTime(new Date(rule.until), 'MMM d, yyyy')}`;
+  }
+  return description;
+}
+
+/**
+ * One step of the expansion: an occurrence's clinic date and start
+ */
+interface OccurrenceTime {
+  occurrenceDate: string;
+  start: Date;
+}
+
+/**
+ * Walk the occurrences of a series in order, exceptions included
+ *
+ * Stops after `count` occurrences, after `until`, or once `visit` returns
+ * false. Skips whole periods before `from` when the rule has no count,
+ * so endless series stay cheap to query far from their start.
+ */
+function forEachOccurrence(
+  series: AppointmentSeries,
+  visit: (occurrence: OccurrenceTime) => boolean,
+  from?: Date
+): void {
+  const { rule } = series;
+  const firstStart = new Date(series.startTime);
+  const first = getZonedDateParts(firstStart);
+  const until = rule.until ? new Date(rule.until) : undefined;
+
+  // Day offsets (from the first occurrence's day) repeated every period
+  const periodDays = rule.frequency === 'daily' ? rule.interval : rule.interval * 7;
+  const offsetsInPeriod = rule.frequency === 'daily'
+    ? [0]
+    : getRuleWeekdays(rule, firstStart)
+        .map((day) => (DAYS_BY_INDEX.indexOf(day) + 6) % 7 - (first.weekday + 6) % 7)
+        .sort((a, b) => a - b);
+
+  let period = 0;
+  if (from && rule.count === undefined) {
+    const fromParts = getZonedDateParts(from);
+    const daysToFrom = (Date.UTC(fromParts.year, fromParts.month - 1, fromParts.day) - Date.UTC(first.year, first.month - 1, first.day)) / DAY_MS;
+    period = Math.max(0, Math.floor(daysToFrom / periodDays) - 1);
+  }
+
+  for (let visited = 0; ; period++) {
+    for (const offset of offsetsInPeriod) {
+      const dayOffset = period * periodDays + offset;
+      if (dayOffset < 0) continue; // Weekdays before the first occurrence in its week
+
+      const start = zonedDateTime(first.year, first.month, first.day + dayOffset, first.hour, first.minute);
+      if (until && start > until) return;
+      if (rule.count !== undefined && visited >= rule.count) return;
+      visited++;
+
+      const occurrenceDate = new Date(Date.UTC(first.year, first.month - 1, first.day + dayOffset)).toISOString().slice(0, 10);
+      if (!visit({ occurrenceDate, start })) return;
+    }
+  }
+}
+
+/**
+ * Build the appointment for one occurrence of a series
+ */
+function toOccurrence(series: AppointmentSeries, { occurrenceDate, start }: OccurrenceTime): Appointment {
+  const duration = new Date(series.endTime).getTime() - new Date(series.startTime).getTime();
+  return {
+    id: getOccurrenceId(series.id, occurrenceDate),
+    patientId: series.patientId,
+    doctorId: series.doctorId,
+    type: series.type,
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + duration).toISOString(),
+    notes: series.notes,
+    status: 'scheduled',
+    seriesId: series.id,
+    occurrenceDate,
+  };
+}
+
+/**
+ * Generated occurrences of a series starting within a range (both ends inclusive),
+ * leaving out exception dates
+ */
+export function expandSeries(series: AppointmentSeries, rangeStart: Date, rangeEnd: Date): Appointment[] {
+  const occurrences: Appointment[] = [];
+  if (new Date(series.startTime) > rangeEnd) return occurrences;
+
+  forEachOccurrence(
+    series,
+    (occurrence) => {
+      if (occurrence.start > rangeEnd) return false;
+      if (occurrence.start >= rangeStart && !series.exceptionDates.includes(occurrence.occurrenceDate)) {
+        occurrences.push(toOccurrence(series, occurrence));
+      }
+      return true;
+    },
+    rangeStart
+  );
+
+  return occurrences;
+}
+
+/**
+ * The generated occurrence of a series on a clinic date
+ * @returns undefined if the rule has no occurrence that day or it's an exception
+ */
+export function getSeriesOccurrence(series: AppointmentSeries, occurrenceDate: string): Appointment | undefined {
+  let found: Appointment | undefined;
+
+  forEachOccurrence(series, (occurrence) => {
+    if (occurrence.occurrenceDate > occurrenceDate) return false;
+    if (occurrence.occurrenceDate === occurrenceDate && !series.exceptionDates.includes(occurrenceDate)) {
+      found = toOccurrence(series, occurrence);
+    }
+    return !found;
+  });
+
+  return found;
+}
+
+/**
+ * Number of occurrences (exceptions included) before a clinic date,
+ * used to split a counted series in two
+ */
+export function countOccurrencesBefore(series: AppointmentSeries, occurrenceDate: string): number {
+  let count = 0;
+  forEachOccurrence(series, (occurrence) => {
+    if (occurrence.occurrenceDate >= occurrenceDate) return false;
+    count++;
+    return true;
+  });
+  return count;
+}
+
+/**
+ * The part of a series before a clinic date (exceptions after it dropped)
+ *
+ * Used to end a series when the following occurrences are changed or removed.
+ */
+export function endSeriesBefore(series: AppointmentSeries, occurrenceDate: string): AppointmentSeries {
+  const until = new Date(parseClinicDateKey(occurrenceDate).getTime() - 1);
+
+  return {
+    ...series,
+    rule: { ...series.rule, count: undefined, until: until.toISOString() },
+    exceptionDates: series.exceptionDates.filter((date) => date < occurrenceDate),
+  };
+}
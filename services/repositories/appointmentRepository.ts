@@ -0,0 +1,221 @@
+/**
+ * Appointment Repository
+ *
+ * Storage abstraction used by AppointmentService. Adapters implement this
+ * interface for a specific backend (in-memory, localStorage, HTTP); the
+ * service and everything above it only ever see the interface.
+ */
+
+import type {
+  Appointment,
+  AppointmentFilters,
+  AppointmentSeries,
+  Doctor,
+  FreedSlot,
+  OutboxFilters,
+  OutboxMessage,
+  Patient,
+  ScheduleException,
+  WaitlistEntry,
+} from '@/types';
+import type { AppointmentSearchHit } from '../appointmentSearch';
+import { endOfClinicDay, startOfClinicDay } from '../clinicTime';
+
+/**
+ * Seed data for repositories that hold their own state
+ */
+export interface RepositorySeed {
+  doctors: Doctor[];
+  patients: Patient[];
+  appointments: Appointment[];
+  series?: AppointmentSeries[];
+  scheduleExceptions?: ScheduleException[];
+  waitlist?: WaitlistEntry[];
+  freedSlots?: FreedSlot[];
+  outbox?: OutboxMessage[];
+}
+
+/**
+ * AppointmentRepository interface
+ *
+ * All methods are async so network-backed adapters fit the same contract.
+ */
+export interface AppointmentRepository {
+  /**
+   * Whether the backend queues patient messages itself as appointments
+   * change (the API does). The service then leaves the outbox alone: a
+   * client may only see masked contact details, and mustn't choose who
+   * gets messaged or what they say.
+   */
+  readonly queuesNotifications: boolean;
+
+  /**
+   * Whether the backend records the slots freed by cancellations and moves
+   * itself (the API does), so every session sees the same waitlist offers.
+   * The service then only reads and dismisses them.
+   */
+  readonly recordsFreedSlots: boolean;
+
+  /**
+   * Whether updateAppointment and deleteAppointment take the IDs of
+   * generated series occurrences (the API's do). The backend then stores
+   * the edit, leaves the date out of the series and queues messages and
+   * freed slots for it, like any other change.
+   */
+  readonly editsOccurrences: boolean;
+
+  getDoctors(): Promise<Doctor[]>;
+  getDoctorById(id: string): Promise<Doctor | undefined>;
+
+  getPatients(): Promise<Patient[]>;
+  getPatientById(id: string): Promise<Patient | undefined>;
+
+  getAppointments(filters?: AppointmentFilters): Promise<Appointment[]>;
+  getAppointmentById(id: string): Promise<Appointment | undefined>;
+
+  /**
+   * Search appointments on the backend, best match first, for backends that
+   * rank hits themselves (the API does). Without it the service fetches
+   * every appointment and ranks them locally.
+   */
+  searchAppointments?(query: string, limit: number): Promise<AppointmentSearchHit[]>;
+
+  /**
+   * Store a new appointment; the repository assigns its ID
+   *
+   * With `notify: false`, a repository that queues messages itself books
+   * without messaging the patient.
+   */
+  createAppointment(appointment: Omit<Appointment, 'id'>, options?: { notify?: boolean }): Promise<Appointment>;
+
+  /**
+   * Replace a stored appointment (matched by ID)
+   */
+  updateAppointment(appointment: Appointment): Promise<Appointment>;
+
+  deleteAppointment(id: string): Promise<void>;
+
+  /**
+   * Recurring series, optionally only those of one doctor
+   */
+  getSeries(doctorId?: string): Promise<AppointmentSeries[]>;
+  getSeriesById(id: string): Promise<AppointmentSeries | undefined>;
+
+  /**
+   * Store a new series; the repository assigns its ID
+   */
+  createSeries(series: Omit<AppointmentSeries, 'id'>): Promise<AppointmentSeries>;
+
+  /**
+   * Replace a stored series (matched by ID)
+   */
+  updateSeries(series: AppointmentSeries): Promise<AppointmentSeries>;
+
+  deleteSeries(id: string): Promise<void>;
+
+  /**
+   * Dated exceptions to working hours, optionally only those of one doctor
+   */
+  getScheduleExceptions(doctorId?: string): Promise<ScheduleException[]>;
+  getScheduleExceptionById(id: string): Promise<ScheduleException | undefined>;
+
+  /**
+   * Store a new schedule exception; the repository assigns its ID
+   */
+  createScheduleException(exception: Omit<ScheduleException, 'id'>): Promise<ScheduleException>;
+
+  deleteScheduleException(id: string): Promise<void>;
+
+  /**
+   * Waitlist entries, waiting and booked
+   */
+  getWaitlistEntries(): Promise<WaitlistEntry[]>;
+  getWaitlistEntryById(id: string): Promise<WaitlistEntry | undefined>;
+
+  /**
+   * Store a new waitlist entry; the repository assigns its ID
+   */
+  createWaitlistEntry(entry: Omit<WaitlistEntry, 'id'>): Promise<WaitlistEntry>;
+
+  /**
+   * Replace a stored waitlist entry (matched by ID)
+   */
+  updateWaitlistEntry(entry: WaitlistEntry): Promise<WaitlistEntry>;
+
+  deleteWaitlistEntry(id: string): Promise<void>;
+
+  /**
+   * Slots freed for waitlist offers, of any doctor
+   */
+  getFreedSlots(): Promise<FreedSlot[]>;
+
+  /**
+   * Store a new freed slot; the repository assigns its ID. Only called when
+   * the repository doesn't record slots itself.
+   */
+  createFreedSlot(slot: Omit<FreedSlot, 'id'>): Promise<FreedSlot>;
+
+  /**
+   * Replace a stored freed slot (matched by ID). Only called when the
+   * repository doesn't record slots itself.
+   */
+  updateFreedSlot(slot: FreedSlot): Promise<FreedSlot>;
+
+  deleteFreedSlot(id: string): Promise<void>;
+
+  /**
+   * Notification outbox, optionally only one appointment's messages or one status
+   */
+  getOutboxMessages(filters?: OutboxFilters): Promise<OutboxMessage[]>;
+  getOutboxMessageById(id: string): Promise<OutboxMessage | undefined>;
+
+  /**
+   * Store a new outbox message; the repository assigns its ID. Only called
+   * when the repository doesn't queue messages itself.
+   */
+  createOutboxMessage(message: Omit<OutboxMessage, 'id'>): Promise<OutboxMessage>;
+
+  /**
+   * Replace a stored outbox message (matched by ID)
+   */
+  updateOutboxMessage(message: OutboxMessage): Promise<OutboxMessage>;
+}
+
+/**
+ * Check whether an appointment matches every set field of a filter
+ *
+ * `date` matches appointments starting on that day in the clinic's time
+ * zone; `startDate` and `endDate` are inclusive bounds on the start time.
+ * `type` and `status` lists match any of their values, and the duration
+ * bounds are inclusive minutes.
+ */
+export function matchesAppointmentFilters(
+  appointment: Appointment,
+  filters: AppointmentFilters = {}
+): boolean {
+  const { doctorId, patientId, date, startDate, endDate, type, status, minDuration, maxDuration, seriesId } = filters;
+  const appointmentStart = new Date(appointment.startTime);
+  const types = type === undefined ? [] : [type].flat();
+  const statuses = status === undefined ? [] : [status].flat();
+
+  if (doctorId && appointment.doctorId !== doctorId) return false;
+  if (patientId && appointment.patientId !== patientId) return false;
+  if (types.length > 0 && !types.includes(appointment.type)) return false;
+  if (statuses.length > 0 && !statuses.includes(appointment.status)) return false;
+  if (seriesId && appointment.seriesId !== seriesId) return false;
+
+  if (date) {
+    if (appointmentStart < startOfClinicDay(date) || appointmentStart > endOfClinicDay(date)) return false;
+  }
+
+  if (startDate && appointmentStart < startDate) return false;
+  if (endDate && appointmentStart > endDate) return false;
+
+  if (minDuration !== undefined || maxDuration !== undefined) {
+    const duration = (new Date(appointment.endTime).getTime() - appointmentStart.getTime()) / 60000;
+    if (minDuration !== undefined && duration < minDuration) return false;
+    if (maxDuration !== undefined && duration > maxDuration) return false;
+  }
+
+  return true;
+}
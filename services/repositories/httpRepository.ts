@@ -0,0 +1,355 @@
+/**
+ * HTTP Appointment Repository
+ *
+ * Talks to the REST API under /api. Error responses use the shape
+ * `{ error: { code, message, conflicts? } }` and are turned back into
+ * the matching service error classes, so callers handle them the same
+ * way regardless of adapter.
+ */
+
+import type {
+  Appointment,
+  AppointmentFilters,
+  AppointmentSeries,
+  Doctor,
+  FreedSlot,
+  OutboxFilters,
+  OutboxMessage,
+  Patient,
+  ScheduleException,
+  WaitlistEntry,
+} from '@/types';
+import {
+  AccessDeniedError,
+  AppointmentNotFoundError,
+  AppointmentValidationError,
+  AuthenticationRequiredError,
+  FreedSlotNotFoundError,
+  RepositoryError,
+  ScheduleExceptionNotFoundError,
+  SeriesNotFoundError,
+  WaitlistEntryNotFoundError,
+  isAppointmentValidationCode,
+} from '../errors';
+import type { AppointmentSearchHit } from '../appointmentSearch';
+import type { AppointmentRepository } from './appointmentRepository';
+
+/**
+ * Error payload returned by the API
+ */
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    conflicts?: Appointment[];       // For 'overlap' validation errors
+    fields?: Record<string, string>; // For 'invalid-request': field name → problem
+  };
+}
+
+/**
+ * Serialize appointment filters as URL search params (dates as ISO strings)
+ */
+export function filtersToSearchParams(filters: AppointmentFilters = {}): URLSearchParams {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      // Lists go as one comma-separated param; an empty list filters nothing
+      if (value.length > 0) params.set(key, value.join(','));
+      return;
+    }
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  });
+
+  return params;
+}
+
+/**
+ * Rebuild a service error from an API error response
+ */
+export function toError(body: unknown, status: number): Error {
+  const error = (body as Partial<ApiErrorBody> | null)?.error;
+  if (!error) {
+    return new RepositoryError(`Request failed with status ${status}`);
+  }
+
+  if (isAppointmentValidationCode(error.code)) {
+    return new AppointmentValidationError(error.code, error.message, error.conflicts ?? []);
+  }
+  if (error.code === 'access-denied') {
+    return new AccessDeniedError(error.message);
+  }
+  if (error.code === 'unauthenticated') {
+    return new AuthenticationRequiredError(error.message);
+  }
+
+  const fieldErrors = Object.entries(error.fields ?? {}).map(([field, problem]) => `${field}: ${problem}`);
+  return new RepositoryError(
+    fieldErrors.length > 0 ? `${error.message} (${fieldErrors.join('; ')})` : error.message
+  );
+}
+
+/**
+ * HttpAppointmentRepository class
+ */
+export class HttpAppointmentRepository implements AppointmentRepository {
+  readonly queuesNotifications = true;
+  readonly recordsFreedSlots = true;
+  readonly editsOccurrences = true;
+  private readonly baseUrl: string;
+  private readonly getHeaders: () => Record<string, string>;
+
+  /**
+   * @param getHeaders - Extra headers for every request (e.g. the signed-in session)
+   */
+  constructor(baseUrl: string = '/api', getHeaders: () => Record<string, string> = () => ({})) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.getHeaders = getHeaders;
+  }
+
+  async getDoctors(): Promise<Doctor[]> {
+    return this.request<Doctor[]>('/doctors');
+  }
+
+  async getDoctorById(id: string): Promise<Doctor | undefined> {
+    return this.requestOptional<Doctor>(`/doctors/${encodeURIComponent(id)}`);
+  }
+
+  async getPatients(): Promise<Patient[]> {
+    return this.request<Patient[]>('/patients');
+  }
+
+  async getPatientById(id: string): Promise<Patient | undefined> {
+    return this.requestOptional<Patient>(`/patients/${encodeURIComponent(id)}`);
+  }
+
+  async getAppointments(filters?: AppointmentFilters): Promise<Appointment[]> {
+    const query = filtersToSearchParams(filters).toString();
+    return this.request<Appointment[]>(`/appointments${query ? `?${query}` : ''}`);
+  }
+
+  async getAppointmentById(id: string): Promise<Appointment | undefined> {
+    return this.requestOptional<Appointment>(`/appointments/${encodeURIComponent(id)}`);
+  }
+
+  async searchAppointments(query: string, limit: number): Promise<AppointmentSearchHit[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    return this.request<AppointmentSearchHit[]>(`/appointments/search?${params}`);
+  }
+
+  async createAppointment(appointment: Omit<Appointment, 'id'>, options?: { notify?: boolean }): Promise<Appointment> {
+    return this.request<Appointment>(`/appointments${options?.notify === false ? '?notify=false' : ''}`, {
+      method: 'POST',
+      body: JSON.stringify(appointment),
+    });
+  }
+
+  async updateAppointment(appointment: Appointment): Promise<Appointment> {
+    const updated = await this.requestOptional<Appointment>(
+      `/appointments/${encodeURIComponent(appointment.id)}`,
+      { method: 'PUT', body: JSON.stringify(appointment) }
+    );
+    if (!updated) {
+      throw new AppointmentNotFoundError(appointment.id);
+    }
+    return updated;
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    const response = await this.send(`/appointments/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (response.status === 404) {
+      throw new AppointmentNotFoundError(id);
+    }
+    if (!response.ok) {
+      throw toError(await this.readJson(response), response.status);
+    }
+  }
+
+  async getSeries(doctorId?: string): Promise<AppointmentSeries[]> {
+    const query = doctorId ? `?${new URLSearchParams({ doctorId })}` : '';
+    return this.request<AppointmentSeries[]>(`/series${query}`);
+  }
+
+  async getSeriesById(id: string): Promise<AppointmentSeries | undefined> {
+    return this.requestOptional<AppointmentSeries>(`/series/${encodeURIComponent(id)}`);
+  }
+
+  async createSeries(series: Omit<AppointmentSeries, 'id'>): Promise<AppointmentSeries> {
+    return this.request<AppointmentSeries>('/series', {
+      method: 'POST',
+      body: JSON.stringify(series),
+    });
+  }
+
+  async updateSeries(series: AppointmentSeries): Promise<AppointmentSeries> {
+    const updated = await this.requestOptional<AppointmentSeries>(
+      `/series/${encodeURIComponent(series.id)}`,
+      { method: 'PUT', body: JSON.stringify(series) }
+    );
+    if (!updated) {
+      throw new SeriesNotFoundError(series.id);
+    }
+    return updated;
+  }
+
+  async deleteSeries(id: string): Promise<void> {
+    const response = await this.send(`/series/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (response.status === 404) {
+      throw new SeriesNotFoundError(id);
+    }
+    if (!response.ok) {
+      throw toError(await this.readJson(response), response.status);
+    }
+  }
+
+  async getScheduleExceptions(doctorId?: string): Promise<ScheduleException[]> {
+    const query = doctorId ? `?${new URLSearchParams({ doctorId })}` : '';
+    return this.request<ScheduleException[]>(`/schedule-exceptions${query}`);
+  }
+
+  async getScheduleExceptionById(id: string): Promise<ScheduleException | undefined> {
+    return this.requestOptional<ScheduleException>(`/schedule-exceptions/${encodeURIComponent(id)}`);
+  }
+
+  async createScheduleException(exception: Omit<ScheduleException, 'id'>): Promise<ScheduleException> {
+    return this.request<ScheduleException>('/schedule-exceptions', {
+      method: 'POST',
+      body: JSON.stringify(exception),
+    });
+  }
+
+  async deleteScheduleException(id: string): Promise<void> {
+    const response = await this.send(`/schedule-exceptions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (response.status === 404) {
+      throw new ScheduleExceptionNotFoundError(id);
+    }
+    if (!response.ok) {
+      throw toError(await this.readJson(response), response.status);
+    }
+  }
+
+  async getWaitlistEntries(): Promise<WaitlistEntry[]> {
+    return this.request<WaitlistEntry[]>('/waitlist?status=all');
+  }
+
+  async getWaitlistEntryById(id: string): Promise<WaitlistEntry | undefined> {
+    return this.requestOptional<WaitlistEntry>(`/waitlist/${encodeURIComponent(id)}`);
+  }
+
+  async createWaitlistEntry(entry: Omit<WaitlistEntry, 'id'>): Promise<WaitlistEntry> {
+    return this.request<WaitlistEntry>('/waitlist', {
+      method: 'POST',
+      body: JSON.stringify(entry),
+    });
+  }
+
+  async updateWaitlistEntry(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const updated = await this.requestOptional<WaitlistEntry>(
+      `/waitlist/${encodeURIComponent(entry.id)}`,
+      { method: 'PUT', body: JSON.stringify(entry) }
+    );
+    if (!updated) {
+      throw new WaitlistEntryNotFoundError(entry.id);
+    }
+    return updated;
+  }
+
+  async deleteWaitlistEntry(id: string): Promise<void> {
+    const response = await this.send(`/waitlist/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (response.status === 404) {
+      throw new WaitlistEntryNotFoundError(id);
+    }
+    if (!response.ok) {
+      throw toError(await this.readJson(response), response.status);
+    }
+  }
+
+  async getFreedSlots(): Promise<FreedSlot[]> {
+    return this.request<FreedSlot[]>('/waitlist/freed-slots');
+  }
+
+  // The API records and trims freed slots itself (see recordsFreedSlots)
+  async createFreedSlot(): Promise<FreedSlot> {
+    throw new RepositoryError('Freed slots are recorded by the API');
+  }
+
+  async updateFreedSlot(): Promise<FreedSlot> {
+    throw new RepositoryError('Freed slots are updated by the API');
+  }
+
+  async deleteFreedSlot(id: string): Promise<void> {
+    const response = await this.send(`/waitlist/freed-slots/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (response.status === 404) {
+      throw new FreedSlotNotFoundError(id);
+    }
+    if (!response.ok) {
+      throw toError(await this.readJson(response), response.status);
+    }
+  }
+
+  async getOutboxMessages(filters: OutboxFilters = {}): Promise<OutboxMessage[]> {
+    const query = new URLSearchParams(
+      Object.entries(filters).filter((entry): entry is [string, string] => Boolean(entry[1]))
+    ).toString();
+    return this.request<OutboxMessage[]>(`/notifications${query ? `?${query}` : ''}`);
+  }
+
+  async getOutboxMessageById(id: string): Promise<OutboxMessage | undefined> {
+    return this.requestOptional<OutboxMessage>(`/notifications/${encodeURIComponent(id)}`);
+  }
+
+  // The API queues and delivers messages itself (see queuesNotifications)
+  async createOutboxMessage(): Promise<OutboxMessage> {
+    throw new RepositoryError('Outbox messages are queued by the API');
+  }
+
+  async updateOutboxMessage(): Promise<OutboxMessage> {
+    throw new RepositoryError('Outbox messages are updated by the API');
+  }
+
+  /**
+   * Request a resource, treating 404 as "not found" rather than an error
+   */
+  private async requestOptional<T>(path: string, init?: RequestInit): Promise<T | undefined> {
+    const response = await this.send(path, init);
+    if (response.status === 404) return undefined;
+    return this.parse<T>(response);
+  }
+
+  /**
+   * Request a resource that must exist
+   */
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    return this.parse<T>(await this.send(path, init));
+  }
+
+  private async send(path: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...this.getHeaders(), ...init?.headers },
+      });
+    } catch (err) {
+      throw new RepositoryError(
+        `Network error: ${err instanceof Error ? err.message : 'request failed'}`
+      );
+    }
+  }
+
+  private async parse<T>(response: Response): Promise<T> {
+    const body = await this.readJson(response);
+    if (!response.ok) {
+      throw toError(body, response.status);
+    }
+    return body as T;
+  }
+
+  private async readJson(response: Response): Promise<unknown> {
+    try {
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * In-Memory Appointment Repository
+ *
+ * Keeps all data in plain arrays. Seeded from data/mockData.ts by default;
+ * pass a custom seed to run the service against fixtures.
+ */
+
+import type {
+  Appointment,
+  AppointmentFilters,
+  AppointmentSeries,
+  Doctor,
+  FreedSlot,
+  OutboxFilters,
+  OutboxMessage,
+  Patient,
+  ScheduleException,
+  WaitlistEntry,
+} from '@/types';
+import {
+  MOCK_APPOINTMENTS,
+  MOCK_DOCTORS,
+  MOCK_PATIENTS,
+  MOCK_SCHEDULE_EXCEPTIONS,
+  MOCK_SERIES,
+  MOCK_WAITLIST,
+} from '@/data/mockData';
+import {
+  AppointmentNotFoundError,
+  FreedSlotNotFoundError,
+  OutboxMessageNotFoundError,
+  ScheduleExceptionNotFoundError,
+  SeriesNotFoundError,
+  WaitlistEntryNotFoundError,
+} from '../errors';
+import {
+  matchesAppointmentFilters,
+  type AppointmentRepository,
+  type RepositorySeed,
+} from './appointmentRepository';
+
+/**
+ * Default seed: the provided mock data
+ */
+export const MOCK_SEED: RepositorySeed = {
+  doctors: MOCK_DOCTORS,
+  patients: MOCK_PATIENTS,
+  appointments: MOCK_APPOINTMENTS,
+  series: MOCK_SERIES,
+  scheduleExceptions: MOCK_SCHEDULE_EXCEPTIONS,
+  waitlist: MOCK_WAITLIST,
+};
+
+/**
+ * Next sequential ID with a prefix (e.g. apt-56), after the highest one in use
+ */
+function generateId(prefix: string, items: { id: string }[]): string {
+  const maxId = items.reduce((max, item) => {
+    const numericId = Number(item.id.replace(`${prefix}-`, ''));
+    return isNaN(numericId) ? max : Math.max(max, numericId);
+  }, 0);
+  return `${prefix}-${maxId + 1}`;
+}
+
+/**
+ * InMemoryAppointmentRepository class
+ */
+export class InMemoryAppointmentRepository implements AppointmentRepository {
+  readonly queuesNotifications = false;
+  readonly recordsFreedSlots = false;
+  readonly editsOccurrences = false;
+  protected doctors: Doctor[];
+  protected patients: Patient[];
+  protected appointments: Appointment[];
+  protected series: AppointmentSeries[];
+  protected scheduleExceptions: ScheduleException[];
+  protected waitlist: WaitlistEntry[];
+  protected freedSlots: FreedSlot[];
+  protected outbox: OutboxMessage[];
+
+  constructor(seed: RepositorySeed = MOCK_SEED) {
+    this.doctors = [...seed.doctors];
+    this.patients = [...seed.patients];
+    this.appointments = [...seed.appointments];
+    this.series = [...(seed.series ?? [])];
+    this.scheduleExceptions = [...(seed.scheduleExceptions ?? [])];
+    this.waitlist = [...(seed.waitlist ?? [])];
+    this.freedSlots = [...(seed.freedSlots ?? [])];
+    this.outbox = [...(seed.outbox ?? [])];
+  }
+
+  async getDoctors(): Promise<Doctor[]> {
+    return this.doctors;
+  }
+
+  async getDoctorById(id: string): Promise<Doctor | undefined> {
+    return this.doctors.find((doctor) => doctor.id === id);
+  }
+
+  async getPatients(): Promise<Patient[]> {
+    return this.patients;
+  }
+
+  async getPatientById(id: string): Promise<Patient | undefined> {
+    return this.patients.find((patient) => patient.id === id);
+  }
+
+  async getAppointments(filters?: AppointmentFilters): Promise<Appointment[]> {
+    return this.appointments.filter((appointment) => matchesAppointmentFilters(appointment, filters));
+  }
+
+  async getAppointmentById(id: string): Promise<Appointment | undefined> {
+    return this.appointments.find((appointment) => appointment.id === id);
+  }
+
+  async createAppointment(appointment: Omit<Appointment, 'id'>): Promise<Appointment> {
+    const created: Appointment = { ...appointment, id: this.generateAppointmentId() };
+    this.appointments = [...this.appointments, created];
+    return created;
+  }
+
+  async updateAppointment(appointment: Appointment): Promise<Appointment> {
+    if (!this.appointments.some((existing) => existing.id === appointment.id)) {
+      throw new AppointmentNotFoundError(appointment.id);
+    }
+
+    this.appointments = this.appointments.map((existing) =>
+      existing.id === appointment.id ? appointment : existing
+    );
+    return appointment;
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    if (!this.appointments.some((appointment) => appointment.id === id)) {
+      throw new AppointmentNotFoundError(id);
+    }
+
+    this.appointments = this.appointments.filter((appointment) => appointment.id !== id);
+  }
+
+  async getSeries(doctorId?: string): Promise<AppointmentSeries[]> {
+    return doctorId ? this.series.filter((series) => series.doctorId === doctorId) : this.series;
+  }
+
+  async getSeriesById(id: string): Promise<AppointmentSeries | undefined> {
+    return this.series.find((series) => series.id === id);
+  }
+
+  async createSeries(series: Omit<AppointmentSeries, 'id'>): Promise<AppointmentSeries> {
+    const created: AppointmentSeries = { ...series, id: generateId('ser', this.series) };
+    this.series = [...this.series, created];
+    return created;
+  }
+
+  async updateSeries(series: AppointmentSeries): Promise<AppointmentSeries> {
+    if (!this.series.some((existing) => existing.id === series.id)) {
+      throw new SeriesNotFoundError(series.id);
+    }
+
+    this.series = this.series.map((existing) => (existing.id === series.id ? series : existing));
+    return series;
+  }
+
+  async deleteSeries(id: string): Promise<void> {
+    if (!this.series.some((series) => series.id === id)) {
+      throw new SeriesNotFoundError(id);
+    }
+
+    this.series = this.series.filter((series) => series.id !== id);
+  }
+
+  async getScheduleExceptions(doctorId?: string): Promise<ScheduleException[]> {
+    return doctorId
+      ? this.scheduleExceptions.filter((exception) => exception.doctorId === doctorId)
+      : this.scheduleExceptions;
+  }
+
+  async getScheduleExceptionById(id: string): Promise<ScheduleException | undefined> {
+    return this.scheduleExceptions.find((exception) => exception.id === id);
+  }
+
+  async createScheduleException(exception: Omit<ScheduleException, 'id'>): Promise<ScheduleException> {
+    const created: ScheduleException = { ...exception, id: generateId('exc', this.scheduleExceptions) };
+    this.scheduleExceptions = [...this.scheduleExceptions, created];
+    return created;
+  }
+
+  async deleteScheduleException(id: string): Promise<void> {
+    if (!this.scheduleExceptions.some((exception) => exception.id === id)) {
+      throw new ScheduleExceptionNotFoundError(id);
+    }
+
+    this.scheduleExceptions = this.scheduleExceptions.filter((exception) => exception.id !== id);
+  }
+
+  async getWaitlistEntries(): Promise<WaitlistEntry[]> {
+    return this.waitlist;
+  }
+
+  async getWaitlistEntryById(id: string): Promise<WaitlistEntry | undefined> {
+    return this.waitlist.find((entry) => entry.id === id);
+  }
+
+  async createWaitlistEntry(entry: Omit<WaitlistEntry, 'id'>): Promise<WaitlistEntry> {
+    const created: WaitlistEntry = { ...entry, id: generateId('wl', this.waitlist) };
+    this.waitlist = [...this.waitlist, created];
+    return created;
+  }
+
+  async updateWaitlistEntry(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    if (!this.waitlist.some((existing) => existing.id === entry.id)) {
+      throw new WaitlistEntryNotFoundError(entry.id);
+    }
+
+    this.waitlist = this.waitlist.map((existing) => (existing.id === entry.id ? entry : existing));
+    return entry;
+  }
+
+  async deleteWaitlistEntry(id: string): Promise<void> {
+    if (!this.waitlist.some((entry) => entry.id === id)) {
+      throw new WaitlistEntryNotFoundError(id);
+    }
+
+    this.waitlist = this.waitlist.filter((entry) => entry.id !== id);
+  }
+
+  async getFreedSlots(): Promise<FreedSlot[]> {
+    return this.freedSlots;
+  }
+
+  async createFreedSlot(slot: Omit<FreedSlot, 'id'>): Promise<FreedSlot> {
+    const created: FreedSlot = { ...slot, id: generateId('slot', this.freedSlots) };
+    this.freedSlots = [...this.freedSlots, created];
+    return created;
+  }
+
+  async updateFreedSlot(slot: FreedSlot): Promise<FreedSlot> {
+    if (!this.freedSlots.some((existing) => existing.id === slot.id)) {
+      throw new FreedSlotNotFoundError(slot.id);
+    }
+
+    this.freedSlots = this.freedSlots.map((existing) => (existing.id === slot.id ? slot : existing));
+    return slot;
+  }
+
+  async deleteFreedSlot(id: string): Promise<void> {
+    if (!this.freedSlots.some((slot) => slot.id === id)) {
+      throw new FreedSlotNotFoundError(id);
+    }
+
+    this.freedSlots = this.freedSlots.filter((slot) => slot.id !== id);
+  }
+
+  async getOutboxMessages(filters: OutboxFilters = {}): Promise<OutboxMessage[]> {
+    return this.outbox.filter(
+      (message) =>
+        (!filters.appointmentId || message.appointmentId === filters.appointmentId) &&
+        (!filters.status || message.status === filters.status)
+    );
+  }
+
+  async getOutboxMessageById(id: string): Promise<OutboxMessage | undefined> {
+    return this.outbox.find((message) => message.id === id);
+  }
+
+  async createOutboxMessage(message: Omit<OutboxMessage, 'id'>): Promise<OutboxMessage> {
+    const created: OutboxMessage = { ...message, id: generateId('msg', this.outbox) };
+    this.outbox = [...this.outbox, created];
+    return created;
+  }
+
+  async updateOutboxMessage(message: OutboxMessage): Promise<OutboxMessage> {
+    if (!this.outbox.some((existing) => existing.id === message.id)) {
+      throw new OutboxMessageNotFoundError(message.id);
+    }
+
+    this.outbox = this.outbox.map((existing) => (existing.id === message.id ? message : existing));
+    return message;
+  }
+
+  /**
+   * Generate the next sequential appointment ID (apt-N)
+   */
+  protected generateAppointmentId(): string {
+    return generateId('apt', this.appointments);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Repository adapters
+ *
+ * `createRepository` picks the adapter named by the
+ * NEXT_PUBLIC_APPOINTMENT_REPOSITORY environment variable
+ * ('memory' | 'local-storage' | 'http', default 'http', which talks
+ * to the routes under app/api).
+ */
+
+import type { AppointmentRepository } from './appointmentRepository';
+import { InMemoryAppointmentRepository } from './inMemoryRepository';
+import { LocalStorageAppointmentRepository } from './localStorageRepository';
+import { HttpAppointmentRepository } from './httpRepository';
+import { loadSession, sessionToHeaders } from '../session';
+
+export type { AppointmentRepository, RepositorySeed } from './appointmentRepository';
+export { matchesAppointmentFilters } from './appointmentRepository';
+export { InMemoryAppointmentRepository, MOCK_SEED } from './inMemoryRepository';
+export { LocalStorageAppointmentRepository } from './localStorageRepository';
+export { HttpAppointmentRepository, filtersToSearchParams } from './httpRepository';
+export type { ApiErrorBody } from './httpRepository';
+
+export type RepositoryKind = 'memory' | 'local-storage' | 'http';
+
+/**
+ * Create a repository adapter
+ */
+export function createRepository(
+  kind: RepositoryKind = (process.env.NEXT_PUBLIC_APPOINTMENT_REPOSITORY as RepositoryKind) || 'http'
+): AppointmentRepository {
+  switch (kind) {
+    case 'local-storage':
+      return new LocalStorageAppointmentRepository();
+    case 'memory':
+      return new InMemoryAppointmentRepository();
+    case 'http':
+    default:
+      // Send the signed-in session so the API can apply the same role rules
+      return new HttpAppointmentRepository(process.env.NEXT_PUBLIC_API_BASE_URL || '/api', () =>
+        sessionToHeaders(loadSession())
+      );
+  }
+}
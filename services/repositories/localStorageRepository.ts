@@ -0,0 +1,226 @@
+/**
+ * localStorage Appointment Repository
+ *
+ * In-memory repository whose appointments, recurring series, schedule
+ * exceptions, waitlist, freed slots and notification outbox are persisted to the
+ * browser's localStorage, so bookings survive a reload. Doctors and patients always
+ * come from the seed. Falls back to plain in-memory storage when
+ * localStorage isn't available (e.g. during server rendering).
+ */
+
+import type {
+  Appointment,
+  AppointmentSeries,
+  FreedSlot,
+  OutboxMessage,
+  ScheduleException,
+  WaitlistEntry,
+} from '@/types';
+import { RepositoryError } from '../errors';
+import { getStorage } from '../session';
+import type { RepositorySeed } from './appointmentRepository';
+import { InMemoryAppointmentRepository, MOCK_SEED } from './inMemoryRepository';
+
+const DEFAULT_STORAGE_KEY = 'hospital-scheduler:appointments';
+
+/**
+ * LocalStorageAppointmentRepository class
+ */
+export class LocalStorageAppointmentRepository extends InMemoryAppointmentRepository {
+  private readonly storageKey: string;
+
+  constructor(seed: RepositorySeed = MOCK_SEED, storageKey: string = DEFAULT_STORAGE_KEY) {
+    super(seed);
+    this.storageKey = storageKey;
+
+    const stored = this.load<Appointment>(this.storageKey);
+    if (stored) {
+      this.appointments = stored;
+    }
+
+    const storedSeries = this.load<AppointmentSeries>(this.seriesStorageKey);
+    if (storedSeries) {
+      this.series = storedSeries;
+    }
+
+    const storedExceptions = this.load<ScheduleException>(this.exceptionsStorageKey);
+    if (storedExceptions) {
+      this.scheduleExceptions = storedExceptions;
+    }
+
+    const storedWaitlist = this.load<WaitlistEntry>(this.waitlistStorageKey);
+    if (storedWaitlist) {
+      this.waitlist = storedWaitlist;
+    }
+
+    const storedFreedSlots = this.load<FreedSlot>(this.freedSlotsStorageKey);
+    if (storedFreedSlots) {
+      this.freedSlots = storedFreedSlots;
+    }
+
+    const storedOutbox = this.load<OutboxMessage>(this.outboxStorageKey);
+    if (storedOutbox) {
+      this.outbox = storedOutbox;
+    }
+  }
+
+  /**
+   * Key the series are stored under, next to the appointments
+   */
+  private get seriesStorageKey(): string {
+    return `${this.storageKey}:series`;
+  }
+
+  /**
+   * Key the schedule exceptions are stored under
+   */
+  private get exceptionsStorageKey(): string {
+    return `${this.storageKey}:exceptions`;
+  }
+
+  /**
+   * Key the waitlist is stored under
+   */
+  private get waitlistStorageKey(): string {
+    return `${this.storageKey}:waitlist`;
+  }
+
+  /**
+   * Key the freed slots are stored under
+   */
+  private get freedSlotsStorageKey(): string {
+    return `${this.storageKey}:freed-slots`;
+  }
+
+  /**
+   * Key the notification outbox is stored under
+   */
+  private get outboxStorageKey(): string {
+    return `${this.storageKey}:outbox`;
+  }
+
+  async createAppointment(appointment: Omit<Appointment, 'id'>): Promise<Appointment> {
+    const created = await super.createAppointment(appointment);
+    this.save();
+    return created;
+  }
+
+  async updateAppointment(appointment: Appointment): Promise<Appointment> {
+    const updated = await super.updateAppointment(appointment);
+    this.save();
+    return updated;
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    await super.deleteAppointment(id);
+    this.save();
+  }
+
+  async createSeries(series: Omit<AppointmentSeries, 'id'>): Promise<AppointmentSeries> {
+    const created = await super.createSeries(series);
+    this.save();
+    return created;
+  }
+
+  async updateSeries(series: AppointmentSeries): Promise<AppointmentSeries> {
+    const updated = await super.updateSeries(series);
+    this.save();
+    return updated;
+  }
+
+  async deleteSeries(id: string): Promise<void> {
+    await super.deleteSeries(id);
+    this.save();
+  }
+
+  async createScheduleException(exception: Omit<ScheduleException, 'id'>): Promise<ScheduleException> {
+    const created = await super.createScheduleException(exception);
+    this.save();
+    return created;
+  }
+
+  async deleteScheduleException(id: string): Promise<void> {
+    await super.deleteScheduleException(id);
+    this.save();
+  }
+
+  async createWaitlistEntry(entry: Omit<WaitlistEntry, 'id'>): Promise<WaitlistEntry> {
+    const created = await super.createWaitlistEntry(entry);
+    this.save();
+    return created;
+  }
+
+  async updateWaitlistEntry(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const updated = await super.updateWaitlistEntry(entry);
+    this.save();
+    return updated;
+  }
+
+  async deleteWaitlistEntry(id: string): Promise<void> {
+    await super.deleteWaitlistEntry(id);
+    this.save();
+  }
+
+  async createFreedSlot(slot: Omit<FreedSlot, 'id'>): Promise<FreedSlot> {
+    const created = await super.createFreedSlot(slot);
+    this.save();
+    return created;
+  }
+
+  async updateFreedSlot(slot: FreedSlot): Promise<FreedSlot> {
+    const updated = await super.updateFreedSlot(slot);
+    this.save();
+    return updated;
+  }
+
+  async deleteFreedSlot(id: string): Promise<void> {
+    await super.deleteFreedSlot(id);
+    this.save();
+  }
+
+  async createOutboxMessage(message: Omit<OutboxMessage, 'id'>): Promise<OutboxMessage> {
+    const created = await super.createOutboxMessage(message);
+    this.save();
+    return created;
+  }
+
+  async updateOutboxMessage(message: OutboxMessage): Promise<OutboxMessage> {
+    const updated = await super.updateOutboxMessage(message);
+    this.save();
+    return updated;
+  }
+
+  /**
+   * Read a persisted list, ignoring missing or corrupt data
+   */
+  private load<T>(key: string): T[] | null {
+    const raw = getStorage()?.getItem(key);
+    if (!raw) return null;
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as T[]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Persist the current appointments, series, schedule exceptions, waitlist,
+   * freed slots and outbox
+   */
+  private save(): void {
+    try {
+      getStorage()?.setItem(this.storageKey, JSON.stringify(this.appointments));
+      getStorage()?.setItem(this.seriesStorageKey, JSON.stringify(this.series));
+      getStorage()?.setItem(this.exceptionsStorageKey, JSON.stringify(this.scheduleExceptions));
+      getStorage()?.setItem(this.waitlistStorageKey, JSON.stringify(this.waitlist));
+      getStorage()?.setItem(this.freedSlotsStorageKey, JSON.stringify(this.freedSlots));
+      getStorage()?.setItem(this.outboxStorageKey, JSON.stringify(this.outbox));
+    } catch (err) {
+      throw new RepositoryError(
+        `Failed to save appointments: ${err instanceof Error ? err.message : 'unknown error'}`
+      );
+    }
+  }
+}
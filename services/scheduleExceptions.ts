@@ -0,0 +1,194 @@
+/**
+ * Schedule Exceptions
+ *
+ * Pure helpers for dated exceptions to a doctor's weekly working hours:
+ * full-day absences, partial blocks (e.g. a lunch break) and extra sessions
+ * (e.g. a one-off Saturday clinic). They work out the periods a doctor is
+ * actually working on a given clinic day, which booking validation,
+ * availability search and grid shading all share.
+ *
+ * Exception days are clinic dates ("YYYY-MM-DD") and times are clinic
+ * wall-clock times, like the weekly hours they're layered over.
+ */
+
+import type { ScheduleException, ScheduleExceptionKind, WorkingHours } from '@/types';
+import { formatClinicTime, getClinicDateKey, getClinicMinutesOfDay, isSameClinicDay, parseClinicDateKey } from './clinicTime';
+
+/**
+ * Display labels for each kind of exception
+ */
+export const SCHEDULE_EXCEPTION_KIND_LABELS: Record<ScheduleExceptionKind, string> = {
+  absence: 'Time off',
+  block: 'Break',
+  extra: 'Extra session',
+};
+
+/**
+ * Longest span a single exception may cover
+ */
+export const MAX_EXCEPTION_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Convert a "HH:MM" string into minutes since midnight
+ */
+export function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight into a "HH:MM" string
+ */
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Whether an exception applies on a clinic date
+ */
+function appliesOn(exception: ScheduleException, dateKey: string): boolean {
+  return exception.startDate <= dateKey && dateKey <= exception.endDate;
+}
+
+/**
+ * Exceptions of a doctor that apply on the clinic day of a date
+ */
+export function getExceptionsOnDate(
+  exceptions: ScheduleException[],
+  doctorId: string,
+  date: Date
+): ScheduleException[] {
+  const dateKey = getClinicDateKey(date);
+  return exceptions.filter((exception) => exception.doctorId === doctorId && appliesOn(exception, dateKey));
+}
+
+/**
+ * Periods a doctor works on one day, earliest first
+ *
+ * Starts from the weekly hours, adds extra sessions (merging any that
+ * touch or overlap), then cuts out blocks. An absence clears the day.
+ * @param weeklyHours - The doctor's weekly hours for that weekday, if any
+ * @param dayExceptions - The doctor's exceptions that apply on that day
+ */
+export function getWorkingPeriods(
+  weeklyHours: WorkingHours | undefined,
+  dayExceptions: ScheduleException[]
+): WorkingHours[] {
+  if (dayExceptions.some((exception) => exception.kind === 'absence')) return [];
+
+  const toRange = (hours: { start?: string; end?: string }) => ({
+    start: parseTimeToMinutes(hours.start ?? '00:00'),
+    end: parseTimeToMinutes(hours.end ?? '00:00'),
+  });
+
+  // Weekly hours plus extra sessions, merged into disjoint ranges
+  const sorted = [
+    ...(weeklyHours ? [toRange(weeklyHours)] : []),
+    ...dayExceptions.filter((exception) => exception.kind === 'extra').map(toRange),
+  ].sort((a, b) => a.start - b.start);
+
+  let periods: { start: number; end: number }[] = [];
+  sorted.forEach((range) => {
+    const last = periods[periods.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else periods.push({ ...range });
+  });
+
+  // Cut each block out of the periods it overlaps
+  dayExceptions
+    .filter((exception) => exception.kind === 'block')
+    .map(toRange)
+    .forEach((block) => {
+      periods = periods.flatMap((period) => {
+        if (block.end <= period.start || block.start >= period.end) return [period];
+        return [
+          { start: period.start, end: block.start },
+          { start: block.end, end: period.end },
+        ].filter((part) => part.end > part.start);
+      });
+    });
+
+  return periods.map((period) => ({ start: formatMinutes(period.start), end: formatMinutes(period.end) }));
+}
+
+/**
+ * Check whether a time range falls entirely within one of a day's working periods
+ * (read on the clinic's wall clock)
+ */
+export function isWithinPeriods(periods: WorkingHours[], start: Date, end: Date): boolean {
+  // Appointments may not run past midnight
+  if (!isSameClinicDay(start, end)) return false;
+
+  const startMinutes = getClinicMinutesOfDay(start);
+  const endMinutes = getClinicMinutesOfDay(end);
+  return periods.some(
+    (period) => startMinutes >= parseTimeToMinutes(period.start) && endMinutes <= parseTimeToMinutes(period.end)
+  );
+}
+
+/**
+ * Whether an exception takes away time that overlaps a time range
+ * (extra sessions never do)
+ */
+export function exceptionRemovesTime(exception: ScheduleException, start: Date, end: Date): boolean {
+  if (exception.kind === 'extra' || !appliesOn(exception, getClinicDateKey(start))) return false;
+  if (exception.kind === 'absence') return true;
+
+  const startMinutes = getClinicMinutesOfDay(start);
+  const endMinutes = isSameClinicDay(start, end) ? getClinicMinutesOfDay(end) : 24 * 60;
+  return startMinutes < parseTimeToMinutes(exception.end!) && endMinutes > parseTimeToMinutes(exception.start!);
+}
+
+/**
+ * Check an exception for values the schedule can't handle
+ * @returns A description of the problem, or null if the exception is valid
+ */
+export function validateScheduleException(exception: Omit<ScheduleException, 'id'>): string | null {
+  if (!(exception.kind in SCHEDULE_EXCEPTION_KIND_LABELS)) {
+    return 'Kind must be absence, block or extra';
+  }
+  if (!DATE_PATTERN.test(exception.startDate) || isNaN(new Date(exception.startDate).getTime())) {
+    return 'Start date is invalid';
+  }
+  if (!DATE_PATTERN.test(exception.endDate) || isNaN(new Date(exception.endDate).getTime())) {
+    return 'End date is invalid';
+  }
+  if (exception.endDate < exception.startDate) {
+    return 'End date is before the start date';
+  }
+
+  const days = (new Date(exception.endDate).getTime() - new Date(exception.startDate).getTime()) / (24 * 60 * 60 * 1000);
+  if (days >= MAX_EXCEPTION_DAYS) {
+    return `An exception can cover at most ${MAX_EXCEPTION_DAYS} days`;
+  }
+
+  if (exception.kind === 'absence') {
+    if (exception.start !== undefined || exception.end !== undefined) {
+      return 'Time off covers whole days; leave out the times';
+    }
+    return null;
+  }
+
+  if (!exception.start || !TIME_PATTERN.test(exception.start) || !exception.end || !TIME_PATTERN.test(exception.end)) {
+    return 'Start and end times must be HH:MM';
+  }
+  if (parseTimeToMinutes(exception.end) <= parseTimeToMinutes(exception.start)) {
+    return 'End time must be after the start time';
+  }
+  return null;
+}
+
+/**
+ * Human-readable summary of an exception (e.g. "Break, Oct 20, 2025 - Oct 24, 2025, 12:00-13:00")
+ */
+export function describeScheduleException(exception: ScheduleException): string {
+  const formatDate = (dateKey: string) => formatClinicTime(parseClinicDateKey(dateKey), 'MMM d, yyyy');
+
+  let description = `${SCHEDULE_EXCEPTION_KIND_LABELS[exception.kind]}, ${formatDate(exception.startDate)}`;
+  if (exception.endDate !== exception.startDate) description += ` - ${formatDate(exception.endDate)}`;
+  if (exception.start && exception.end) description += `, ${exception.start}-${exception.end}`;
+  return description;
+}
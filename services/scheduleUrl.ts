@@ -0,0 +1,147 @@
+/**
+ * Schedule URL
+ *
+ * Pure encoding of the schedule page state (doctor, date, view, search,
+ * filters and the patient being booked for) to and from URL search params,
+ * so refreshes keep the current view and links can be shared.
+ */
+
+import { isValid, parse } from 'date-fns';
+import type { AppointmentStatus, AppointmentType, CalendarView } from '@/types';
+import { APPOINTMENT_STATUS_CONFIG, APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { DURATION_RANGES, EMPTY_FILTER_SELECTION, type AppointmentFilterSelection, type DurationRange } from './appointmentFilters';
+import { formatClinicTime, zonedDateTime } from './clinicTime';
+
+/**
+ * Schedule page state carried in the URL
+ */
+export interface ScheduleUrlState {
+  doctorId: string;
+  date: Date | null;      // null when the URL has no date (i.e. today)
+  view: CalendarView;
+  query: string;          // Free-text appointment search
+  showCancelled: boolean;
+  filters: AppointmentFilterSelection;
+  bookForPatientId: string; // Patient new bookings are for, e.g. when coming from their page
+}
+
+/**
+ * Search param names
+ */
+export const SCHEDULE_PARAMS = {
+  doctorId: 'doctor',
+  date: 'date',
+  view: 'view',
+  query: 'q',
+  showCancelled: 'cancelled',
+  types: 'type',
+  statuses: 'status',
+  duration: 'duration',
+  bookForPatientId: 'book',
+} as const;
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const CALENDAR_VIEWS: CalendarView[] = ['day', 'week', 'month', 'resource'];
+
+/**
+ * State used for params missing from the URL
+ */
+export const DEFAULT_SCHEDULE_STATE: ScheduleUrlState = {
+  doctorId: '',
+  date: null,
+  view: 'day',
+  query: '',
+  showCancelled: true,
+  filters: EMPTY_FILTER_SELECTION,
+  bookForPatientId: '',
+};
+
+/**
+ * Parse a comma-separated list param, keeping only known values
+ */
+function parseListParam<T extends string>(value: string | null, known: readonly T[]): T[] {
+  if (!value) return [];
+  return value.split(',').filter((item): item is T => known.includes(item as T));
+}
+
+/**
+ * Parse the filter bar params; missing or unknown values filter nothing
+ */
+function parseFilterParams(params: URLSearchParams): AppointmentFilterSelection {
+  const duration = params.get(SCHEDULE_PARAMS.duration);
+
+  return {
+    types: parseListParam(params.get(SCHEDULE_PARAMS.types), Object.keys(APPOINTMENT_TYPE_CONFIG) as AppointmentType[]),
+    statuses: parseListParam(params.get(SCHEDULE_PARAMS.statuses), Object.keys(APPOINTMENT_STATUS_CONFIG) as AppointmentStatus[]),
+    duration: duration && duration in DURATION_RANGES ? (duration as DurationRange) : '',
+  };
+}
+
+/**
+ * Parse a "yyyy-MM-dd" date param as the start of that clinic day
+ * @returns The date, or null if the param is missing or malformed
+ */
+export function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? zonedDateTime(date.getFullYear(), date.getMonth() + 1, date.getDate()) : null;
+}
+
+/**
+ * Format a date as a "yyyy-MM-dd" param (its clinic day)
+ */
+export function formatDateParam(date: Date): string {
+  return formatClinicTime(date, DATE_FORMAT);
+}
+
+/**
+ * Read schedule state from URL search params
+ *
+ * Unknown or malformed values fall back to `defaults`.
+ */
+export function parseScheduleParams(
+  params: URLSearchParams,
+  defaults: ScheduleUrlState = DEFAULT_SCHEDULE_STATE
+): ScheduleUrlState {
+  const view = params.get(SCHEDULE_PARAMS.view) as CalendarView | null;
+
+  return {
+    doctorId: params.get(SCHEDULE_PARAMS.doctorId) ?? defaults.doctorId,
+    date: parseDateParam(params.get(SCHEDULE_PARAMS.date)) ?? defaults.date,
+    view: view && CALENDAR_VIEWS.includes(view) ? view : defaults.view,
+    query: params.get(SCHEDULE_PARAMS.query) ?? defaults.query,
+    showCancelled: params.get(SCHEDULE_PARAMS.showCancelled) === 'hide' ? false : defaults.showCancelled,
+    filters: parseFilterParams(params),
+    bookForPatientId: params.get(SCHEDULE_PARAMS.bookForPatientId) ?? defaults.bookForPatientId,
+  };
+}
+
+/**
+ * Write schedule state as URL search params
+ *
+ * Values equal to the defaults are left out to keep links short.
+ */
+export function buildScheduleParams(state: ScheduleUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (state.doctorId) params.set(SCHEDULE_PARAMS.doctorId, state.doctorId);
+  if (state.date) params.set(SCHEDULE_PARAMS.date, formatDateParam(state.date));
+  if (state.view !== DEFAULT_SCHEDULE_STATE.view) params.set(SCHEDULE_PARAMS.view, state.view);
+  if (state.query) params.set(SCHEDULE_PARAMS.query, state.query);
+  if (!state.showCancelled) params.set(SCHEDULE_PARAMS.showCancelled, 'hide');
+  if (state.filters.types.length > 0) params.set(SCHEDULE_PARAMS.types, state.filters.types.join(','));
+  if (state.filters.statuses.length > 0) params.set(SCHEDULE_PARAMS.statuses, state.filters.statuses.join(','));
+  if (state.filters.duration) params.set(SCHEDULE_PARAMS.duration, state.filters.duration);
+  if (state.bookForPatientId) params.set(SCHEDULE_PARAMS.bookForPatientId, state.bookForPatientId);
+
+  return params;
+}
+
+/**
+ * Link to the schedule page showing the given state
+ */
+export function getScheduleHref(state: Partial<ScheduleUrlState>): string {
+  const search = buildScheduleParams({ ...DEFAULT_SCHEDULE_STATE, ...state }).toString();
+  return search ? `/schedule?${search}` : '/schedule';
+}
@@ -0,0 +1,162 @@
+/**
+ * Session
+ *
+ * Local stand-in for authentication. The signed-in user is kept in the
+ * browser's localStorage and sent to the API as request headers; the
+ * role rules below are enforced by AppointmentService on both sides.
+ */
+
+import type { Patient, Session, UserRole } from '@/types';
+
+const STORAGE_KEY = 'hospital-scheduler:session';
+
+/**
+ * Request headers carrying the session to the API
+ */
+export const SESSION_HEADERS = {
+  name: 'x-session-name',
+  role: 'x-session-role',
+  doctorId: 'x-session-doctor-id',
+} as const;
+
+/**
+ * Role display labels
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  'front-desk': 'Front desk',
+  'doctor': 'Doctor',
+};
+
+/**
+ * Check that a value is a well-formed session
+ * (doctor sessions must name the doctor they belong to)
+ */
+export function isSession(value: unknown): value is Session {
+  if (!value || typeof value !== 'object') return false;
+  const session = value as Partial<Session>;
+
+  if (typeof session.name !== 'string' || !session.name) return false;
+  if (session.role === 'front-desk') return true;
+  return session.role === 'doctor' && typeof session.doctorId === 'string' && session.doctorId !== '';
+}
+
+/**
+ * Get localStorage if this environment has it
+ */
+export function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Access can throw when storage is disabled
+    return null;
+  }
+}
+
+/**
+ * Read the stored session, if any
+ */
+export function loadSession(): Session | null {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isSession(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the session, or clear it when signing out
+ */
+export function saveSession(session: Session | null): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  if (session) storage.setItem(STORAGE_KEY, JSON.stringify(session));
+  else storage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Encode a session as API request headers
+ */
+export function sessionToHeaders(session: Session | null): Record<string, string> {
+  if (!session) return {};
+
+  const headers: Record<string, string> = {
+    [SESSION_HEADERS.name]: encodeURIComponent(session.name),
+    [SESSION_HEADERS.role]: session.role,
+  };
+  if (session.doctorId) headers[SESSION_HEADERS.doctorId] = session.doctorId;
+  return headers;
+}
+
+/**
+ * Decode a session from API request headers
+ * @returns The session, or null if the headers are missing or malformed
+ */
+export function sessionFromHeaders(headers: Headers): Session | null {
+  const name = headers.get(SESSION_HEADERS.name);
+  const session = {
+    name: name ? decodeURIComponent(name) : '',
+    role: headers.get(SESSION_HEADERS.role),
+    doctorId: headers.get(SESSION_HEADERS.doctorId) ?? undefined,
+  };
+  return isSession(session) ? session : null;
+}
+
+/**
+ * Check whether a session may read or change a doctor's schedule
+ *
+ * No session means trusted internal use (scripts, server-side seeding).
+ */
+export function canAccessDoctor(session: Session | null, doctorId: string): boolean {
+  return !session || session.role !== 'doctor' || session.doctorId === doctorId;
+}
+
+/**
+ * Check whether a session may see patients' email and phone
+ *
+ * Contacting patients is the front desk's job; doctors see masked details.
+ */
+export function canViewPatientContact(session: Session | null): boolean {
+  return !session || session.role === 'front-desk';
+}
+
+/**
+ * Check whether calendar exports for a session may carry patient names
+ *
+ * Doctors export into their own calendar apps; front desk exports end up
+ * in shared calendars, so their events show the appointment type only.
+ */
+export function canExportPatientNames(session: Session | null): boolean {
+  return !session || session.role === 'doctor';
+}
+
+/**
+ * Hide most of an email address
+ */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return domain ? `${local.charAt(0)}•••@${domain}` : '•••';
+}
+
+/**
+ * Hide all but the last four digits of a phone number
+ */
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 4 ? `•••-•••-${digits.slice(-4)}` : '•••';
+}
+
+/**
+ * Hide most of a patient's email and phone number
+ */
+export function maskPatientContact(patient: Patient): Patient {
+  return {
+    ...patient,
+    email: maskEmail(patient.email),
+    phone: maskPhone(patient.phone),
+  };
+}
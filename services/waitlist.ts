@@ -0,0 +1,134 @@
+/**
+ * Waitlist
+ *
+ * Pure helpers for the waitlist: checking an entry, working out whether a
+ * freed slot suits it, ranking the candidates for a slot and counting the
+ * demand on each clinic day for the grid badges.
+ *
+ * Entry dates are clinic dates ("YYYY-MM-DD"), like schedule exceptions.
+ */
+
+import type { Doctor, WaitlistEntry, WaitlistPriority } from '@/types';
+import { APPOINTMENT_TYPE_CONFIG } from '@/types';
+import { addClinicDays, getClinicDateKey, parseClinicDateKey } from './clinicTime';
+
+/**
+ * Ordering of priorities; higher ranks are offered slots first
+ */
+export const WAITLIST_PRIORITY_RANK: Record<WaitlistPriority, number> = {
+  urgent: 3,
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+/**
+ * Longest date window an entry may cover
+ */
+export const MAX_WAITLIST_WINDOW_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check the fields of a waitlist entry
+ * @returns A description of the first problem, or null if the entry is valid
+ */
+export function validateWaitlistEntry(
+  entry: Pick<WaitlistEntry, 'earliestDate' | 'latestDate' | 'type' | 'priority'>
+): string | null {
+  if (!DATE_PATTERN.test(entry.earliestDate) || !DATE_PATTERN.test(entry.latestDate)) {
+    return 'Dates must be YYYY-MM-DD';
+  }
+  if (entry.latestDate < entry.earliestDate) {
+    return 'Latest date must not be before the earliest date';
+  }
+
+  const windowEnd = getClinicDateKey(addClinicDays(parseClinicDateKey(entry.earliestDate), MAX_WAITLIST_WINDOW_DAYS));
+  if (entry.latestDate > windowEnd) {
+    return `A waitlist entry can cover at most ${MAX_WAITLIST_WINDOW_DAYS} days`;
+  }
+
+  if (!(entry.type in APPOINTMENT_TYPE_CONFIG)) return `Unknown appointment type ${entry.type}`;
+  if (!(entry.priority in WAITLIST_PRIORITY_RANK)) return `Unknown priority ${entry.priority}`;
+  return null;
+}
+
+/**
+ * Check whether an entry would take an appointment with a doctor
+ *
+ * A named doctor must match; otherwise the specialty must, if one was given.
+ */
+export function entryWantsDoctor(entry: WaitlistEntry, doctor: Doctor): boolean {
+  if (entry.doctorId) return entry.doctorId === doctor.id;
+  return !entry.specialty || entry.specialty === doctor.specialty;
+}
+
+/**
+ * Check whether a clinic date falls within an entry's window
+ */
+export function entryCoversDate(entry: WaitlistEntry, dateKey: string): boolean {
+  return entry.earliestDate <= dateKey && dateKey <= entry.latestDate;
+}
+
+/**
+ * Length of the appointment an entry is waiting for, in minutes
+ */
+export function getWaitlistDuration(entry: WaitlistEntry): number {
+  return APPOINTMENT_TYPE_CONFIG[entry.type].defaultDuration;
+}
+
+/**
+ * Check whether a free slot suits a waiting entry: the right doctor, a day
+ * in the entry's window and long enough for the appointment type
+ */
+export function entryFitsSlot(entry: WaitlistEntry, doctor: Doctor, start: Date, end: Date): boolean {
+  return (
+    entry.status === 'waiting' &&
+    entryWantsDoctor(entry, doctor) &&
+    entryCoversDate(entry, getClinicDateKey(start)) &&
+    (end.getTime() - start.getTime()) / 60000 >= getWaitlistDuration(entry)
+  );
+}
+
+/**
+ * Order waiting entries for a slot: higher priority first, then patients who
+ * asked for this doctor by name, then whoever has waited longest, then the
+ * entry whose window closes soonest
+ */
+export function compareWaitlistEntries(a: WaitlistEntry, b: WaitlistEntry): number {
+  return (
+    WAITLIST_PRIORITY_RANK[b.priority] - WAITLIST_PRIORITY_RANK[a.priority] ||
+    Number(Boolean(b.doctorId)) - Number(Boolean(a.doctorId)) ||
+    a.createdAt.localeCompare(b.createdAt) ||
+    a.latestDate.localeCompare(b.latestDate)
+  );
+}
+
+/**
+ * Count the waiting entries that would take a slot with a doctor on each
+ * clinic day from `startKey` to `endKey`
+ * @returns Entry counts keyed by clinic date; days without demand are left out
+ */
+export function getWaitlistDemandByDay(
+  entries: WaitlistEntry[],
+  doctor: Doctor | null,
+  startKey: string,
+  endKey: string
+): Record<string, number> {
+  const demand: Record<string, number> = {};
+  const waiting = entries.filter(
+    (entry) =>
+      entry.status === 'waiting' &&
+      (!doctor || entryWantsDoctor(entry, doctor)) &&
+      entry.earliestDate <= endKey &&
+      entry.latestDate >= startKey
+  );
+  if (waiting.length === 0) return demand;
+
+  for (let date = parseClinicDateKey(startKey); getClinicDateKey(date) <= endKey; date = addClinicDays(date, 1)) {
+    const key = getClinicDateKey(date);
+    const count = waiting.filter((entry) => entryCoversDate(entry, key)).length;
+    if (count > 0) demand[key] = count;
+  }
+  return demand;
+}
@@ -38,6 +38,77 @@ export interface WorkingHours {
  */
 export type WeeklySchedule = Partial<Record<DayOfWeek, WorkingHours>>;
 
+/**
+ * Kind of dated change to a doctor's weekly schedule
+ * - absence: not working at all on those days (vacation, conference)
+ * - block: not working for part of those days (lunch break, meeting)
+ * - extra: working in addition to the weekly hours (one-off Saturday clinic)
+ */
+export type ScheduleExceptionKind = 'absence' | 'block' | 'extra';
+
+/**
+ * Dated exception layered over a doctor's weekly working hours
+ *
+ * Applies on every clinic day from `startDate` to `endDate`. Blocks and
+ * extra sessions cover `start`-`end` on each of those days; absences
+ * cover the whole day and take precedence over extra sessions.
+ */
+export interface ScheduleException {
+  id: string;
+  doctorId: string;
+  kind: ScheduleExceptionKind;
+  startDate: string;  // Clinic date ("YYYY-MM-DD") of the first day
+  endDate: string;    // Clinic date of the last day (inclusive)
+  start?: string;     // "HH:MM"; blocks and extra sessions only
+  end?: string;       // "HH:MM"
+  reason?: string;
+}
+
+/**
+ * How urgently a waitlisted patient needs to be seen
+ */
+export type WaitlistPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/**
+ * Waitlist entry state
+ * - waiting: still looking for a slot
+ * - booked: an offered slot was accepted (see `appointmentId`)
+ */
+export type WaitlistEntryStatus = 'waiting' | 'booked';
+
+/**
+ * Patient waiting for an earlier or cancelled slot
+ *
+ * Wants a doctor in particular (`doctorId`), any doctor of a specialty
+ * (`specialty`), or any doctor when neither is set. Slots are offered on
+ * clinic days from `earliestDate` to `latestDate`.
+ */
+export interface WaitlistEntry {
+  id: string;
+  patientId: string;
+  doctorId?: string;
+  specialty?: Specialty;
+  type: AppointmentType;
+  earliestDate: string; // Clinic date ("YYYY-MM-DD")
+  latestDate: string;   // Clinic date, inclusive
+  priority: WaitlistPriority;
+  status: WaitlistEntryStatus;
+  createdAt: string;    // ISO datetime; earlier entries go first at equal priority
+  notes?: string;
+  appointmentId?: string; // Appointment booked from an offer
+}
+
+/**
+ * Time a cancelled, moved or deleted appointment used to occupy, offered to
+ * the waitlist until it's booked, dismissed or past
+ */
+export interface FreedSlot {
+  id: string;
+  doctorId: string;
+  startTime: string; // ISO datetime
+  endTime: string;   // ISO datetime
+}
+
 /**
  * Doctor entity
  */
@@ -73,17 +144,143 @@ export interface Appointment {
   endTime: string;       // ISO datetime string
   notes?: string;
   status: AppointmentStatus;
+  seriesId?: string;        // Set for occurrences of a recurring series
+  occurrenceDate?: string;  // Clinic date ("YYYY-MM-DD") of the occurrence within its series
 }
 
 /**
  * Appointment status
+ *
+ * Lifecycle: scheduled → confirmed → checked-in → in-progress → completed,
+ * with cancelled and no-show as alternative end states.
+ * Allowed transitions are enforced by AppointmentService.
+ */
+export type AppointmentStatus =
+  | 'scheduled'
+  | 'confirmed'
+  | 'checked-in'
+  | 'in-progress'
+  | 'completed'
+  | 'cancelled'
+  | 'no-show';
+
+/**
+ * How often a recurring series repeats
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+/**
+ * Recurrence rule (a subset of iCalendar RRULE)
+ *
+ * A series without `count` or `until` repeats indefinitely.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;       // Repeat every N days or weeks
+  count?: number;         // Total number of occurrences
+  until?: string;         // ISO datetime; no occurrence starts after it
+  byDay?: DayOfWeek[];    // Weekdays of weekly series (default: the first occurrence's weekday)
+}
+
+/**
+ * Recurring appointment series
+ *
+ * Occurrences aren't stored; they're generated from the rule at the
+ * clinic wall-clock time of the first occurrence. An occurrence that was
+ * edited on its own is stored as an Appointment with the series ID and
+ * its occurrence date, and replaces the generated one.
+ */
+export interface AppointmentSeries {
+  id: string;
+  patientId: string;
+  doctorId: string;
+  type: AppointmentType;
+  startTime: string;          // ISO datetime of the first occurrence
+  endTime: string;            // ISO datetime the first occurrence ends
+  notes?: string;
+  rule: RecurrenceRule;
+  exceptionDates: string[];   // Clinic dates ("YYYY-MM-DD") of occurrences removed or edited on their own
+}
+
+/**
+ * Which occurrences of a series an edit applies to
+ */
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+/**
+ * Way a message reaches a patient
+ */
+export type NotificationChannel = 'email' | 'sms';
+
+/**
+ * What a patient message is about
+ */
+export type NotificationEvent = 'booked' | 'rescheduled' | 'cancelled' | 'reminder';
+
+/**
+ * Outbox message state
+ * - pending: waiting for its send time or for a delivery attempt
+ * - sent: handed to the transport
+ * - failed: gave up after repeated delivery failures
+ * - cancelled: replaced or no longer needed before it was sent
+ */
+export type OutboxMessageStatus = 'pending' | 'sent' | 'failed' | 'cancelled';
+
+/**
+ * One attempt to hand a message to a transport
+ */
+export interface DeliveryAttempt {
+  at: string;         // ISO datetime
+  transport: string;  // Transport name (e.g. "smtp", "file")
+  error?: string;     // Set when the attempt failed
+}
+
+/**
+ * Message to a patient in the notification outbox
+ *
+ * `key` identifies what the message says (appointment, event, channel and
+ * appointment time); while a message is pending, no other pending message
+ * of the appointment has the same key.
  */
-export type AppointmentStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
+export interface OutboxMessage {
+  id: string;
+  key: string;
+  appointmentId: string;
+  patientId: string;
+  doctorId: string;
+  channel: NotificationChannel;
+  event: NotificationEvent;
+  to: string;           // Email address or phone number
+  subject?: string;     // Email only
+  body: string;
+  sendAt: string;       // ISO datetime; not delivered before then
+  expiresAt?: string;   // ISO datetime; cancelled instead of delivered after then
+  status: OutboxMessageStatus;
+  createdAt: string;    // ISO datetime
+  sentAt?: string;      // ISO datetime
+  attempts: DeliveryAttempt[]; // Delivery log, oldest first
+}
+
+/**
+ * User role
+ * Front desk staff can see every doctor's schedule; doctors only their own.
+ */
+export type UserRole = 'front-desk' | 'doctor';
+
+/**
+ * Signed-in user
+ */
+export interface Session {
+  name: string;
+  role: UserRole;
+  doctorId?: string; // The doctor's own ID, for the doctor role
+}
 
 /**
  * View mode for the calendar
+ * ('resource' shows one day for all doctors side by side)
  */
-export type CalendarView = 'day' | 'week';
+export type CalendarView = 'day' | 'week' | 'month' | 'resource';
 
 /**
  * Time slot for calendar rendering
@@ -109,11 +306,23 @@ export interface PopulatedAppointment extends Appointment {
  */
 export interface AppointmentFilters {
   doctorId?: string;
+  patientId?: string;
   date?: Date;
   startDate?: Date;  // For week view
   endDate?: Date;    // For week view
-  type?: AppointmentType;
-  status?: AppointmentStatus;
+  type?: AppointmentType | AppointmentType[];        // Any of these types (an empty list matches all)
+  status?: AppointmentStatus | AppointmentStatus[];  // Any of these statuses (an empty list matches all)
+  minDuration?: number; // Minutes, inclusive
+  maxDuration?: number; // Minutes, inclusive
+  seriesId?: string; // Occurrences of one recurring series
+}
+
+/**
+ * Filter options for outbox messages
+ */
+export interface OutboxFilters {
+  appointmentId?: string;
+  status?: OutboxMessageStatus;
 }
 
 /**
@@ -134,6 +343,44 @@ export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
   slotDuration: 30, // 30 minutes
 };
 
+/**
+ * Clock used for times shown in the calendar
+ */
+export type TimeFormat = '12h' | '24h';
+
+/**
+ * First day of the week (0 = Sunday ... 6 = Saturday, as in date-fns)
+ */
+export type WeekStartDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Slot lengths that can be chosen in the calendar settings
+ */
+export const SLOT_DURATION_OPTIONS = [10, 15, 20, 30, 60] as const;
+
+/**
+ * Per-user calendar display settings
+ */
+export interface CalendarSettings extends CalendarConfig {
+  slotHeight: number;           // Height of each slot in pixels
+  weekStartsOn: WeekStartDay;
+  timeFormat: TimeFormat;
+  fitToWorkingHours: boolean;   // Show the doctor's working hours instead of startHour-endHour
+  showViewerTime: boolean;      // Also label times on the viewer's own clock when it differs from the clinic's
+}
+
+/**
+ * Default calendar settings
+ */
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+  ...DEFAULT_CALENDAR_CONFIG,
+  slotHeight: 70,
+  weekStartsOn: 1,  // Monday
+  timeFormat: '12h',
+  fitToWorkingHours: true,
+  showViewerTime: false,
+};
+
 /**
  * Appointment type metadata (for display)
  */
@@ -173,3 +420,102 @@ export const APPOINTMENT_TYPE_CONFIG: Record<AppointmentType, AppointmentTypeInf
     defaultDuration: 90,
   },
 };
+
+/**
+ * Appointment status metadata (for display)
+ */
+export interface AppointmentStatusInfo {
+  status: AppointmentStatus;
+  label: string;
+  color: string;          // Hex color code
+}
+
+/**
+ * Appointment status display configuration
+ */
+export const APPOINTMENT_STATUS_CONFIG: Record<AppointmentStatus, AppointmentStatusInfo> = {
+  'scheduled': {
+    status: 'scheduled',
+    label: 'Scheduled',
+    color: '#6b7280', // Gray
+  },
+  'confirmed': {
+    status: 'confirmed',
+    label: 'Confirmed',
+    color: '#2563eb', // Blue
+  },
+  'checked-in': {
+    status: 'checked-in',
+    label: 'Checked In',
+    color: '#0d9488', // Teal
+  },
+  'in-progress': {
+    status: 'in-progress',
+    label: 'In Progress',
+    color: '#d97706', // Amber
+  },
+  'completed': {
+    status: 'completed',
+    label: 'Completed',
+    color: '#059669', // Green
+  },
+  'cancelled': {
+    status: 'cancelled',
+    label: 'Cancelled',
+    color: '#dc2626', // Red
+  },
+  'no-show': {
+    status: 'no-show',
+    label: 'No-show',
+    color: '#7c3aed', // Violet
+  },
+};
+
+/**
+ * Waitlist priority display labels, most urgent first
+ */
+export const WAITLIST_PRIORITY_LABELS: Record<WaitlistPriority, string> = {
+  'urgent': 'Urgent',
+  'high': 'High',
+  'normal': 'Normal',
+  'low': 'Low',
+};
+
+/**
+ * Notification channel display labels
+ */
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  'email': 'Email',
+  'sms': 'SMS',
+};
+
+/**
+ * Notification event display labels
+ */
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  'booked': 'Booking confirmation',
+  'rescheduled': 'Reschedule notice',
+  'cancelled': 'Cancellation notice',
+  'reminder': 'Reminder',
+};
+
+/**
+ * Outbox message status display labels
+ */
+export const OUTBOX_STATUS_LABELS: Record<OutboxMessageStatus, string> = {
+  'pending': 'Pending',
+  'sent': 'Sent',
+  'failed': 'Failed',
+  'cancelled': 'Cancelled',
+};
+
+/**
+ * Specialty display labels
+ */
+export const SPECIALTY_LABELS: Record<Specialty, string> = {
+  'cardiology': 'Cardiology',
+  'pediatrics': 'Pediatrics',
+  'general-practice': 'General Practice',
+  'orthopedics': 'Orthopedics',
+  'dermatology': 'Dermatology',
+};
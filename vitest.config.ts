@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Same as the "@/*" path in tsconfig.json
+    alias: [{ find: /^@\//, replacement: fileURLToPath(new URL('./', import.meta.url)) }],
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['**/node_modules/**', '.next/**'],
+    // Pin the clinic zone so DST expectations don't depend on the environment
+    env: { NEXT_PUBLIC_CLINIC_TIME_ZONE: 'America/New_York' },
+  },
+});